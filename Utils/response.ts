@@ -1,4 +1,5 @@
 import { Response } from 'express';
+import { ErrorDetail } from './middleware/error';
 
 export type ApiResponse<T> = {
   success: boolean;
@@ -7,6 +8,7 @@ export type ApiResponse<T> = {
   data?: T;
   token?: string;
   details?: string;
+  errors?: ErrorDetail[];
 };
 
 export const sendResponse = <T>(res: Response, payload: ApiResponse<T>) => {
@@ -418,3 +418,110 @@ export const sendSubscriptionInvoiceEmail = async (
 
   await sendBrevoEmail(payload);
 };
+
+type TaskEmailItem = {
+  title: string;
+  dueDate: Date;
+  priority?: string | null;
+};
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const formatTaskDueDate = (dueDate: Date, timeZone: string) => new Intl.DateTimeFormat('en-US', {
+  timeZone,
+  dateStyle: 'medium',
+  timeStyle: 'short',
+}).format(dueDate);
+
+const renderTaskRows = (tasks: TaskEmailItem[], timeZone: string) => tasks
+  .map((task) => `
+          <p style="margin:4px 0;color:#334155;font-size:14px;">
+            <strong>${escapeHtml(task.title)}</strong> · due ${formatTaskDueDate(task.dueDate, timeZone)}${task.priority === 'high' ? ' · high priority' : ''}
+          </p>`)
+  .join('');
+
+export const sendTaskReminderEmail = async (
+  to: string,
+  name: string,
+  task: TaskEmailItem,
+  timeZone: string
+) => {
+  const { senderEmail, senderName } = getEmailConfig();
+  if (!canSendEmail()) {
+    console.warn('====> Email not sent: missing Brevo API env vars');
+    return;
+  }
+
+  const safeName = name || 'there';
+
+  const payload = JSON.stringify({
+    sender: { name: senderName, email: senderEmail },
+    to: [{ email: to, name: safeName }],
+    subject: `Reminder: ${task.title}`,
+    htmlContent: `
+    <div style="font-family: Arial, Helvetica, sans-serif; background-color: #f5f7fb; padding: 30px;">
+      <div style="max-width: 600px; margin: 0 auto; background: #ffffff; border-radius: 8px; padding: 30px;">
+        <h2 style="color: #333; margin-top: 0;">Task reminder</h2>
+        <p style="color: #555; font-size: 15px; line-height: 1.6;">
+          Hi ${escapeHtml(safeName)}, this task is coming up.
+        </p>
+        <div style="background:#f8fafc;border:1px solid #e2e8f0;border-radius:6px;padding:12px 16px;margin:16px 0;">
+          ${renderTaskRows([task], timeZone)}
+        </div>
+        <p style="color: #555; font-size: 14px;">
+          Thanks,<br/>
+          <strong>The Cliento Team</strong>
+        </p>
+      </div>
+    </div>`,
+  });
+
+  await sendBrevoEmail(payload);
+};
+
+export const sendTaskDigestEmail = async (
+  to: string,
+  name: string,
+  digest: { overdue: TaskEmailItem[]; today: TaskEmailItem[] },
+  timeZone: string
+) => {
+  const { senderEmail, senderName } = getEmailConfig();
+  if (!canSendEmail()) {
+    console.warn('====> Email not sent: missing Brevo API env vars');
+    return;
+  }
+
+  const safeName = name || 'there';
+  const section = (title: string, tasks: TaskEmailItem[]) => (tasks.length ? `
+        <h3 style="color: #333;">${title} (${tasks.length})</h3>
+        <div style="background:#f8fafc;border:1px solid #e2e8f0;border-radius:6px;padding:12px 16px;margin:16px 0;">
+          ${renderTaskRows(tasks, timeZone)}
+        </div>` : '');
+
+  const payload = JSON.stringify({
+    sender: { name: senderName, email: senderEmail },
+    to: [{ email: to, name: safeName }],
+    subject: `Your tasks for today: ${digest.today.length} due, ${digest.overdue.length} overdue`,
+    htmlContent: `
+    <div style="font-family: Arial, Helvetica, sans-serif; background-color: #f5f7fb; padding: 30px;">
+      <div style="max-width: 600px; margin: 0 auto; background: #ffffff; border-radius: 8px; padding: 30px;">
+        <h2 style="color: #333; margin-top: 0;">Your daily task digest</h2>
+        <p style="color: #555; font-size: 15px; line-height: 1.6;">
+          Hi ${escapeHtml(safeName)}, here is what needs your attention today.
+        </p>
+        ${section('Overdue', digest.overdue)}
+        ${section('Due today', digest.today)}
+        <p style="color: #555; font-size: 14px;">
+          Thanks,<br/>
+          <strong>The Cliento Team</strong>
+        </p>
+      </div>
+    </div>`,
+  });
+
+  await sendBrevoEmail(payload);
+};
@@ -17,6 +17,17 @@ import googleMailRoutes from '../src/modules/mail/google.route';
 import packageRoutes from '../src/modules/billing/package.route';
 import subscriptionRoutes from '../src/modules/subscription/subscription.route';
 import dashboardRoutes from '../src/modules/dashboard/dashboard.route';
+import trashRoutes from '../src/modules/trash/trash.route';
+import { startTrashPurgeScheduler } from '../src/modules/trash/trash.scheduler';
+import { startTaskScheduler } from '../src/modules/tasks/task.scheduler';
+import auditLogRoutes from '../src/modules/audit/audit.route';
+import customFieldRoutes from '../src/modules/custom-fields/customField.route';
+import companyRoutes from '../src/modules/companies/company.route';
+import productRoutes from '../src/modules/products/product.route';
+import teamSettingsRoutes from '../src/modules/team-settings/teamSettings.route';
+import exchangeRateRoutes from '../src/modules/exchange-rates/exchangeRate.route';
+import lostReasonRoutes from '../src/modules/lost-reasons/lostReason.route';
+import { auditContextMiddleware } from '../src/modules/audit/audit.context';
 import { stripeWebhookHandler } from '../src/modules/billing/stripeWebhook.controller';
 import { connectDB } from './config/db';
 import path from 'path';
@@ -26,6 +37,7 @@ const PORT = process.env.PORT || 8000;
 const app = express();
 app.post('/api/webhooks/stripe', express.raw({ type: 'application/json' }), stripeWebhookHandler);
 app.use(express.json());
+app.use(auditContextMiddleware);
 const allowedOrigins = new Set([
     "http://localhost:5173",
     "http://localhost:8000",
@@ -77,6 +89,14 @@ const swaggerSpec = swaggerJSDoc({
             { name: 'Mail' },
             { name: 'Packages' },
             { name: 'Subscriptions' },
+            { name: 'Trash' },
+            { name: 'Audit Logs' },
+            { name: 'Custom Fields' },
+            { name: 'Companies' },
+            { name: 'Products' },
+            { name: 'Team Settings' },
+            { name: 'Exchange Rates' },
+            { name: 'Lost Reasons' },
         ],
         servers: [
             {
@@ -101,7 +121,7 @@ app.use('/api-docs', swaggerUi.serve);
 app.get('/api-docs', swaggerUi.setup(swaggerSpec, {
     swaggerOptions: {
         tagsSorter: (a: string, b: string) => {
-            const tagOrder = ['Upload', 'Auth', 'Users', 'Tags', 'Contacts', 'Smart Lists', 'Pipelines', 'Deals', 'Tasks', 'Conversations', 'Dashboard', 'Mail', 'Packages', 'Subscriptions'];
+            const tagOrder = ['Upload', 'Auth', 'Users', 'Tags', 'Contacts', 'Smart Lists', 'Pipelines', 'Deals', 'Tasks', 'Conversations', 'Dashboard', 'Mail', 'Packages', 'Subscriptions', 'Trash', 'Audit Logs', 'Custom Fields', 'Companies', 'Products', 'Team Settings', 'Exchange Rates', 'Lost Reasons'];
             const rankA = tagOrder.indexOf(a);
             const rankB = tagOrder.indexOf(b);
             const hasRankA = rankA !== -1;
@@ -134,6 +154,14 @@ app.get('/api-docs', swaggerUi.setup(swaggerSpec, {
                 '/api/mail/google': 12,
                 '/api/packages': 13,
                 '/api/subscriptions': 14,
+                '/api/trash': 15,
+                '/api/audit-logs': 16,
+                '/api/custom-fields': 17,
+                '/api/companies': 18,
+                '/api/products': 19,
+                '/api/team-settings': 20,
+                '/api/exchange-rates': 21,
+                '/api/lost-reasons': 22,
             };
 
             const getPathRank = (path: string) => {
@@ -173,6 +201,14 @@ app.use('/api/mail/google', googleMailRoutes);
 app.use('/api/packages', packageRoutes);
 app.use('/api/subscriptions', subscriptionRoutes);
 app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/audit-logs', auditLogRoutes);
+app.use('/api/custom-fields', customFieldRoutes);
+app.use('/api/companies', companyRoutes);
+app.use('/api/products', productRoutes);
+app.use('/api/team-settings', teamSettingsRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/lost-reasons', lostReasonRoutes);
 app.get('/health-check', (_req: Request, res: Response) => {
     return res.status(200).json({
         success: true,
@@ -282,6 +318,8 @@ const startServer = async () => {
         app.listen(PORT, () => {
             console.log('====> Server running on', PORT);
         });
+        startTrashPurgeScheduler();
+        startTaskScheduler();
         const TEN_MINUTES = 10 * 60 * 1000;
         const rawPingUrl = process.env.KEEP_ALIVE_URL || 'https://cliento-server.vercel.app/health-check';
         const normalizedPingUrl = /^https?:\/\//i.test(rawPingUrl) ? rawPingUrl : `https://${rawPingUrl}`;
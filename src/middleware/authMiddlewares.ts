@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '../modules/users/user.model';
+import { setAuditActor } from '../modules/audit/audit.context';
 
 export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
   const cookieHeader = req.headers.cookie || '';
@@ -49,6 +50,7 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
       id: String(userObj._id),
       ownerId,
     };
+    setAuditActor({ id: String(userObj._id), role: userObj.role, teamId: userObj.teamId });
 
     next();
   } catch (error) {
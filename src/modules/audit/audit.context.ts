@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { NextFunction, Request, Response } from 'express';
+import { AuditContext } from './audit.interface';
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+export const getAuditContext = () => auditStorage.getStore() ?? null;
+
+/**
+ * Opens a per-request audit context so model hooks deep in the services can attribute
+ * writes to a request without threading it through every call. `authenticate` fills in the actor.
+ */
+export const auditContextMiddleware = (req: Request, _res: Response, next: NextFunction) => {
+  const userAgent = req.headers['user-agent'];
+
+  auditStorage.run({
+    actorId: null,
+    actorRole: null,
+    teamId: null,
+    request: {
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      ip: req.ip ?? null,
+      userAgent: typeof userAgent === 'string' ? userAgent.slice(0, 300) : null,
+    },
+  }, next);
+};
+
+export const setAuditActor = (actor: { id: string; role?: string | null; teamId?: number | null }) => {
+  const context = auditStorage.getStore();
+  if (!context) return;
+
+  context.actorId = actor.id;
+  context.actorRole = actor.role ?? null;
+  context.teamId = actor.teamId ?? null;
+};
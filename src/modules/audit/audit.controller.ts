@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { sendError, sendResponse } from '../../../Utils/response';
+import { listAuditLogs } from './audit.service';
+
+const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
+
+const optionalQueryDate = z.preprocess(
+  (value) => (typeof value === 'string' && value.trim() ? value.trim() : undefined),
+  z.coerce.date().optional()
+);
+
+const listAuditLogsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  resourceType: z.enum(['contact', 'contact_note', 'deal', 'pipeline', 'task', 'tag', 'user', 'package', 'company', 'product']).optional(),
+  resourceId: objectIdSchema.optional(),
+  actorId: objectIdSchema.optional(),
+  action: z.enum(['create', 'update', 'delete', 'restore', 'purge']).optional(),
+  from: optionalQueryDate,
+  to: optionalQueryDate,
+}).refine((query) => !query.from || !query.to || query.from <= query.to, {
+  message: 'from must be before to',
+  path: ['from'],
+});
+
+const getUserIdFromReq = (req: Request) => (req as any).user?.id as string | undefined;
+const getTeamIdFromReq = (req: Request) => (req as any).user?.teamId as number | null | undefined;
+
+const getQueryValue = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+export const listAuditLogsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    if (teamId === null || teamId === undefined) {
+      return sendError(res, {
+        success: false,
+        statusCode: 403,
+        message: 'You are not part of a team',
+      });
+    }
+
+    const query = listAuditLogsQuerySchema.parse({
+      page: getQueryValue(req.query.page),
+      limit: getQueryValue(req.query.limit),
+      resourceType: getQueryValue(req.query.resourceType),
+      resourceId: getQueryValue(req.query.resourceId),
+      actorId: getQueryValue(req.query.actorId),
+      action: getQueryValue(req.query.action),
+      from: getQueryValue(req.query.from),
+      to: getQueryValue(req.query.to),
+    });
+
+    const data = await listAuditLogs(Number(teamId), query);
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Audit logs fetched successfully',
+      data,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch audit logs',
+      details: (error as Error).message,
+    });
+  }
+};
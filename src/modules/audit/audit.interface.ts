@@ -0,0 +1,58 @@
+import { Document, Types } from 'mongoose';
+
+export type AuditResourceType =
+  | 'contact'
+  | 'contact_note'
+  | 'deal'
+  | 'pipeline'
+  | 'task'
+  | 'tag'
+  | 'user'
+  | 'package'
+  | 'company'
+  | 'product';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export type AuditFieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type AuditRequestMeta = {
+  method: string;
+  path: string;
+  ip?: string | null;
+  userAgent?: string | null;
+};
+
+export type AuditContext = {
+  actorId?: string | null;
+  actorRole?: string | null;
+  teamId?: number | null;
+  request?: AuditRequestMeta | null;
+};
+
+export interface IAuditLog extends Document {
+  teamId?: number | null;
+  actorId?: Types.ObjectId | null;
+  actorRole?: string | null;
+  resourceType: AuditResourceType;
+  resourceId: Types.ObjectId;
+  action: AuditAction;
+  changes: AuditFieldChange[];
+  request?: AuditRequestMeta | null;
+  createdAt: Date;
+}
+
+export type ListAuditLogsQuery = {
+  page: number;
+  limit: number;
+  resourceType?: AuditResourceType;
+  resourceId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+};
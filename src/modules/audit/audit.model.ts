@@ -0,0 +1,38 @@
+import { Schema, model } from 'mongoose';
+import { IAuditLog } from './audit.interface';
+
+const auditLogSchema = new Schema<IAuditLog>({
+  teamId: { type: Number, default: null, index: true },
+  actorId: { type: Schema.Types.ObjectId, ref: 'User', default: null, index: true },
+  actorRole: { type: String, default: null },
+  resourceType: {
+    type: String,
+    enum: ['contact', 'contact_note', 'deal', 'pipeline', 'task', 'tag', 'user', 'package', 'company', 'product'],
+    required: true,
+  },
+  resourceId: { type: Schema.Types.ObjectId, required: true },
+  action: { type: String, enum: ['create', 'update', 'delete', 'restore', 'purge'], required: true },
+  changes: {
+    type: [{
+      _id: false,
+      field: { type: String, required: true },
+      before: { type: Schema.Types.Mixed, default: null },
+      after: { type: Schema.Types.Mixed, default: null },
+    }],
+    default: [],
+  },
+  request: {
+    type: {
+      method: { type: String },
+      path: { type: String },
+      ip: { type: String, default: null },
+      userAgent: { type: String, default: null },
+    },
+    default: null,
+  },
+}, { timestamps: { createdAt: true, updatedAt: false }, versionKey: false });
+
+auditLogSchema.index({ teamId: 1, createdAt: -1 });
+auditLogSchema.index({ resourceType: 1, resourceId: 1, createdAt: -1 });
+
+export const AuditLog = model<IAuditLog>('AuditLog', auditLogSchema);
@@ -0,0 +1,265 @@
+import mongoose, { Document, Query, Schema, Types } from 'mongoose';
+import { getAuditContext } from './audit.context';
+import { AuditAction, AuditFieldChange, AuditResourceType } from './audit.interface';
+import { AuditLog } from './audit.model';
+
+type AuditPluginOptions = {
+  resourceType: AuditResourceType;
+  redactFields?: string[];
+};
+
+type Snapshot = Record<string, any>;
+
+// Bookkeeping and timestamp fields change on every write and say nothing about the edit itself.
+const IGNORED_FIELDS = new Set(['_id', '__v', 'createdAt', 'updatedAt', 'updatedBy']);
+const REDACTED_VALUE = '[redacted]';
+// Bulk query updates larger than this are only audited for their first documents.
+const QUERY_SNAPSHOT_LIMIT = 5000;
+// Fields bulk query snapshots keep besides the updated ones, to resolve the entry's action, team and actor.
+const BULK_SNAPSHOT_FIELDS = ['_id', 'ownerId', 'teamId', 'createdBy', 'updatedBy', 'deletedAt', 'deletedBy'];
+
+const UPDATE_QUERY_HOOKS = ['findOneAndUpdate', 'updateOne', 'updateMany'] as const;
+const DELETE_QUERY_HOOKS = ['findOneAndDelete', 'deleteOne', 'deleteMany'] as const;
+
+type QuerySnapshots = {
+  befores: Snapshot[];
+  select?: string;
+};
+
+const querySnapshots = new WeakMap<object, QuerySnapshots>();
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => (
+  Boolean(value)
+  && typeof value === 'object'
+  && !(value instanceof Date)
+  && !(value instanceof Types.ObjectId)
+  && !Array.isArray(value)
+  && !Buffer.isBuffer(value)
+);
+
+const normalizeValue = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (value instanceof Types.ObjectId) return String(value);
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, normalizeValue(entry)]));
+  }
+  return value;
+};
+
+// Nested objects are compared field by field (address.city), arrays as a whole.
+const flattenSnapshot = (snapshot: Snapshot, prefix = '', target: Record<string, unknown> = {}) => {
+  for (const [key, value] of Object.entries(snapshot)) {
+    if (!prefix && IGNORED_FIELDS.has(key)) continue;
+
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenSnapshot(value, path, target);
+    } else {
+      target[path] = normalizeValue(value);
+    }
+  }
+  return target;
+};
+
+const diffSnapshots = (before: Snapshot | null, after: Snapshot | null, redactFields: string[]) => {
+  const beforeFields = flattenSnapshot(before ?? {});
+  const afterFields = flattenSnapshot(after ?? {});
+  const fields = Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])).sort();
+  const changes: AuditFieldChange[] = [];
+
+  for (const field of fields) {
+    const previous = beforeFields[field] ?? null;
+    const next = afterFields[field] ?? null;
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+
+    const redacted = redactFields.some((name) => field === name || field.startsWith(`${name}.`));
+    changes.push({
+      field,
+      before: redacted && previous !== null ? REDACTED_VALUE : previous,
+      after: redacted && next !== null ? REDACTED_VALUE : next,
+    });
+  }
+
+  return changes;
+};
+
+const resolveUpdateAction = (before: Snapshot, after: Snapshot): AuditAction => {
+  const wasDeleted = Boolean(before.deletedAt);
+  const isDeleted = Boolean(after.deletedAt);
+  if (!wasDeleted && isDeleted) return 'delete';
+  if (wasDeleted && !isDeleted) return 'restore';
+  return 'update';
+};
+
+const resolveActorId = (action: AuditAction, snapshot: Snapshot) => {
+  const contextActorId = getAuditContext()?.actorId;
+  if (contextActorId) return contextActorId;
+
+  // Writes outside a request (schedulers, webhooks, uploads parsed off the request context)
+  // fall back to the user recorded on the document itself.
+  const recorded = action === 'create'
+    ? snapshot.createdBy
+    : action === 'delete' ? snapshot.deletedBy ?? snapshot.updatedBy : snapshot.updatedBy;
+  return recorded ? String(recorded) : null;
+};
+
+const resolveOwnerTeams = async (snapshots: Snapshot[]) => {
+  const ownerIds = Array.from(new Set(
+    snapshots
+      .filter((snapshot) => typeof snapshot.teamId !== 'number' && snapshot.ownerId)
+      .map((snapshot) => String(snapshot.ownerId))
+  ));
+  if (!ownerIds.length) return new Map<string, number | null>();
+
+  // Looked up by name to avoid a circular import with the user model, which is itself audited.
+  const owners = await mongoose.model('User').find({ _id: { $in: ownerIds } }).select('_id teamId').lean<Snapshot[]>();
+  return new Map(owners.map((owner) => [String(owner._id), typeof owner.teamId === 'number' ? owner.teamId : null]));
+};
+
+type AuditEntryInput = {
+  action: AuditAction;
+  before: Snapshot | null;
+  after: Snapshot | null;
+};
+
+const recordAuditEntries = async (options: AuditPluginOptions, entries: AuditEntryInput[]) => {
+  try {
+    const context = getAuditContext();
+    const redactFields = options.redactFields ?? [];
+    const logs = entries
+      .map((entry) => ({ ...entry, snapshot: (entry.after ?? entry.before) as Snapshot }))
+      .map((entry) => ({ ...entry, changes: diffSnapshots(entry.before, entry.after, redactFields) }))
+      .filter((entry) => entry.action !== 'update' || entry.changes.length > 0);
+    if (!logs.length) return;
+
+    const ownerTeams = await resolveOwnerTeams(logs.map((entry) => entry.snapshot));
+
+    await AuditLog.insertMany(logs.map((entry) => ({
+      teamId: typeof entry.snapshot.teamId === 'number'
+        ? entry.snapshot.teamId
+        : ownerTeams.get(String(entry.snapshot.ownerId)) ?? context?.teamId ?? null,
+      actorId: resolveActorId(entry.action, entry.snapshot),
+      actorRole: context?.actorRole ?? null,
+      resourceType: options.resourceType,
+      resourceId: entry.snapshot._id,
+      action: entry.action,
+      changes: entry.changes,
+      request: context?.request ?? null,
+    })));
+  } catch (error) {
+    console.error(`====> Failed to record ${options.resourceType} audit log:`, error);
+  }
+};
+
+/**
+ * The top-level fields an update document writes, or null for aggregation pipeline updates,
+ * whose targets cannot be read off the update.
+ */
+const getUpdatedRootFields = (update: unknown) => {
+  if (!isPlainObject(update)) return null;
+
+  const paths = Object.entries(update).flatMap(([key, value]) => {
+    if (!key.startsWith('$')) return [key];
+    return isPlainObject(value) ? Object.keys(value) : [];
+  });
+  return Array.from(new Set(paths.map((path) => path.split('.')[0])));
+};
+
+const captureQuerySnapshots = async (query: Query<unknown, unknown>, limit: number, select?: string) => {
+  const finder = query.model.find(query.getFilter());
+  const sort = query.getOptions().sort;
+  if (sort) finder.sort(sort);
+  if (select) finder.select(select);
+
+  return { befores: await finder.limit(limit).lean<Snapshot[]>(), select };
+};
+
+/**
+ * Records an audit log entry for every create, update, soft delete, restore and hard delete
+ * of the model, whether it goes through `save` or a query update. Soft deletes are recognised
+ * by `deletedAt` being set or cleared.
+ */
+export const auditPlugin = (schema: Schema, options: AuditPluginOptions) => {
+  schema.pre('save', async function (this: Document) {
+    this.$locals.auditIsNew = this.isNew;
+    this.$locals.auditBefore = this.isNew
+      ? null
+      : await (this.constructor as mongoose.Model<unknown>).findById(this._id).lean();
+  });
+
+  schema.post('save', async function (this: Document) {
+    const after = this.toObject({ depopulate: true }) as Snapshot;
+    const before = (this.$locals.auditBefore as Snapshot | null) ?? null;
+
+    if (this.$locals.auditIsNew || !before) {
+      await recordAuditEntries(options, [{ action: 'create', before: null, after }]);
+      return;
+    }
+
+    await recordAuditEntries(options, [{ action: resolveUpdateAction(before, after), before, after }]);
+  });
+
+  schema.post('insertMany', async function (docs: Document[]) {
+    await recordAuditEntries(options, docs.map((doc) => ({
+      action: 'create' as const,
+      before: null,
+      after: doc.toObject({ depopulate: true }) as Snapshot,
+    })));
+  });
+
+  schema.pre(['findOneAndUpdate', 'updateOne', 'findOneAndDelete', 'deleteOne'], { document: false, query: true }, async function (
+    this: Query<unknown, unknown>
+  ) {
+    querySnapshots.set(this, await captureQuerySnapshots(this, 1));
+  });
+
+  // Bulk writes (relinks, purges) can touch thousands of documents, so their snapshots hold only
+  // the fields the update writes, and only the bookkeeping fields for a bulk delete.
+  schema.pre('updateMany', { document: false, query: true }, async function (
+    this: Query<unknown, unknown>
+  ) {
+    const updatedFields = getUpdatedRootFields(this.getUpdate());
+    const select = updatedFields
+      ? Array.from(new Set([...BULK_SNAPSHOT_FIELDS, ...updatedFields])).join(' ')
+      : undefined;
+    querySnapshots.set(this, await captureQuerySnapshots(this, QUERY_SNAPSHOT_LIMIT, select));
+  });
+
+  schema.pre('deleteMany', { document: false, query: true }, async function (
+    this: Query<unknown, unknown>
+  ) {
+    querySnapshots.set(this, await captureQuerySnapshots(this, QUERY_SNAPSHOT_LIMIT, BULK_SNAPSHOT_FIELDS.join(' ')));
+  });
+
+  schema.post([...UPDATE_QUERY_HOOKS], { document: false, query: true }, async function (
+    this: Query<unknown, unknown>
+  ) {
+    const { befores, select } = querySnapshots.get(this) ?? { befores: [] };
+    querySnapshots.delete(this);
+    if (!befores.length) return;
+
+    const finder = this.model.find({ _id: { $in: befores.map((doc) => doc._id) } });
+    if (select) finder.select(select);
+    const afters = await finder.lean<Snapshot[]>();
+    const afterById = new Map(afters.map((doc) => [String(doc._id), doc]));
+
+    await recordAuditEntries(options, befores
+      .filter((before) => afterById.has(String(before._id)))
+      .map((before) => {
+        const after = afterById.get(String(before._id)) as Snapshot;
+        return { action: resolveUpdateAction(before, after), before, after };
+      }));
+  });
+
+  schema.post([...DELETE_QUERY_HOOKS], { document: false, query: true }, async function (
+    this: Query<unknown, unknown>
+  ) {
+    const { befores } = querySnapshots.get(this) ?? { befores: [] };
+    querySnapshots.delete(this);
+    if (!befores.length) return;
+
+    await recordAuditEntries(options, befores.map((before) => ({ action: 'purge' as const, before, after: null })));
+  });
+};
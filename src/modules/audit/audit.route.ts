@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../../middleware/authMiddlewares';
+import { listAuditLogsHandler } from './audit.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/audit-logs:
+ *   get:
+ *     tags:
+ *       - Audit Logs
+ *     summary: List audit log entries for your team
+ *     description: >
+ *       Every create, update, delete, restore and purge of contacts, notes, companies, deals, pipelines, tasks,
+ *       tags, users and packages, newest first. Each entry carries the acting user, the field-level before/after
+ *       changes and the request it came from. Sensitive fields such as passwords are redacted.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: resourceType
+ *         schema:
+ *           type: string
+ *           enum: [contact, contact_note, deal, pipeline, task, tag, user, package, company, product]
+ *       - in: query
+ *         name: resourceId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [create, update, delete, restore, purge]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Audit logs fetched successfully
+ *       403:
+ *         description: Only team owners and admins can read the audit log
+ */
+router.get('/', authenticate, authorize(['OWNER', 'ADMIN']), listAuditLogsHandler);
+
+export default router;
@@ -0,0 +1,49 @@
+import { FilterQuery } from 'mongoose';
+import { AuditLog } from './audit.model';
+import { IAuditLog, ListAuditLogsQuery } from './audit.interface';
+
+const ACTOR_POPULATE = {
+  path: 'actorId',
+  select: '_id fullName email profilePhoto',
+};
+
+export const listAuditLogs = async (teamId: number, query: ListAuditLogsQuery) => {
+  const filter: FilterQuery<IAuditLog> = { teamId };
+
+  if (query.resourceType) filter.resourceType = query.resourceType;
+  if (query.resourceId) filter.resourceId = query.resourceId;
+  if (query.actorId) filter.actorId = query.actorId;
+  if (query.action) filter.action = query.action;
+  if (query.from || query.to) {
+    filter.createdAt = {
+      ...(query.from ? { $gte: query.from } : {}),
+      ...(query.to ? { $lte: query.to } : {}),
+    };
+  }
+
+  const skip = (query.page - 1) * query.limit;
+
+  const [logs, total] = await Promise.all([
+    AuditLog.find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(query.limit)
+      .populate(ACTOR_POPULATE)
+      .lean(),
+    AuditLog.countDocuments(filter),
+  ]);
+
+  const totalPages = Math.ceil(total / query.limit);
+
+  return {
+    logs,
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      totalPages,
+      hasNextPage: query.page < totalPages,
+      hasPrevPage: query.page > 1,
+    },
+  };
+};
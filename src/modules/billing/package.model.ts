@@ -1,5 +1,6 @@
 import { Schema, model } from 'mongoose';
 import { IPackage } from './package.interface';
+import { auditPlugin } from '../audit/audit.plugin';
 
 const PACKAGE_TEXT_LENGTH = {
   code: 40,
@@ -97,4 +98,6 @@ packageSchema.pre('validate', function (this: IPackage, next) {
   next();
 });
 
+packageSchema.plugin(auditPlugin, { resourceType: 'package' });
+
 export const BillingPackage = model<IPackage>('BillingPackage', packageSchema);
@@ -0,0 +1,370 @@
+import { Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { sendError, sendResponse } from '../../../Utils/response';
+import { User } from '../users/user.model';
+import { createCompany, deleteCompany, getCompanyDetails, listCompanies, updateCompany } from './company.service';
+
+const LENGTH = {
+  name: 120,
+  domain: 253,
+  industry: 80,
+  website: 200,
+  phoneMin: 7,
+  phoneMax: 20,
+  street: 100,
+  city: 50,
+  state: 50,
+  postalCode: 10,
+  country: 25,
+  description: 2000,
+  listSearch: 100,
+} as const;
+
+const COMPANY_SIZES = ['1-10', '11-50', '51-200', '201-500', '501-1000', '1000+'] as const;
+
+const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
+
+const optionalNullableBoundedStringFromInput = (max: number) => z.preprocess(
+  (value) => {
+    if (value === undefined) return undefined;
+    if (value === null) return null;
+    if (typeof value !== 'string') return value;
+    const trimmed = value.trim();
+    return trimmed.length === 0 ? null : trimmed;
+  },
+  z.string().max(max).nullable().optional()
+);
+
+const optionalQueryString = (max: number) => z.preprocess(
+  (value) => {
+    if (typeof value !== 'string') return undefined;
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  },
+  z.string().max(max).optional()
+);
+
+const companyAddressSchema = z.object({
+  street: optionalNullableBoundedStringFromInput(LENGTH.street),
+  city: optionalNullableBoundedStringFromInput(LENGTH.city),
+  state: optionalNullableBoundedStringFromInput(LENGTH.state),
+  postalCode: optionalNullableBoundedStringFromInput(LENGTH.postalCode),
+  country: optionalNullableBoundedStringFromInput(LENGTH.country),
+}).nullable().optional();
+
+const companyBaseSchema = {
+  name: z.string().trim().min(1).max(LENGTH.name),
+  domain: optionalNullableBoundedStringFromInput(LENGTH.domain)
+    .refine((value) => !value || /^(?:[a-z]+:\/\/)?(?:www\.)?[a-z\d-]+(?:\.[a-z\d-]+)+(?:[/?#:].*)?$/i.test(value), {
+      message: 'Invalid domain',
+    }),
+  industry: optionalNullableBoundedStringFromInput(LENGTH.industry),
+  size: z.enum(COMPANY_SIZES).nullable().optional(),
+  website: z.string().trim().max(LENGTH.website).url().nullable().optional(),
+  phone: z.string().trim().min(LENGTH.phoneMin).max(LENGTH.phoneMax).nullable().optional(),
+  address: companyAddressSchema,
+  description: optionalNullableBoundedStringFromInput(LENGTH.description),
+};
+
+const createCompanySchema = z.object(companyBaseSchema);
+
+const updateCompanySchema = z.object({
+  ...companyBaseSchema,
+  name: companyBaseSchema.name.optional(),
+}).refine((data) => Object.keys(data).length > 0, {
+  message: 'At least one field is required',
+});
+
+const listCompaniesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(500).default(10),
+  search: optionalQueryString(LENGTH.listSearch),
+  industry: optionalQueryString(LENGTH.industry),
+  size: z.enum(COMPANY_SIZES).optional(),
+  ownerId: objectIdSchema.optional(),
+});
+
+const getUserIdFromReq = (req: Request) => (req as any).user?.id as string | undefined;
+const getTeamIdFromReq = (req: Request) => (req as any).user?.teamId as number | null | undefined;
+const getUserRoleFromReq = (req: Request) => (req as any).user?.role as string | undefined;
+
+const getQueryValue = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const resolveTeamOwnerIds = async (req: Request, userId: string): Promise<string[]> => {
+  const teamId = getTeamIdFromReq(req);
+  if (teamId === null || teamId === undefined) return [userId];
+
+  const teamUsers = await User.find({ teamId: Number(teamId) }).select('_id').lean();
+  if (!teamUsers.length) return [userId];
+
+  return teamUsers.map((user) => String(user._id));
+};
+
+const resolveDeleteOwnerIds = async (req: Request, userId: string): Promise<string[]> => {
+  const role = (getUserRoleFromReq(req) || '').toUpperCase();
+  if (role === 'MEMBER') return [userId];
+  return resolveTeamOwnerIds(req, userId);
+};
+
+export const createCompanyHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const parsed = createCompanySchema.parse(req.body);
+    const result = await createCompany({
+      ...parsed,
+      ownerId: userId,
+      createdBy: userId,
+    });
+
+    if (result.status === 'duplicate_domain') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'A company with this domain already exists',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 201,
+      message: 'Company created successfully',
+      data: {
+        company: result.company,
+        linkedContacts: result.linkedContacts,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to create company',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const listCompaniesHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const query = listCompaniesQuerySchema.parse({
+      page: getQueryValue(req.query.page),
+      limit: getQueryValue(req.query.limit),
+      search: getQueryValue(req.query.search) ?? getQueryValue(req.query.q),
+      industry: getQueryValue(req.query.industry),
+      size: getQueryValue(req.query.size),
+      ownerId: getQueryValue(req.query.ownerId),
+    });
+
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    if (query.ownerId && !ownerIds.includes(query.ownerId)) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Owner must be a member of your team',
+      });
+    }
+
+    const data = await listCompanies(ownerIds, query);
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Companies fetched successfully',
+      data,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch companies',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const getCompanyDetailsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const companyId = objectIdSchema.parse(req.params.id);
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    const result = await getCompanyDetails(ownerIds, companyId, getTeamIdFromReq(req));
+
+    if (result.status === 'company_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Company not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Company fetched successfully',
+      data: result.company,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch company',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const updateCompanyHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const companyId = objectIdSchema.parse(req.params.id);
+    const parsed = updateCompanySchema.parse(req.body);
+    const result = await updateCompany(userId, companyId, { ...parsed, updatedBy: userId });
+
+    if (result.status === 'company_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Company not found',
+      });
+    }
+    if (result.status === 'duplicate_domain') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'A company with this domain already exists',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Company updated successfully',
+      data: {
+        company: result.company,
+        linkedContacts: result.linkedContacts,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to update company',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const deleteCompanyHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const companyId = objectIdSchema.parse(req.params.id);
+    const ownerIds = await resolveDeleteOwnerIds(req, userId);
+    const result = await deleteCompany(ownerIds, companyId, userId);
+
+    if (result.status === 'company_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Company not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Company deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to delete company',
+      details: (error as Error).message,
+    });
+  }
+};
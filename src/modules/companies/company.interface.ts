@@ -0,0 +1,53 @@
+import { Document, Types } from 'mongoose';
+
+export type CompanySize = '1-10' | '11-50' | '51-200' | '201-500' | '501-1000' | '1000+';
+
+export type CompanyAddress = {
+  street?: string | null;
+  city?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+};
+
+export interface ICompany extends Document {
+  ownerId: Types.ObjectId;
+  name: string;
+  domain?: string | null;
+  industry?: string | null;
+  size?: CompanySize | null;
+  website?: string | null;
+  phone?: string | null;
+  address?: CompanyAddress | null;
+  description?: string | null;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId | null;
+  deletedAt?: Date | null;
+  deletedBy?: Types.ObjectId | null;
+}
+
+export type CreateCompanyInput = {
+  ownerId: string;
+  name: string;
+  domain?: string | null;
+  industry?: string | null;
+  size?: CompanySize | null;
+  website?: string | null;
+  phone?: string | null;
+  address?: CompanyAddress | null;
+  description?: string | null;
+  createdBy: string;
+};
+
+export type UpdateCompanyInput = Partial<Omit<CreateCompanyInput, 'ownerId' | 'createdBy'>> & {
+  updatedBy: string;
+};
+
+export type ListCompaniesQuery = {
+  page: number;
+  limit: number;
+  search?: string;
+  industry?: string;
+  size?: CompanySize;
+  ownerId?: string;
+};
@@ -0,0 +1,47 @@
+import { Schema, model } from 'mongoose';
+import { ICompany } from './company.interface';
+import { auditPlugin } from '../audit/audit.plugin';
+
+const LENGTH = {
+  name: 120,
+  domain: 253,
+  industry: 80,
+  website: 200,
+  phone: 20,
+  street: 100,
+  city: 50,
+  state: 50,
+  postalCode: 10,
+  country: 25,
+  description: 2000,
+} as const;
+
+const companySchema = new Schema<ICompany>({
+  ownerId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  name: { type: String, required: true, trim: true, maxlength: LENGTH.name },
+  // Bare hostname (acme.com) used to match contacts by their email domain.
+  domain: { type: String, default: null, trim: true, lowercase: true, maxlength: LENGTH.domain },
+  industry: { type: String, default: null, trim: true, maxlength: LENGTH.industry },
+  size: { type: String, enum: ['1-10', '11-50', '51-200', '201-500', '501-1000', '1000+', null], default: null },
+  website: { type: String, default: null, trim: true, maxlength: LENGTH.website },
+  phone: { type: String, default: null, trim: true, maxlength: LENGTH.phone },
+  address: {
+    street: { type: String, default: null, maxlength: LENGTH.street },
+    city: { type: String, default: null, maxlength: LENGTH.city },
+    state: { type: String, default: null, maxlength: LENGTH.state },
+    postalCode: { type: String, default: null, maxlength: LENGTH.postalCode },
+    country: { type: String, default: null, maxlength: LENGTH.country },
+  },
+  description: { type: String, default: null, maxlength: LENGTH.description },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  deletedAt: { type: Date, default: null, index: true },
+  deletedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+}, { timestamps: true, versionKey: false });
+
+companySchema.index({ ownerId: 1, deletedAt: 1, createdAt: -1 });
+companySchema.index({ ownerId: 1, domain: 1 });
+
+companySchema.plugin(auditPlugin, { resourceType: 'company' });
+
+export const Company = model<ICompany>('Companies', companySchema);
@@ -0,0 +1,200 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../../middleware/authMiddlewares';
+import {
+  createCompanyHandler,
+  deleteCompanyHandler,
+  getCompanyDetailsHandler,
+  listCompaniesHandler,
+  updateCompanyHandler,
+} from './company.controller';
+
+const router = Router();
+const COMPANY_ACCESS_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CompanyInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         domain:
+ *           type: string
+ *           nullable: true
+ *           description: Email domain of the company; contacts with an email at this domain are linked automatically
+ *           example: acme.com
+ *         industry:
+ *           type: string
+ *           nullable: true
+ *         size:
+ *           type: string
+ *           nullable: true
+ *           enum: ['1-10', '11-50', '51-200', '201-500', '501-1000', '1000+']
+ *         website:
+ *           type: string
+ *           nullable: true
+ *         phone:
+ *           type: string
+ *           nullable: true
+ *         address:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             street:
+ *               type: string
+ *             city:
+ *               type: string
+ *             state:
+ *               type: string
+ *             postalCode:
+ *               type: string
+ *             country:
+ *               type: string
+ *         description:
+ *           type: string
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /api/companies:
+ *   post:
+ *     tags:
+ *       - Companies
+ *     summary: Create a company
+ *     description: >
+ *       When a domain is given, the team's contacts without a company whose email is at that domain
+ *       are linked to the new company; their number is returned as `linkedContacts`.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/CompanyInput'
+ *               - type: object
+ *                 required: [name]
+ *     responses:
+ *       201:
+ *         description: Company created successfully
+ *       409:
+ *         description: A company with this domain already exists
+ *   get:
+ *     tags:
+ *       - Companies
+ *     summary: List your team's companies
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: search
+ *         description: Partial match on name or domain
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: industry
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: size
+ *         schema:
+ *           type: string
+ *           enum: ['1-10', '11-50', '51-200', '201-500', '501-1000', '1000+']
+ *       - in: query
+ *         name: ownerId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Companies fetched successfully
+ */
+router.post('/', authenticate, authorize(COMPANY_ACCESS_ROLES), createCompanyHandler);
+router.get('/', authenticate, authorize(COMPANY_ACCESS_ROLES), listCompaniesHandler);
+
+/**
+ * @swagger
+ * /api/companies/{id}:
+ *   get:
+ *     tags:
+ *       - Companies
+ *     summary: Get a company with its contacts, deal totals and recent conversations
+ *     description: >
+ *       Deal totals per status cover deals linked to the company directly or through one of its contacts,
+ *       with values in the team's base currency.
+ *       Returns up to 50 most recently updated contacts and the 10 latest conversations.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Company fetched successfully
+ *       404:
+ *         description: Company not found
+ *   put:
+ *     tags:
+ *       - Companies
+ *     summary: Update a company
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CompanyInput'
+ *     responses:
+ *       200:
+ *         description: Company updated successfully
+ *       404:
+ *         description: Company not found
+ *       409:
+ *         description: A company with this domain already exists
+ *   delete:
+ *     tags:
+ *       - Companies
+ *     summary: Delete a company
+ *     description: Moves the company to the trash; linked contacts and deals keep their link.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Company deleted successfully
+ *       404:
+ *         description: Company not found
+ */
+router.get('/:id', authenticate, authorize(COMPANY_ACCESS_ROLES), getCompanyDetailsHandler);
+router.put('/:id', authenticate, authorize(COMPANY_ACCESS_ROLES), updateCompanyHandler);
+router.delete('/:id', authenticate, authorize(COMPANY_ACCESS_ROLES), deleteCompanyHandler);
+
+export default router;
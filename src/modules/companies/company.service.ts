@@ -0,0 +1,312 @@
+import { FilterQuery, Types } from 'mongoose';
+import { Contact } from '../contacts/contact.model';
+import { Conversation } from '../conversations/conversation.model';
+import { Deal } from '../deals/deal.model';
+import { loadCurrencyConverter, resolveConversionDate } from '../exchange-rates/exchangeRate.service';
+import { User } from '../users/user.model';
+import { Company } from './company.model';
+import { CreateCompanyInput, ICompany, ListCompaniesQuery, UpdateCompanyInput } from './company.interface';
+
+const LENGTH = {
+  detailContacts: 50,
+  recentConversations: 10,
+} as const;
+
+// Shared mailbox providers say nothing about the organisation a contact works for.
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'msn.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+  'mail.com',
+  'yandex.com',
+  'zoho.com',
+]);
+
+const COMPANY_LIST_FIELDS = '_id ownerId name domain industry size website phone address createdAt updatedAt';
+const OWNER_POPULATE = {
+  path: 'ownerId',
+  select: '_id fullName email profilePhoto',
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const createRegex = (value: string) => new RegExp(escapeRegExp(value.trim()), 'i');
+const createExactRegex = (value: string) => new RegExp(`^${escapeRegExp(value.trim())}$`, 'i');
+
+/** Reduces "https://www.Acme.com/about" or "acme.com" to the bare host "acme.com". */
+export const normalizeCompanyDomain = (value?: string | null) => {
+  if (!value || !value.trim()) return null;
+
+  const host = value.trim().toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#:]/)[0];
+  return host || null;
+};
+
+const getEmailDomain = (email: string) => {
+  const domain = email.trim().toLowerCase().split('@')[1];
+  return domain && !FREE_EMAIL_DOMAINS.has(domain) ? domain : null;
+};
+
+const buildEmailDomainRegex = (domain: string) => new RegExp(`@${escapeRegExp(domain)}$`, 'i');
+
+// Companies are shared by the whole team, while services only know the acting record owner.
+export const resolveOwnerTeamIds = async (ownerId: string) => {
+  const owner = await User.findById(ownerId).select('teamId').lean();
+  if (owner?.teamId === null || owner?.teamId === undefined) return [ownerId];
+
+  const teamUsers = await User.find({ teamId: owner.teamId }).select('_id').lean();
+  return teamUsers.length ? teamUsers.map((user) => String(user._id)) : [ownerId];
+};
+
+export const findTeamCompany = async (ownerId: string, companyId: string) => {
+  const ownerIds = await resolveOwnerTeamIds(ownerId);
+  return Company.findOne({ _id: companyId, ownerId: { $in: ownerIds }, deletedAt: null }).select('_id name domain');
+};
+
+export const findCompanyByEmails = async (ownerId: string, emails: string[]) => {
+  const domains = Array.from(new Set(emails.map(getEmailDomain).filter((domain): domain is string => Boolean(domain))));
+  if (!domains.length) return null;
+
+  const ownerIds = await resolveOwnerTeamIds(ownerId);
+  const companies = await Company.find({ ownerId: { $in: ownerIds }, domain: { $in: domains }, deletedAt: null })
+    .select('_id name domain')
+    .sort({ createdAt: 1 });
+
+  // The contact's first email decides when several of its domains belong to companies.
+  return domains.map((domain) => companies.find((company) => company.domain === domain)).find(Boolean) ?? null;
+};
+
+/** Domain → company lookup for matching many contacts at once, e.g. during an import. */
+export const loadCompanyDomainIndex = async (ownerId: string) => {
+  const ownerIds = await resolveOwnerTeamIds(ownerId);
+  const companies = await Company.find({ ownerId: { $in: ownerIds }, domain: { $ne: null }, deletedAt: null })
+    .select('_id name domain')
+    .sort({ createdAt: -1 })
+    .lean();
+
+  const index = new Map<string, { _id: Types.ObjectId; name: string }>();
+  companies.forEach((company) => index.set(company.domain as string, { _id: company._id as Types.ObjectId, name: company.name }));
+
+  return (emails: string[]) => emails
+    .map(getEmailDomain)
+    .map((domain) => (domain ? index.get(domain) : undefined))
+    .find(Boolean) ?? null;
+};
+
+const findDomainConflict = async (ownerIds: string[], domain: string | null, excludeId?: string) => {
+  if (!domain) return false;
+
+  const conflict = await Company.exists({
+    ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    ownerId: { $in: ownerIds },
+    domain,
+    deletedAt: null,
+  });
+  return Boolean(conflict);
+};
+
+// Links the team's contacts that have no company yet and use an email at the company's domain.
+const linkContactsByDomain = async (ownerIds: string[], company: ICompany, linkedBy: string) => {
+  if (!company.domain) return 0;
+
+  const result = await Contact.updateMany(
+    {
+      ownerId: { $in: ownerIds },
+      deletedAt: null,
+      companyId: null,
+      emails: buildEmailDomainRegex(company.domain),
+    },
+    { companyId: company._id, updatedBy: linkedBy }
+  );
+  return result.modifiedCount;
+};
+
+export const createCompany = async (payload: CreateCompanyInput) => {
+  const ownerIds = await resolveOwnerTeamIds(payload.ownerId);
+  const domain = normalizeCompanyDomain(payload.domain);
+
+  if (await findDomainConflict(ownerIds, domain)) {
+    return { status: 'duplicate_domain' as const };
+  }
+
+  const company = await Company.create({
+    ...payload,
+    domain,
+    updatedBy: payload.createdBy,
+  });
+  const linkedContacts = await linkContactsByDomain(ownerIds, company, payload.createdBy);
+
+  return { status: 'ok' as const, company, linkedContacts };
+};
+
+const buildCompanyListFilter = (ownerIds: string[], query: ListCompaniesQuery): FilterQuery<ICompany> => {
+  const conditions: FilterQuery<ICompany>[] = [{ ownerId: { $in: ownerIds }, deletedAt: null }];
+
+  if (query.search) {
+    const regex = createRegex(query.search);
+    conditions.push({ $or: [{ name: regex }, { domain: regex }] });
+  }
+  if (query.industry) {
+    conditions.push({ industry: createExactRegex(query.industry) });
+  }
+  if (query.size) {
+    conditions.push({ size: query.size });
+  }
+  if (query.ownerId) {
+    conditions.push({ ownerId: query.ownerId });
+  }
+
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+};
+
+export const listCompanies = async (ownerIds: string[], query: ListCompaniesQuery) => {
+  const filter = buildCompanyListFilter(ownerIds, query);
+  const skip = (query.page - 1) * query.limit;
+
+  const [companies, total] = await Promise.all([
+    Company.find(filter)
+      .select(COMPANY_LIST_FIELDS)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(query.limit)
+      .populate(OWNER_POPULATE)
+      .lean(),
+    Company.countDocuments(filter),
+  ]);
+
+  const contactCounts = await Contact.aggregate<{ _id: Types.ObjectId; count: number }>([
+    { $match: { companyId: { $in: companies.map((company) => company._id) }, deletedAt: null } },
+    { $group: { _id: '$companyId', count: { $sum: 1 } } },
+  ]);
+  const countById = new Map(contactCounts.map((entry) => [String(entry._id), entry.count]));
+  const totalPages = Math.ceil(total / query.limit);
+
+  return {
+    companies: companies.map((company) => ({ ...company, contactCount: countById.get(String(company._id)) ?? 0 })),
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      totalPages,
+      hasNextPage: query.page < totalPages,
+      hasPrevPage: query.page > 1,
+    },
+  };
+};
+
+/**
+ * Company with everything the team knows about it: its contacts, deals linked to the company
+ * or to one of its contacts, and the latest conversations with its contacts. Deal values are in
+ * the team's base currency.
+ */
+export const getCompanyDetails = async (ownerIds: string[], companyId: string, teamId?: number | null) => {
+  const company = await Company.findOne({ _id: companyId, ownerId: { $in: ownerIds }, deletedAt: null })
+    .populate(OWNER_POPULATE)
+    .lean();
+  if (!company) {
+    return { status: 'company_not_found' as const };
+  }
+
+  const contactScope = { companyId: company._id, ownerId: { $in: ownerIds }, deletedAt: null };
+  const [contacts, contactIds] = await Promise.all([
+    Contact.find(contactScope)
+      .select('_id ownerId firstName lastName photoUrl emails phones jobTitle status updatedAt')
+      .sort({ updatedAt: -1 })
+      .limit(LENGTH.detailContacts)
+      .lean(),
+    Contact.distinct('_id', contactScope) as Promise<Types.ObjectId[]>,
+  ]);
+
+  const [deals, converter, recentConversations] = await Promise.all([
+    Deal.find({
+      ownerId: { $in: ownerIds },
+      deletedAt: null,
+      $or: [{ companyId: company._id }, { contactId: { $in: contactIds } }],
+    })
+      .select('status amount currency wonAt lostAt')
+      .lean(),
+    loadCurrencyConverter(teamId),
+    Conversation.find({ ownerId: { $in: ownerIds }, contactId: { $in: contactIds }, deletedAt: null })
+      .select('_id ownerId contactId method direction subject from to sentAt createdAt')
+      .sort({ sentAt: -1, createdAt: -1 })
+      .limit(LENGTH.recentConversations)
+      .lean(),
+  ]);
+
+  const statsFor = (status: string) => {
+    const matching = deals.filter((deal) => deal.status === status);
+    const value = matching.reduce(
+      (sum, deal) => sum + (converter.convert(deal.amount, deal.currency, resolveConversionDate(deal)) ?? 0),
+      0
+    );
+    return { count: matching.length, value: Number(value.toFixed(2)) };
+  };
+  const dealTotals = {
+    open: statsFor('open'),
+    won: statsFor('won'),
+    lost: statsFor('lost'),
+  };
+
+  return {
+    status: 'ok' as const,
+    company: {
+      ...company,
+      contactCount: contactIds.length,
+      contacts,
+      deals: {
+        currency: converter.baseCurrency,
+        ...dealTotals,
+        missingRates: converter.missingRates(),
+      },
+      recentConversations,
+    },
+  };
+};
+
+export const updateCompany = async (ownerId: string, companyId: string, updates: UpdateCompanyInput) => {
+  const ownerIds = await resolveOwnerTeamIds(ownerId);
+  const company = await Company.findOne({ _id: companyId, ownerId: { $in: ownerIds }, deletedAt: null });
+  if (!company) {
+    return { status: 'company_not_found' as const };
+  }
+
+  const { domain, ...fields } = updates;
+  const nextDomain = domain === undefined ? company.domain ?? null : normalizeCompanyDomain(domain);
+  const domainChanged = nextDomain !== (company.domain ?? null);
+
+  if (domainChanged && await findDomainConflict(ownerIds, nextDomain, companyId)) {
+    return { status: 'duplicate_domain' as const };
+  }
+
+  company.set({ ...fields, domain: nextDomain });
+  await company.save();
+
+  const linkedContacts = domainChanged ? await linkContactsByDomain(ownerIds, company, updates.updatedBy) : 0;
+  return { status: 'ok' as const, company, linkedContacts };
+};
+
+// Contacts and deals keep their companyId so restoring the company from the trash relinks them.
+export const deleteCompany = async (ownerIds: string[], companyId: string, deletedBy: string) => {
+  const company = await Company.findOneAndUpdate(
+    { _id: companyId, ownerId: { $in: ownerIds }, deletedAt: null },
+    { deletedAt: new Date(), deletedBy, updatedBy: deletedBy },
+    { new: true }
+  );
+
+  if (!company) {
+    return { status: 'company_not_found' as const };
+  }
+
+  return { status: 'ok' as const, company };
+};
@@ -1,9 +1,16 @@
 import { Request, Response } from 'express';
 import { z, ZodError } from 'zod';
 import { sendError, sendResponse } from '../../../Utils/response';
+import { getCustomFieldDefinitions, resolveCustomFieldFilters } from '../custom-fields/customField.service';
+import { listLinkedTasks } from '../tasks/task.service';
 import { User } from '../users/user.model';
 import { syncGoogleInboxRepliesForContact } from '../mail/google.service';
 import { createContact, deleteContact, getContactById, listContactNames, listContacts, updateContact, updateContactPhoto } from './contact.service';
+import { bulkUpdateContacts } from './contactBulk.service';
+import { generateContactsExport } from './contactExport.service';
+import { importContacts } from './contactImport.service';
+import { findContactDuplicates, mergeContacts } from './contactMerge.service';
+import { decodeTimelineCursor, getContactTimeline } from './contactTimeline.service';
 
 const LENGTH = {
   firstName: 30,
@@ -25,8 +32,12 @@ const LENGTH = {
   notes: 2000,
   contactItemsMax: 10,
   listSearch: 100,
+  mergeContactsMax: 20,
+  bulkContactsMax: 5000,
 } as const;
 
+const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
+
 const trimmedRequiredString = z.string().trim().min(1);
 const optionalBoundedString = (max: number) => z.string().trim().min(1).max(max).nullable().optional();
 const optionalNullableBoundedStringFromInput = (max: number) => z.preprocess(
@@ -80,6 +91,7 @@ const contactBaseSchema = {
   emails: contactEmailsInputSchema,
   phones: contactPhonesInputSchema,
   companyName: optionalBoundedString(LENGTH.companyName),
+  companyId: objectIdSchema.nullable().optional(),
   jobTitle: optionalBoundedString(LENGTH.jobTitle),
   website: z.string().trim().max(LENGTH.website).url().nullable().optional(),
   leadSource: z.enum(['website', 'referral', 'social', 'ads', 'manual', 'other']).optional(),
@@ -87,6 +99,7 @@ const contactBaseSchema = {
   tags: z.array(z.string().trim().min(1).max(LENGTH.tag)).max(LENGTH.tagsMax).optional(),
   address: contactAddressSchema,
   notes: optionalBoundedString(LENGTH.notes),
+  customFields: z.record(z.unknown()).optional(),
 };
 
 const createContactSchema = z.object({
@@ -106,7 +119,90 @@ const updateContactSchema = z.object({
   message: 'At least one field is required',
 });
 
+const CONTACT_STATUSES = ['lead', 'qualified', 'customer', 'inactive'] as const;
+const CONTACT_LEAD_SOURCES = ['website', 'referral', 'social', 'ads', 'manual', 'other'] as const;
+const CONTACT_SORT_FIELDS = ['createdAt', 'updatedAt', 'firstName', 'lastName', 'companyName'] as const;
+
+const optionalQueryString = (max: number) => z.preprocess(
+  (value) => {
+    if (typeof value !== 'string') return undefined;
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  },
+  z.string().max(max).optional()
+);
+
+// Accepts both repeated params (?status=lead&status=customer) and comma lists (?status=lead,customer).
+const optionalQueryList = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(
+  (value) => {
+    if (value === undefined) return undefined;
+    const values = (Array.isArray(value) ? value : [value])
+      .filter((entry): entry is string => typeof entry === 'string')
+      .flatMap((entry) => entry.split(','))
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0);
+    return values.length > 0 ? values : undefined;
+  },
+  schema.optional()
+);
+
+const optionalQueryDate = z.preprocess(
+  (value) => {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    return new Date(value.trim());
+  },
+  z.date().optional()
+);
+
+const contactFilterShape = {
+  search: optionalQueryString(LENGTH.listSearch),
+  status: optionalQueryList(z.array(z.enum(CONTACT_STATUSES))),
+  leadSource: optionalQueryList(z.array(z.enum(CONTACT_LEAD_SOURCES))),
+  tags: optionalQueryList(z.array(z.string().max(LENGTH.tag)).max(LENGTH.tagsMax)),
+  tagsMatch: z.enum(['any', 'all']).default('any'),
+  companyName: optionalQueryString(LENGTH.companyName),
+  companyId: objectIdSchema.optional(),
+  country: optionalQueryString(LENGTH.country),
+  city: optionalQueryString(LENGTH.city),
+  createdFrom: optionalQueryDate,
+  createdTo: optionalQueryDate,
+  updatedFrom: optionalQueryDate,
+  updatedTo: optionalQueryDate,
+  ownerId: objectIdSchema.optional(),
+};
+
+const customFieldFilterQuerySchema = z.record(z.union([
+  z.string(),
+  z.array(z.string()),
+  z.object({ from: z.string().optional(), to: z.string().optional() }),
+])).optional();
+
+const contactFilterQueryShape = {
+  ...contactFilterShape,
+  customFields: customFieldFilterQuerySchema,
+  sortBy: z.enum(CONTACT_SORT_FIELDS).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+};
+
+const refineContactDateRanges = (
+  query: { createdFrom?: Date; createdTo?: Date; updatedFrom?: Date; updatedTo?: Date },
+  ctx: z.RefinementCtx
+) => {
+  if (query.createdFrom && query.createdTo && query.createdFrom > query.createdTo) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['createdTo'], message: 'Must be after createdFrom' });
+  }
+  if (query.updatedFrom && query.updatedTo && query.updatedFrom > query.updatedTo) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['updatedTo'], message: 'Must be after updatedFrom' });
+  }
+};
+
 const listContactsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(500).default(10),
+  ...contactFilterQueryShape,
+}).superRefine(refineContactDateRanges);
+
+const listContactNamesQuerySchema = z.object({
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(500).default(10),
   search: z.preprocess(
@@ -119,17 +215,103 @@ const listContactsQuerySchema = z.object({
   ),
 });
 
-const listContactNamesQuerySchema = z.object({
-  page: z.coerce.number().int().min(1).default(1),
-  limit: z.coerce.number().int().min(1).max(500).default(10),
-  search: z.preprocess(
+const exportContactsQuerySchema = z.object({
+  format: z.preprocess(
     (value) => {
       if (typeof value !== 'string') return undefined;
-      const trimmed = value.trim();
+      const trimmed = value.trim().toLowerCase();
       return trimmed.length > 0 ? trimmed : undefined;
     },
-    z.string().max(LENGTH.listSearch).optional()
+    z.enum(['csv', 'ndjson']).default('csv')
+  ),
+  ...contactFilterQueryShape,
+}).superRefine(refineContactDateRanges);
+
+const CONTACT_IMPORT_FIELDS = [
+  'firstName',
+  'lastName',
+  'companyName',
+  'jobTitle',
+  'website',
+  'emails',
+  'phones',
+  'street',
+  'city',
+  'state',
+  'postalCode',
+  'country',
+  'tags',
+  'leadSource',
+  'status',
+  'notes',
+] as const;
+
+const importContactsSchema = z.object({
+  mapping: z.preprocess(
+    (value) => {
+      if (typeof value !== 'string') return value;
+      const trimmed = value.trim();
+      if (!trimmed.length) return undefined;
+      try {
+        return JSON.parse(trimmed);
+      } catch {
+        return value;
+      }
+    },
+    z.record(z.enum(CONTACT_IMPORT_FIELDS).nullable()).optional()
+  ),
+  dryRun: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toLowerCase() === 'true' : value),
+    z.boolean().default(false)
+  ),
+  duplicateStrategy: z.enum(['skip', 'update']).default('skip'),
+});
+
+const listContactDuplicatesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const mergeContactsSchema = z.object({
+  survivorId: objectIdSchema,
+  contactIds: z.array(objectIdSchema).min(1).max(LENGTH.mergeContactsMax),
+});
+
+const bulkTagsSchema = z.array(z.string().trim().min(1).max(LENGTH.tag)).min(1).max(LENGTH.tagsMax);
+
+const bulkContactsSchema = z.object({
+  contactIds: z.array(objectIdSchema).min(1).max(LENGTH.bulkContactsMax).optional(),
+  filter: z.object(contactFilterShape).superRefine(refineContactDateRanges).optional(),
+  operation: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('add_tags'), tags: bulkTagsSchema }),
+    z.object({ type: z.literal('remove_tags'), tags: bulkTagsSchema }),
+    z.object({ type: z.literal('set_status'), status: z.enum(CONTACT_STATUSES) }),
+    z.object({ type: z.literal('reassign_owner'), ownerId: objectIdSchema }),
+    z.object({ type: z.literal('add_to_smart_list'), listId: objectIdSchema }),
+    z.object({ type: z.literal('delete') }),
+  ]),
+}).refine((data) => Boolean(data.contactIds) !== Boolean(data.filter), {
+  message: 'Provide either contactIds or filter',
+});
+
+const CONTACT_TIMELINE_TYPES = ['note', 'deal_created', 'deal_stage_changed', 'deal_won', 'deal_lost', 'conversation', 'task'] as const;
+
+const contactTimelineQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.preprocess(
+    (value) => (typeof value === 'string' && value.trim() ? value.trim() : undefined),
+    z.string()
+      .transform((value, ctx) => {
+        const cursor = decodeTimelineCursor(value);
+        if (!cursor) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+          return z.NEVER;
+        }
+        return cursor;
+      })
+      .optional()
   ),
+  types: optionalQueryList(z.array(z.enum(CONTACT_TIMELINE_TYPES))),
 });
 
 const updateContactPhotoSchema = z.object({
@@ -158,6 +340,36 @@ const resolveDeleteOwnerIds = async (req: Request, userId: string): Promise<stri
   return resolveTeamOwnerIds(req, userId);
 };
 
+const readContactFilterQuery = (req: Request) => ({
+  search: getQueryValue(req.query.search) ?? getQueryValue(req.query.q),
+  status: req.query.status,
+  leadSource: req.query.leadSource,
+  tags: req.query.tags ?? req.query.tag,
+  tagsMatch: getQueryValue(req.query.tagsMatch),
+  companyName: getQueryValue(req.query.companyName),
+  companyId: getQueryValue(req.query.companyId),
+  country: getQueryValue(req.query.country),
+  city: getQueryValue(req.query.city),
+  createdFrom: getQueryValue(req.query.createdFrom),
+  createdTo: getQueryValue(req.query.createdTo),
+  updatedFrom: getQueryValue(req.query.updatedFrom),
+  updatedTo: getQueryValue(req.query.updatedTo),
+  ownerId: getQueryValue(req.query.ownerId),
+  sortBy: getQueryValue(req.query.sortBy),
+  sortOrder: getQueryValue(req.query.sortOrder),
+  customFields: req.query.customFields,
+});
+
+const waitForDrain = (res: Response) => new Promise<void>((resolve) => {
+  const done = () => {
+    res.off('drain', done);
+    res.off('close', done);
+    resolve();
+  };
+  res.once('drain', done);
+  res.once('close', done);
+});
+
 const triggerContactListInboxSync = async (userId: string, contactIds: string[]) => {
   if (!contactIds.length) return;
 
@@ -217,6 +429,21 @@ export const createContactHandler = async (req: Request, res: Response) => {
         details: result.duplicateEmails.join(', '),
       });
     }
+    if (result.status === 'company_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Company not found',
+      });
+    }
+    if (result.status === 'invalid_custom_fields') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Invalid custom field values',
+        details: result.errors.join(', '),
+      });
+    }
 
     return sendResponse(res, {
       success: true,
@@ -242,6 +469,101 @@ export const createContactHandler = async (req: Request, res: Response) => {
   }
 };
 
+export const importContactsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const parsed = importContactsSchema.parse(req.body ?? {});
+    const file = req.file;
+    if (!file?.buffer) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: 'file is required',
+      });
+    }
+
+    const isCsv = /\.csv$/i.test(file.originalname || '') || /csv/i.test(file.mimetype || '');
+    if (!isCsv) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: 'file must be a CSV',
+      });
+    }
+
+    const result = await importContacts({
+      ownerId: userId,
+      csv: file.buffer.toString('utf8'),
+      mapping: parsed.mapping,
+      dryRun: parsed.dryRun,
+      duplicateStrategy: parsed.duplicateStrategy,
+      importedBy: userId,
+    });
+
+    if (result.status === 'empty_file') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'CSV file has no data rows',
+      });
+    }
+    if (result.status === 'too_many_rows') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: `CSV file cannot exceed ${result.limit} rows`,
+      });
+    }
+    if (result.status === 'invalid_mapping') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Mapping references columns that are not in the CSV header',
+        details: result.unknownHeaders.join(', '),
+      });
+    }
+    if (result.status === 'no_mapped_columns') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'No CSV columns could be mapped to contact fields',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: parsed.dryRun ? 200 : 201,
+      message: parsed.dryRun ? 'Contact import dry run completed' : 'Contacts imported successfully',
+      data: result.result,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to import contacts',
+      details: (error as Error).message,
+    });
+  }
+};
+
 export const listContactsHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
@@ -253,14 +575,32 @@ export const listContactsHandler = async (req: Request, res: Response) => {
       });
     }
 
-    const query = listContactsQuerySchema.parse({
+    const { customFields, ...query } = listContactsQuerySchema.parse({
       page: getQueryValue(req.query.page),
       limit: getQueryValue(req.query.limit),
-      search: getQueryValue(req.query.search) ?? getQueryValue(req.query.q),
+      ...readContactFilterQuery(req),
     });
 
     const ownerIds = await resolveTeamOwnerIds(req, userId);
-    const contacts = await listContacts(ownerIds, query);
+    if (query.ownerId && !ownerIds.includes(query.ownerId)) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Owner must be a member of your team',
+      });
+    }
+
+    const customFieldFilters = await resolveCustomFieldFilters(getTeamIdFromReq(req), 'contact', customFields);
+    if (customFieldFilters.status !== 'ok') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Invalid custom field filter',
+        details: customFieldFilters.errors.join(', '),
+      });
+    }
+
+    const contacts = await listContacts(ownerIds, { ...query, customFields: customFieldFilters.filters });
     const ownContactIds = contacts.contacts
       .filter((contact: any) => String(contact.ownerId) === userId)
       .map((contact: any) => String(contact._id));
@@ -293,6 +633,85 @@ export const listContactsHandler = async (req: Request, res: Response) => {
   }
 };
 
+export const exportContactsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const { format, customFields, ...filters } = exportContactsQuerySchema.parse({
+      format: getQueryValue(req.query.format),
+      ...readContactFilterQuery(req),
+    });
+
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    if (filters.ownerId && !ownerIds.includes(filters.ownerId)) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Owner must be a member of your team',
+      });
+    }
+
+    const customFieldFilters = await resolveCustomFieldFilters(getTeamIdFromReq(req), 'contact', customFields);
+    if (customFieldFilters.status !== 'ok') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Invalid custom field filter',
+        details: customFieldFilters.errors.join(', '),
+      });
+    }
+    const customFieldDefinitions = await getCustomFieldDefinitions(getTeamIdFromReq(req), 'contact');
+
+    const fileDate = new Date().toISOString().slice(0, 10);
+
+    res.status(200);
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="contacts-${fileDate}.${format}"`);
+
+    const chunks = generateContactsExport(
+      ownerIds,
+      { ...filters, customFields: customFieldFilters.filters },
+      format,
+      customFieldDefinitions
+    );
+    for await (const chunk of chunks) {
+      if (res.destroyed) return;
+      if (!res.write(chunk)) {
+        await waitForDrain(res);
+      }
+    }
+
+    return res.end();
+  } catch (error) {
+    if (res.headersSent) {
+      console.error(`====> Contact export failed: ${(error as Error).message}`);
+      return res.destroy(error as Error);
+    }
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to export contacts',
+      details: (error as Error).message,
+    });
+  }
+};
+
 export const listContactNamesHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
@@ -337,6 +756,231 @@ export const listContactNamesHandler = async (req: Request, res: Response) => {
   }
 };
 
+export const listContactDuplicatesHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const query = listContactDuplicatesQuerySchema.parse({
+      page: getQueryValue(req.query.page),
+      limit: getQueryValue(req.query.limit),
+    });
+
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    const duplicates = await findContactDuplicates(ownerIds, query);
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Duplicate contacts fetched successfully',
+      data: duplicates,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch duplicate contacts',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const mergeContactsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const parsed = mergeContactsSchema.parse(req.body);
+    const ownerIds = await resolveDeleteOwnerIds(req, userId);
+    const result = await mergeContacts(ownerIds, {
+      survivorId: parsed.survivorId,
+      contactIds: parsed.contactIds,
+      mergedBy: userId,
+    });
+
+    if (result.status === 'nothing_to_merge') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'At least one contact other than the survivor is required',
+      });
+    }
+
+    if (result.status === 'survivor_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Survivor contact not found',
+      });
+    }
+
+    if (result.status === 'contact_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'One or more contacts not found',
+        details: result.missingIds.join(', '),
+      });
+    }
+
+    if (result.status === 'invalid_merge') {
+      return sendError(res, {
+        success: false,
+        statusCode: 422,
+        message: 'Merged contact would be invalid',
+        details: result.errors.join(', '),
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Contacts merged successfully',
+      data: {
+        contact: result.contact,
+        mergedContactIds: result.mergedContactIds,
+        relinked: result.relinked,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to merge contacts',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const bulkContactsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const parsed = bulkContactsSchema.parse(req.body);
+    const [ownerIds, teamOwnerIds] = await Promise.all([
+      resolveDeleteOwnerIds(req, userId),
+      resolveTeamOwnerIds(req, userId),
+    ]);
+
+    if (parsed.filter?.ownerId && !ownerIds.includes(parsed.filter.ownerId)) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Owner must be a member of your team',
+      });
+    }
+
+    const result = await bulkUpdateContacts({
+      ownerIds,
+      teamOwnerIds,
+      contactIds: parsed.contactIds,
+      filter: parsed.filter,
+      operation: parsed.operation,
+      performedBy: userId,
+    });
+
+    if (result.status === 'owner_not_in_team') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'New owner must be a member of your team',
+      });
+    }
+
+    if (result.status === 'too_many_contacts') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: `A bulk operation can target at most ${result.limit} contacts`,
+      });
+    }
+
+    if (result.status === 'smart_list_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Smart list not found',
+      });
+    }
+
+    if (result.status === 'smart_list_dynamic') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'Contacts cannot be added to a rule-based smart list',
+      });
+    }
+
+    if (result.status === 'smart_list_full') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: `Smart list cannot exceed ${result.limit} contacts`,
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Bulk operation completed',
+      data: result.result,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to run bulk operation',
+      details: (error as Error).message,
+    });
+  }
+};
+
 export const getContactByIdHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
@@ -362,6 +1006,7 @@ export const getContactByIdHandler = async (req: Request, res: Response) => {
       ? (contactObj as any).ownerId
       : null;
     const { ownerId: _ownerId, ...contactWithoutOwnerId } = contactObj as any;
+    const tasks = await listLinkedTasks(userId, { contactId: String(contact._id) });
 
     return sendResponse(res, {
       success: true,
@@ -370,6 +1015,7 @@ export const getContactByIdHandler = async (req: Request, res: Response) => {
       data: {
         ...contactWithoutOwnerId,
         ownerDetails,
+        tasks,
       },
     });
   } catch (error) {
@@ -382,6 +1028,63 @@ export const getContactByIdHandler = async (req: Request, res: Response) => {
   }
 };
 
+export const getContactTimelineHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const contactId = objectIdSchema.parse(req.params.id);
+    const query = contactTimelineQuerySchema.parse({
+      limit: getQueryValue(req.query.limit),
+      cursor: getQueryValue(req.query.cursor),
+      types: req.query.types ?? req.query.type,
+    });
+
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    const result = await getContactTimeline(ownerIds, contactId, query);
+
+    if (result.status === 'contact_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Contact not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Contact timeline fetched successfully',
+      data: {
+        entries: result.entries,
+        pagination: result.pagination,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch contact timeline',
+      details: (error as Error).message,
+    });
+  }
+};
+
 export const updateContactHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
@@ -407,25 +1110,40 @@ export const updateContactHandler = async (req: Request, res: Response) => {
             country: address.country ?? null,
           };
 
-    const contact = await updateContact(userId, req.params.id, {
+    const result = await updateContact(userId, req.params.id, {
       ...rest,
       address: normalizedAddress,
       updatedBy: userId,
     });
 
-    if (!contact) {
+    if (result.status === 'contact_not_found') {
       return sendError(res, {
         success: false,
         statusCode: 404,
         message: 'Contact not found',
       });
     }
+    if (result.status === 'company_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Company not found',
+      });
+    }
+    if (result.status === 'invalid_custom_fields') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Invalid custom field values',
+        details: result.errors.join(', '),
+      });
+    }
 
     return sendResponse(res, {
       success: true,
       statusCode: 200,
       message: 'Contact updated successfully',
-      data: contact,
+      data: result.contact,
     });
   } catch (error) {
     if (error instanceof ZodError) {
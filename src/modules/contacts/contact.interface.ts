@@ -1,6 +1,8 @@
 import { Document, Types } from 'mongoose';
+import { CustomFieldFilter, CustomFieldValues } from '../custom-fields/customField.interface';
 
 export type ContactStatus = 'lead' | 'qualified' | 'customer' | 'inactive';
+export type ContactLeadSource = 'website' | 'referral' | 'social' | 'ads' | 'manual' | 'other';
 
 export interface IContact extends Document {
   ownerId: Types.ObjectId;
@@ -10,6 +12,7 @@ export interface IContact extends Document {
   emails: string[];
   phones: string[];
   companyName?: string | null;
+  companyId?: Types.ObjectId | null;
   jobTitle?: string | null;
   website?: string | null;
   leadSource?: 'website' | 'referral' | 'social' | 'ads' | 'manual' | 'other';
@@ -23,6 +26,7 @@ export interface IContact extends Document {
     country?: string | null;
   } | null;
   notes?: string | null;
+  customFields?: CustomFieldValues;
   createdBy: Types.ObjectId;
   updatedBy?: Types.ObjectId | null;
   deletedAt?: Date | null;
@@ -37,6 +41,7 @@ export type CreateContactInput = {
   emails?: string[];
   phones?: string[];
   companyName?: string | null;
+  companyId?: string | null;
   jobTitle?: string | null;
   website?: string | null;
   leadSource?: 'website' | 'referral' | 'social' | 'ads' | 'manual' | 'other';
@@ -50,18 +55,45 @@ export type CreateContactInput = {
     country?: string | null;
   } | null;
   notes?: string | null;
+  customFields?: Record<string, unknown>;
   createdBy: string;
   updatedBy?: string | null;
 };
 
 export type UpdateContactInput = Partial<Omit<CreateContactInput, 'ownerId' | 'createdBy'>>;
 
-export type ListContactsQuery = {
+export type ContactFilterQuery = {
+  search?: string;
+  status?: ContactStatus[];
+  leadSource?: ContactLeadSource[];
+  tags?: string[];
+  tagsMatch?: 'any' | 'all';
+  companyName?: string;
+  companyId?: string;
+  country?: string;
+  city?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  ownerId?: string;
+  customFields?: CustomFieldFilter[];
+};
+
+export type ContactSortField = 'createdAt' | 'updatedAt' | 'firstName' | 'lastName' | 'companyName';
+
+export type ContactSortQuery = {
+  sortBy?: ContactSortField;
+  sortOrder?: 'asc' | 'desc';
+};
+
+export type ListContactsQuery = ContactFilterQuery & ContactSortQuery & {
   page: number;
   limit: number;
-  search?: string;
 };
 
+export type ContactExportFormat = 'csv' | 'ndjson';
+
 export type ListContactsResult = {
   contacts: IContact[];
   pagination: {
@@ -73,3 +105,138 @@ export type ListContactsResult = {
     hasPrevPage: boolean;
   };
 };
+
+export type ContactImportField =
+  | 'firstName'
+  | 'lastName'
+  | 'companyName'
+  | 'jobTitle'
+  | 'website'
+  | 'emails'
+  | 'phones'
+  | 'street'
+  | 'city'
+  | 'state'
+  | 'postalCode'
+  | 'country'
+  | 'tags'
+  | 'leadSource'
+  | 'status'
+  | 'notes';
+
+export type ContactImportDuplicateStrategy = 'skip' | 'update';
+
+export type ImportContactsInput = {
+  ownerId: string;
+  csv: string;
+  mapping?: Record<string, ContactImportField | null>;
+  dryRun: boolean;
+  duplicateStrategy: ContactImportDuplicateStrategy;
+  importedBy: string;
+};
+
+export type ContactImportRowStatus = 'created' | 'updated' | 'skipped' | 'invalid';
+
+export type ContactImportRowResult = {
+  row: number;
+  status: ContactImportRowStatus;
+  contactId?: string | null;
+  reason?: string;
+  errors?: string[];
+};
+
+export type ImportContactsResult = {
+  dryRun: boolean;
+  totalRows: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  invalid: number;
+  mapping: Record<string, ContactImportField>;
+  rows: ContactImportRowResult[];
+};
+
+export type ContactDuplicateMatchField = 'email' | 'phone' | 'name_company';
+
+export type ContactDuplicateMatch = {
+  field: ContactDuplicateMatchField;
+  value: string;
+  contactIds: string[];
+};
+
+export type ContactDuplicateGroup = {
+  contacts: Record<string, unknown>[];
+  matches: ContactDuplicateMatch[];
+};
+
+export type ListContactDuplicatesQuery = {
+  page: number;
+  limit: number;
+};
+
+export type MergeContactsInput = {
+  survivorId: string;
+  contactIds: string[];
+  mergedBy: string;
+};
+
+export type ContactBulkOperation =
+  | { type: 'add_tags'; tags: string[] }
+  | { type: 'remove_tags'; tags: string[] }
+  | { type: 'set_status'; status: ContactStatus }
+  | { type: 'reassign_owner'; ownerId: string }
+  | { type: 'add_to_smart_list'; listId: string }
+  | { type: 'delete' };
+
+export type BulkContactsInput = {
+  ownerIds: string[];
+  teamOwnerIds: string[];
+  contactIds?: string[];
+  filter?: ContactFilterQuery;
+  operation: ContactBulkOperation;
+  performedBy: string;
+};
+
+export type ContactBulkItemStatus = 'updated' | 'deleted' | 'skipped' | 'not_found' | 'failed';
+
+export type ContactBulkItemResult = {
+  id: string;
+  status: ContactBulkItemStatus;
+  reason?: string;
+};
+
+export type BulkContactsResult = {
+  operation: ContactBulkOperation['type'];
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: ContactBulkItemResult[];
+};
+
+export type ContactTimelineEntryType =
+  | 'note'
+  | 'deal_created'
+  | 'deal_stage_changed'
+  | 'deal_won'
+  | 'deal_lost'
+  | 'conversation'
+  | 'task';
+
+export type ContactTimelineEntry = {
+  id: string;
+  type: ContactTimelineEntryType;
+  at: Date;
+  data: Record<string, unknown>;
+};
+
+export type ContactTimelineCursor = {
+  at: Date;
+  source: string;
+  id: string;
+};
+
+export type ContactTimelineQuery = {
+  limit: number;
+  cursor?: ContactTimelineCursor;
+  types?: ContactTimelineEntryType[];
+};
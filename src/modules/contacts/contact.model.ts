@@ -1,5 +1,6 @@
 import { Schema, model } from 'mongoose';
 import { IContact } from './contact.interface';
+import { auditPlugin } from '../audit/audit.plugin';
 
 const LENGTH = {
   firstName: 30,
@@ -36,6 +37,7 @@ const contactSchema = new Schema<IContact>({
     default: [],
   },
   companyName: { type: String, default: null, trim: true, maxlength: LENGTH.companyName },
+  companyId: { type: Schema.Types.ObjectId, ref: 'Companies', default: null, index: true },
   jobTitle: { type: String, default: null, trim: true, maxlength: LENGTH.jobTitle },
   website: { type: String, default: null, trim: true, maxlength: LENGTH.website },
   leadSource: {
@@ -60,6 +62,8 @@ const contactSchema = new Schema<IContact>({
     country: { type: String, default: null, maxlength: LENGTH.country },
   },
   notes: { type: String, default: null, maxlength: LENGTH.notes },
+  // Values of the team's custom fields, keyed by field key; validated against the definitions in the service.
+  customFields: { type: Schema.Types.Mixed, default: {} },
   createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
   deletedAt: { type: Date, default: null, index: true },
@@ -78,4 +82,6 @@ contactSchema.index({ ownerId: 1, emails: 1 });
 contactSchema.index({ ownerId: 1, phones: 1 });
 contactSchema.index({ ownerId: 1, deletedAt: 1 });
 
+contactSchema.plugin(auditPlugin, { resourceType: 'contact' });
+
 export const Contact = model<IContact>('Contacts', contactSchema);
@@ -1,11 +1,18 @@
 import { Router } from 'express';
 import { authenticate, authorize } from '../../middleware/authMiddlewares';
+import { upload } from '../../middleware/upload';
 import {
+  bulkContactsHandler,
   createContactHandler,
   deleteContactHandler,
+  exportContactsHandler,
   getContactByIdHandler,
+  getContactTimelineHandler,
+  importContactsHandler,
+  listContactDuplicatesHandler,
   listContactNamesHandler,
   listContactsHandler,
+  mergeContactsHandler,
   updateContactHandler,
   updateContactPhotoHandler,
 } from './contact.controller';
@@ -20,6 +27,8 @@ const CONTACT_ACCESS_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
  *     tags:
  *       - Contacts
  *     summary: Create a contact
+ *     description: >
+ *       Without a companyId the contact is linked to the team company whose domain matches one of its emails.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -39,6 +48,9 @@ const CONTACT_ACCESS_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
  *               companyName:
  *                 type: string
  *                 nullable: true
+ *               companyId:
+ *                 type: string
+ *                 nullable: true
  *               photoUrl:
  *                 type: string
  *                 nullable: true
@@ -65,12 +77,170 @@ const CONTACT_ACCESS_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
  *                     type: string
  *                   country:
  *                     type: string
+ *               customFields:
+ *                 $ref: '#/components/schemas/CustomFieldValues'
  *     responses:
  *       201:
  *         description: Contact created successfully
+ *       400:
+ *         description: Validation failed or invalid custom field values
+ *       404:
+ *         description: Company not found
  */
 router.post('/', authenticate, authorize(CONTACT_ACCESS_ROLES), createContactHandler);
 
+/**
+ * @swagger
+ * /api/contacts/import:
+ *   post:
+ *     tags:
+ *       - Contacts
+ *     summary: Import contacts from a CSV file
+ *     description: >
+ *       Columns are matched to contact fields by header name unless a mapping is provided.
+ *       Multiple emails, phones or tags in one cell can be separated by ";", "," or "|".
+ *       Rows sharing an email or phone with an existing contact are skipped or merged depending on duplicateStrategy.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               mapping:
+ *                 type: string
+ *                 description: JSON object of CSV header to contact field (null ignores the column)
+ *                 example: '{"E-mail":"emails","Mobile":"phones","Organisation":"companyName"}'
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Validate rows and report results without saving
+ *               duplicateStrategy:
+ *                 type: string
+ *                 enum: [skip, update]
+ *                 default: skip
+ *     responses:
+ *       200:
+ *         description: Contact import dry run completed
+ *       201:
+ *         description: Contacts imported successfully
+ *       400:
+ *         description: Validation failed or invalid CSV
+ */
+router.post('/import', authenticate, authorize(CONTACT_ACCESS_ROLES), upload.single('file'), importContactsHandler);
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     ContactStatusFilter:
+ *       in: query
+ *       name: status
+ *       description: Comma-separated or repeated statuses
+ *       schema:
+ *         type: array
+ *         items:
+ *           type: string
+ *           enum: [lead, qualified, customer, inactive]
+ *     ContactLeadSourceFilter:
+ *       in: query
+ *       name: leadSource
+ *       description: Comma-separated or repeated lead sources
+ *       schema:
+ *         type: array
+ *         items:
+ *           type: string
+ *           enum: [website, referral, social, ads, manual, other]
+ *     ContactTagsFilter:
+ *       in: query
+ *       name: tags
+ *       description: Comma-separated or repeated tags, matched case-insensitively
+ *       schema:
+ *         type: array
+ *         items:
+ *           type: string
+ *     ContactTagsMatch:
+ *       in: query
+ *       name: tagsMatch
+ *       description: Whether a contact needs any or all of the given tags
+ *       schema:
+ *         type: string
+ *         enum: [any, all]
+ *         default: any
+ *     ContactCompanyNameFilter:
+ *       in: query
+ *       name: companyName
+ *       description: Case-insensitive partial match
+ *       schema:
+ *         type: string
+ *     ContactCompanyFilter:
+ *       in: query
+ *       name: companyId
+ *       schema:
+ *         type: string
+ *     ContactCountryFilter:
+ *       in: query
+ *       name: country
+ *       schema:
+ *         type: string
+ *     ContactCityFilter:
+ *       in: query
+ *       name: city
+ *       schema:
+ *         type: string
+ *     ContactCreatedFrom:
+ *       in: query
+ *       name: createdFrom
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *     ContactCreatedTo:
+ *       in: query
+ *       name: createdTo
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *     ContactUpdatedFrom:
+ *       in: query
+ *       name: updatedFrom
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *     ContactUpdatedTo:
+ *       in: query
+ *       name: updatedTo
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *     ContactOwnerFilter:
+ *       in: query
+ *       name: ownerId
+ *       description: Only contacts owned by this team member
+ *       schema:
+ *         type: string
+ *     ContactSortBy:
+ *       in: query
+ *       name: sortBy
+ *       schema:
+ *         type: string
+ *         enum: [createdAt, updatedAt, firstName, lastName, companyName]
+ *         default: createdAt
+ *     ContactSortOrder:
+ *       in: query
+ *       name: sortOrder
+ *       schema:
+ *         type: string
+ *         enum: [asc, desc]
+ *         default: desc
+ */
+
 /**
  * @swagger
  * /api/contacts:
@@ -96,9 +266,27 @@ router.post('/', authenticate, authorize(CONTACT_ACCESS_ROLES), createContactHan
  *         schema:
  *           type: string
  *         description: Search by name, email, or phone
+ *       - $ref: '#/components/parameters/ContactStatusFilter'
+ *       - $ref: '#/components/parameters/ContactLeadSourceFilter'
+ *       - $ref: '#/components/parameters/ContactTagsFilter'
+ *       - $ref: '#/components/parameters/ContactTagsMatch'
+ *       - $ref: '#/components/parameters/ContactCompanyNameFilter'
+ *       - $ref: '#/components/parameters/ContactCompanyFilter'
+ *       - $ref: '#/components/parameters/ContactCountryFilter'
+ *       - $ref: '#/components/parameters/ContactCityFilter'
+ *       - $ref: '#/components/parameters/ContactCreatedFrom'
+ *       - $ref: '#/components/parameters/ContactCreatedTo'
+ *       - $ref: '#/components/parameters/ContactUpdatedFrom'
+ *       - $ref: '#/components/parameters/ContactUpdatedTo'
+ *       - $ref: '#/components/parameters/ContactOwnerFilter'
+ *       - $ref: '#/components/parameters/ContactSortBy'
+ *       - $ref: '#/components/parameters/ContactSortOrder'
+ *       - $ref: '#/components/parameters/CustomFieldFilter'
  *     responses:
  *       200:
  *         description: Contacts fetched successfully
+ *       400:
+ *         description: Invalid filters or owner outside the team
  */
 router.get('/', authenticate, authorize(CONTACT_ACCESS_ROLES), listContactsHandler);
 
@@ -131,8 +319,184 @@ router.get('/', authenticate, authorize(CONTACT_ACCESS_ROLES), listContactsHandl
  *       200:
  *         description: Contact options fetched successfully
  */
+/**
+ * @swagger
+ * /api/contacts/export:
+ *   get:
+ *     tags:
+ *       - Contacts
+ *     summary: Export all matching contacts as CSV or NDJSON
+ *     description: >
+ *       Streams every contact visible to the team that matches the same filters as the list endpoint.
+ *       Emails, phones and tags are joined with "; " and the address is split into separate columns.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, ndjson]
+ *           default: csv
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by name, email, or phone
+ *       - $ref: '#/components/parameters/ContactStatusFilter'
+ *       - $ref: '#/components/parameters/ContactLeadSourceFilter'
+ *       - $ref: '#/components/parameters/ContactTagsFilter'
+ *       - $ref: '#/components/parameters/ContactTagsMatch'
+ *       - $ref: '#/components/parameters/ContactCompanyNameFilter'
+ *       - $ref: '#/components/parameters/ContactCompanyFilter'
+ *       - $ref: '#/components/parameters/ContactCountryFilter'
+ *       - $ref: '#/components/parameters/ContactCityFilter'
+ *       - $ref: '#/components/parameters/ContactCreatedFrom'
+ *       - $ref: '#/components/parameters/ContactCreatedTo'
+ *       - $ref: '#/components/parameters/ContactUpdatedFrom'
+ *       - $ref: '#/components/parameters/ContactUpdatedTo'
+ *       - $ref: '#/components/parameters/ContactOwnerFilter'
+ *       - $ref: '#/components/parameters/ContactSortBy'
+ *       - $ref: '#/components/parameters/ContactSortOrder'
+ *       - $ref: '#/components/parameters/CustomFieldFilter'
+ *     responses:
+ *       200:
+ *         description: Contacts export stream
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ */
+router.get('/export', authenticate, authorize(CONTACT_ACCESS_ROLES), exportContactsHandler);
+
 router.get('/options', authenticate, authorize(CONTACT_ACCESS_ROLES), listContactNamesHandler);
 
+/**
+ * @swagger
+ * /api/contacts/duplicates:
+ *   get:
+ *     tags:
+ *       - Contacts
+ *     summary: Find groups of likely duplicate contacts
+ *     description: >
+ *       Groups team contacts that share an email, a phone number (compared by digits only)
+ *       or the same normalized name and company. Contacts linked through different keys end up in one group.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Duplicate groups fetched successfully
+ */
+router.get('/duplicates', authenticate, authorize(CONTACT_ACCESS_ROLES), listContactDuplicatesHandler);
+
+/**
+ * @swagger
+ * /api/contacts/merge:
+ *   post:
+ *     tags:
+ *       - Contacts
+ *     summary: Merge duplicate contacts into a survivor
+ *     description: >
+ *       Unions emails, phones and tags into the survivor, fills its empty fields from the merged contacts,
+ *       re-points deals, notes, conversations, tasks and smart lists to the survivor and soft-deletes the rest.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [survivorId, contactIds]
+ *             properties:
+ *               survivorId:
+ *                 type: string
+ *               contactIds:
+ *                 type: array
+ *                 maxItems: 20
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Contacts merged successfully
+ *       404:
+ *         description: Survivor or one of the contacts not found
+ *       422:
+ *         description: Merged contact exceeds field limits
+ */
+router.post('/merge', authenticate, authorize(CONTACT_ACCESS_ROLES), mergeContactsHandler);
+
+/**
+ * @swagger
+ * /api/contacts/bulk:
+ *   post:
+ *     tags:
+ *       - Contacts
+ *     summary: Apply one operation to many contacts
+ *     description: >
+ *       Targets either explicit `contactIds` or every contact matching `filter` (same fields as the list filters),
+ *       up to 5000 contacts, processed in batches of 100. Members can only target their own contacts.
+ *       Returns a result per contact id.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [operation]
+ *             properties:
+ *               contactIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               filter:
+ *                 type: object
+ *                 description: status, leadSource, tags, tagsMatch, companyName, companyId, country, city, createdFrom, createdTo, updatedFrom, updatedTo, ownerId, search
+ *               operation:
+ *                 type: object
+ *                 required: [type]
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [add_tags, remove_tags, set_status, reassign_owner, add_to_smart_list, delete]
+ *                   tags:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   status:
+ *                     type: string
+ *                     enum: [lead, qualified, customer, inactive]
+ *                   ownerId:
+ *                     type: string
+ *                   listId:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Bulk operation completed
+ *       404:
+ *         description: Smart list not found
+ *       409:
+ *         description: Smart list is rule-based or full
+ */
+router.post('/bulk', authenticate, authorize(CONTACT_ACCESS_ROLES), bulkContactsHandler);
+
 /**
  * @swagger
  * /api/contacts/{id}:
@@ -140,6 +504,7 @@ router.get('/options', authenticate, authorize(CONTACT_ACCESS_ROLES), listContac
  *     tags:
  *       - Contacts
  *     summary: Get a contact by id
+ *     description: Includes `tasks`, your tasks linked to the contact.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -156,6 +521,51 @@ router.get('/options', authenticate, authorize(CONTACT_ACCESS_ROLES), listContac
  */
 router.get('/:id', authenticate, authorize(CONTACT_ACCESS_ROLES), getContactByIdHandler);
 
+/**
+ * @swagger
+ * /api/contacts/{id}/timeline:
+ *   get:
+ *     tags:
+ *       - Contacts
+ *     summary: Get a contact's activity timeline
+ *     description: >
+ *       Notes, deal events (created, stage changed, won, lost), email/SMS conversations and linked
+ *       tasks for the contact, newest first. Pass `pagination.nextCursor` back as `cursor` to load
+ *       older entries.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: types
+ *         description: Comma-separated entry types to include
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [note, deal_created, deal_stage_changed, deal_won, deal_lost, conversation, task]
+ *     responses:
+ *       200:
+ *         description: Contact timeline fetched successfully
+ *       404:
+ *         description: Contact not found
+ */
+router.get('/:id/timeline', authenticate, authorize(CONTACT_ACCESS_ROLES), getContactTimelineHandler);
+
 /**
  * @swagger
  * /api/contacts/{id}:
@@ -177,11 +587,18 @@ router.get('/:id', authenticate, authorize(CONTACT_ACCESS_ROLES), getContactById
  *         application/json:
  *           schema:
  *             type: object
+ *             properties:
+ *               companyId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Set to null to unlink the contact from its company
+ *               customFields:
+ *                 $ref: '#/components/schemas/CustomFieldValues'
  *     responses:
  *       200:
  *         description: Contact updated successfully
  *       404:
- *         description: Contact not found
+ *         description: Contact or company not found
  */
 router.put('/:id', authenticate, authorize(CONTACT_ACCESS_ROLES), updateContactHandler);
 
@@ -1,6 +1,18 @@
 import { FilterQuery } from 'mongoose';
+import { findCompanyByEmails, findTeamCompany } from '../companies/company.service';
+import { getOwnerCustomFieldDefinitions } from '../custom-fields/customField.service';
+import { buildCustomFieldConditions, validateCustomFieldValues } from '../custom-fields/customFieldValues.service';
+import { syncContactTags } from '../tags/tags.service';
 import { Contact } from './contact.model';
-import { CreateContactInput, IContact, ListContactsQuery, ListContactsResult, UpdateContactInput } from './contact.interface';
+import {
+  ContactFilterQuery,
+  ContactSortQuery,
+  CreateContactInput,
+  IContact,
+  ListContactsQuery,
+  ListContactsResult,
+  UpdateContactInput,
+} from './contact.interface';
 
 const normalizeEmails = (emails?: string[]) => {
   if (!emails) return undefined;
@@ -50,10 +62,31 @@ export const createContact = async (payload: CreateContactInput) => {
     }
   }
 
+  const customFields = validateCustomFieldValues(
+    await getOwnerCustomFieldDefinitions(payload.ownerId, 'contact'),
+    payload.customFields,
+    'create'
+  );
+  if (customFields.status !== 'ok') {
+    return customFields;
+  }
+
+  // An explicit company wins; otherwise the contact joins the company owning its email domain.
+  const company = payload.companyId
+    ? await findTeamCompany(payload.ownerId, payload.companyId)
+    : await findCompanyByEmails(payload.ownerId, normalizedEmails);
+  if (payload.companyId && !company) {
+    return { status: 'company_not_found' as const };
+  }
+
   const contact = await Contact.create({
     ...payload,
+    companyId: company?._id ?? null,
+    companyName: payload.companyName ?? company?.name ?? null,
     emails: normalizedEmails,
     phones: normalizedPhones,
+    tags: await syncContactTags(payload.ownerId, payload.tags ?? [], payload.createdBy),
+    customFields: customFields.values,
   });
   return { status: 'ok' as const, contact };
 };
@@ -62,6 +95,15 @@ const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\
 
 const createRegex = (value: string) => new RegExp(escapeRegExp(value.trim()), 'i');
 
+const createExactRegex = (value: string) => new RegExp(`^${escapeRegExp(value.trim())}$`, 'i');
+
+const buildDateRange = (from?: Date, to?: Date) => {
+  const range: { $gte?: Date; $lte?: Date } = {};
+  if (from) range.$gte = from;
+  if (to) range.$lte = to;
+  return Object.keys(range).length > 0 ? range : null;
+};
+
 const CONTACT_LIST_FIELDS = [
   '_id',
   'ownerId',
@@ -71,7 +113,9 @@ const CONTACT_LIST_FIELDS = [
   'emails',
   'phones',
   'companyName',
+  'companyId',
   'address',
+  'customFields',
   'createdBy',
   'updatedBy',
   'createdAt',
@@ -87,6 +131,7 @@ const CONTACT_DETAIL_FIELDS = [
   'emails',
   'phones',
   'companyName',
+  'companyId',
   'jobTitle',
   'website',
   'leadSource',
@@ -94,6 +139,7 @@ const CONTACT_DETAIL_FIELDS = [
   'tags',
   'address',
   'notes',
+  'customFields',
   'createdBy',
   'updatedBy',
   'createdAt',
@@ -105,7 +151,7 @@ const buildOwnerScopeFilter = (ownerIds: string[]) => ({
   deletedAt: null,
 });
 
-export const listContacts = async (ownerIds: string[], query: ListContactsQuery): Promise<ListContactsResult> => {
+export const buildContactListFilter = (ownerIds: string[], query: ContactFilterQuery): FilterQuery<IContact> => {
   const conditions: FilterQuery<IContact>[] = [buildOwnerScopeFilter(ownerIds)];
 
   if (query.search) {
@@ -120,7 +166,53 @@ export const listContacts = async (ownerIds: string[], query: ListContactsQuery)
     });
   }
 
-  const filter = conditions.length === 1 ? conditions[0] : { $and: conditions };
+  if (query.ownerId) {
+    conditions.push({ ownerId: query.ownerId });
+  }
+  if (query.status?.length) {
+    conditions.push({ status: { $in: query.status } });
+  }
+  if (query.leadSource?.length) {
+    conditions.push({ leadSource: { $in: query.leadSource } });
+  }
+  if (query.tags?.length) {
+    const tagRegexes = query.tags.map(createExactRegex);
+    conditions.push({ tags: query.tagsMatch === 'all' ? { $all: tagRegexes } : { $in: tagRegexes } });
+  }
+  if (query.companyName) {
+    conditions.push({ companyName: createRegex(query.companyName) });
+  }
+  if (query.companyId) {
+    conditions.push({ companyId: query.companyId });
+  }
+  if (query.country) {
+    conditions.push({ 'address.country': createExactRegex(query.country) });
+  }
+  if (query.city) {
+    conditions.push({ 'address.city': createExactRegex(query.city) });
+  }
+
+  const createdRange = buildDateRange(query.createdFrom, query.createdTo);
+  if (createdRange) {
+    conditions.push({ createdAt: createdRange } as FilterQuery<IContact>);
+  }
+  const updatedRange = buildDateRange(query.updatedFrom, query.updatedTo);
+  if (updatedRange) {
+    conditions.push({ updatedAt: updatedRange } as FilterQuery<IContact>);
+  }
+  conditions.push(...buildCustomFieldConditions(query.customFields));
+
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+};
+
+export const buildContactListSort = (query: ContactSortQuery): Record<string, 1 | -1> => {
+  const direction = query.sortOrder === 'asc' ? 1 : -1;
+  return { [query.sortBy ?? 'createdAt']: direction, _id: direction };
+};
+
+export const listContacts = async (ownerIds: string[], query: ListContactsQuery): Promise<ListContactsResult> => {
+  const filter = buildContactListFilter(ownerIds, query);
+  const sort = buildContactListSort(query);
   const skip = (query.page - 1) * query.limit;
   const hasPrevPage = query.page > 1;
 
@@ -128,7 +220,7 @@ export const listContacts = async (ownerIds: string[], query: ListContactsQuery)
     const [contacts, total] = await Promise.all([
       Contact.find(filter)
         .select(CONTACT_LIST_FIELDS)
-        .sort({ createdAt: -1 })
+        .sort(sort)
         .skip(skip)
         .limit(query.limit),
       Contact.countDocuments(filter),
@@ -151,7 +243,7 @@ export const listContacts = async (ownerIds: string[], query: ListContactsQuery)
 
   const contacts = await Contact.find(filter)
     .select(CONTACT_LIST_FIELDS)
-    .sort({ createdAt: -1 })
+    .sort(sort)
     .skip(skip)
     .limit(query.limit + 1);
 
@@ -229,12 +321,33 @@ export const getContactById = async (ownerId: string, id: string) => {
     .populate({
       path: 'ownerId',
       select: '_id fullName email companyName profilePhoto role phoneNumber location timeZone teamId createdAt updatedAt',
-    });
+    })
+    .populate({ path: 'companyId', select: '_id name domain industry size' });
   return contact;
 };
 
 export const updateContact = async (ownerId: string, id: string, updates: UpdateContactInput) => {
-  const nextUpdates: Record<string, unknown> = { ...updates };
+  const { customFields, ...fields } = updates;
+  const nextUpdates: Record<string, unknown> = { ...fields };
+
+  if (customFields !== undefined) {
+    const customFieldCheck = validateCustomFieldValues(
+      await getOwnerCustomFieldDefinitions(ownerId, 'contact'),
+      customFields,
+      'update'
+    );
+    if (customFieldCheck.status !== 'ok') {
+      return customFieldCheck;
+    }
+
+    // Only the submitted keys change; the contact's other custom field values are kept.
+    Object.entries(customFieldCheck.values).forEach(([key, value]) => {
+      nextUpdates[`customFields.${key}`] = value;
+    });
+    if (customFieldCheck.unset.length) {
+      nextUpdates.$unset = Object.fromEntries(customFieldCheck.unset.map((key) => [`customFields.${key}`, '']));
+    }
+  }
 
   if (updates.emails !== undefined) {
     nextUpdates.emails = normalizeEmails(updates.emails);
@@ -242,13 +355,39 @@ export const updateContact = async (ownerId: string, id: string, updates: Update
   if (updates.phones !== undefined) {
     nextUpdates.phones = normalizePhones(updates.phones);
   }
+  if (updates.tags !== undefined) {
+    nextUpdates.tags = await syncContactTags(ownerId, updates.tags, updates.updatedBy ?? ownerId);
+  }
+  // null unlinks the contact from its company.
+  if (updates.companyId) {
+    const company = await findTeamCompany(ownerId, updates.companyId);
+    if (!company) {
+      return { status: 'company_not_found' as const };
+    }
+  }
 
-  const contact = await Contact.findOneAndUpdate(
+  let contact = await Contact.findOneAndUpdate(
     { _id: id, ownerId, deletedAt: null },
     nextUpdates,
     { new: true }
   );
-  return contact;
+  if (!contact) {
+    return { status: 'contact_not_found' as const };
+  }
+
+  // New emails can match a company for a contact that has none and was not explicitly unlinked.
+  if (updates.companyId === undefined && updates.emails !== undefined && !contact.companyId) {
+    const company = await findCompanyByEmails(ownerId, contact.emails);
+    if (company) {
+      contact = await Contact.findOneAndUpdate(
+        { _id: contact._id, companyId: null },
+        { companyId: company._id, updatedBy: updates.updatedBy ?? ownerId },
+        { new: true }
+      ) ?? contact;
+    }
+  }
+
+  return { status: 'ok' as const, contact };
 };
 
 export const deleteContact = async (ownerIds: string[], id: string, deletedBy: string) => {
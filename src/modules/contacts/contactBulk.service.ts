@@ -0,0 +1,233 @@
+import { Types } from 'mongoose';
+import { ContactList } from '../smart-contacts/smartList.model';
+import { syncContactTags } from '../tags/tags.service';
+import { Contact } from './contact.model';
+import { buildContactListFilter, deleteContact, updateContact } from './contact.service';
+import {
+  BulkContactsInput,
+  BulkContactsResult,
+  ContactBulkItemResult,
+  ContactBulkOperation,
+  ContactStatus,
+} from './contact.interface';
+
+const LENGTH = {
+  bulkContactsMax: 5000,
+  batchSize: 100,
+  tagsMax: 20,
+  smartListContactsMax: 5000,
+} as const;
+
+type BulkTarget = {
+  _id: Types.ObjectId;
+  ownerId: Types.ObjectId;
+  status: ContactStatus;
+  tags: string[];
+};
+
+const BULK_TARGET_FIELDS = '_id ownerId status tags';
+
+const sameTag = (left: string, right: string) => left.toLowerCase() === right.toLowerCase();
+
+const resolveTargets = async (payload: BulkContactsInput) => {
+  if (payload.contactIds) {
+    const ids = Array.from(new Set(payload.contactIds));
+    if (ids.length > LENGTH.bulkContactsMax) {
+      return { status: 'too_many_contacts' as const, limit: LENGTH.bulkContactsMax };
+    }
+
+    const contacts = await Contact.find({ _id: { $in: ids }, ownerId: { $in: payload.ownerIds }, deletedAt: null })
+      .select(BULK_TARGET_FIELDS)
+      .lean<BulkTarget[]>();
+    const byId = new Map(contacts.map((contact) => [String(contact._id), contact]));
+
+    return {
+      status: 'ok' as const,
+      targets: ids.filter((id) => byId.has(id)).map((id) => byId.get(id) as BulkTarget),
+      missingIds: ids.filter((id) => !byId.has(id)),
+    };
+  }
+
+  const contacts = await Contact.find(buildContactListFilter(payload.ownerIds, payload.filter ?? {}))
+    .select(BULK_TARGET_FIELDS)
+    .sort({ createdAt: -1 })
+    .limit(LENGTH.bulkContactsMax + 1)
+    .lean<BulkTarget[]>();
+
+  if (contacts.length > LENGTH.bulkContactsMax) {
+    return { status: 'too_many_contacts' as const, limit: LENGTH.bulkContactsMax };
+  }
+
+  return { status: 'ok' as const, targets: contacts, missingIds: [] as string[] };
+};
+
+const toUpdateResult = (id: string, result: Awaited<ReturnType<typeof updateContact>>): ContactBulkItemResult => {
+  if (result.status === 'ok') return { id, status: 'updated' };
+  if (result.status === 'contact_not_found') return { id, status: 'not_found' };
+  return { id, status: 'failed', reason: result.status };
+};
+
+const applyToContact = async (
+  target: BulkTarget,
+  operation: Exclude<ContactBulkOperation, { type: 'add_to_smart_list' }>,
+  payload: BulkContactsInput
+): Promise<ContactBulkItemResult> => {
+  const id = String(target._id);
+  const ownerId = String(target.ownerId);
+  const currentTags = target.tags || [];
+
+  switch (operation.type) {
+    case 'add_tags': {
+      const missing = operation.tags.filter((tag) => !currentTags.some((existing) => sameTag(existing, tag)));
+      if (!missing.length) return { id, status: 'skipped', reason: 'no_change' };
+
+      const tags = [...currentTags, ...missing];
+      if (tags.length > LENGTH.tagsMax) return { id, status: 'failed', reason: 'tags_limit_exceeded' };
+
+      return toUpdateResult(id, await updateContact(ownerId, id, { tags, updatedBy: payload.performedBy }));
+    }
+    case 'remove_tags': {
+      const tags = currentTags.filter((existing) => !operation.tags.some((tag) => sameTag(existing, tag)));
+      if (tags.length === currentTags.length) return { id, status: 'skipped', reason: 'no_change' };
+
+      return toUpdateResult(id, await updateContact(ownerId, id, { tags, updatedBy: payload.performedBy }));
+    }
+    case 'set_status': {
+      if (target.status === operation.status) return { id, status: 'skipped', reason: 'no_change' };
+
+      return toUpdateResult(
+        id,
+        await updateContact(ownerId, id, { status: operation.status, updatedBy: payload.performedBy })
+      );
+    }
+    case 'reassign_owner': {
+      if (ownerId === operation.ownerId) return { id, status: 'skipped', reason: 'no_change' };
+
+      // Tags are owner-scoped, so the new owner needs their own copies of the contact's tags.
+      const tags = await syncContactTags(operation.ownerId, currentTags, payload.performedBy);
+      const contact = await Contact.findOneAndUpdate(
+        { _id: id, ownerId, deletedAt: null },
+        { ownerId: operation.ownerId, tags, updatedBy: payload.performedBy },
+        { new: true }
+      ).select('_id');
+
+      return contact ? { id, status: 'updated' } : { id, status: 'not_found' };
+    }
+    case 'delete': {
+      const contact = await deleteContact(payload.ownerIds, id, payload.performedBy);
+      return contact ? { id, status: 'deleted' } : { id, status: 'not_found' };
+    }
+  }
+};
+
+const addBatchToSmartList = async (
+  targets: BulkTarget[],
+  listId: string,
+  existingIds: Set<string>,
+  payload: BulkContactsInput
+) => {
+  const results: ContactBulkItemResult[] = [];
+  const addIds: Types.ObjectId[] = [];
+
+  for (const target of targets) {
+    const id = String(target._id);
+    if (String(target.ownerId) !== payload.performedBy) {
+      // Smart lists only hold contacts owned by the list owner.
+      results.push({ id, status: 'failed', reason: 'not_owned_by_list_owner' });
+    } else if (existingIds.has(id)) {
+      results.push({ id, status: 'skipped', reason: 'already_in_list' });
+    } else {
+      addIds.push(target._id);
+      results.push({ id, status: 'updated' });
+    }
+  }
+
+  if (addIds.length > 0) {
+    await ContactList.updateOne(
+      { _id: listId, ownerId: payload.performedBy, deletedAt: null },
+      { $addToSet: { contactIds: { $each: addIds } }, updatedBy: payload.performedBy }
+    );
+  }
+
+  return results;
+};
+
+const validateSmartListTarget = async (listId: string, targets: BulkTarget[], payload: BulkContactsInput) => {
+  const contactList = await ContactList.findOne({ _id: listId, ownerId: payload.performedBy, deletedAt: null })
+    .select('_id type contactIds');
+
+  if (!contactList) {
+    return { status: 'smart_list_not_found' as const };
+  }
+  if (contactList.type === 'dynamic') {
+    return { status: 'smart_list_dynamic' as const };
+  }
+
+  const existingIds = new Set(contactList.contactIds.map((id) => String(id)));
+  const additions = targets.filter((target) => (
+    String(target.ownerId) === payload.performedBy && !existingIds.has(String(target._id))
+  )).length;
+
+  if (existingIds.size + additions > LENGTH.smartListContactsMax) {
+    return { status: 'smart_list_full' as const, limit: LENGTH.smartListContactsMax };
+  }
+
+  return { status: 'ok' as const, existingIds };
+};
+
+export const bulkUpdateContacts = async (payload: BulkContactsInput) => {
+  const { operation } = payload;
+
+  if (operation.type === 'reassign_owner' && !payload.teamOwnerIds.includes(operation.ownerId)) {
+    return { status: 'owner_not_in_team' as const };
+  }
+
+  const targetResult = await resolveTargets(payload);
+  if (targetResult.status === 'too_many_contacts') {
+    return targetResult;
+  }
+
+  const { targets, missingIds } = targetResult;
+  let smartListIds = new Set<string>();
+
+  if (operation.type === 'add_to_smart_list') {
+    const listValidation = await validateSmartListTarget(operation.listId, targets, payload);
+    if (listValidation.status !== 'ok') {
+      return listValidation;
+    }
+    smartListIds = listValidation.existingIds;
+  }
+
+  const results: ContactBulkItemResult[] = [];
+
+  for (let start = 0; start < targets.length; start += LENGTH.batchSize) {
+    const batch = targets.slice(start, start + LENGTH.batchSize);
+
+    if (operation.type === 'add_to_smart_list') {
+      results.push(...await addBatchToSmartList(batch, operation.listId, smartListIds, payload));
+      continue;
+    }
+
+    const batchResults = await Promise.all(batch.map((target) => (
+      applyToContact(target, operation, payload).catch((error: Error): ContactBulkItemResult => ({
+        id: String(target._id),
+        status: 'failed',
+        reason: error.message,
+      }))
+    )));
+    results.push(...batchResults);
+  }
+
+  results.push(...missingIds.map((id): ContactBulkItemResult => ({ id, status: 'not_found' })));
+
+  const failed = results.filter((item) => item.status === 'failed' || item.status === 'not_found').length;
+  const result: BulkContactsResult = {
+    operation: operation.type,
+    total: results.length,
+    succeeded: results.length - failed,
+    failed,
+    results,
+  };
+
+  return { status: 'ok' as const, result };
+};
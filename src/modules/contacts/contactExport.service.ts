@@ -0,0 +1,100 @@
+import { toCsvRow } from '../../../Utils/csv';
+import { CustomFieldDefinition } from '../custom-fields/customField.interface';
+import { formatCustomFieldValue } from '../custom-fields/customFieldValues.service';
+import { Contact } from './contact.model';
+import { buildContactListFilter, buildContactListSort } from './contact.service';
+import { ContactExportFormat, ContactFilterQuery, ContactSortQuery } from './contact.interface';
+
+const LIST_SEPARATOR = '; ';
+
+const CONTACT_EXPORT_COLUMNS = [
+  'id',
+  'ownerId',
+  'firstName',
+  'lastName',
+  'companyName',
+  'companyId',
+  'jobTitle',
+  'website',
+  'emails',
+  'phones',
+  'tags',
+  'street',
+  'city',
+  'state',
+  'postalCode',
+  'country',
+  'leadSource',
+  'status',
+  'notes',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+type ContactExportRow = Record<(typeof CONTACT_EXPORT_COLUMNS)[number], string | null>;
+
+const toIsoString = (value: unknown) => (value instanceof Date ? value.toISOString() : null);
+const joinList = (values: unknown) => (Array.isArray(values) ? values.join(LIST_SEPARATOR) : '');
+
+const flattenContact = (contact: any): ContactExportRow => ({
+  id: String(contact._id),
+  ownerId: contact.ownerId ? String(contact.ownerId) : null,
+  firstName: contact.firstName ?? null,
+  lastName: contact.lastName ?? null,
+  companyName: contact.companyName ?? null,
+  companyId: contact.companyId ? String(contact.companyId) : null,
+  jobTitle: contact.jobTitle ?? null,
+  website: contact.website ?? null,
+  emails: joinList(contact.emails),
+  phones: joinList(contact.phones),
+  tags: joinList(contact.tags),
+  street: contact.address?.street ?? null,
+  city: contact.address?.city ?? null,
+  state: contact.address?.state ?? null,
+  postalCode: contact.address?.postalCode ?? null,
+  country: contact.address?.country ?? null,
+  leadSource: contact.leadSource ?? null,
+  status: contact.status ?? null,
+  notes: contact.notes ?? null,
+  createdAt: toIsoString(contact.createdAt),
+  updatedAt: toIsoString(contact.updatedAt),
+});
+
+// Custom fields become extra `custom.<key>` columns after the built-in ones, in definition order.
+const flattenCustomFields = (contact: any, definitions: CustomFieldDefinition[]) => Object.fromEntries(
+  definitions.map((definition) => [
+    `custom.${definition.key}`,
+    formatCustomFieldValue(contact.customFields?.[definition.key]),
+  ])
+);
+
+export async function* generateContactsExport(
+  ownerIds: string[],
+  query: ContactFilterQuery & ContactSortQuery,
+  format: ContactExportFormat,
+  customFieldDefinitions: CustomFieldDefinition[] = []
+): AsyncGenerator<string> {
+  const cursor = Contact.find(buildContactListFilter(ownerIds, query))
+    .sort(buildContactListSort(query))
+    .lean()
+    .cursor();
+
+  const columns: string[] = [
+    ...CONTACT_EXPORT_COLUMNS,
+    ...customFieldDefinitions.map((definition) => `custom.${definition.key}`),
+  ];
+
+  if (format === 'csv') {
+    yield toCsvRow(columns);
+  }
+
+  for await (const contact of cursor) {
+    const row: Record<string, string | null> = {
+      ...flattenContact(contact),
+      ...flattenCustomFields(contact, customFieldDefinitions),
+    };
+    yield format === 'csv'
+      ? toCsvRow(columns.map((column) => row[column]))
+      : `${JSON.stringify(row)}\n`;
+  }
+}
@@ -0,0 +1,354 @@
+import { parseCsv } from '../../../Utils/csv';
+import { loadCompanyDomainIndex } from '../companies/company.service';
+import { syncContactTags } from '../tags/tags.service';
+import { Contact } from './contact.model';
+import {
+  ContactImportField,
+  ContactImportRowResult,
+  IContact,
+  ImportContactsInput,
+  ImportContactsResult,
+} from './contact.interface';
+
+const LENGTH = {
+  importRowsMax: 5000,
+} as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MULTI_VALUE_SEPARATOR = /[;|,]/;
+const ADDRESS_FIELDS = ['street', 'city', 'state', 'postalCode', 'country'] as const;
+const ARRAY_FIELDS = ['emails', 'phones', 'tags'] as const;
+
+const HEADER_ALIASES: Record<string, ContactImportField> = {
+  firstname: 'firstName',
+  first: 'firstName',
+  givenname: 'firstName',
+  lastname: 'lastName',
+  last: 'lastName',
+  surname: 'lastName',
+  familyname: 'lastName',
+  company: 'companyName',
+  companyname: 'companyName',
+  organization: 'companyName',
+  organisation: 'companyName',
+  jobtitle: 'jobTitle',
+  title: 'jobTitle',
+  position: 'jobTitle',
+  website: 'website',
+  url: 'website',
+  email: 'emails',
+  emails: 'emails',
+  emailaddress: 'emails',
+  workemail: 'emails',
+  personalemail: 'emails',
+  phone: 'phones',
+  phones: 'phones',
+  phonenumber: 'phones',
+  mobile: 'phones',
+  mobilephone: 'phones',
+  workphone: 'phones',
+  telephone: 'phones',
+  street: 'street',
+  address: 'street',
+  streetaddress: 'street',
+  city: 'city',
+  town: 'city',
+  state: 'state',
+  province: 'state',
+  region: 'state',
+  postalcode: 'postalCode',
+  postcode: 'postalCode',
+  zip: 'postalCode',
+  zipcode: 'postalCode',
+  country: 'country',
+  tags: 'tags',
+  tag: 'tags',
+  labels: 'tags',
+  leadsource: 'leadSource',
+  source: 'leadSource',
+  status: 'status',
+  leadstatus: 'status',
+  notes: 'notes',
+  note: 'notes',
+  comments: 'notes',
+};
+
+type ImportColumn = {
+  index: number;
+  field: ContactImportField;
+};
+
+type ImportRowPayload = {
+  firstName?: string;
+  lastName?: string;
+  companyName?: string;
+  jobTitle?: string;
+  website?: string;
+  leadSource?: string;
+  status?: string;
+  notes?: string;
+  emails: string[];
+  phones: string[];
+  tags: string[];
+  address?: Partial<Record<(typeof ADDRESS_FIELDS)[number], string>>;
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const resolveAutoField = (header: string): ContactImportField | null => {
+  const normalized = normalizeHeader(header);
+  if (HEADER_ALIASES[normalized]) return HEADER_ALIASES[normalized];
+
+  // Numbered columns such as "Email 2" or "Phone (work)" fall back to their base field.
+  const base = normalized.replace(/\d+$/, '');
+  if (HEADER_ALIASES[base]) return HEADER_ALIASES[base];
+  if (normalized.startsWith('email') || normalized.endsWith('email')) return 'emails';
+  if (normalized.startsWith('phone') || normalized.endsWith('phone')) return 'phones';
+  return null;
+};
+
+const resolveColumns = (headers: string[], mapping?: Record<string, ContactImportField | null>) => {
+  const trimmedHeaders = headers.map((header) => header.trim());
+
+  if (mapping) {
+    const unknownHeaders = Object.keys(mapping).filter((header) => !trimmedHeaders.includes(header.trim()));
+    if (unknownHeaders.length > 0) {
+      return { status: 'invalid_mapping' as const, unknownHeaders };
+    }
+  }
+
+  const columns: ImportColumn[] = [];
+  const resolvedMapping: Record<string, ContactImportField> = {};
+
+  trimmedHeaders.forEach((header, index) => {
+    const field = mapping ? mapping[header] ?? null : resolveAutoField(header);
+    if (!field) return;
+    columns.push({ index, field });
+    resolvedMapping[header] = field;
+  });
+
+  return { status: 'ok' as const, columns, mapping: resolvedMapping };
+};
+
+const splitMultiValue = (value: string) => value
+  .split(MULTI_VALUE_SEPARATOR)
+  .map((item) => item.trim())
+  .filter((item) => item.length > 0);
+
+const uniqueCaseInsensitive = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const buildRowPayload = (cells: string[], columns: ImportColumn[]): ImportRowPayload => {
+  const payload: ImportRowPayload = { emails: [], phones: [], tags: [] };
+
+  for (const column of columns) {
+    const value = (cells[column.index] ?? '').trim();
+    if (!value) continue;
+
+    if (column.field === 'emails') {
+      payload.emails.push(...splitMultiValue(value).map((email) => email.toLowerCase()));
+    } else if (column.field === 'phones') {
+      payload.phones.push(...splitMultiValue(value));
+    } else if (column.field === 'tags') {
+      payload.tags.push(...splitMultiValue(value));
+    } else if ((ADDRESS_FIELDS as readonly string[]).includes(column.field)) {
+      const addressField = column.field as (typeof ADDRESS_FIELDS)[number];
+      payload.address = payload.address ?? {};
+      payload.address[addressField] = payload.address[addressField] ?? value;
+    } else {
+      const field = column.field as Exclude<ContactImportField, (typeof ARRAY_FIELDS)[number] | (typeof ADDRESS_FIELDS)[number]>;
+      if (payload[field] === undefined) {
+        payload[field] = field === 'leadSource' || field === 'status' ? value.toLowerCase() : value;
+      }
+    }
+  }
+
+  payload.emails = uniqueCaseInsensitive(payload.emails);
+  payload.phones = uniqueCaseInsensitive(payload.phones);
+  payload.tags = uniqueCaseInsensitive(payload.tags);
+
+  return payload;
+};
+
+const collectValidationErrors = (contact: IContact) => {
+  const validationError = contact.validateSync();
+  if (!validationError) return [];
+
+  return Object.values(validationError.errors).map((error) => `${error.path}: ${error.message}`);
+};
+
+const validateRowPayload = (payload: ImportRowPayload) => {
+  const errors: string[] = [];
+
+  if (!payload.firstName) {
+    errors.push('firstName: Required');
+  }
+  if (payload.emails.length === 0 && payload.phones.length === 0) {
+    errors.push('At least one email or phone is required');
+  }
+  payload.emails
+    .filter((email) => !EMAIL_PATTERN.test(email))
+    .forEach((email) => errors.push(`emails: Invalid email "${email}"`));
+
+  return errors;
+};
+
+const applyRowToContact = (contact: IContact, payload: ImportRowPayload, updatedBy: string) => {
+  const { emails, phones, tags, address, ...scalars } = payload;
+
+  Object.entries(scalars).forEach(([field, value]) => {
+    if (value !== undefined) contact.set(field, value);
+  });
+
+  if (address) {
+    ADDRESS_FIELDS.forEach((field) => {
+      if (address[field] !== undefined) contact.set(`address.${field}`, address[field]);
+    });
+  }
+
+  contact.emails = uniqueCaseInsensitive([...(contact.emails || []), ...emails]);
+  contact.phones = uniqueCaseInsensitive([...(contact.phones || []), ...phones]);
+  contact.tags = uniqueCaseInsensitive([...(contact.tags || []), ...tags]);
+  contact.updatedBy = updatedBy as any;
+};
+
+const findExistingContacts = async (ownerId: string, emails: string[], phones: string[]) => {
+  if (!emails.length && !phones.length) {
+    return { byEmail: new Map<string, IContact>(), byPhone: new Map<string, IContact>() };
+  }
+
+  const contacts = await Contact.find({
+    ownerId,
+    deletedAt: null,
+    $or: [
+      { emails: { $in: emails } },
+      { phones: { $in: phones } },
+    ],
+  });
+
+  const byEmail = new Map<string, IContact>();
+  const byPhone = new Map<string, IContact>();
+  for (const contact of contacts) {
+    (contact.emails || []).forEach((email) => byEmail.set(email.toLowerCase(), contact));
+    (contact.phones || []).forEach((phone) => byPhone.set(phone, contact));
+  }
+
+  return { byEmail, byPhone };
+};
+
+export const importContacts = async (payload: ImportContactsInput) => {
+  const [headers, ...dataRows] = parseCsv(payload.csv);
+  if (!headers || dataRows.length === 0) {
+    return { status: 'empty_file' as const };
+  }
+
+  if (dataRows.length > LENGTH.importRowsMax) {
+    return { status: 'too_many_rows' as const, limit: LENGTH.importRowsMax };
+  }
+
+  const columnResult = resolveColumns(headers, payload.mapping);
+  if (columnResult.status === 'invalid_mapping') {
+    return columnResult;
+  }
+
+  if (columnResult.columns.length === 0) {
+    return { status: 'no_mapped_columns' as const };
+  }
+
+  const rowPayloads = dataRows.map((cells) => buildRowPayload(cells, columnResult.columns));
+  const existing = await findExistingContacts(
+    payload.ownerId,
+    Array.from(new Set(rowPayloads.flatMap((row) => row.emails))),
+    Array.from(new Set(rowPayloads.flatMap((row) => row.phones)))
+  );
+  const matchCompany = await loadCompanyDomainIndex(payload.ownerId);
+
+  const seenEmails = new Set<string>();
+  const seenPhones = new Set<string>();
+  const rows: ContactImportRowResult[] = [];
+
+  for (const [index, rowPayload] of rowPayloads.entries()) {
+    const rowNumber = index + 2;
+    const errors = validateRowPayload(rowPayload);
+    if (errors.length > 0) {
+      rows.push({ row: rowNumber, status: 'invalid', errors });
+      continue;
+    }
+
+    const duplicateInFile = rowPayload.emails.some((email) => seenEmails.has(email))
+      || rowPayload.phones.some((phone) => seenPhones.has(phone));
+    rowPayload.emails.forEach((email) => seenEmails.add(email));
+    rowPayload.phones.forEach((phone) => seenPhones.add(phone));
+
+    if (duplicateInFile) {
+      rows.push({ row: rowNumber, status: 'skipped', reason: 'duplicate_in_file' });
+      continue;
+    }
+
+    const match = rowPayload.emails.map((email) => existing.byEmail.get(email)).find(Boolean)
+      ?? rowPayload.phones.map((phone) => existing.byPhone.get(phone)).find(Boolean)
+      ?? null;
+
+    if (match && payload.duplicateStrategy === 'skip') {
+      rows.push({ row: rowNumber, status: 'skipped', reason: 'duplicate', contactId: String(match._id) });
+      continue;
+    }
+
+    // Merge into a copy so a row that fails validation leaves the matched contact untouched.
+    const contact = match
+      ? Contact.hydrate(match.toObject())
+      : new Contact({ ownerId: payload.ownerId, createdBy: payload.importedBy });
+    applyRowToContact(contact, rowPayload, payload.importedBy);
+    if (!contact.companyId) {
+      const company = matchCompany(contact.emails);
+      if (company) {
+        contact.companyId = company._id;
+        contact.companyName = contact.companyName || company.name;
+      }
+    }
+
+    const validationErrors = collectValidationErrors(contact);
+    if (validationErrors.length > 0) {
+      rows.push({ row: rowNumber, status: 'invalid', errors: validationErrors });
+      continue;
+    }
+
+    if (!payload.dryRun) {
+      contact.tags = await syncContactTags(payload.ownerId, contact.tags, payload.importedBy);
+      await contact.save();
+    }
+
+    if (match) {
+      existing.byEmail.forEach((value, key) => value === match && existing.byEmail.set(key, contact));
+      existing.byPhone.forEach((value, key) => value === match && existing.byPhone.set(key, contact));
+    }
+
+    rows.push({
+      row: rowNumber,
+      status: match ? 'updated' : 'created',
+      contactId: payload.dryRun && !match ? null : String(contact._id),
+    });
+  }
+
+  const count = (status: ContactImportRowResult['status']) => rows.filter((row) => row.status === status).length;
+
+  const result: ImportContactsResult = {
+    dryRun: payload.dryRun,
+    totalRows: dataRows.length,
+    created: count('created'),
+    updated: count('updated'),
+    skipped: count('skipped'),
+    invalid: count('invalid'),
+    mapping: columnResult.mapping,
+    rows,
+  };
+
+  return { status: 'ok' as const, result };
+};
@@ -0,0 +1,253 @@
+import { Types } from 'mongoose';
+import { Conversation } from '../conversations/conversation.model';
+import { Deal } from '../deals/deal.model';
+import { ContactList } from '../smart-contacts/smartList.model';
+import { Task } from '../tasks/task.model';
+import { TaskSeries } from '../tasks/taskSeries.model';
+import { syncContactTags } from '../tags/tags.service';
+import { Contact } from './contact.model';
+import { ContactNote } from './contactNote.model';
+import {
+  ContactDuplicateGroup,
+  ContactDuplicateMatch,
+  ContactDuplicateMatchField,
+  IContact,
+  ListContactDuplicatesQuery,
+  MergeContactsInput,
+} from './contact.interface';
+
+const CONTACT_DUPLICATE_FIELDS = [
+  '_id',
+  'ownerId',
+  'firstName',
+  'lastName',
+  'photoUrl',
+  'emails',
+  'phones',
+  'companyName',
+  'status',
+  'createdAt',
+  'updatedAt',
+].join(' ');
+
+const MERGE_FILL_FIELDS = ['lastName', 'photoUrl', 'companyName', 'companyId', 'jobTitle', 'website', 'notes'] as const;
+const ADDRESS_FIELDS = ['street', 'city', 'state', 'postalCode', 'country'] as const;
+const PHONE_KEY_MIN_DIGITS = 7;
+
+const normalizeText = (value?: string | null) => (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const normalizePhoneKey = (phone: string) => phone.replace(/\D/g, '');
+
+const buildNameCompanyKey = (contact: { firstName?: string | null; lastName?: string | null; companyName?: string | null }) => {
+  const name = normalizeText(`${contact.firstName ?? ''} ${contact.lastName ?? ''}`);
+  const company = normalizeText(contact.companyName);
+  // A bare name is too weak a signal on its own, so only contacts with a company take part.
+  return name && company ? `${name} @ ${company}` : null;
+};
+
+const uniqueBy = (values: string[], toKey: (value: string) => string) => {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = toKey(value);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const isBlank = (value: unknown) => value === null || value === undefined || (typeof value === 'string' && !value.trim());
+
+export const findContactDuplicates = async (ownerIds: string[], query: ListContactDuplicatesQuery) => {
+  const contacts = await Contact.find({ ownerId: { $in: ownerIds }, deletedAt: null })
+    .select(CONTACT_DUPLICATE_FIELDS)
+    .lean();
+
+  const keyIndex = new Map<string, { field: ContactDuplicateMatchField; value: string; indexes: number[] }>();
+  const addKey = (field: ContactDuplicateMatchField, value: string, index: number) => {
+    const key = `${field}:${value}`;
+    const entry = keyIndex.get(key) ?? { field, value, indexes: [] };
+    if (!entry.indexes.includes(index)) entry.indexes.push(index);
+    keyIndex.set(key, entry);
+  };
+
+  contacts.forEach((contact, index) => {
+    (contact.emails || []).forEach((email) => addKey('email', email.toLowerCase(), index));
+    (contact.phones || []).forEach((phone) => {
+      const phoneKey = normalizePhoneKey(phone);
+      if (phoneKey.length >= PHONE_KEY_MIN_DIGITS) addKey('phone', phoneKey, index);
+    });
+    const nameCompanyKey = buildNameCompanyKey(contact);
+    if (nameCompanyKey) addKey('name_company', nameCompanyKey, index);
+  });
+
+  // Union-find so contacts linked through different keys (A~B by email, B~C by phone) land in one group.
+  const parents = contacts.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  const sharedKeys = Array.from(keyIndex.values()).filter((entry) => entry.indexes.length > 1);
+  sharedKeys.forEach((entry) => {
+    const [first, ...rest] = entry.indexes;
+    rest.forEach((index) => {
+      parents[find(index)] = find(first);
+    });
+  });
+
+  const groupsByRoot = new Map<number, { indexes: number[]; matches: ContactDuplicateMatch[] }>();
+  sharedKeys.forEach((entry) => {
+    const root = find(entry.indexes[0]);
+    const group = groupsByRoot.get(root) ?? { indexes: [], matches: [] };
+    entry.indexes.forEach((index) => {
+      if (!group.indexes.includes(index)) group.indexes.push(index);
+    });
+    group.matches.push({
+      field: entry.field,
+      value: entry.value,
+      contactIds: entry.indexes.map((index) => String(contacts[index]._id)),
+    });
+    groupsByRoot.set(root, group);
+  });
+
+  const latestUpdate = (indexes: number[]) => Math.max(
+    ...indexes.map((index) => new Date((contacts[index] as any).updatedAt ?? 0).getTime())
+  );
+
+  const groups: ContactDuplicateGroup[] = Array.from(groupsByRoot.values())
+    .sort((a, b) => b.indexes.length - a.indexes.length || latestUpdate(b.indexes) - latestUpdate(a.indexes))
+    .map((group) => ({
+      contacts: group.indexes.map((index) => contacts[index] as unknown as Record<string, unknown>),
+      matches: group.matches,
+    }));
+
+  const total = groups.length;
+  const totalPages = Math.ceil(total / query.limit);
+  const skip = (query.page - 1) * query.limit;
+
+  return {
+    groups: groups.slice(skip, skip + query.limit),
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      totalPages,
+      hasNextPage: query.page < totalPages,
+      hasPrevPage: query.page > 1,
+    },
+  };
+};
+
+const applyMergedFields = (survivor: IContact, losers: IContact[]) => {
+  for (const field of MERGE_FILL_FIELDS) {
+    if (!isBlank(survivor.get(field))) continue;
+    const donor = losers.find((loser) => !isBlank(loser.get(field)));
+    if (donor) survivor.set(field, donor.get(field));
+  }
+
+  for (const field of ADDRESS_FIELDS) {
+    if (!isBlank(survivor.get(`address.${field}`))) continue;
+    const donor = losers.find((loser) => !isBlank(loser.get(`address.${field}`)));
+    if (donor) survivor.set(`address.${field}`, donor.get(`address.${field}`));
+  }
+
+  const customFields = { ...(survivor.customFields ?? {}) };
+  losers.forEach((loser) => {
+    Object.entries(loser.customFields ?? {}).forEach(([key, value]) => {
+      if (isBlank(customFields[key])) customFields[key] = value;
+    });
+  });
+  survivor.customFields = customFields;
+  survivor.markModified('customFields');
+
+  const contacts = [survivor, ...losers];
+  survivor.emails = uniqueBy(
+    contacts.flatMap((contact) => contact.emails || []).map((email) => email.toLowerCase()),
+    (email) => email
+  );
+  survivor.phones = uniqueBy(contacts.flatMap((contact) => contact.phones || []), normalizePhoneKey);
+  survivor.tags = uniqueBy(contacts.flatMap((contact) => contact.tags || []), (tag) => tag.toLowerCase());
+};
+
+export const mergeContacts = async (ownerIds: string[], payload: MergeContactsInput) => {
+  const loserIds = Array.from(new Set(payload.contactIds)).filter((id) => id !== payload.survivorId);
+  if (loserIds.length === 0) {
+    return { status: 'nothing_to_merge' as const };
+  }
+
+  const contacts = await Contact.find({
+    _id: { $in: [payload.survivorId, ...loserIds] },
+    ownerId: { $in: ownerIds },
+    deletedAt: null,
+  });
+
+  const survivor = contacts.find((contact) => String(contact._id) === payload.survivorId);
+  if (!survivor) {
+    return { status: 'survivor_not_found' as const };
+  }
+
+  const missingIds = loserIds.filter((id) => !contacts.some((contact) => String(contact._id) === id));
+  if (missingIds.length > 0) {
+    return { status: 'contact_not_found' as const, missingIds };
+  }
+
+  const losers = loserIds.map((id) => contacts.find((contact) => String(contact._id) === id) as IContact);
+  applyMergedFields(survivor, losers);
+  survivor.updatedBy = new Types.ObjectId(payload.mergedBy);
+
+  const validationError = survivor.validateSync();
+  if (validationError) {
+    return {
+      status: 'invalid_merge' as const,
+      errors: Object.values(validationError.errors).map((error) => `${error.path}: ${error.message}`),
+    };
+  }
+
+  // Losers may belong to other team members, whose tags the survivor's owner does not have yet.
+  survivor.tags = await syncContactTags(String(survivor.ownerId), survivor.tags, payload.mergedBy);
+  await survivor.save();
+
+  const loserObjectIds = losers.map((loser) => loser._id as Types.ObjectId);
+  const referenceFilter = { contactId: { $in: loserObjectIds } };
+  const referenceUpdate = { contactId: survivor._id, updatedBy: payload.mergedBy };
+
+  const [deals, notes, conversations, tasks] = await Promise.all([
+    Deal.updateMany(referenceFilter, referenceUpdate),
+    ContactNote.updateMany(referenceFilter, referenceUpdate),
+    Conversation.updateMany(referenceFilter, referenceUpdate),
+    Task.updateMany(referenceFilter, referenceUpdate),
+    TaskSeries.updateMany(referenceFilter, referenceUpdate),
+  ]);
+
+  // $addToSet and $pull cannot target the same array in one update, so lists are re-pointed in two passes.
+  await ContactList.updateMany(
+    { contactIds: { $in: loserObjectIds } },
+    { $addToSet: { contactIds: survivor._id } }
+  );
+  const smartLists = await ContactList.updateMany(
+    { contactIds: { $in: loserObjectIds } },
+    { $pull: { contactIds: { $in: loserObjectIds } }, updatedBy: payload.mergedBy }
+  );
+
+  const deletedAt = new Date();
+  await Contact.updateMany(
+    { _id: { $in: loserObjectIds }, deletedAt: null },
+    { deletedAt, deletedBy: payload.mergedBy, updatedBy: payload.mergedBy }
+  );
+
+  return {
+    status: 'ok' as const,
+    contact: survivor,
+    mergedContactIds: loserIds,
+    relinked: {
+      deals: deals.modifiedCount,
+      notes: notes.modifiedCount,
+      conversations: conversations.modifiedCount,
+      tasks: tasks.modifiedCount,
+      smartLists: smartLists.modifiedCount,
+    },
+  };
+};
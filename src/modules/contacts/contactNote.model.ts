@@ -1,5 +1,6 @@
 import { Schema, model } from 'mongoose';
 import { IContactNote } from './contactNote.interface';
+import { auditPlugin } from '../audit/audit.plugin';
 
 const LENGTH = {
   noteBody: 5000,
@@ -18,4 +19,6 @@ const contactNoteSchema = new Schema<IContactNote>({
 contactNoteSchema.index({ ownerId: 1, contactId: 1, createdAt: -1 });
 contactNoteSchema.index({ ownerId: 1, contactId: 1, deletedAt: 1, createdAt: -1 });
 
+contactNoteSchema.plugin(auditPlugin, { resourceType: 'contact_note' });
+
 export const ContactNote = model<IContactNote>('ContactNote', contactNoteSchema);
@@ -0,0 +1,212 @@
+import { FilterQuery, Model } from 'mongoose';
+import { Conversation } from '../conversations/conversation.model';
+import { Deal } from '../deals/deal.model';
+import { DealStageHistory } from '../deals/dealStageHistory.model';
+import { Task } from '../tasks/task.model';
+import { Contact } from './contact.model';
+import { ContactNote } from './contactNote.model';
+import {
+  ContactTimelineCursor,
+  ContactTimelineEntry,
+  ContactTimelineEntryType,
+  ContactTimelineQuery,
+} from './contact.interface';
+
+type TimelineContext = {
+  ownerIds: string[];
+  contactId: string;
+  // The contact's live deals, for sources keyed by deal rather than contact.
+  dealIds: string[];
+};
+
+/**
+ * One stream of timeline entries. `key` orders entries that share a timestamp and is stored
+ * in the cursor, so it must stay stable; a single collection can feed several sources
+ * (a deal produces created/won/lost entries from different date fields).
+ */
+type TimelineSource = {
+  key: string;
+  type: ContactTimelineEntryType;
+  model: Model<any>;
+  dateField: string;
+  select: string;
+  filter: (context: TimelineContext) => FilterQuery<unknown>;
+};
+
+const DEAL_FIELDS = '_id ownerId pipelineId stageId title amount currency status expectedCloseDate wonAt lostAt lostReason createdBy createdAt';
+const CONVERSATION_FIELDS = '_id ownerId method direction subject body from to sentAt createdBy createdAt';
+
+const scopedToContact = (context: Pick<TimelineContext, 'ownerIds' | 'contactId'>) => ({
+  ownerId: { $in: context.ownerIds },
+  contactId: context.contactId,
+  deletedAt: null,
+});
+
+const TIMELINE_SOURCES: TimelineSource[] = [
+  {
+    key: 'conversation',
+    type: 'conversation',
+    model: Conversation,
+    dateField: 'sentAt',
+    select: CONVERSATION_FIELDS,
+    filter: (context) => ({ ...scopedToContact(context), sentAt: { $ne: null } }),
+  },
+  {
+    // Conversations without a send time (e.g. drafts) fall back to when they were recorded.
+    key: 'conversation_unsent',
+    type: 'conversation',
+    model: Conversation,
+    dateField: 'createdAt',
+    select: CONVERSATION_FIELDS,
+    filter: (context) => ({ ...scopedToContact(context), sentAt: null }),
+  },
+  {
+    key: 'deal_created',
+    type: 'deal_created',
+    model: Deal,
+    dateField: 'createdAt',
+    select: DEAL_FIELDS,
+    filter: scopedToContact,
+  },
+  {
+    // Creation is already covered by `deal_created`.
+    key: 'deal_stage_changed',
+    type: 'deal_stage_changed',
+    model: DealStageHistory,
+    dateField: 'changedAt',
+    select: '_id dealId pipelineId stageId fromPipelineId fromStageId reason changedBy changedAt',
+    filter: (context) => ({ dealId: { $in: context.dealIds }, reason: { $ne: 'created' } }),
+  },
+  {
+    key: 'deal_lost',
+    type: 'deal_lost',
+    model: Deal,
+    dateField: 'lostAt',
+    select: DEAL_FIELDS,
+    filter: (context) => ({ ...scopedToContact(context), status: 'lost', lostAt: { $ne: null } }),
+  },
+  {
+    key: 'deal_won',
+    type: 'deal_won',
+    model: Deal,
+    dateField: 'wonAt',
+    select: DEAL_FIELDS,
+    filter: (context) => ({ ...scopedToContact(context), status: 'won', wonAt: { $ne: null } }),
+  },
+  {
+    key: 'note',
+    type: 'note',
+    model: ContactNote,
+    dateField: 'createdAt',
+    select: '_id ownerId body createdBy updatedBy createdAt updatedAt',
+    filter: scopedToContact,
+  },
+  {
+    key: 'task',
+    type: 'task',
+    model: Task,
+    dateField: 'createdAt',
+    select: '_id ownerId title status priority dueDate assignedTo dealId createdBy createdAt',
+    filter: scopedToContact,
+  },
+];
+
+export const encodeTimelineCursor = (cursor: ContactTimelineCursor) => Buffer.from(JSON.stringify({
+  at: cursor.at.toISOString(),
+  source: cursor.source,
+  id: cursor.id,
+})).toString('base64url');
+
+export const decodeTimelineCursor = (value: string): ContactTimelineCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const at = new Date(parsed.at);
+    if (Number.isNaN(at.getTime()) || typeof parsed.source !== 'string' || !/^[a-f\d]{24}$/i.test(parsed.id)) {
+      return null;
+    }
+    return { at, source: parsed.source, id: parsed.id };
+  } catch {
+    return null;
+  }
+};
+
+// Entries are ordered by (date, source key, document id), all descending; this returns the
+// condition for "strictly after the cursor" in that order for one source.
+const buildCursorCondition = (source: TimelineSource, cursor?: ContactTimelineCursor): FilterQuery<unknown> => {
+  if (!cursor) return {};
+  if (source.key < cursor.source) return { [source.dateField]: { $lte: cursor.at } };
+  if (source.key > cursor.source) return { [source.dateField]: { $lt: cursor.at } };
+
+  return {
+    $or: [
+      { [source.dateField]: { $lt: cursor.at } },
+      { [source.dateField]: cursor.at, _id: { $lt: cursor.id } },
+    ],
+  };
+};
+
+type PendingEntry = ContactTimelineEntry & { source: string; docId: string };
+
+const compareEntries = (left: PendingEntry, right: PendingEntry) => (
+  right.at.getTime() - left.at.getTime()
+  || (left.source < right.source ? 1 : left.source > right.source ? -1 : 0)
+  || (left.docId < right.docId ? 1 : left.docId > right.docId ? -1 : 0)
+);
+
+const fetchSourceEntries = async (
+  source: TimelineSource,
+  context: TimelineContext,
+  query: ContactTimelineQuery
+): Promise<PendingEntry[]> => {
+  const docs = await source.model
+    .find({ $and: [source.filter(context), buildCursorCondition(source, query.cursor)] })
+    .select(source.select)
+    .sort({ [source.dateField]: -1, _id: -1 })
+    .limit(query.limit + 1)
+    .lean();
+
+  return docs.map((doc: any) => {
+    const docId = String(doc._id);
+    return {
+      id: `${source.key}:${docId}`,
+      type: source.type,
+      at: doc[source.dateField],
+      data: doc,
+      source: source.key,
+      docId,
+    };
+  });
+};
+
+export const getContactTimeline = async (ownerIds: string[], contactId: string, query: ContactTimelineQuery) => {
+  const contactExists = await Contact.exists({ _id: contactId, ownerId: { $in: ownerIds }, deletedAt: null });
+  if (!contactExists) {
+    return { status: 'contact_not_found' as const };
+  }
+
+  const sources = query.types?.length
+    ? TIMELINE_SOURCES.filter((source) => query.types?.includes(source.type))
+    : TIMELINE_SOURCES;
+  const dealIds = sources.some((source) => source.model === DealStageHistory)
+    ? (await Deal.find(scopedToContact({ ownerIds, contactId })).select('_id').lean()).map((deal) => String(deal._id))
+    : [];
+  const context: TimelineContext = { ownerIds, contactId, dealIds };
+
+  const pending = (await Promise.all(sources.map((source) => fetchSourceEntries(source, context, query))))
+    .flat()
+    .sort(compareEntries);
+
+  const page = pending.slice(0, query.limit);
+  const last = page[page.length - 1];
+  const hasNextPage = pending.length > query.limit;
+
+  return {
+    status: 'ok' as const,
+    entries: page.map(({ source: _source, docId: _docId, ...entry }) => entry),
+    pagination: {
+      limit: query.limit,
+      hasNextPage,
+      nextCursor: hasNextPage && last ? encodeTimelineCursor({ at: last.at, source: last.source, id: last.docId }) : null,
+    },
+  };
+};
@@ -0,0 +1,286 @@
+import { Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { sendError, sendResponse } from '../../../Utils/response';
+import { createCustomField, deleteCustomField, listCustomFields, updateCustomField } from './customField.service';
+
+const LENGTH = {
+  key: 40,
+  label: 60,
+  description: 300,
+  option: 60,
+  optionsMax: 100,
+} as const;
+
+const CUSTOM_FIELD_ENTITY_TYPES = ['contact', 'deal'] as const;
+const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'select', 'multi_select', 'boolean', 'url'] as const;
+const OPTION_FIELD_TYPES: readonly string[] = ['select', 'multi_select'];
+
+const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
+
+const customFieldOptionsSchema = (min: number) => z.array(z.string().trim().min(1).max(LENGTH.option))
+  .min(min)
+  .max(LENGTH.optionsMax)
+  .refine((options) => new Set(options).size === options.length, { message: 'Options must be unique' });
+
+const customFieldBaseSchema = {
+  label: z.string().trim().min(1).max(LENGTH.label),
+  options: customFieldOptionsSchema(0).optional(),
+  required: z.boolean().optional(),
+  description: z.string().trim().max(LENGTH.description).nullable().optional(),
+  order: z.number().int().min(0).optional(),
+};
+
+const createCustomFieldSchema = z.object({
+  ...customFieldBaseSchema,
+  entityType: z.enum(CUSTOM_FIELD_ENTITY_TYPES),
+  key: z.string()
+    .trim()
+    .max(LENGTH.key)
+    .regex(/^[a-z][a-z0-9_]*$/, 'Must start with a letter and use only lowercase letters, digits and underscores'),
+  type: z.enum(CUSTOM_FIELD_TYPES),
+}).superRefine((data, ctx) => {
+  const needsOptions = OPTION_FIELD_TYPES.includes(data.type);
+  if (needsOptions && !data.options?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'At least one option is required' });
+  }
+  if (!needsOptions && data.options?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Only select fields have options' });
+  }
+});
+
+const updateCustomFieldSchema = z.object({
+  ...customFieldBaseSchema,
+  label: customFieldBaseSchema.label.optional(),
+  options: customFieldOptionsSchema(1).optional(),
+}).refine((data) => Object.keys(data).length > 0, {
+  message: 'At least one field is required',
+});
+
+const listCustomFieldsQuerySchema = z.object({
+  entityType: z.enum(CUSTOM_FIELD_ENTITY_TYPES).optional(),
+});
+
+const getUserIdFromReq = (req: Request) => (req as any).user?.id as string | undefined;
+const getTeamIdFromReq = (req: Request) => (req as any).user?.teamId as number | null | undefined;
+
+const getQueryValue = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const sendNoTeamError = (res: Response) => sendError(res, {
+  success: false,
+  statusCode: 403,
+  message: 'You are not part of a team',
+});
+
+export const listCustomFieldsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const query = listCustomFieldsQuerySchema.parse({
+      entityType: getQueryValue(req.query.entityType),
+    });
+
+    const customFields = await listCustomFields(Number(teamId), query.entityType);
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Custom fields fetched successfully',
+      data: customFields,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch custom fields',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const createCustomFieldHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const parsed = createCustomFieldSchema.parse(req.body);
+    const result = await createCustomField({
+      ...parsed,
+      teamId: Number(teamId),
+      createdBy: userId,
+    });
+
+    if (result.status === 'duplicate_key') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'A custom field with this key already exists',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 201,
+      message: 'Custom field created successfully',
+      data: result.customField,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to create custom field',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const updateCustomFieldHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const id = objectIdSchema.parse(req.params.id);
+    const parsed = updateCustomFieldSchema.parse(req.body);
+    const result = await updateCustomField(Number(teamId), id, { ...parsed, updatedBy: userId });
+
+    if (result.status === 'not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Custom field not found',
+      });
+    }
+    if (result.status === 'options_not_supported') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Only select fields have options',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Custom field updated successfully',
+      data: result.customField,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to update custom field',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const deleteCustomFieldHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const id = objectIdSchema.parse(req.params.id);
+    const result = await deleteCustomField(Number(teamId), id, userId);
+
+    if (result.status === 'not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Custom field not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Custom field deleted successfully',
+      data: {
+        customField: result.customField,
+        clearedRecords: result.clearedRecords,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to delete custom field',
+      details: (error as Error).message,
+    });
+  }
+};
@@ -0,0 +1,62 @@
+import { Document, Types } from 'mongoose';
+
+export type CustomFieldEntityType = 'contact' | 'deal';
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'boolean' | 'url';
+
+export interface ICustomField extends Document {
+  teamId: number;
+  entityType: CustomFieldEntityType;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  required: boolean;
+  description?: string | null;
+  order: number;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId | null;
+}
+
+export type CustomFieldDefinition = Pick<ICustomField, 'key' | 'label' | 'type' | 'options' | 'required'>;
+
+export type CreateCustomFieldInput = {
+  teamId: number;
+  entityType: CustomFieldEntityType;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[];
+  required?: boolean;
+  description?: string | null;
+  order?: number;
+  createdBy: string;
+};
+
+export type UpdateCustomFieldInput = {
+  label?: string;
+  options?: string[];
+  required?: boolean;
+  description?: string | null;
+  order?: number;
+  updatedBy: string;
+};
+
+/**
+ * Values as stored on a contact or deal, keyed by field key. Dates are stored as Date,
+ * multi-selects as string arrays; unset fields are absent rather than null.
+ */
+export type CustomFieldValues = Record<string, string | number | boolean | Date | string[]>;
+
+/**
+ * Raw `customFields[...]` query input: a single value, repeated values, or a `from`/`to` range
+ * for number and date fields.
+ */
+export type CustomFieldFilterInput = Record<string, string | string[] | { from?: string; to?: string }>;
+
+export type CustomFieldFilter =
+  | { key: string; type: 'text' | 'url'; contains: string }
+  | { key: string; type: 'number'; from?: number; to?: number }
+  | { key: string; type: 'date'; from?: Date; to?: Date }
+  | { key: string; type: 'select' | 'multi_select'; anyOf: string[] }
+  | { key: string; type: 'boolean'; equals: boolean };
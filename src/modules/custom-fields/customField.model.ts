@@ -0,0 +1,40 @@
+import { Schema, model } from 'mongoose';
+import { ICustomField } from './customField.interface';
+
+const LENGTH = {
+  key: 40,
+  label: 60,
+  description: 300,
+  option: 60,
+  optionsMax: 100,
+} as const;
+
+const customFieldSchema = new Schema<ICustomField>({
+  teamId: { type: Number, required: true, index: true },
+  entityType: { type: String, enum: ['contact', 'deal'], required: true },
+  key: { type: String, required: true, trim: true, maxlength: LENGTH.key },
+  label: { type: String, required: true, trim: true, maxlength: LENGTH.label },
+  type: {
+    type: String,
+    enum: ['text', 'number', 'date', 'select', 'multi_select', 'boolean', 'url'],
+    required: true,
+  },
+  options: {
+    type: [{ type: String, trim: true, maxlength: LENGTH.option }],
+    default: [],
+    validate: {
+      validator: (arr: string[]) => arr.length <= LENGTH.optionsMax,
+      message: `Options cannot exceed ${LENGTH.optionsMax} items`,
+    },
+  },
+  required: { type: Boolean, default: false },
+  description: { type: String, default: null, trim: true, maxlength: LENGTH.description },
+  order: { type: Number, default: 0 },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+}, { timestamps: true, versionKey: false });
+
+customFieldSchema.index({ teamId: 1, entityType: 1, key: 1 }, { unique: true });
+customFieldSchema.index({ teamId: 1, entityType: 1, order: 1 });
+
+export const CustomField = model<ICustomField>('CustomField', customFieldSchema);
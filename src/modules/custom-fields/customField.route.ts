@@ -0,0 +1,174 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../../middleware/authMiddlewares';
+import {
+  createCustomFieldHandler,
+  deleteCustomFieldHandler,
+  listCustomFieldsHandler,
+  updateCustomFieldHandler,
+} from './customField.controller';
+
+const router = Router();
+const CUSTOM_FIELD_READ_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
+const CUSTOM_FIELD_MANAGE_ROLES = ['OWNER', 'ADMIN'];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CustomFieldValues:
+ *       type: object
+ *       description: >
+ *         Values keyed by custom field key. Text and URL fields take strings, number fields numbers,
+ *         date fields ISO dates, boolean fields true/false, select fields one of the options and
+ *         multi-select fields a list of options. Send null to clear a value.
+ *       additionalProperties: true
+ *       example:
+ *         industry: Retail
+ *         seats: 25
+ *         renewal_date: '2025-03-01'
+ *   parameters:
+ *     CustomFieldFilter:
+ *       in: query
+ *       name: customFields
+ *       style: deepObject
+ *       explode: true
+ *       description: >
+ *         Filter by custom field, e.g. `customFields[industry]=Retail`. Text and URL fields match partially,
+ *         select fields accept several comma-separated options, number and date fields accept
+ *         `customFields[key][from]` / `customFields[key][to]` ranges, boolean fields take true or false.
+ *       schema:
+ *         type: object
+ *         additionalProperties: true
+ */
+
+/**
+ * @swagger
+ * /api/custom-fields:
+ *   post:
+ *     tags:
+ *       - Custom Fields
+ *     summary: Define a custom field for your team's contacts or deals
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [entityType, key, label, type]
+ *             properties:
+ *               entityType:
+ *                 type: string
+ *                 enum: [contact, deal]
+ *               key:
+ *                 type: string
+ *                 description: Lowercase identifier used in `customFields`, unique per entity type
+ *                 example: renewal_date
+ *               label:
+ *                 type: string
+ *                 example: Renewal date
+ *               type:
+ *                 type: string
+ *                 enum: [text, number, date, select, multi_select, boolean, url]
+ *               options:
+ *                 type: array
+ *                 description: Required for select and multi_select fields
+ *                 items:
+ *                   type: string
+ *               required:
+ *                 type: boolean
+ *                 default: false
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               order:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Custom field created successfully
+ *       409:
+ *         description: A custom field with this key already exists
+ *   get:
+ *     tags:
+ *       - Custom Fields
+ *     summary: List your team's custom fields
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [contact, deal]
+ *     responses:
+ *       200:
+ *         description: Custom fields fetched successfully
+ */
+router.post('/', authenticate, authorize(CUSTOM_FIELD_MANAGE_ROLES), createCustomFieldHandler);
+router.get('/', authenticate, authorize(CUSTOM_FIELD_READ_ROLES), listCustomFieldsHandler);
+
+/**
+ * @swagger
+ * /api/custom-fields/{id}:
+ *   put:
+ *     tags:
+ *       - Custom Fields
+ *     summary: Update a custom field
+ *     description: The key, type and entity type are fixed once created.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               required:
+ *                 type: boolean
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               order:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Custom field updated successfully
+ *       404:
+ *         description: Custom field not found
+ *   delete:
+ *     tags:
+ *       - Custom Fields
+ *     summary: Delete a custom field
+ *     description: Also removes the field's values from all of the team's contacts or deals.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Custom field deleted successfully
+ *       404:
+ *         description: Custom field not found
+ */
+router.put('/:id', authenticate, authorize(CUSTOM_FIELD_MANAGE_ROLES), updateCustomFieldHandler);
+router.delete('/:id', authenticate, authorize(CUSTOM_FIELD_MANAGE_ROLES), deleteCustomFieldHandler);
+
+export default router;
@@ -0,0 +1,115 @@
+import { Contact } from '../contacts/contact.model';
+import { Deal } from '../deals/deal.model';
+import { User } from '../users/user.model';
+import { CustomField } from './customField.model';
+import { parseCustomFieldFilters } from './customFieldValues.service';
+import {
+  CreateCustomFieldInput,
+  CustomFieldDefinition,
+  CustomFieldEntityType,
+  CustomFieldFilterInput,
+  UpdateCustomFieldInput,
+} from './customField.interface';
+
+const DEFINITION_FIELDS = 'key label type options required';
+
+const ENTITY_MODELS = {
+  contact: Contact,
+  deal: Deal,
+} as const;
+
+export const listCustomFields = async (teamId: number, entityType?: CustomFieldEntityType) => {
+  const filter = entityType ? { teamId, entityType } : { teamId };
+  return CustomField.find(filter).sort({ entityType: 1, order: 1, createdAt: 1 });
+};
+
+export const getCustomFieldDefinitions = async (
+  teamId: number | null | undefined,
+  entityType: CustomFieldEntityType
+): Promise<CustomFieldDefinition[]> => {
+  if (teamId === null || teamId === undefined) return [];
+
+  return CustomField.find({ teamId, entityType })
+    .select(DEFINITION_FIELDS)
+    .sort({ order: 1, createdAt: 1 })
+    .lean<CustomFieldDefinition[]>();
+};
+
+// Services only know the record owner, so the team's definitions are looked up through them.
+export const getOwnerCustomFieldDefinitions = async (ownerId: string, entityType: CustomFieldEntityType) => {
+  const owner = await User.findById(ownerId).select('teamId').lean();
+  return getCustomFieldDefinitions(owner?.teamId, entityType);
+};
+
+export const resolveCustomFieldFilters = async (
+  teamId: number | null | undefined,
+  entityType: CustomFieldEntityType,
+  input: CustomFieldFilterInput | undefined
+) => {
+  if (!input || Object.keys(input).length === 0) {
+    return { status: 'ok' as const, filters: [] };
+  }
+
+  return parseCustomFieldFilters(await getCustomFieldDefinitions(teamId, entityType), input);
+};
+
+export const createCustomField = async (payload: CreateCustomFieldInput) => {
+  const existing = await CustomField.exists({
+    teamId: payload.teamId,
+    entityType: payload.entityType,
+    key: payload.key,
+  });
+  if (existing) {
+    return { status: 'duplicate_key' as const };
+  }
+
+  const customField = await CustomField.create({
+    ...payload,
+    options: payload.options ?? [],
+    updatedBy: payload.createdBy,
+  });
+
+  return { status: 'ok' as const, customField };
+};
+
+export const updateCustomField = async (teamId: number, id: string, updates: UpdateCustomFieldInput) => {
+  const customField = await CustomField.findOne({ _id: id, teamId });
+  if (!customField) {
+    return { status: 'not_found' as const };
+  }
+
+  if (updates.options !== undefined) {
+    if (customField.type !== 'select' && customField.type !== 'multi_select') {
+      return { status: 'options_not_supported' as const };
+    }
+    customField.options = updates.options;
+  }
+  if (updates.label !== undefined) customField.label = updates.label;
+  if (updates.required !== undefined) customField.required = updates.required;
+  if (updates.description !== undefined) customField.description = updates.description;
+  if (updates.order !== undefined) customField.order = updates.order;
+  customField.updatedBy = updates.updatedBy as any;
+
+  await customField.save();
+  return { status: 'ok' as const, customField };
+};
+
+/**
+ * Deleting a definition also strips its values from the team's records, so a field later
+ * re-created with the same key starts empty instead of resurfacing stale data.
+ */
+export const deleteCustomField = async (teamId: number, id: string, deletedBy: string) => {
+  const customField = await CustomField.findOneAndDelete({ _id: id, teamId });
+  if (!customField) {
+    return { status: 'not_found' as const };
+  }
+
+  const teamUsers = await User.find({ teamId }).select('_id').lean();
+  const path = `customFields.${customField.key}`;
+  const cleared = await ENTITY_MODELS[customField.entityType].updateMany(
+    { ownerId: { $in: teamUsers.map((user) => user._id) }, [path]: { $exists: true } },
+    { $unset: { [path]: '' }, updatedBy: deletedBy }
+  );
+
+  return { status: 'ok' as const, customField, clearedRecords: cleared.modifiedCount };
+};
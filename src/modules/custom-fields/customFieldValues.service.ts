@@ -0,0 +1,232 @@
+import {
+  CustomFieldDefinition,
+  CustomFieldFilter,
+  CustomFieldFilterInput,
+  CustomFieldValues,
+} from './customField.interface';
+
+const LENGTH = {
+  text: 1000,
+  url: 2048,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StoredValue = CustomFieldValues[string];
+type ValueCheck = { ok: true; value: StoredValue | null } | { ok: false; message: string };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const createRegex = (value: string) => new RegExp(escapeRegExp(value.trim()), 'i');
+
+const isBlank = (value: unknown) => (
+  value === null
+  || value === undefined
+  || (typeof value === 'string' && !value.trim())
+  || (Array.isArray(value) && value.length === 0)
+);
+
+const parseDate = (value: unknown) => {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Blank input (null, '' or []) means "no value" for every type.
+const checkValue = (definition: CustomFieldDefinition, value: unknown): ValueCheck => {
+  if (isBlank(value)) return { ok: true, value: null };
+
+  switch (definition.type) {
+    case 'text': {
+      if (typeof value !== 'string') return { ok: false, message: 'Must be text' };
+      const text = value.trim();
+      return text.length > LENGTH.text
+        ? { ok: false, message: `Must be at most ${LENGTH.text} characters` }
+        : { ok: true, value: text };
+    }
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? { ok: true, value }
+        : { ok: false, message: 'Must be a number' };
+    case 'date': {
+      const date = parseDate(value);
+      return date ? { ok: true, value: date } : { ok: false, message: 'Must be a valid date' };
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? { ok: true, value } : { ok: false, message: 'Must be true or false' };
+    case 'url': {
+      if (typeof value !== 'string' || value.trim().length > LENGTH.url || !isHttpUrl(value.trim())) {
+        return { ok: false, message: 'Must be a valid http(s) URL' };
+      }
+      return { ok: true, value: value.trim() };
+    }
+    case 'select':
+      return typeof value === 'string' && definition.options.includes(value)
+        ? { ok: true, value }
+        : { ok: false, message: `Must be one of: ${definition.options.join(', ')}` };
+    case 'multi_select': {
+      if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+        return { ok: false, message: 'Must be a list of options' };
+      }
+      const invalid = value.filter((entry) => !definition.options.includes(entry));
+      return invalid.length
+        ? { ok: false, message: `Unknown options: ${invalid.join(', ')}` }
+        : { ok: true, value: Array.from(new Set(value as string[])) };
+    }
+  }
+};
+
+/**
+ * Validates submitted custom field values against the team's definitions. On create every
+ * required field must be filled; on update only the submitted keys are touched, and clearing
+ * a required field is rejected.
+ */
+export const validateCustomFieldValues = (
+  definitions: CustomFieldDefinition[],
+  input: Record<string, unknown> | undefined,
+  mode: 'create' | 'update'
+) => {
+  const byKey = new Map(definitions.map((definition) => [definition.key, definition]));
+  const values: CustomFieldValues = {};
+  const unset: string[] = [];
+  const errors: string[] = [];
+
+  for (const [key, raw] of Object.entries(input ?? {})) {
+    const definition = byKey.get(key);
+    if (!definition) {
+      errors.push(`customFields.${key}: Unknown custom field`);
+      continue;
+    }
+
+    const check = checkValue(definition, raw);
+    if (!check.ok) {
+      errors.push(`customFields.${key}: ${check.message}`);
+    } else if (check.value === null) {
+      if (definition.required) errors.push(`customFields.${key}: ${definition.label} is required`);
+      unset.push(key);
+    } else {
+      values[key] = check.value;
+    }
+  }
+
+  if (mode === 'create') {
+    definitions
+      .filter((definition) => definition.required && !(definition.key in values) && !unset.includes(definition.key))
+      .forEach((definition) => errors.push(`customFields.${definition.key}: ${definition.label} is required`));
+  }
+
+  return errors.length
+    ? { status: 'invalid_custom_fields' as const, errors }
+    : { status: 'ok' as const, values, unset };
+};
+
+const toNumber = (value: string | undefined) => {
+  if (value === undefined || !value.trim()) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const toList = (value: string | string[]) => (Array.isArray(value) ? value : [value])
+  .flatMap((entry) => entry.split(','))
+  .map((entry) => entry.trim())
+  .filter((entry) => entry.length > 0);
+
+const parseFilter = (
+  definition: CustomFieldDefinition,
+  raw: CustomFieldFilterInput[string]
+): CustomFieldFilter | string => {
+  const { key } = definition;
+  const range = typeof raw === 'object' && !Array.isArray(raw) ? raw : null;
+  const single = typeof raw === 'string' ? raw.trim() : null;
+
+  switch (definition.type) {
+    case 'text':
+    case 'url':
+      return single ? { key, type: definition.type, contains: single } : 'Expected a single value';
+    case 'number': {
+      const from = toNumber(range ? range.from : single ?? undefined);
+      const to = toNumber(range ? range.to : single ?? undefined);
+      if (from === null || to === null || (from === undefined && to === undefined)) return 'Expected a number or a from/to range';
+      return { key, type: 'number', from, to };
+    }
+    case 'date': {
+      if (single) {
+        // A bare date matches the whole (UTC) day.
+        const day = parseDate(single);
+        return day ? { key, type: 'date', from: day, to: new Date(day.getTime() + DAY_MS - 1) } : 'Expected a valid date';
+      }
+      const from = range?.from ? parseDate(range.from) : undefined;
+      const to = range?.to ? parseDate(range.to) : undefined;
+      if (from === null || to === null || (!from && !to)) return 'Expected a date or a from/to range';
+      return { key, type: 'date', from, to };
+    }
+    case 'select':
+    case 'multi_select': {
+      const anyOf = range ? [] : toList(raw as string | string[]);
+      return anyOf.length ? { key, type: definition.type, anyOf } : 'Expected one or more options';
+    }
+    case 'boolean':
+      return single === 'true' || single === 'false'
+        ? { key, type: 'boolean', equals: single === 'true' }
+        : 'Expected true or false';
+  }
+};
+
+export const parseCustomFieldFilters = (definitions: CustomFieldDefinition[], input: CustomFieldFilterInput) => {
+  const byKey = new Map(definitions.map((definition) => [definition.key, definition]));
+  const filters: CustomFieldFilter[] = [];
+  const errors: string[] = [];
+
+  for (const [key, raw] of Object.entries(input)) {
+    const definition = byKey.get(key);
+    const parsed = definition ? parseFilter(definition, raw) : 'Unknown custom field';
+    if (typeof parsed === 'string') {
+      errors.push(`customFields.${key}: ${parsed}`);
+    } else {
+      filters.push(parsed);
+    }
+  }
+
+  return errors.length
+    ? { status: 'invalid_custom_fields' as const, errors }
+    : { status: 'ok' as const, filters };
+};
+
+export const buildCustomFieldConditions = (filters: CustomFieldFilter[] = []) => filters.map((filter) => {
+  const path = `customFields.${filter.key}`;
+
+  switch (filter.type) {
+    case 'text':
+    case 'url':
+      return { [path]: createRegex(filter.contains) };
+    case 'number':
+    case 'date': {
+      const range: Record<string, number | Date> = {};
+      if (filter.from !== undefined) range.$gte = filter.from;
+      if (filter.to !== undefined) range.$lte = filter.to;
+      return { [path]: range };
+    }
+    case 'select':
+    case 'multi_select':
+      return { [path]: { $in: filter.anyOf } };
+    case 'boolean':
+      // Records that never had the field set count as false.
+      return { [path]: filter.equals ? true : { $ne: true } };
+  }
+});
+
+export const formatCustomFieldValue = (value: unknown) => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join('; ');
+  return String(value);
+};
@@ -11,6 +11,9 @@ const router = Router();
  *     tags:
  *       - Dashboard
  *     summary: Get dashboard overview data
+ *     description: >
+ *       Won and lost amounts are converted to the team's base currency (`summary.currency`) at the rate of
+ *       the day each deal closed; currencies without an exchange rate are listed in `summary.missingRates`.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -1,6 +1,7 @@
 import { Types } from 'mongoose';
 import { Contact } from '../contacts/contact.model';
 import { Deal } from '../deals/deal.model';
+import { loadOwnerCurrencyConverter, resolveConversionDate } from '../exchange-rates/exchangeRate.service';
 import { Task } from '../tasks/task.model';
 
 const getMonthRange = (baseDate = new Date()) => {
@@ -20,6 +21,7 @@ const formatRecentDeal = (deal: any) => {
     _id: dealObj._id,
     title: dealObj.title,
     amount: dealObj.amount ?? null,
+    currency: dealObj.currency ?? null,
     status: dealObj.status,
     expectedCloseDate: dealObj.expectedCloseDate ?? null,
     createdAt: dealObj.createdAt,
@@ -83,6 +85,7 @@ export const getDashboardOverview = async (ownerId: string, recentLimit = 5) =>
     totalContacts,
     recentContacts,
     recentTasks,
+    converter,
   ] = await Promise.all([
     Deal.aggregate([
       {
@@ -113,40 +116,12 @@ export const getDashboardOverview = async (ownerId: string, recentLimit = 5) =>
         },
       },
     ]),
-    Deal.aggregate([
-      {
-        $match: {
-          ownerId: ownerObjectId,
-          deletedAt: null,
-          status: 'won',
-          wonAt: { $gte: monthStart, $lt: monthEnd },
-        },
-      },
-      {
-        $group: {
-          _id: null,
-          count: { $sum: 1 },
-          amount: { $sum: { $ifNull: ['$amount', 0] } },
-        },
-      },
-    ]),
-    Deal.aggregate([
-      {
-        $match: {
-          ownerId: ownerObjectId,
-          deletedAt: null,
-          status: 'lost',
-          lostAt: { $gte: monthStart, $lt: monthEnd },
-        },
-      },
-      {
-        $group: {
-          _id: null,
-          count: { $sum: 1 },
-          amount: { $sum: { $ifNull: ['$amount', 0] } },
-        },
-      },
-    ]),
+    Deal.find({ ownerId, deletedAt: null, status: 'won', wonAt: { $gte: monthStart, $lt: monthEnd } })
+      .select('status amount currency wonAt')
+      .lean(),
+    Deal.find({ ownerId, deletedAt: null, status: 'lost', lostAt: { $gte: monthStart, $lt: monthEnd } })
+      .select('status amount currency lostAt')
+      .lean(),
     Deal.find({ ownerId, deletedAt: null })
       .sort({ createdAt: -1 })
       .limit(recentLimit)
@@ -162,15 +137,23 @@ export const getDashboardOverview = async (ownerId: string, recentLimit = 5) =>
       .sort({ createdAt: -1 })
       .limit(recentLimit)
       .populate({ path: 'assignedTo', select: '_id fullName email role' }),
+    loadOwnerCurrencyConverter(ownerId),
   ]);
 
   const dealCountsData = dealCounts[0] || { total: 0, open: 0, won: 0, lost: 0 };
-  const wonThisMonthData = wonThisMonth[0] || { count: 0, amount: 0 };
-  const lostThisMonthData = lostThisMonth[0] || { count: 0, amount: 0 };
+  // Amounts are in the team's base currency; deals in a currency without an exchange rate add nothing.
+  const sumAmounts = (deals: typeof wonThisMonth) => Number(deals.reduce(
+    (sum, deal) => sum + (converter.convert(deal.amount, deal.currency, resolveConversionDate(deal)) ?? 0),
+    0
+  ).toFixed(2));
+  const wonThisMonthData = { count: wonThisMonth.length, amount: sumAmounts(wonThisMonth) };
+  const lostThisMonthData = { count: lostThisMonth.length, amount: sumAmounts(lostThisMonth) };
   const decidedDealsThisMonth = wonThisMonthData.count + lostThisMonthData.count;
 
   return {
     summary: {
+      currency: converter.baseCurrency,
+      missingRates: converter.missingRates(),
       deals: {
         total: dealCountsData.total,
         open: dealCountsData.open,
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { z, ZodError } from 'zod';
 import { sendError, sendResponse } from '../../../Utils/response';
+import { resolveCustomFieldFilters } from '../custom-fields/customField.service';
 import { User } from '../users/user.model';
 import {
   createDeal,
@@ -10,14 +11,23 @@ import {
   listDeals,
   markDealLost,
   markDealWon,
+  moveDeal,
+  reopenDeal,
   updateDeal,
 } from './deal.service';
+import { getSalesForecast } from './dealForecast.service';
+import { addDealLineItem, listDealLineItems, removeDealLineItem, updateDealLineItem } from './dealLineItem.service';
+import { getDealStageHistory } from './dealStageHistory.service';
+import { getWinLossReport } from './dealWinLoss.service';
 
 const LENGTH = {
   title: 120,
   lostReason: 500,
+  lostReasonDetail: 1000,
 } as const;
 
+const DEAL_CURRENCIES = ['usd', 'eur', 'gbp', 'bdt'] as const;
+
 const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
 
 const optionalNullableObjectIdSchema = z.preprocess(
@@ -36,36 +46,141 @@ const createDealSchema = z.object({
   stageId: objectIdSchema,
   title: z.string().trim().min(1).max(LENGTH.title),
   amount: z.coerce.number().min(0).nullable().optional(),
+  currency: z.enum(DEAL_CURRENCIES).optional(),
   contactId: optionalNullableObjectIdSchema.optional(),
+  companyId: optionalNullableObjectIdSchema.optional(),
   expectedCloseDate: z.coerce.date().nullable().optional(),
+  customFields: z.record(z.unknown()).optional(),
 });
 
+const optionalNullableTextSchema = (max: number) => z.preprocess(
+  (value) => {
+    if (value === undefined) return undefined;
+    if (value === null) return null;
+    if (typeof value !== 'string') return value;
+    const trimmed = value.trim();
+    return trimmed.length ? trimmed : null;
+  },
+  z.string().max(max).nullable().optional()
+);
+
+// Reason for losing a deal, sent to /lost or with a move into a lost closing stage.
+const lostReasonFields = {
+  lostReasonId: optionalNullableObjectIdSchema.optional(),
+  lostReason: optionalNullableTextSchema(LENGTH.lostReason),
+  lostReasonDetail: optionalNullableTextSchema(LENGTH.lostReasonDetail),
+};
+
 const updateDealSchema = z.object({
   pipelineId: objectIdSchema.optional(),
   stageId: objectIdSchema.optional(),
   title: z.string().trim().min(1).max(LENGTH.title).optional(),
   amount: z.coerce.number().min(0).nullable().optional(),
+  currency: z.enum(DEAL_CURRENCIES).optional(),
   contactId: optionalNullableObjectIdSchema.optional(),
+  companyId: optionalNullableObjectIdSchema.optional(),
   expectedCloseDate: z.coerce.date().nullable().optional(),
+  customFields: z.record(z.unknown()).optional(),
+  ...lostReasonFields,
+}).refine((data) => Object.keys(data).length > 0, {
+  message: 'At least one field is required',
+});
+
+const moveDealSchema = z.object({
+  stageId: objectIdSchema,
+  pipelineId: objectIdSchema.optional(),
+  beforeDealId: objectIdSchema.optional(),
+  afterDealId: objectIdSchema.optional(),
+  ...lostReasonFields,
+});
+
+const lineItemQuantitySchema = z.coerce.number().positive().max(1_000_000);
+const lineItemDiscountSchema = z.coerce.number().min(0).max(100);
+const lineItemPriceOverrideSchema = z.coerce.number().min(0).nullable();
+
+const addLineItemSchema = z.object({
+  productId: objectIdSchema,
+  quantity: lineItemQuantitySchema.default(1),
+  discount: lineItemDiscountSchema.optional(),
+  priceOverride: lineItemPriceOverrideSchema.optional(),
+});
+
+const updateLineItemSchema = z.object({
+  quantity: lineItemQuantitySchema.optional(),
+  discount: lineItemDiscountSchema.optional(),
+  priceOverride: lineItemPriceOverrideSchema.optional(),
 }).refine((data) => Object.keys(data).length > 0, {
   message: 'At least one field is required',
 });
 
+const REPORT_MAX_MONTHS = 24;
+
+const optionalQueryDate = z.preprocess(
+  (value) => {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    return new Date(value.trim());
+  },
+  z.date().optional()
+);
+
+// Period and scope filters shared by the forecast and win/loss reports.
+const reportQueryFields = {
+  quarter: z.string().trim().regex(/^\d{4}-Q[1-4]$/i, 'Expected a quarter such as 2026-Q1').optional(),
+  from: optionalQueryDate,
+  to: optionalQueryDate,
+  pipelineId: objectIdSchema.optional(),
+  ownerId: objectIdSchema.optional(),
+};
+
+const refineReportPeriod = (query: { quarter?: string; from?: Date; to?: Date }, ctx: z.RefinementCtx) => {
+  if (query.quarter && (query.from || query.to)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['quarter'], message: 'Use either quarter or from/to' });
+  }
+  if (Boolean(query.from) !== Boolean(query.to)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['to'], message: 'from and to must be given together' });
+  }
+  if (query.from && query.to && query.from >= query.to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['to'], message: 'Must be after from' });
+  }
+};
+
+const forecastQuerySchema = z.object({
+  ...reportQueryFields,
+  commitThreshold: z.coerce.number().min(0).max(100).default(70),
+}).superRefine(refineReportPeriod);
+
+const winLossQuerySchema = z.object(reportQueryFields).superRefine(refineReportPeriod);
+
+// Quarters are calendar quarters in UTC; without a period the current quarter is used.
+const resolveReportPeriod = (query: { quarter?: string; from?: Date; to?: Date }) => {
+  if (query.from && query.to) return { from: query.from, to: query.to };
+
+  const now = new Date();
+  const [year, quarter] = query.quarter
+    ? [Number(query.quarter.slice(0, 4)), Number(query.quarter.slice(-1))]
+    : [now.getUTCFullYear(), Math.floor(now.getUTCMonth() / 3) + 1];
+  const startMonth = (quarter - 1) * 3;
+  return { from: new Date(Date.UTC(year, startMonth, 1)), to: new Date(Date.UTC(year, startMonth + 3, 1)) };
+};
+
+const exceedsReportMaxMonths = (period: { from: Date; to: Date }) => {
+  const maxTo = new Date(period.from);
+  maxTo.setUTCMonth(maxTo.getUTCMonth() + REPORT_MAX_MONTHS);
+  return period.to > maxTo;
+};
+
 const dealActionSchema = z.object({
   dealId: objectIdSchema,
 });
 
 const dealLostActionSchema = z.object({
   dealId: objectIdSchema,
-  lostReason: z.preprocess(
-    (value) => {
-      if (value === undefined || value === null) return null;
-      if (typeof value !== 'string') return value;
-      const trimmed = value.trim();
-      return trimmed.length ? trimmed : null;
-    },
-    z.string().max(LENGTH.lostReason).nullable().optional()
-  ),
+  ...lostReasonFields,
+});
+
+const reopenDealSchema = z.object({
+  dealId: objectIdSchema,
+  stageId: objectIdSchema.optional(),
 });
 
 const listDealsQuerySchema = z.object({
@@ -95,6 +210,19 @@ const listDealsQuerySchema = z.object({
     },
     objectIdSchema.optional()
   ),
+  companyId: z.preprocess(
+    (value) => {
+      if (typeof value !== 'string') return undefined;
+      const trimmed = value.trim();
+      return trimmed.length > 0 ? trimmed : undefined;
+    },
+    objectIdSchema.optional()
+  ),
+  customFields: z.record(z.union([
+    z.string(),
+    z.array(z.string()),
+    z.object({ from: z.string().optional(), to: z.string().optional() }),
+  ])).optional(),
 });
 
 const listContactDealsQuerySchema = z.object({
@@ -139,6 +267,26 @@ const resolveDeleteOwnerIds = async (req: Request, userId: string): Promise<stri
   return resolveTeamOwnerIds(req, userId);
 };
 
+const sendInvalidTransitionError = (res: Response, from: string, to: string) => sendError(res, {
+  success: false,
+  statusCode: 409,
+  message: from === to ? `Deal is already ${to}` : `A ${from} deal cannot be marked ${to}; reopen it first`,
+});
+
+const sendTransitionConflictError = (res: Response) => sendError(res, {
+  success: false,
+  statusCode: 409,
+  message: 'The deal status was changed by someone else; reload and try again',
+});
+
+const sendLostReasonError = (res: Response, status: 'lost_reason_required' | 'lost_reason_not_found') => sendError(res, {
+  success: false,
+  statusCode: 400,
+  message: status === 'lost_reason_required'
+    ? "Pick a lost reason from your team's catalog"
+    : 'Lost reason not found or inactive',
+});
+
 export const createDealHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
@@ -166,8 +314,11 @@ export const createDealHandler = async (req: Request, res: Response) => {
       stageId: parsed.stageId,
       title: parsed.title,
       amount: parsed.amount ?? null,
+      currency: parsed.currency,
       contactId: parsed.contactId ?? null,
+      companyId: parsed.companyId ?? null,
       expectedCloseDate: parsed.expectedCloseDate ?? null,
+      customFields: parsed.customFields,
       createdBy: userId,
       updatedBy: userId,
     });
@@ -186,6 +337,13 @@ export const createDealHandler = async (req: Request, res: Response) => {
         message: 'Stage does not belong to this pipeline',
       });
     }
+    if (result.status === 'closing_stage') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Deals cannot be created in a closing stage; mark them won or lost instead',
+      });
+    }
     if (result.status === 'contact_not_found') {
       return sendError(res, {
         success: false,
@@ -193,6 +351,21 @@ export const createDealHandler = async (req: Request, res: Response) => {
         message: 'Contact not found',
       });
     }
+    if (result.status === 'company_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Company not found',
+      });
+    }
+    if (result.status === 'invalid_custom_fields') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Invalid custom field values',
+        details: result.errors.join(', '),
+      });
+    }
 
     return sendResponse(res, {
       success: true,
@@ -264,7 +437,7 @@ export const getDealDetailsHandler = async (req: Request, res: Response) => {
   }
 };
 
-export const listDealsHandler = async (req: Request, res: Response) => {
+export const moveDealHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
     if (!userId) {
@@ -275,22 +448,74 @@ export const listDealsHandler = async (req: Request, res: Response) => {
       });
     }
 
-    const query = listDealsQuerySchema.parse({
-      page: getQueryValue(req.query.page),
-      limit: getQueryValue(req.query.limit),
-      search: getQueryValue(req.query.search) ?? getQueryValue(req.query.q),
-      status: getQueryValue(req.query.status),
-      pipelineId: getQueryValue(req.query.pipelineId),
+    const dealId = objectIdSchema.parse(req.params.dealId);
+    const parsed = moveDealSchema.parse(req.body);
+    const result = await moveDeal({
+      ownerId: userId,
+      dealId,
+      ...parsed,
+      movedBy: userId,
     });
 
-    const ownerIds = await resolveTeamOwnerIds(req, userId);
-    const result = await listDeals(ownerIds, query);
+    if (result.status === 'deal_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deal not found',
+      });
+    }
+    if (result.status === 'pipeline_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Pipeline not found',
+      });
+    }
+    if (result.status === 'invalid_stage_for_pipeline') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Stage does not belong to this pipeline',
+      });
+    }
+    if (result.status === 'stage_requirements_not_met') {
+      return sendError(res, {
+        success: false,
+        statusCode: 422,
+        message: 'The deal does not meet the requirements of the target stage',
+        errors: result.missing,
+      });
+    }
+    if (result.status === 'deal_closed') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'Reopen the deal before moving it to another stage',
+      });
+    }
+    if (result.status === 'lost_reason_required' || result.status === 'lost_reason_not_found') {
+      return sendLostReasonError(res, result.status);
+    }
+    if (result.status === 'invalid_neighbour') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'beforeDealId and afterDealId must be deals of the target stage, in board order',
+      });
+    }
+    if (result.status === 'move_conflict') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'The deal was moved by someone else; reload the board and try again',
+      });
+    }
 
     return sendResponse(res, {
       success: true,
       statusCode: 200,
-      message: 'Deals fetched successfully',
-      data: result,
+      message: 'Deal moved successfully',
+      data: result.deal,
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -304,13 +529,13 @@ export const listDealsHandler = async (req: Request, res: Response) => {
     return sendError(res, {
       success: false,
       statusCode: 500,
-      message: 'Failed to fetch deals',
+      message: 'Failed to move deal',
       details: (error as Error).message,
     });
   }
 };
 
-export const listContactDealsHandler = async (req: Request, res: Response) => {
+export const getDealStageHistoryHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
     if (!userId) {
@@ -321,33 +546,22 @@ export const listContactDealsHandler = async (req: Request, res: Response) => {
       });
     }
 
-    const contactId = objectIdSchema.parse(req.params.contactId);
-    const query = listContactDealsQuerySchema.parse({
-      page: getQueryValue(req.query.page),
-      limit: getQueryValue(req.query.limit),
-      search: getQueryValue(req.query.search) ?? getQueryValue(req.query.q),
-      status: getQueryValue(req.query.status),
-    });
-
-    const ownerIds = await resolveTeamOwnerIds(req, userId);
-    const result = await listDealsByContact(ownerIds, contactId, query);
+    const dealId = objectIdSchema.parse(req.params.dealId);
+    const result = await getDealStageHistory(userId, dealId);
 
-    if (result.status === 'contact_not_found') {
+    if (result.status === 'deal_not_found') {
       return sendError(res, {
         success: false,
         statusCode: 404,
-        message: 'Contact not found',
+        message: 'Deal not found',
       });
     }
 
     return sendResponse(res, {
       success: true,
       statusCode: 200,
-      message: 'Contact deals fetched successfully',
-      data: {
-        deals: result.deals,
-        pagination: result.pagination,
-      },
+      message: 'Deal stage history fetched successfully',
+      data: result.history,
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -361,13 +575,13 @@ export const listContactDealsHandler = async (req: Request, res: Response) => {
     return sendError(res, {
       success: false,
       statusCode: 500,
-      message: 'Failed to fetch contact deals',
+      message: 'Failed to fetch deal stage history',
       details: (error as Error).message,
     });
   }
 };
 
-export const updateDealHandler = async (req: Request, res: Response) => {
+export const listDealsHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
     if (!userId) {
@@ -378,55 +592,34 @@ export const updateDealHandler = async (req: Request, res: Response) => {
       });
     }
 
-    const dealId = objectIdSchema.parse(req.params.dealId);
-    const parsed = updateDealSchema.parse(req.body);
-
-    const result = await updateDeal({
-      ownerId: userId,
-      dealId,
-      pipelineId: parsed.pipelineId,
-      stageId: parsed.stageId,
-      title: parsed.title,
-      amount: parsed.amount,
-      contactId: parsed.contactId,
-      expectedCloseDate: parsed.expectedCloseDate,
-      updatedBy: userId,
+    const { customFields, ...query } = listDealsQuerySchema.parse({
+      page: getQueryValue(req.query.page),
+      limit: getQueryValue(req.query.limit),
+      search: getQueryValue(req.query.search) ?? getQueryValue(req.query.q),
+      status: getQueryValue(req.query.status),
+      pipelineId: getQueryValue(req.query.pipelineId),
+      companyId: getQueryValue(req.query.companyId),
+      customFields: req.query.customFields,
     });
 
-    if (result.status === 'deal_not_found') {
-      return sendError(res, {
-        success: false,
-        statusCode: 404,
-        message: 'Deal not found',
-      });
-    }
-    if (result.status === 'pipeline_not_found') {
-      return sendError(res, {
-        success: false,
-        statusCode: 404,
-        message: 'Pipeline not found',
-      });
-    }
-    if (result.status === 'invalid_stage_for_pipeline') {
+    const customFieldFilters = await resolveCustomFieldFilters(getTeamIdFromReq(req), 'deal', customFields);
+    if (customFieldFilters.status !== 'ok') {
       return sendError(res, {
         success: false,
         statusCode: 400,
-        message: 'Stage does not belong to this pipeline',
-      });
-    }
-    if (result.status === 'contact_not_found') {
-      return sendError(res, {
-        success: false,
-        statusCode: 404,
-        message: 'Contact not found',
+        message: 'Invalid custom field filter',
+        details: customFieldFilters.errors.join(', '),
       });
     }
 
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    const result = await listDeals(ownerIds, { ...query, customFields: customFieldFilters.filters });
+
     return sendResponse(res, {
       success: true,
       statusCode: 200,
-      message: 'Deal updated successfully',
-      data: result.deal,
+      message: 'Deals fetched successfully',
+      data: result,
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -440,13 +633,13 @@ export const updateDealHandler = async (req: Request, res: Response) => {
     return sendError(res, {
       success: false,
       statusCode: 500,
-      message: 'Failed to update deal',
+      message: 'Failed to fetch deals',
       details: (error as Error).message,
     });
   }
 };
 
-export const deleteDealHandler = async (req: Request, res: Response) => {
+export const getSalesForecastHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
     if (!userId) {
@@ -457,23 +650,40 @@ export const deleteDealHandler = async (req: Request, res: Response) => {
       });
     }
 
-    const dealId = objectIdSchema.parse(req.params.dealId);
-    const ownerIds = await resolveDeleteOwnerIds(req, userId);
-    const result = await deleteDeal(ownerIds, dealId, userId);
+    const { quarter, from, to, ...query } = forecastQuerySchema.parse({
+      quarter: getQueryValue(req.query.quarter),
+      from: getQueryValue(req.query.from),
+      to: getQueryValue(req.query.to),
+      pipelineId: getQueryValue(req.query.pipelineId),
+      ownerId: getQueryValue(req.query.ownerId),
+      commitThreshold: getQueryValue(req.query.commitThreshold),
+    });
 
-    if (result.status === 'deal_not_found') {
+    const period = resolveReportPeriod({ quarter, from, to });
+    if (exceedsReportMaxMonths(period)) {
       return sendError(res, {
         success: false,
-        statusCode: 404,
-        message: 'Deal not found',
+        statusCode: 400,
+        message: `The forecast period cannot exceed ${REPORT_MAX_MONTHS} months`,
+      });
+    }
+
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    if (query.ownerId && !ownerIds.includes(query.ownerId)) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Owner must be a member of your team',
       });
     }
 
+    const data = await getSalesForecast(ownerIds, { ...query, ...period }, getTeamIdFromReq(req));
+
     return sendResponse(res, {
       success: true,
       statusCode: 200,
-      message: 'Deal deleted successfully',
-      data: result.deal,
+      message: 'Sales forecast fetched successfully',
+      data,
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -487,13 +697,13 @@ export const deleteDealHandler = async (req: Request, res: Response) => {
     return sendError(res, {
       success: false,
       statusCode: 500,
-      message: 'Failed to delete deal',
+      message: 'Failed to fetch sales forecast',
       details: (error as Error).message,
     });
   }
 };
 
-export const markDealWonHandler = async (req: Request, res: Response) => {
+export const getWinLossReportHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
     if (!userId) {
@@ -504,23 +714,39 @@ export const markDealWonHandler = async (req: Request, res: Response) => {
       });
     }
 
-    const parsed = dealActionSchema.parse(req.body);
-    const dealId = parsed.dealId;
-    const result = await markDealWon(userId, dealId, userId);
+    const { quarter, from, to, ...query } = winLossQuerySchema.parse({
+      quarter: getQueryValue(req.query.quarter),
+      from: getQueryValue(req.query.from),
+      to: getQueryValue(req.query.to),
+      pipelineId: getQueryValue(req.query.pipelineId),
+      ownerId: getQueryValue(req.query.ownerId),
+    });
 
-    if (result.status === 'deal_not_found') {
+    const period = resolveReportPeriod({ quarter, from, to });
+    if (exceedsReportMaxMonths(period)) {
       return sendError(res, {
         success: false,
-        statusCode: 404,
-        message: 'Deal not found',
+        statusCode: 400,
+        message: `The report period cannot exceed ${REPORT_MAX_MONTHS} months`,
+      });
+    }
+
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    if (query.ownerId && !ownerIds.includes(query.ownerId)) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Owner must be a member of your team',
       });
     }
 
+    const data = await getWinLossReport(ownerIds, { ...query, ...period }, getTeamIdFromReq(req));
+
     return sendResponse(res, {
       success: true,
       statusCode: 200,
-      message: 'Deal marked as won',
-      data: result.deal,
+      message: 'Win/loss report fetched successfully',
+      data,
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -534,13 +760,13 @@ export const markDealWonHandler = async (req: Request, res: Response) => {
     return sendError(res, {
       success: false,
       statusCode: 500,
-      message: 'Failed to mark deal as won',
+      message: 'Failed to fetch win/loss report',
       details: (error as Error).message,
     });
   }
 };
 
-export const markDealLostHandler = async (req: Request, res: Response) => {
+export const listContactDealsHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
     if (!userId) {
@@ -551,21 +777,400 @@ export const markDealLostHandler = async (req: Request, res: Response) => {
       });
     }
 
-    const parsed = dealLostActionSchema.parse(req.body);
-    const result = await markDealLost(userId, parsed.dealId, userId, parsed.lostReason ?? null);
+    const contactId = objectIdSchema.parse(req.params.contactId);
+    const query = listContactDealsQuerySchema.parse({
+      page: getQueryValue(req.query.page),
+      limit: getQueryValue(req.query.limit),
+      search: getQueryValue(req.query.search) ?? getQueryValue(req.query.q),
+      status: getQueryValue(req.query.status),
+    });
 
-    if (result.status === 'deal_not_found') {
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    const result = await listDealsByContact(ownerIds, contactId, query);
+
+    if (result.status === 'contact_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Contact not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Contact deals fetched successfully',
+      data: {
+        deals: result.deals,
+        pagination: result.pagination,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch contact deals',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const updateDealHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const dealId = objectIdSchema.parse(req.params.dealId);
+    const parsed = updateDealSchema.parse(req.body);
+
+    const result = await updateDeal({
+      ownerId: userId,
+      dealId,
+      pipelineId: parsed.pipelineId,
+      stageId: parsed.stageId,
+      title: parsed.title,
+      amount: parsed.amount,
+      currency: parsed.currency,
+      contactId: parsed.contactId,
+      companyId: parsed.companyId,
+      expectedCloseDate: parsed.expectedCloseDate,
+      customFields: parsed.customFields,
+      lostReasonId: parsed.lostReasonId,
+      lostReason: parsed.lostReason,
+      lostReasonDetail: parsed.lostReasonDetail,
+      updatedBy: userId,
+    });
+
+    if (result.status === 'deal_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deal not found',
+      });
+    }
+    if (result.status === 'amount_from_line_items') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'The amount of a deal with line items is calculated from them',
+      });
+    }
+    if (result.status === 'currency_from_line_items') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'The currency of a deal with line items is the currency of its products',
+      });
+    }
+    if (result.status === 'pipeline_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Pipeline not found',
+      });
+    }
+    if (result.status === 'invalid_stage_for_pipeline') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Stage does not belong to this pipeline',
+      });
+    }
+    if (result.status === 'stage_requirements_not_met') {
+      return sendError(res, {
+        success: false,
+        statusCode: 422,
+        message: 'The deal does not meet the requirements of the target stage',
+        errors: result.missing,
+      });
+    }
+    if (result.status === 'deal_closed') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'Reopen the deal before moving it to another stage',
+      });
+    }
+    if (result.status === 'lost_reason_required' || result.status === 'lost_reason_not_found') {
+      return sendLostReasonError(res, result.status);
+    }
+    if (result.status === 'contact_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Contact not found',
+      });
+    }
+    if (result.status === 'company_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Company not found',
+      });
+    }
+    if (result.status === 'invalid_custom_fields') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Invalid custom field values',
+        details: result.errors.join(', '),
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Deal updated successfully',
+      data: result.deal,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to update deal',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const deleteDealHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const dealId = objectIdSchema.parse(req.params.dealId);
+    const ownerIds = await resolveDeleteOwnerIds(req, userId);
+    const result = await deleteDeal(ownerIds, dealId, userId);
+
+    if (result.status === 'deal_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deal not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Deal deleted successfully',
+      data: result.deal,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to delete deal',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const markDealWonHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const parsed = dealActionSchema.parse(req.body);
+    const dealId = parsed.dealId;
+    const result = await markDealWon(userId, dealId, userId);
+
+    if (result.status === 'deal_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deal not found',
+      });
+    }
+    if (result.status === 'invalid_transition') {
+      return sendInvalidTransitionError(res, result.from, result.to);
+    }
+    if (result.status === 'transition_conflict') {
+      return sendTransitionConflictError(res);
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Deal marked as won',
+      data: result.deal,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to mark deal as won',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const markDealLostHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const parsed = dealLostActionSchema.parse(req.body);
+    const { dealId, ...reason } = parsed;
+    const result = await markDealLost(userId, dealId, userId, reason);
+
+    if (result.status === 'deal_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deal not found',
+      });
+    }
+    if (result.status === 'invalid_transition') {
+      return sendInvalidTransitionError(res, result.from, result.to);
+    }
+    if (result.status === 'lost_reason_required' || result.status === 'lost_reason_not_found') {
+      return sendLostReasonError(res, result.status);
+    }
+    if (result.status === 'transition_conflict') {
+      return sendTransitionConflictError(res);
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Deal marked as lost',
+      data: result.deal,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to mark deal as lost',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const reopenDealHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const parsed = reopenDealSchema.parse(req.body);
+    const result = await reopenDeal(userId, parsed.dealId, userId, parsed.stageId);
+
+    if (result.status === 'deal_not_found') {
       return sendError(res, {
         success: false,
         statusCode: 404,
         message: 'Deal not found',
       });
     }
+    if (result.status === 'invalid_transition') {
+      return sendInvalidTransitionError(res, result.from, result.to);
+    }
+    if (result.status === 'pipeline_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Pipeline not found',
+      });
+    }
+    if (result.status === 'invalid_stage_for_pipeline') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Stage does not belong to this pipeline',
+      });
+    }
+    if (result.status === 'closing_stage') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'A deal cannot be reopened into a closing stage',
+      });
+    }
+    if (result.status === 'no_open_stage') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'The pipeline has no open stage to reopen the deal in',
+      });
+    }
+    if (result.status === 'transition_conflict') {
+      return sendTransitionConflictError(res);
+    }
 
     return sendResponse(res, {
       success: true,
       statusCode: 200,
-      message: 'Deal marked as lost',
+      message: 'Deal reopened',
       data: result.deal,
     });
   } catch (error) {
@@ -580,7 +1185,241 @@ export const markDealLostHandler = async (req: Request, res: Response) => {
     return sendError(res, {
       success: false,
       statusCode: 500,
-      message: 'Failed to mark deal as lost',
+      message: 'Failed to reopen deal',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const listDealLineItemsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const dealId = objectIdSchema.parse(req.params.dealId);
+    const result = await listDealLineItems(userId, dealId);
+
+    if (result.status === 'deal_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deal not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Deal line items fetched successfully',
+      data: result.lineItems,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch deal line items',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const addDealLineItemHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const dealId = objectIdSchema.parse(req.params.dealId);
+    const parsed = addLineItemSchema.parse(req.body);
+    const result = await addDealLineItem({
+      ownerId: userId,
+      dealId,
+      ...parsed,
+      updatedBy: userId,
+    });
+
+    if (result.status === 'deal_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deal not found',
+      });
+    }
+    if (result.status === 'product_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Product not found',
+      });
+    }
+    if (result.status === 'product_inactive') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Product is inactive',
+      });
+    }
+    if (result.status === 'currency_mismatch') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: `The product must be priced in the deal's currency (${result.currency})`,
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 201,
+      message: 'Line item added successfully',
+      data: result.lineItems,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to add line item',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const updateDealLineItemHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const dealId = objectIdSchema.parse(req.params.dealId);
+    const itemId = objectIdSchema.parse(req.params.itemId);
+    const parsed = updateLineItemSchema.parse(req.body);
+    const result = await updateDealLineItem({
+      ownerId: userId,
+      dealId,
+      itemId,
+      ...parsed,
+      updatedBy: userId,
+    });
+
+    if (result.status === 'deal_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deal not found',
+      });
+    }
+    if (result.status === 'line_item_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Line item not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Line item updated successfully',
+      data: result.lineItems,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to update line item',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const removeDealLineItemHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const dealId = objectIdSchema.parse(req.params.dealId);
+    const itemId = objectIdSchema.parse(req.params.itemId);
+    const result = await removeDealLineItem(userId, dealId, itemId, userId);
+
+    if (result.status === 'deal_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deal not found',
+      });
+    }
+    if (result.status === 'line_item_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Line item not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Line item removed successfully',
+      data: result.lineItems,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to remove line item',
       details: (error as Error).message,
     });
   }
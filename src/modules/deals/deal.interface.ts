@@ -1,13 +1,30 @@
 import { Document, Types } from 'mongoose';
+import { BillingCurrency } from '../billing/package.interface';
+import { CustomFieldValues } from '../custom-fields/customField.interface';
 
 export type DealStatus = 'open' | 'won' | 'lost';
 
+/** Moving an open deal into a closing stage marks it won or lost. */
+export type DealClosingType = 'won' | 'lost';
+
+export type StageRequiredDealField = 'amount' | 'expectedCloseDate' | 'companyId';
+
+/** What a deal must have before it can enter a stage. */
+export interface IStageRequirements {
+  fields: StageRequiredDealField[];
+  contact: boolean;
+  customFields: string[];
+}
+
 export interface IPipelineStage {
   _id: Types.ObjectId;
   name: string;
   color?: string | null;
   order: number;
   isDefault?: boolean;
+  probability?: number | null;
+  closingType?: DealClosingType | null;
+  requirements?: IStageRequirements;
 }
 
 export interface IPipeline extends Document {
@@ -21,31 +38,159 @@ export interface IPipeline extends Document {
   deletedBy?: Types.ObjectId | null;
 }
 
+/**
+ * A product on a deal. Name, SKU, price, currency and tax rate are copied from the catalog when the
+ * item is added; `subtotal` is quantity × (priceOverride ?? unitPrice) less the discount percentage.
+ */
+export interface IDealLineItem {
+  _id: Types.ObjectId;
+  productId?: Types.ObjectId | null;
+  name: string;
+  sku?: string | null;
+  quantity: number;
+  unitPrice: number;
+  priceOverride?: number | null;
+  discount: number;
+  taxRate: number;
+  currency: BillingCurrency;
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+}
+
 export interface IDeal extends Document {
   ownerId: Types.ObjectId;
   pipelineId: Types.ObjectId;
   stageId: Types.ObjectId;
+  position?: number | null;
   title: string;
   amount?: number | null;
+  currency?: BillingCurrency | null;
+  lineItems: IDealLineItem[];
   contactId?: Types.ObjectId | null;
+  companyId?: Types.ObjectId | null;
   expectedCloseDate?: Date | null;
   status: DealStatus;
   wonAt?: Date | null;
   lostAt?: Date | null;
   lostReason?: string | null;
+  lostReasonId?: Types.ObjectId | null;
+  lostReasonDetail?: string | null;
+  customFields?: CustomFieldValues;
   createdBy: Types.ObjectId;
   updatedBy?: Types.ObjectId | null;
   deletedAt?: Date | null;
   deletedBy?: Types.ObjectId | null;
 }
 
+export type DealStageChangeReason = 'created' | 'moved' | 'stage_removed' | 'pipeline_deleted';
+
+export interface IDealStageHistory extends Document {
+  dealId: Types.ObjectId;
+  ownerId: Types.ObjectId;
+  pipelineId: Types.ObjectId;
+  stageId: Types.ObjectId;
+  fromPipelineId?: Types.ObjectId | null;
+  fromStageId?: Types.ObjectId | null;
+  reason: DealStageChangeReason;
+  changedBy: Types.ObjectId;
+  changedAt: Date;
+}
+
+export type DealStageChangeInput = {
+  dealId: string | Types.ObjectId;
+  ownerId: string | Types.ObjectId;
+  pipelineId: string | Types.ObjectId;
+  stageId: string | Types.ObjectId;
+  fromPipelineId?: string | Types.ObjectId | null;
+  fromStageId?: string | Types.ObjectId | null;
+  reason: DealStageChangeReason;
+  changedBy: string;
+  changedAt?: Date;
+};
+
+export type BoardQuery = {
+  status?: DealStatus;
+  limit: number;
+};
+
+/** Lost-reason fields apply when the deal is moved into a lost closing stage. */
+export type MoveDealInput = MarkDealLostInput & {
+  ownerId: string;
+  dealId: string;
+  stageId: string;
+  pipelineId?: string;
+  beforeDealId?: string;
+  afterDealId?: string;
+  movedBy: string;
+};
+
+export type AddDealLineItemInput = {
+  ownerId: string;
+  dealId: string;
+  productId: string;
+  quantity: number;
+  discount?: number;
+  priceOverride?: number | null;
+  updatedBy: string;
+};
+
+export type UpdateDealLineItemInput = {
+  ownerId: string;
+  dealId: string;
+  itemId: string;
+  quantity?: number;
+  discount?: number;
+  priceOverride?: number | null;
+  updatedBy: string;
+};
+
+export type ForecastQuery = {
+  from: Date;
+  to: Date;
+  pipelineId?: string;
+  ownerId?: string;
+  commitThreshold: number;
+};
+
+export type MarkDealLostInput = {
+  lostReasonId?: string | null;
+  lostReason?: string | null;
+  lostReasonDetail?: string | null;
+};
+
+export type WinLossQuery = {
+  from: Date;
+  to: Date;
+  pipelineId?: string;
+  ownerId?: string;
+};
+
+export type StageAnalyticsQuery = {
+  from?: Date;
+  to?: Date;
+};
+
 export type CreatePipelineStageInput = {
   name: string;
   color?: string | null;
   order?: number;
   isDefault?: boolean;
+  probability?: number | null;
+  closingType?: DealClosingType | null;
+  requirements?: Partial<IStageRequirements>;
 };
 
+/** Team-saved pipeline layout; built-in templates share its shape but have a string key as id. */
+export interface IPipelineTemplate extends Document {
+  teamId: number;
+  name: string;
+  description?: string | null;
+  stages: CreatePipelineStageInput[];
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId | null;
+}
+
 export type CreatePipelineInput = {
   ownerId: string;
   name: string;
@@ -61,8 +206,11 @@ export type CreateDealInput = {
   stageId: string;
   title: string;
   amount?: number | null;
+  currency?: BillingCurrency | null;
   contactId?: string | null;
+  companyId?: string | null;
   expectedCloseDate?: Date | null;
+  customFields?: Record<string, unknown>;
   createdBy: string;
   updatedBy?: string | null;
 };
@@ -1,19 +1,49 @@
 import { Schema, model } from 'mongoose';
-import { IDeal } from './deal.interface';
+import { IDeal, IDealLineItem } from './deal.interface';
+import { auditPlugin } from '../audit/audit.plugin';
+
+const lineItemSchema = new Schema<IDealLineItem>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: 'Products', default: null },
+    name: { type: String, required: true, trim: true, maxlength: 120 },
+    sku: { type: String, default: null, maxlength: 64 },
+    quantity: { type: Number, required: true, min: 0 },
+    unitPrice: { type: Number, required: true, min: 0 },
+    priceOverride: { type: Number, default: null, min: 0 },
+    discount: { type: Number, default: 0, min: 0, max: 100 },
+    taxRate: { type: Number, default: 0, min: 0, max: 100 },
+    currency: { type: String, enum: ['usd', 'eur', 'gbp', 'bdt'], required: true },
+    subtotal: { type: Number, required: true },
+    taxAmount: { type: Number, required: true },
+    total: { type: Number, required: true },
+  },
+  { _id: true, versionKey: false }
+);
 
 const dealSchema = new Schema<IDeal>(
   {
     ownerId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
     pipelineId: { type: Schema.Types.ObjectId, ref: 'Pipelines', required: true, index: true },
     stageId: { type: Schema.Types.ObjectId, required: true, index: true },
+    // Rank within the stage on the pipeline board; see dealBoard.service.
+    position: { type: Number, default: null },
     title: { type: String, required: true, trim: true, maxlength: 120 },
+    // Derived from lineItems while the deal has any; see dealLineItem.service.
     amount: { type: Number, default: null, min: 0 },
+    // Null on deals created before deals had a currency; those count in the team's base currency.
+    currency: { type: String, enum: ['usd', 'eur', 'gbp', 'bdt', null], default: null },
+    lineItems: { type: [lineItemSchema], default: [] },
     contactId: { type: Schema.Types.ObjectId, ref: 'Contacts', default: null, index: true },
+    companyId: { type: Schema.Types.ObjectId, ref: 'Companies', default: null, index: true },
     expectedCloseDate: { type: Date, default: null },
     status: { type: String, enum: ['open', 'won', 'lost'], default: 'open', index: true },
     wonAt: { type: Date, default: null },
     lostAt: { type: Date, default: null },
+    // Label of the catalog reason (or free text for teams without a catalog), kept for display.
     lostReason: { type: String, default: null, maxlength: 500 },
+    lostReasonId: { type: Schema.Types.ObjectId, ref: 'LostReason', default: null, index: true },
+    lostReasonDetail: { type: String, default: null, maxlength: 1000 },
+    customFields: { type: Schema.Types.Mixed, default: {} },
     createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
     updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
     deletedAt: { type: Date, default: null, index: true },
@@ -22,7 +52,9 @@ const dealSchema = new Schema<IDeal>(
   { timestamps: true, versionKey: false }
 );
 
-dealSchema.index({ ownerId: 1, pipelineId: 1, stageId: 1 });
+dealSchema.index({ ownerId: 1, pipelineId: 1, stageId: 1, position: 1 });
 dealSchema.index({ ownerId: 1, status: 1, deletedAt: 1 });
 
+dealSchema.plugin(auditPlugin, { resourceType: 'deal' });
+
 export const Deal = model<IDeal>('Deals', dealSchema);
@@ -1,19 +1,57 @@
 import { Router } from 'express';
 import { authenticate, authorize } from '../../middleware/authMiddlewares';
 import {
+  addDealLineItemHandler,
   createDealHandler,
   deleteDealHandler,
   getDealDetailsHandler,
+  getDealStageHistoryHandler,
+  getSalesForecastHandler,
+  getWinLossReportHandler,
   listContactDealsHandler,
+  listDealLineItemsHandler,
   listDealsHandler,
   markDealLostHandler,
   markDealWonHandler,
+  moveDealHandler,
+  removeDealLineItemHandler,
+  reopenDealHandler,
   updateDealHandler,
+  updateDealLineItemHandler,
 } from './deal.controller';
 
 const router = Router();
 const DEAL_ACCESS_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StageRequirementsError:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: false
+ *         statusCode:
+ *           type: integer
+ *           example: 422
+ *         message:
+ *           type: string
+ *         errors:
+ *           type: array
+ *           description: One entry per missing field
+ *           items:
+ *             type: object
+ *             properties:
+ *               path:
+ *                 type: string
+ *                 example: expectedCloseDate
+ *               message:
+ *                 type: string
+ *                 example: Expected close date is required in stage "Proposal Sent"
+ */
+
 /**
  * @swagger
  * /api/deals:
@@ -46,20 +84,30 @@ const DEAL_ACCESS_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
  *               amount:
  *                 type: number
  *                 nullable: true
+ *               currency:
+ *                 type: string
+ *                 enum: [usd, eur, gbp, bdt]
+ *                 description: Defaults to the team's base currency
  *               contactId:
  *                 type: string
  *                 nullable: true
+ *               companyId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Defaults to the contact's company when omitted
  *               expectedCloseDate:
  *                 type: string
  *                 format: date-time
  *                 nullable: true
+ *               customFields:
+ *                 $ref: '#/components/schemas/CustomFieldValues'
  *     responses:
  *       201:
  *         description: Deal created successfully
  *       400:
- *         description: Validation failed or invalid stage
+ *         description: Validation failed, invalid stage, or a closing stage
  *       404:
- *         description: Pipeline or contact not found
+ *         description: Pipeline, contact or company not found
  */
 router.post('/', authenticate, authorize(DEAL_ACCESS_ROLES), createDealHandler);
 
@@ -97,12 +145,124 @@ router.post('/', authenticate, authorize(DEAL_ACCESS_ROLES), createDealHandler);
  *         name: pipelineId
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: companyId
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/CustomFieldFilter'
  *     responses:
  *       200:
  *         description: Deals fetched successfully
  */
 router.get('/', authenticate, authorize(DEAL_ACCESS_ROLES), listDealsHandler);
 
+/**
+ * @swagger
+ * /api/deals/forecast:
+ *   get:
+ *     tags:
+ *       - Deals
+ *     summary: Weighted sales forecast for a period
+ *     description: >
+ *       Open deals whose expected close date falls in the period, weighted by their stage's win probability,
+ *       plus the deals already won in it, grouped by month, pipeline and owner across your team. Every bucket
+ *       includes the won amount; on top of it `worstCase` adds nothing, `commit` adds open deals in stages at
+ *       or above `commitThreshold`, `bestCase` adds all open deals and `weighted` adds amount × probability.
+ *       Stages without a probability count as 0%. Open deals without an expected close date are summed
+ *       under `unscheduled`. Amounts are converted to the team's base currency (`currency`); currencies
+ *       without an exchange rate are listed in `missingRates` and left out of the amounts.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: quarter
+ *         description: Calendar quarter (UTC), e.g. 2026-Q1. Defaults to the current quarter.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         description: Start of a custom period (inclusive); requires `to`
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: End of a custom period (exclusive); at most 24 months after `from`
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: pipelineId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: ownerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: commitThreshold
+ *         description: Minimum stage probability (percent) for an open deal to count as commit
+ *         schema:
+ *           type: number
+ *           default: 70
+ *     responses:
+ *       200:
+ *         description: Sales forecast fetched successfully
+ *       400:
+ *         description: Validation failed
+ */
+router.get('/forecast', authenticate, authorize(DEAL_ACCESS_ROLES), getSalesForecastHandler);
+
+/**
+ * @swagger
+ * /api/deals/win-loss:
+ *   get:
+ *     tags:
+ *       - Deals
+ *     summary: Win/loss report for a period
+ *     description: >
+ *       Deals won (by `wonAt`) or lost (by `lostAt`) in the period across your team. Win rates are the share of
+ *       decided deals that were won, grouped by pipeline, owner and the lead source of the deal's contact
+ *       (`null` when the deal has no contact or the contact no lead source). `lostReasons` ranks lost deals by
+ *       reason, by count and then amount; deals lost without a reason are grouped under a `null` label.
+ *       Amounts are converted to the team's base currency (`currency`); currencies without an exchange rate
+ *       are listed in `missingRates` and left out of the amounts.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: quarter
+ *         description: Calendar quarter (UTC), e.g. 2026-Q1. Defaults to the current quarter.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         description: Start of a custom period (inclusive); requires `to`
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: End of a custom period (exclusive); at most 24 months after `from`
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: pipelineId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: ownerId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Win/loss report fetched successfully
+ *       400:
+ *         description: Validation failed
+ */
+router.get('/win-loss', authenticate, authorize(DEAL_ACCESS_ROLES), getWinLossReportHandler);
+
 /**
  * @swagger
  * /api/deals/contact/{contactId}:
@@ -153,6 +313,7 @@ router.get('/contact/:contactId', authenticate, authorize(DEAL_ACCESS_ROLES), li
  *     tags:
  *       - Deals
  *     summary: Get deal details
+ *     description: Includes `tasks`, your tasks linked to the deal.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -169,6 +330,240 @@ router.get('/contact/:contactId', authenticate, authorize(DEAL_ACCESS_ROLES), li
  */
 router.get('/:dealId', authenticate, authorize(DEAL_ACCESS_ROLES), getDealDetailsHandler);
 
+/**
+ * @swagger
+ * /api/deals/{dealId}/history:
+ *   get:
+ *     tags:
+ *       - Deals
+ *     summary: Get a deal's stage history
+ *     description: >
+ *       Every stage the deal has entered, oldest first, with who moved it, why (`created`, `moved`,
+ *       `stage_removed` or `pipeline_deleted`) and how long it stayed. The current stage of an open deal
+ *       has `current: true` and is measured up to now.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: dealId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Deal stage history fetched successfully
+ *       404:
+ *         description: Deal not found
+ */
+router.get('/:dealId/history', authenticate, authorize(DEAL_ACCESS_ROLES), getDealStageHistoryHandler);
+
+/**
+ * @swagger
+ * /api/deals/{dealId}/move:
+ *   patch:
+ *     tags:
+ *       - Deals
+ *     summary: Move a deal on the pipeline board
+ *     description: >
+ *       Sets the deal's stage (and optionally pipeline) and its position within the stage in one update.
+ *       Pass the neighbours it was dropped between: `afterDealId` is the card above, `beforeDealId` the card
+ *       below. Without either the deal goes to the end of the stage. Returns 409 when someone else moved
+ *       the deal in the meantime. Moving an open deal into a closing stage marks it won or lost; for a lost
+ *       stage the lost-reason fields of `/api/deals/lost` apply. Won and lost deals have to be reopened
+ *       before they can change stage.
+ *       The deal must meet the target stage's requirements; otherwise 422 lists what is missing in `errors`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: dealId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [stageId]
+ *             properties:
+ *               stageId:
+ *                 type: string
+ *               pipelineId:
+ *                 type: string
+ *                 description: Defaults to the deal's current pipeline
+ *               afterDealId:
+ *                 type: string
+ *               beforeDealId:
+ *                 type: string
+ *               lostReasonId:
+ *                 type: string
+ *                 nullable: true
+ *               lostReason:
+ *                 type: string
+ *                 nullable: true
+ *               lostReasonDetail:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Deal moved successfully
+ *       400:
+ *         description: Invalid stage or neighbouring deals, or a missing or unknown lost reason
+ *       404:
+ *         description: Deal or pipeline not found
+ *       409:
+ *         description: The deal was moved by someone else, or it is won or lost
+ *       422:
+ *         description: The deal does not meet the target stage's requirements
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StageRequirementsError'
+ */
+router.patch('/:dealId/move', authenticate, authorize(DEAL_ACCESS_ROLES), moveDealHandler);
+
+/**
+ * @swagger
+ * /api/deals/{dealId}/line-items:
+ *   get:
+ *     tags:
+ *       - Deals
+ *     summary: List a deal's line items
+ *     description: >
+ *       Returns the items with their subtotal (after discount), tax and total, and the totals of the deal.
+ *       While a deal has line items its `amount` is the sum of their subtotals.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: dealId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Deal line items fetched successfully
+ *       404:
+ *         description: Deal not found
+ *   post:
+ *     tags:
+ *       - Deals
+ *     summary: Add a product to a deal
+ *     description: >
+ *       Copies the product's name, SKU, unit price, currency and tax rate onto the deal and recalculates
+ *       the deal amount. The product must be priced in the deal's currency.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: dealId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [productId]
+ *             properties:
+ *               productId:
+ *                 type: string
+ *               quantity:
+ *                 type: number
+ *                 default: 1
+ *               discount:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 description: Discount percentage
+ *               priceOverride:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Unit price to charge instead of the catalog price
+ *     responses:
+ *       201:
+ *         description: Line item added successfully
+ *       400:
+ *         description: Validation failed, inactive product or a product priced in another currency than the deal
+ *       404:
+ *         description: Deal or product not found
+ */
+router.get('/:dealId/line-items', authenticate, authorize(DEAL_ACCESS_ROLES), listDealLineItemsHandler);
+router.post('/:dealId/line-items', authenticate, authorize(DEAL_ACCESS_ROLES), addDealLineItemHandler);
+
+/**
+ * @swagger
+ * /api/deals/{dealId}/line-items/{itemId}:
+ *   put:
+ *     tags:
+ *       - Deals
+ *     summary: Update a line item
+ *     description: Send `priceOverride` as null to go back to the catalog price the item was added with.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: dealId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               quantity:
+ *                 type: number
+ *               discount:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *               priceOverride:
+ *                 type: number
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Line item updated successfully
+ *       404:
+ *         description: Deal or line item not found
+ *   delete:
+ *     tags:
+ *       - Deals
+ *     summary: Remove a line item
+ *     description: Removing the last item keeps the current amount and makes it editable again.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: dealId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Line item removed successfully
+ *       404:
+ *         description: Deal or line item not found
+ */
+router.put('/:dealId/line-items/:itemId', authenticate, authorize(DEAL_ACCESS_ROLES), updateDealLineItemHandler);
+router.delete('/:dealId/line-items/:itemId', authenticate, authorize(DEAL_ACCESS_ROLES), removeDealLineItemHandler);
+
 /**
  * @swagger
  * /api/deals/{dealId}:
@@ -176,6 +571,10 @@ router.get('/:dealId', authenticate, authorize(DEAL_ACCESS_ROLES), getDealDetail
  *     tags:
  *       - Deals
  *     summary: Update deal
+ *     description: >
+ *       Changing the stage follows the rules of `PATCH /api/deals/{dealId}/move`: an open deal moved into a
+ *       closing stage is won or lost, won or lost deals have to be reopened first, and the deal (with this
+ *       update applied) must meet the target stage's requirements.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -200,18 +599,48 @@ router.get('/:dealId', authenticate, authorize(DEAL_ACCESS_ROLES), getDealDetail
  *               amount:
  *                 type: number
  *                 nullable: true
+ *                 description: Cannot be changed while the deal has line items
+ *               currency:
+ *                 type: string
+ *                 enum: [usd, eur, gbp, bdt]
+ *                 description: Cannot be changed while the deal has line items
  *               contactId:
  *                 type: string
  *                 nullable: true
+ *               companyId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Defaults to the contact's company when omitted
  *               expectedCloseDate:
  *                 type: string
  *                 format: date-time
  *                 nullable: true
+ *               customFields:
+ *                 $ref: '#/components/schemas/CustomFieldValues'
+ *               lostReasonId:
+ *                 type: string
+ *                 nullable: true
+ *               lostReason:
+ *                 type: string
+ *                 nullable: true
+ *               lostReasonDetail:
+ *                 type: string
+ *                 nullable: true
  *     responses:
  *       200:
  *         description: Deal updated successfully
+ *       400:
+ *         description: Validation failed, invalid stage, or a missing or unknown lost reason
  *       404:
  *         description: Deal not found
+ *       409:
+ *         description: The amount and currency are set by the deal's line items, or the deal is won or lost
+ *       422:
+ *         description: The deal does not meet the target stage's requirements
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StageRequirementsError'
  */
 router.put('/:dealId', authenticate, authorize(DEAL_ACCESS_ROLES), updateDealHandler);
 
@@ -245,6 +674,7 @@ router.delete('/:dealId', authenticate, authorize(DEAL_ACCESS_ROLES), deleteDeal
  *     tags:
  *       - Deals
  *     summary: Mark deal as won
+ *     description: Only open deals can be marked won; reopen a lost deal first.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -263,6 +693,8 @@ router.delete('/:dealId', authenticate, authorize(DEAL_ACCESS_ROLES), deleteDeal
  *         description: Deal marked as won
  *       404:
  *         description: Deal not found
+ *       409:
+ *         description: The deal is not open, or its status was changed in the meantime
  */
 router.post('/won', authenticate, authorize(DEAL_ACCESS_ROLES), markDealWonHandler);
 
@@ -273,6 +705,10 @@ router.post('/won', authenticate, authorize(DEAL_ACCESS_ROLES), markDealWonHandl
  *     tags:
  *       - Deals
  *     summary: Mark deal as lost
+ *     description: >
+ *       When your team has a lost-reason catalog (`/api/lost-reasons`), one of its active reasons is required,
+ *       given as `lostReasonId` or by its label in `lostReason`. Teams without a catalog may send any text
+ *       as `lostReason`. Only open deals can be marked lost; reopen a won deal first.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -286,15 +722,64 @@ router.post('/won', authenticate, authorize(DEAL_ACCESS_ROLES), markDealWonHandl
  *             properties:
  *               dealId:
  *                 type: string
+ *               lostReasonId:
+ *                 type: string
+ *                 nullable: true
  *               lostReason:
  *                 type: string
  *                 nullable: true
+ *               lostReasonDetail:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Free-text detail on top of the reason
  *     responses:
  *       200:
  *         description: Deal marked as lost
+ *       400:
+ *         description: Validation failed, or the lost reason is missing or not in the catalog
  *       404:
  *         description: Deal not found
+ *       409:
+ *         description: The deal is not open, or its status was changed in the meantime
  */
 router.post('/lost', authenticate, authorize(DEAL_ACCESS_ROLES), markDealLostHandler);
 
+/**
+ * @swagger
+ * /api/deals/reopen:
+ *   post:
+ *     tags:
+ *       - Deals
+ *     summary: Reopen a won or lost deal
+ *     description: >
+ *       Sets the deal back to open and clears its won/lost dates and lost reason. A deal in a closing stage
+ *       moves to `stageId`, or to the pipeline's default open stage (else its first open stage) when omitted.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - dealId
+ *             properties:
+ *               dealId:
+ *                 type: string
+ *               stageId:
+ *                 type: string
+ *                 description: Open stage of the deal's pipeline to reopen the deal in
+ *     responses:
+ *       200:
+ *         description: Deal reopened
+ *       400:
+ *         description: Validation failed, or the stage is not an open stage of the deal's pipeline
+ *       404:
+ *         description: Deal not found
+ *       409:
+ *         description: The deal is already open, or its status was changed in the meantime
+ */
+router.post('/reopen', authenticate, authorize(DEAL_ACCESS_ROLES), reopenDealHandler);
+
 export default router;
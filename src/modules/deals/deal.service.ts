@@ -1,14 +1,27 @@
-import { FilterQuery } from 'mongoose';
-import { CreateDealInput, IDeal } from './deal.interface';
+import { FilterQuery, Types } from 'mongoose';
+import { BillingCurrency } from '../billing/package.interface';
+import { CreateDealInput, DealStatus, IDeal, IPipelineStage, MarkDealLostInput, MoveDealInput } from './deal.interface';
+import { findTeamCompany } from '../companies/company.service';
 import { Contact } from '../contacts/contact.model';
+import { CustomFieldFilter } from '../custom-fields/customField.interface';
+import { getOwnerCustomFieldDefinitions } from '../custom-fields/customField.service';
+import { buildCustomFieldConditions, validateCustomFieldValues } from '../custom-fields/customFieldValues.service';
+import { resolveOwnerLostReason } from '../lost-reasons/lostReason.service';
+import { listLinkedTasks } from '../tasks/task.service';
+import { getOwnerTeamSettings } from '../team-settings/teamSettings.service';
 import { Deal } from './deal.model';
+import { getEndOfStagePosition, resolveDropPosition } from './dealBoard.service';
+import { recordStageChanges } from './dealStageHistory.service';
+import { findMissingStageRequirements } from './dealStageRequirements.service';
 import { Pipeline } from './pipeline.model';
+import { getOpenFallbackStage } from './pipeline.service';
 
 const formatDealResponse = (deal: any) => {
   const dealObj = typeof deal?.toObject === 'function' ? deal.toObject() : deal;
   const owner = dealObj?.ownerId && typeof dealObj.ownerId === 'object' ? dealObj.ownerId : null;
   const pipeline = dealObj?.pipelineId && typeof dealObj.pipelineId === 'object' ? dealObj.pipelineId : null;
   const contact = dealObj?.contactId && typeof dealObj.contactId === 'object' ? dealObj.contactId : null;
+  const company = dealObj?.companyId && typeof dealObj.companyId === 'object' ? dealObj.companyId : null;
   const stages = Array.isArray(pipeline?.stages) ? pipeline.stages : [];
   const matchedStage = stages.find((stage: any) => String(stage?._id) === String(dealObj?.stageId));
 
@@ -29,6 +42,7 @@ const formatDealResponse = (deal: any) => {
         color: matchedStage.color ?? null,
         order: matchedStage.order,
         isDefault: matchedStage.isDefault ?? false,
+        closingType: matchedStage.closingType ?? null,
       }
     : dealObj.stageId
       ? {
@@ -37,6 +51,7 @@ const formatDealResponse = (deal: any) => {
           color: null,
           order: null,
           isDefault: false,
+          closingType: null,
         }
       : null;
 
@@ -46,11 +61,18 @@ const formatDealResponse = (deal: any) => {
       ? { _id: dealObj.contactId }
       : null;
 
+  const companyData = company
+    ? company
+    : dealObj.companyId
+      ? { _id: dealObj.companyId }
+      : null;
+
   const {
     ownerId: _ownerId,
     pipelineId: _pipelineId,
     stageId: _stageId,
     contactId: _contactId,
+    companyId: _companyId,
     ...rest
   } = dealObj;
 
@@ -74,6 +96,7 @@ const formatDealResponse = (deal: any) => {
     pipeline: pipelineData,
     stage: stageData,
     contact: contactData,
+    company: companyData,
   };
 };
 
@@ -88,30 +111,100 @@ const validatePipelineAndStage = async (ownerId: string, pipelineId: string, sta
     return { status: 'pipeline_not_found' as const, pipeline: null };
   }
 
-  const stageExists = pipeline.stages.some((stage) => String(stage._id) === stageId);
-  if (!stageExists) {
+  const stage = pipeline.stages.find((item) => String(item._id) === stageId);
+  if (!stage) {
     return { status: 'invalid_stage_for_pipeline' as const, pipeline };
   }
 
-  return { status: 'ok' as const, pipeline };
+  return { status: 'ok' as const, pipeline, stage };
+};
+
+const DEAL_STATUS_TRANSITIONS: Record<DealStatus, DealStatus[]> = {
+  open: ['won', 'lost'],
+  won: ['open'],
+  lost: ['open'],
+};
+
+type LostReasonFields = {
+  lostReasonId: Types.ObjectId | null;
+  lostReason: string | null;
+  lostReasonDetail: string | null;
+};
+
+// Every transition sets the date of the new status and clears whatever the previous one left behind.
+const buildStatusFields = (status: DealStatus, lost?: LostReasonFields) => ({
+  status,
+  wonAt: status === 'won' ? new Date() : null,
+  lostAt: status === 'lost' ? new Date() : null,
+  lostReasonId: lost?.lostReasonId ?? null,
+  lostReason: lost?.lostReason ?? null,
+  lostReasonDetail: lost?.lostReasonDetail ?? null,
+});
+
+const resolveLostFields = async (ownerId: string, reason: MarkDealLostInput) => {
+  const resolved = await resolveOwnerLostReason(ownerId, reason);
+  if (resolved.status !== 'ok') {
+    return { status: resolved.status };
+  }
+
+  return {
+    status: 'ok' as const,
+    fields: buildStatusFields('lost', {
+      lostReasonId: resolved.lostReasonId,
+      lostReason: resolved.lostReason,
+      lostReasonDetail: reason.lostReasonDetail ?? null,
+    }),
+  };
+};
+
+/**
+ * Status change that comes with a stage change: an open deal moved into a closing stage is won or
+ * lost with it, while a closed deal has to be reopened before it can change stage.
+ */
+const resolveStageStatusFields = async (
+  ownerId: string,
+  status: DealStatus,
+  stage: IPipelineStage,
+  reason: MarkDealLostInput
+) => {
+  if (status !== 'open') {
+    return { status: 'deal_closed' as const };
+  }
+  if (stage.closingType === 'won') {
+    return { status: 'ok' as const, fields: buildStatusFields('won') };
+  }
+  if (stage.closingType === 'lost') {
+    return resolveLostFields(ownerId, reason);
+  }
+
+  return { status: 'ok' as const, fields: {} };
 };
 
 const validateContact = async (ownerId: string, contactId?: string | null) => {
   if (!contactId) {
-    return { status: 'ok' as const };
+    return { status: 'ok' as const, companyId: null };
   }
 
   const contact = await Contact.findOne({
     _id: contactId,
     ownerId,
     deletedAt: null,
-  }).select('_id');
+  }).select('_id companyId');
 
   if (!contact) {
     return { status: 'contact_not_found' as const };
   }
 
-  return { status: 'ok' as const };
+  return { status: 'ok' as const, companyId: contact.companyId ?? null };
+};
+
+const validateCompany = async (ownerId: string, companyId?: string | null) => {
+  if (!companyId) {
+    return { status: 'ok' as const };
+  }
+
+  const company = await findTeamCompany(ownerId, companyId);
+  return company ? { status: 'ok' as const } : { status: 'company_not_found' as const };
 };
 
 export const createDeal = async (payload: CreateDealInput) => {
@@ -119,24 +212,54 @@ export const createDeal = async (payload: CreateDealInput) => {
   if (pipelineCheck.status !== 'ok') {
     return { status: pipelineCheck.status };
   }
+  if (pipelineCheck.stage.closingType) {
+    return { status: 'closing_stage' as const };
+  }
 
   const contactCheck = await validateContact(payload.ownerId, payload.contactId);
   if (contactCheck.status !== 'ok') {
     return { status: contactCheck.status };
   }
 
+  const companyCheck = await validateCompany(payload.ownerId, payload.companyId);
+  if (companyCheck.status !== 'ok') {
+    return { status: companyCheck.status };
+  }
+
+  const customFields = validateCustomFieldValues(
+    await getOwnerCustomFieldDefinitions(payload.ownerId, 'deal'),
+    payload.customFields,
+    'create'
+  );
+  if (customFields.status !== 'ok') {
+    return customFields;
+  }
+
   const deal = await Deal.create({
     ownerId: payload.ownerId,
     pipelineId: payload.pipelineId,
     stageId: payload.stageId,
+    position: await getEndOfStagePosition(payload),
     title: payload.title.trim(),
     amount: payload.amount ?? null,
+    currency: payload.currency ?? (await getOwnerTeamSettings(payload.ownerId)).baseCurrency,
     contactId: payload.contactId ?? null,
+    // Without an explicit company the deal belongs to its contact's company.
+    companyId: payload.companyId ?? contactCheck.companyId,
     expectedCloseDate: payload.expectedCloseDate ?? null,
+    customFields: customFields.values,
     status: 'open',
     createdBy: payload.createdBy,
     updatedBy: payload.updatedBy ?? payload.createdBy,
   });
+  await recordStageChanges([{
+    dealId: String(deal._id),
+    ownerId: deal.ownerId,
+    pipelineId: deal.pipelineId,
+    stageId: deal.stageId,
+    reason: 'created',
+    changedBy: payload.createdBy,
+  }]);
 
   return { status: 'ok' as const, deal };
 };
@@ -149,13 +272,15 @@ export const getDealDetails = async (ownerId: string, dealId: string) => {
   })
     .populate({ path: 'ownerId', select: '_id fullName email phoneNumber' })
     .populate({ path: 'pipelineId', select: '_id name isDefault stages' })
-    .populate({ path: 'contactId', select: '_id firstName lastName emails phones companyName' });
+    .populate({ path: 'contactId', select: '_id firstName lastName emails phones companyName' })
+    .populate({ path: 'companyId', select: '_id name domain industry size' });
 
   if (!deal) {
     return { status: 'deal_not_found' as const };
   }
 
-  return { status: 'ok' as const, deal: formatDealResponse(deal) };
+  const tasks = await listLinkedTasks(ownerId, { dealId: String(deal._id) });
+  return { status: 'ok' as const, deal: { ...formatDealResponse(deal), tasks } };
 };
 
 type ListDealsQuery = {
@@ -165,6 +290,8 @@ type ListDealsQuery = {
   status?: 'open' | 'won' | 'lost';
   pipelineId?: string;
   contactId?: string;
+  companyId?: string;
+  customFields?: CustomFieldFilter[];
 };
 
 const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -190,6 +317,10 @@ export const listDeals = async (ownerIds: string[], query: ListDealsQuery) => {
     conditions.push({ contactId: query.contactId });
   }
 
+  if (query.companyId) {
+    conditions.push({ companyId: query.companyId });
+  }
+
   if (query.search) {
     const regex = createRegex(query.search);
     conditions.push({
@@ -199,6 +330,8 @@ export const listDeals = async (ownerIds: string[], query: ListDealsQuery) => {
     });
   }
 
+  conditions.push(...buildCustomFieldConditions(query.customFields));
+
   const filter = conditions.length === 1 ? conditions[0] : { $and: conditions };
   const skip = (query.page - 1) * query.limit;
 
@@ -209,7 +342,8 @@ export const listDeals = async (ownerIds: string[], query: ListDealsQuery) => {
       .limit(query.limit)
       .populate({ path: 'ownerId', select: '_id fullName email phoneNumber' })
       .populate({ path: 'pipelineId', select: '_id name stages' })
-      .populate({ path: 'contactId', select: '_id firstName lastName companyName' }),
+      .populate({ path: 'contactId', select: '_id firstName lastName companyName' })
+      .populate({ path: 'companyId', select: '_id name' }),
     Deal.countDocuments(filter),
   ]);
 
@@ -259,15 +393,18 @@ export const listDealsByContact = async (
   return { status: 'ok' as const, ...result };
 };
 
-type UpdateDealInput = {
+type UpdateDealInput = MarkDealLostInput & {
   ownerId: string;
   dealId: string;
   pipelineId?: string;
   stageId?: string;
   title?: string;
   amount?: number | null;
+  currency?: BillingCurrency;
   contactId?: string | null;
+  companyId?: string | null;
   expectedCloseDate?: Date | null;
+  customFields?: Record<string, unknown>;
   updatedBy: string;
 };
 
@@ -282,6 +419,14 @@ export const updateDeal = async (payload: UpdateDealInput) => {
     return { status: 'deal_not_found' as const };
   }
 
+  // With line items the amount is their sum and the currency theirs; change the items instead.
+  if (payload.amount !== undefined && deal.lineItems.length && payload.amount !== deal.amount) {
+    return { status: 'amount_from_line_items' as const };
+  }
+  if (payload.currency !== undefined && deal.lineItems.length && payload.currency !== deal.lineItems[0].currency) {
+    return { status: 'currency_from_line_items' as const };
+  }
+
   const nextPipelineId = payload.pipelineId ?? String(deal.pipelineId);
   const nextStageId = payload.stageId ?? String(deal.stageId);
   const pipelineCheck = await validatePipelineAndStage(payload.ownerId, nextPipelineId, nextStageId);
@@ -289,11 +434,47 @@ export const updateDeal = async (payload: UpdateDealInput) => {
     return { status: pipelineCheck.status };
   }
 
+  const stageChanged = nextStageId !== String(deal.stageId) || nextPipelineId !== String(deal.pipelineId);
+  let statusFields = {};
+  if (stageChanged) {
+    const statusCheck = await resolveStageStatusFields(payload.ownerId, deal.status, pipelineCheck.stage, payload);
+    if (statusCheck.status !== 'ok') {
+      return { status: statusCheck.status };
+    }
+    statusFields = statusCheck.fields;
+  }
+
   const contactCheck = await validateContact(payload.ownerId, payload.contactId);
   if (contactCheck.status !== 'ok') {
     return { status: contactCheck.status };
   }
 
+  const companyCheck = await validateCompany(payload.ownerId, payload.companyId);
+  if (companyCheck.status !== 'ok') {
+    return { status: companyCheck.status };
+  }
+
+  if (payload.customFields !== undefined) {
+    const customFieldCheck = validateCustomFieldValues(
+      await getOwnerCustomFieldDefinitions(payload.ownerId, 'deal'),
+      payload.customFields,
+      'update'
+    );
+    if (customFieldCheck.status !== 'ok') {
+      return customFieldCheck;
+    }
+
+    deal.customFields = {
+      ...Object.fromEntries(
+        Object.entries(deal.customFields ?? {}).filter(([key]) => !customFieldCheck.unset.includes(key))
+      ),
+      ...customFieldCheck.values,
+    };
+    deal.markModified('customFields');
+  }
+
+  const fromPipelineId = deal.pipelineId;
+  const fromStageId = deal.stageId;
   if (payload.pipelineId !== undefined) {
     deal.pipelineId = payload.pipelineId as any;
   }
@@ -306,19 +487,118 @@ export const updateDeal = async (payload: UpdateDealInput) => {
   if (payload.amount !== undefined) {
     deal.amount = payload.amount;
   }
+  if (payload.currency !== undefined) {
+    deal.currency = payload.currency;
+  }
   if (payload.contactId !== undefined) {
     deal.contactId = payload.contactId as any;
   }
+  if (payload.companyId !== undefined) {
+    deal.companyId = payload.companyId as any;
+  } else if (payload.contactId && !deal.companyId) {
+    deal.companyId = contactCheck.companyId;
+  }
   if (payload.expectedCloseDate !== undefined) {
     deal.expectedCloseDate = payload.expectedCloseDate;
   }
 
+  // Checked against the deal as updated, so the missing fields can be filled in the same request.
+  if (stageChanged) {
+    const missing = await findMissingStageRequirements(payload.ownerId, pipelineCheck.stage, deal);
+    if (missing.length) {
+      return { status: 'stage_requirements_not_met' as const, missing };
+    }
+
+    deal.set(statusFields);
+    deal.position = await getEndOfStagePosition({ ownerId: payload.ownerId, pipelineId: nextPipelineId, stageId: nextStageId });
+  }
+
   deal.updatedBy = payload.updatedBy as any;
   await deal.save();
 
+  if (stageChanged) {
+    await recordStageChanges([{
+      dealId: String(deal._id),
+      ownerId: deal.ownerId,
+      pipelineId: deal.pipelineId,
+      stageId: deal.stageId,
+      fromPipelineId,
+      fromStageId,
+      reason: 'moved',
+      changedBy: payload.updatedBy,
+    }]);
+  }
+
   return { status: 'ok' as const, deal };
 };
 
+/**
+ * Moves a deal on the pipeline board: stage (and optionally pipeline) and rank change in one
+ * update. The update only applies while the deal is still where it was read, so two people
+ * dragging the same card cannot both win. Dropping an open deal on a closing stage wins or loses it.
+ */
+export const moveDeal = async (payload: MoveDealInput) => {
+  const deal = await Deal.findOne({ _id: payload.dealId, ownerId: payload.ownerId, deletedAt: null })
+    .select('_id ownerId pipelineId stageId status amount expectedCloseDate companyId contactId customFields');
+  if (!deal) {
+    return { status: 'deal_not_found' as const };
+  }
+
+  const pipelineId = payload.pipelineId ?? String(deal.pipelineId);
+  const pipelineCheck = await validatePipelineAndStage(payload.ownerId, pipelineId, payload.stageId);
+  if (pipelineCheck.status !== 'ok') {
+    return { status: pipelineCheck.status };
+  }
+
+  let statusFields = {};
+  if (payload.stageId !== String(deal.stageId) || pipelineId !== String(deal.pipelineId)) {
+    const missing = await findMissingStageRequirements(payload.ownerId, pipelineCheck.stage, deal);
+    if (missing.length) {
+      return { status: 'stage_requirements_not_met' as const, missing };
+    }
+
+    const statusCheck = await resolveStageStatusFields(payload.ownerId, deal.status, pipelineCheck.stage, payload);
+    if (statusCheck.status !== 'ok') {
+      return { status: statusCheck.status };
+    }
+    statusFields = statusCheck.fields;
+  }
+
+  const position = await resolveDropPosition(
+    { ownerId: payload.ownerId, pipelineId, stageId: payload.stageId },
+    payload.dealId,
+    payload.beforeDealId,
+    payload.afterDealId
+  );
+  if (position === null) {
+    return { status: 'invalid_neighbour' as const };
+  }
+
+  const moved = await Deal.findOneAndUpdate(
+    { _id: deal._id, deletedAt: null, pipelineId: deal.pipelineId, stageId: deal.stageId, status: deal.status },
+    { $set: { pipelineId, stageId: payload.stageId, position, ...statusFields, updatedBy: payload.movedBy } },
+    { new: true }
+  );
+  if (!moved) {
+    return { status: 'move_conflict' as const };
+  }
+
+  if (String(moved.stageId) !== String(deal.stageId) || String(moved.pipelineId) !== String(deal.pipelineId)) {
+    await recordStageChanges([{
+      dealId: String(moved._id),
+      ownerId: moved.ownerId,
+      pipelineId: moved.pipelineId,
+      stageId: moved.stageId,
+      fromPipelineId: deal.pipelineId,
+      fromStageId: deal.stageId,
+      reason: 'moved',
+      changedBy: payload.movedBy,
+    }]);
+  }
+
+  return { status: 'ok' as const, deal: moved };
+};
+
 export const deleteDeal = async (ownerIds: string[], dealId: string, deletedBy: string) => {
   const deal = await Deal.findOneAndUpdate(
     { _id: dealId, ownerId: { $in: ownerIds }, deletedAt: null },
@@ -337,21 +617,35 @@ export const deleteDeal = async (ownerIds: string[], dealId: string, deletedBy:
   return { status: 'ok' as const, deal };
 };
 
+// Loads a deal for a status change; statuses only move along DEAL_STATUS_TRANSITIONS.
+const findDealForTransition = async (ownerId: string, dealId: string, to: DealStatus) => {
+  const deal = await Deal.findOne({ _id: dealId, ownerId, deletedAt: null }).select('_id ownerId pipelineId stageId status');
+  if (!deal) {
+    return { status: 'deal_not_found' as const };
+  }
+  if (!DEAL_STATUS_TRANSITIONS[deal.status].includes(to)) {
+    return { status: 'invalid_transition' as const, from: deal.status, to };
+  }
+
+  return { status: 'ok' as const, deal };
+};
+
+// Applies a status change only if no one changed the deal's status since it was read.
+const applyTransition = (deal: IDeal, update: Record<string, unknown>) => Deal.findOneAndUpdate(
+  { _id: deal._id, deletedAt: null, status: deal.status },
+  { $set: update },
+  { new: true }
+);
+
 export const markDealWon = async (ownerId: string, dealId: string, updatedBy: string) => {
-  const deal = await Deal.findOneAndUpdate(
-    { _id: dealId, ownerId, deletedAt: null },
-    {
-      status: 'won',
-      wonAt: new Date(),
-      lostAt: null,
-      lostReason: null,
-      updatedBy,
-    },
-    { new: true }
-  );
+  const check = await findDealForTransition(ownerId, dealId, 'won');
+  if (check.status !== 'ok') {
+    return check;
+  }
 
+  const deal = await applyTransition(check.deal, { ...buildStatusFields('won'), updatedBy });
   if (!deal) {
-    return { status: 'deal_not_found' as const };
+    return { status: 'transition_conflict' as const };
   }
 
   return { status: 'ok' as const, deal };
@@ -361,23 +655,80 @@ export const markDealLost = async (
   ownerId: string,
   dealId: string,
   updatedBy: string,
-  lostReason?: string | null
+  reason: MarkDealLostInput = {}
 ) => {
-  const deal = await Deal.findOneAndUpdate(
-    { _id: dealId, ownerId, deletedAt: null },
-    {
-      status: 'lost',
-      lostAt: new Date(),
-      wonAt: null,
-      lostReason: lostReason ?? null,
-      updatedBy,
-    },
-    { new: true }
-  );
+  const check = await findDealForTransition(ownerId, dealId, 'lost');
+  if (check.status !== 'ok') {
+    return check;
+  }
 
+  const lost = await resolveLostFields(ownerId, reason);
+  if (lost.status !== 'ok') {
+    return { status: lost.status };
+  }
+
+  const deal = await applyTransition(check.deal, { ...lost.fields, updatedBy });
   if (!deal) {
-    return { status: 'deal_not_found' as const };
+    return { status: 'transition_conflict' as const };
   }
 
   return { status: 'ok' as const, deal };
 };
+
+/**
+ * Reopens a won or lost deal. A deal sitting in a closing stage has to leave it: it goes to `stageId`
+ * when given, else to the pipeline's default open stage (or its first open one).
+ */
+export const reopenDeal = async (ownerId: string, dealId: string, updatedBy: string, stageId?: string) => {
+  const check = await findDealForTransition(ownerId, dealId, 'open');
+  if (check.status !== 'ok') {
+    return check;
+  }
+
+  const { deal } = check;
+  const pipelineCheck = await validatePipelineAndStage(ownerId, String(deal.pipelineId), stageId ?? String(deal.stageId));
+  if (pipelineCheck.status !== 'ok') {
+    return { status: pipelineCheck.status };
+  }
+  if (stageId && pipelineCheck.stage.closingType) {
+    return { status: 'closing_stage' as const };
+  }
+
+  const targetStage = pipelineCheck.stage.closingType
+    ? getOpenFallbackStage(pipelineCheck.pipeline.stages)
+    : pipelineCheck.stage;
+  if (!targetStage) {
+    return { status: 'no_open_stage' as const };
+  }
+
+  const stageChanged = String(targetStage._id) !== String(deal.stageId);
+  const reopened = await applyTransition(deal, {
+    ...buildStatusFields('open'),
+    ...(stageChanged
+      ? {
+          stageId: targetStage._id,
+          position: await getEndOfStagePosition({ ownerId, pipelineId: String(deal.pipelineId), stageId: String(targetStage._id) }),
+        }
+      : {}),
+    updatedBy,
+  });
+
+  if (!reopened) {
+    return { status: 'transition_conflict' as const };
+  }
+
+  if (stageChanged) {
+    await recordStageChanges([{
+      dealId: String(deal._id),
+      ownerId: deal.ownerId,
+      pipelineId: deal.pipelineId,
+      stageId: targetStage._id,
+      fromPipelineId: deal.pipelineId,
+      fromStageId: deal.stageId,
+      reason: 'moved',
+      changedBy: updatedBy,
+    }]);
+  }
+
+  return { status: 'ok' as const, deal: reopened };
+};
@@ -0,0 +1,204 @@
+import { Types } from 'mongoose';
+import { BillingCurrency } from '../billing/package.interface';
+import { loadOwnerCurrencyConverter, resolveConversionDate } from '../exchange-rates/exchangeRate.service';
+import { BoardQuery, DealStatus } from './deal.interface';
+import { Deal } from './deal.model';
+import { Pipeline } from './pipeline.model';
+
+// Positions are spaced RANK_STEP apart so a moved deal can take the midpoint of its neighbours;
+// once neighbours get closer than MIN_RANK_GAP the stage is renumbered.
+const RANK_STEP = 1024;
+const MIN_RANK_GAP = 1e-6;
+
+const BOARD_DEAL_FIELDS = '_id ownerId title amount currency status contactId companyId expectedCloseDate position createdAt updatedAt';
+
+type StageScope = {
+  ownerId: string;
+  pipelineId: string;
+  stageId: string;
+};
+
+type RankedDeal = {
+  _id: Types.ObjectId;
+  position?: number | null;
+};
+
+type StageTotalDeal = {
+  stageId: Types.ObjectId;
+  status: DealStatus;
+  amount?: number | null;
+  currency?: BillingCurrency | null;
+  wonAt?: Date | null;
+  lostAt?: Date | null;
+};
+
+const buildStageFilter = (scope: StageScope) => ({
+  ownerId: scope.ownerId,
+  pipelineId: scope.pipelineId,
+  stageId: scope.stageId,
+  deletedAt: null,
+});
+
+export const getEndOfStagePosition = async (scope: StageScope) => {
+  const last = await Deal.findOne({ ...buildStageFilter(scope), position: { $ne: null } })
+    .select('position')
+    .sort({ position: -1 })
+    .lean();
+  return (last?.position ?? 0) + RANK_STEP;
+};
+
+// Renumbers a stage in its current board order; also gives deals created before ranking existed a position.
+const rebalanceStage = async (scope: StageScope) => {
+  const deals = await Deal.find(buildStageFilter(scope))
+    .select('_id')
+    .sort({ position: 1, createdAt: 1, _id: 1 })
+    .lean();
+  if (!deals.length) return;
+
+  await Deal.bulkWrite(deals.map((deal, index) => ({
+    updateOne: { filter: { _id: deal._id }, update: { $set: { position: (index + 1) * RANK_STEP } } },
+  })));
+};
+
+type DropPosition = { status: 'ok'; position: number } | { status: 'invalid_neighbour' } | { status: 'needs_rebalance' };
+
+const loadNeighbours = async (scope: StageScope, dealId: string, beforeDealId?: string, afterDealId?: string) => {
+  const ids = [beforeDealId, afterDealId].filter((id): id is string => Boolean(id));
+  const deals = await Deal.find({ ...buildStageFilter(scope), _id: { $in: ids, $ne: dealId } })
+    .select('_id position')
+    .lean<RankedDeal[]>();
+
+  const find = (id?: string) => (id ? deals.find((deal) => String(deal._id) === id) ?? null : undefined);
+  return { before: find(beforeDealId), after: find(afterDealId) };
+};
+
+// Position of the deal right above (`lower`) or below (`upper`) the anchor, skipping the deal being moved.
+const findAdjacentPosition = async (scope: StageScope, dealId: string, anchor: number, side: 'lower' | 'upper') => {
+  const adjacent = await Deal.findOne({
+    ...buildStageFilter(scope),
+    _id: { $ne: dealId },
+    position: side === 'lower' ? { $lt: anchor } : { $gt: anchor },
+  })
+    .select('position')
+    .sort({ position: side === 'lower' ? -1 : 1 })
+    .lean();
+  return adjacent?.position ?? undefined;
+};
+
+const tryResolveDropPosition = async (
+  scope: StageScope,
+  dealId: string,
+  beforeDealId?: string,
+  afterDealId?: string
+): Promise<DropPosition> => {
+  const { before, after } = await loadNeighbours(scope, dealId, beforeDealId, afterDealId);
+  if (before === null || after === null) return { status: 'invalid_neighbour' };
+
+  const lower = after
+    ? after.position as number
+    : await findAdjacentPosition(scope, dealId, before?.position as number, 'lower');
+  const upper = before
+    ? before.position as number
+    : await findAdjacentPosition(scope, dealId, after?.position as number, 'upper');
+
+  if (lower === undefined) return { status: 'ok', position: (upper as number) - RANK_STEP };
+  if (upper === undefined) return { status: 'ok', position: lower + RANK_STEP };
+  if (upper < lower) return { status: 'invalid_neighbour' };
+  if (upper - lower < MIN_RANK_GAP) return { status: 'needs_rebalance' };
+  return { status: 'ok', position: (lower + upper) / 2 };
+};
+
+/**
+ * Position for a deal dropped into a stage: directly after `afterDealId` and/or directly before
+ * `beforeDealId`, or at the end of the stage when neither is given. Returns null when a neighbour
+ * is not a deal of that stage or the two neighbours are out of board order.
+ */
+export const resolveDropPosition = async (
+  scope: StageScope,
+  dealId: string,
+  beforeDealId?: string,
+  afterDealId?: string
+) => {
+  if (!beforeDealId && !afterDealId) {
+    return getEndOfStagePosition(scope);
+  }
+
+  if (await Deal.exists({ ...buildStageFilter(scope), position: null })) {
+    await rebalanceStage(scope);
+  }
+
+  let result = await tryResolveDropPosition(scope, dealId, beforeDealId, afterDealId);
+  if (result.status === 'needs_rebalance') {
+    await rebalanceStage(scope);
+    result = await tryResolveDropPosition(scope, dealId, beforeDealId, afterDealId);
+  }
+  return result.status === 'ok' ? result.position : null;
+};
+
+/**
+ * The pipeline as a board: its stages in order, each with its deals in board order and the
+ * count and amount total of all matching deals in the stage (not only the returned page).
+ * Stage amounts are in the team's base currency.
+ */
+export const getPipelineBoard = async (ownerId: string, pipelineId: string, query: BoardQuery) => {
+  const pipeline = await Pipeline.findOne({ _id: pipelineId, ownerId, deletedAt: null })
+    .select('_id name isDefault stages')
+    .lean();
+  if (!pipeline) {
+    return { status: 'pipeline_not_found' as const };
+  }
+
+  const dealFilter: { ownerId: Types.ObjectId; pipelineId: Types.ObjectId; deletedAt: null; status?: DealStatus } = {
+    ownerId: new Types.ObjectId(ownerId),
+    pipelineId: new Types.ObjectId(pipelineId),
+    deletedAt: null,
+  };
+  if (query.status) dealFilter.status = query.status;
+
+  const stages = [...pipeline.stages].sort((a, b) => a.order - b.order);
+  const [totalDeals, converter, stageDeals] = await Promise.all([
+    Deal.find(dealFilter).select('stageId status amount currency wonAt lostAt').lean<StageTotalDeal[]>(),
+    loadOwnerCurrencyConverter(ownerId),
+    Promise.all(stages.map((stage) => Deal.find({ ...dealFilter, stageId: stage._id })
+      .select(BOARD_DEAL_FIELDS)
+      .sort({ position: 1, createdAt: 1, _id: 1 })
+      .limit(query.limit)
+      .populate({ path: 'contactId', select: '_id firstName lastName photoUrl' })
+      .populate({ path: 'companyId', select: '_id name' })
+      .lean())),
+  ]);
+
+  const totalsByStage = new Map<string, { count: number; amount: number }>();
+  totalDeals.forEach((deal) => {
+    const key = String(deal.stageId);
+    const stageTotals = totalsByStage.get(key) ?? { count: 0, amount: 0 };
+    stageTotals.count += 1;
+    stageTotals.amount += converter.convert(deal.amount, deal.currency, resolveConversionDate(deal)) ?? 0;
+    totalsByStage.set(key, stageTotals);
+  });
+
+  return {
+    status: 'ok' as const,
+    board: {
+      pipeline: { _id: pipeline._id, name: pipeline.name, isDefault: pipeline.isDefault },
+      currency: converter.baseCurrency,
+      missingRates: converter.missingRates(),
+      stages: stages.map((stage, index) => {
+        const stageTotals = totalsByStage.get(String(stage._id));
+        const count = stageTotals?.count ?? 0;
+        return {
+          _id: stage._id,
+          name: stage.name,
+          color: stage.color ?? null,
+          order: stage.order,
+          isDefault: stage.isDefault ?? false,
+          probability: stage.probability ?? null,
+          closingType: stage.closingType ?? null,
+          totals: { count, amount: Number((stageTotals?.amount ?? 0).toFixed(2)) },
+          hasMore: count > stageDeals[index].length,
+          deals: stageDeals[index],
+        };
+      }),
+    },
+  };
+};
@@ -0,0 +1,171 @@
+import { FilterQuery, Types } from 'mongoose';
+import { BillingCurrency } from '../billing/package.interface';
+import { loadCurrencyConverter, resolveConversionDate } from '../exchange-rates/exchangeRate.service';
+import { User } from '../users/user.model';
+import { ForecastQuery, IDeal } from './deal.interface';
+import { Deal } from './deal.model';
+import { Pipeline } from './pipeline.model';
+
+type ForecastDeal = {
+  ownerId: Types.ObjectId;
+  pipelineId: Types.ObjectId;
+  stageId: Types.ObjectId;
+  status: string;
+  amount?: number | null;
+  currency?: BillingCurrency | null;
+  expectedCloseDate?: Date | null;
+  wonAt?: Date | null;
+};
+
+type ForecastTotals = {
+  openDeals: number;
+  wonDeals: number;
+  openAmount: number;
+  wonAmount: number;
+  weightedOpen: number;
+  commitOpen: number;
+};
+
+const FORECAST_DEAL_FIELDS = 'ownerId pipelineId stageId status amount currency expectedCloseDate wonAt';
+
+const emptyTotals = (): ForecastTotals => ({
+  openDeals: 0,
+  wonDeals: 0,
+  openAmount: 0,
+  wonAmount: 0,
+  weightedOpen: 0,
+  commitOpen: 0,
+});
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const toMonthKey = (date: Date) => `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+
+const listMonthKeys = (from: Date, to: Date) => {
+  const keys: string[] = [];
+  const cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1));
+  while (cursor < to) {
+    keys.push(toMonthKey(cursor));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return keys;
+};
+
+/**
+ * Won deals count fully in every bucket. On top of them, worst case adds nothing, commit adds open
+ * deals whose stage probability reaches the commit threshold, best case adds every open deal and
+ * the weighted forecast adds each open amount times its stage probability.
+ */
+const formatTotals = (totals: ForecastTotals) => ({
+  openDeals: totals.openDeals,
+  wonDeals: totals.wonDeals,
+  openAmount: round(totals.openAmount),
+  wonAmount: round(totals.wonAmount),
+  weighted: round(totals.wonAmount + totals.weightedOpen),
+  bestCase: round(totals.wonAmount + totals.openAmount),
+  commit: round(totals.wonAmount + totals.commitOpen),
+  worstCase: round(totals.wonAmount),
+});
+
+/**
+ * Sales forecast for a period: open deals expected to close in it, weighted by the win probability
+ * of their stage, plus the deals already won in it, grouped by month, pipeline and owner. Open deals
+ * without an expected close date are reported separately as `unscheduled`. Stages without a
+ * probability count as 0%. Amounts are in the team's base currency; deals in a currency without an
+ * exchange rate are counted but add nothing, and their currencies are listed in `missingRates`.
+ */
+export const getSalesForecast = async (ownerIds: string[], query: ForecastQuery, teamId?: number | null) => {
+  const scope: FilterQuery<IDeal> = { ownerId: { $in: ownerIds }, deletedAt: null };
+  if (query.pipelineId) scope.pipelineId = query.pipelineId;
+  if (query.ownerId) scope.ownerId = query.ownerId;
+
+  const period = { $gte: query.from, $lt: query.to };
+  const [openDeals, wonDeals, unscheduledDeals] = await Promise.all([
+    Deal.find({ ...scope, status: 'open', expectedCloseDate: period }).select(FORECAST_DEAL_FIELDS).lean<ForecastDeal[]>(),
+    Deal.find({ ...scope, status: 'won', wonAt: period }).select(FORECAST_DEAL_FIELDS).lean<ForecastDeal[]>(),
+    Deal.find({ ...scope, status: 'open', expectedCloseDate: null }).select(FORECAST_DEAL_FIELDS).lean<ForecastDeal[]>(),
+  ]);
+
+  const allDeals = [...openDeals, ...wonDeals, ...unscheduledDeals];
+  const [pipelines, owners, converter] = await Promise.all([
+    Pipeline.find({ _id: { $in: Array.from(new Set(allDeals.map((deal) => String(deal.pipelineId)))) } })
+      .select('_id name stages')
+      .lean(),
+    User.find({ _id: { $in: Array.from(new Set(allDeals.map((deal) => String(deal.ownerId)))) } })
+      .select('_id fullName email')
+      .lean(),
+    loadCurrencyConverter(teamId),
+  ]);
+
+  const stageProbability = new Map(pipelines.flatMap((pipeline) => pipeline.stages.map(
+    (stage) => [String(stage._id), stage.probability ?? 0] as const
+  )));
+  const pipelineById = new Map(pipelines.map((pipeline) => [String(pipeline._id), { _id: pipeline._id, name: pipeline.name }]));
+  const ownerById = new Map(owners.map((owner) => [String(owner._id), owner]));
+
+  const probabilityOf = (deal: ForecastDeal) => stageProbability.get(String(deal.stageId)) ?? 0;
+  const amountOf = (deal: ForecastDeal) => converter.convert(deal.amount, deal.currency, resolveConversionDate(deal)) ?? 0;
+  const addOpen = (totals: ForecastTotals, deal: ForecastDeal) => {
+    const amount = amountOf(deal);
+    const probability = probabilityOf(deal);
+    totals.openDeals += 1;
+    totals.openAmount += amount;
+    totals.weightedOpen += (amount * probability) / 100;
+    if (probability >= query.commitThreshold) totals.commitOpen += amount;
+  };
+  const addWon = (totals: ForecastTotals, deal: ForecastDeal) => {
+    totals.wonDeals += 1;
+    totals.wonAmount += amountOf(deal);
+  };
+
+  const overall = emptyTotals();
+  const byMonth = new Map(listMonthKeys(query.from, query.to).map((month) => [month, emptyTotals()]));
+  const byGroup = new Map<string, { month: string; pipelineId: string; ownerId: string; totals: ForecastTotals }>();
+
+  const collect = (deal: ForecastDeal, date: Date, add: (totals: ForecastTotals, deal: ForecastDeal) => void) => {
+    const month = toMonthKey(date);
+    const key = `${month}|${deal.pipelineId}|${deal.ownerId}`;
+    if (!byGroup.has(key)) {
+      byGroup.set(key, { month, pipelineId: String(deal.pipelineId), ownerId: String(deal.ownerId), totals: emptyTotals() });
+    }
+
+    add(overall, deal);
+    add(byMonth.get(month) as ForecastTotals, deal);
+    add((byGroup.get(key) as { totals: ForecastTotals }).totals, deal);
+  };
+
+  openDeals.forEach((deal) => collect(deal, deal.expectedCloseDate as Date, addOpen));
+  wonDeals.forEach((deal) => collect(deal, deal.wonAt as Date, addWon));
+
+  const unscheduled = emptyTotals();
+  unscheduledDeals.forEach((deal) => addOpen(unscheduled, deal));
+
+  const rows = Array.from(byGroup.values())
+    .sort((a, b) => a.month.localeCompare(b.month) || a.pipelineId.localeCompare(b.pipelineId) || a.ownerId.localeCompare(b.ownerId))
+    .map((group) => {
+      const owner = ownerById.get(group.ownerId);
+      return {
+        month: group.month,
+        pipeline: pipelineById.get(group.pipelineId) ?? { _id: group.pipelineId, name: null },
+        owner: owner
+          ? { _id: owner._id, name: owner.fullName, email: owner.email }
+          : { _id: group.ownerId, name: null, email: null },
+        ...formatTotals(group.totals),
+      };
+    });
+
+  return {
+    period: { from: query.from, to: query.to },
+    currency: converter.baseCurrency,
+    missingRates: converter.missingRates(),
+    commitThreshold: query.commitThreshold,
+    totals: formatTotals(overall),
+    months: Array.from(byMonth.entries()).map(([month, totals]) => ({ month, ...formatTotals(totals) })),
+    rows,
+    unscheduled: {
+      openDeals: unscheduled.openDeals,
+      openAmount: round(unscheduled.openAmount),
+      weighted: round(unscheduled.weightedOpen),
+    },
+  };
+};
@@ -0,0 +1,136 @@
+import { AddDealLineItemInput, IDeal, IDealLineItem, UpdateDealLineItemInput } from './deal.interface';
+import { findTeamProduct } from '../products/product.service';
+import { getOwnerTeamSettings } from '../team-settings/teamSettings.service';
+import { Deal } from './deal.model';
+
+type LineItemPricing = Pick<IDealLineItem, 'quantity' | 'unitPrice' | 'priceOverride' | 'discount' | 'taxRate'>;
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const priceLineItem = (item: LineItemPricing) => {
+  const price = item.priceOverride ?? item.unitPrice;
+  const subtotal = round(item.quantity * price * (1 - item.discount / 100));
+  const taxAmount = round((subtotal * item.taxRate) / 100);
+  return { subtotal, taxAmount, total: round(subtotal + taxAmount) };
+};
+
+const summarizeLineItems = (items: IDealLineItem[]) => ({
+  subtotal: round(items.reduce((sum, item) => sum + item.subtotal, 0)),
+  tax: round(items.reduce((sum, item) => sum + item.taxAmount, 0)),
+  total: round(items.reduce((sum, item) => sum + item.total, 0)),
+});
+
+// The deal amount is the pre-tax sum of its items; removing the last item leaves it editable again.
+const applyLineItemAmount = (deal: IDeal) => {
+  if (deal.lineItems.length) {
+    deal.amount = summarizeLineItems(deal.lineItems).subtotal;
+  }
+};
+
+const formatLineItems = (deal: IDeal) => ({
+  dealId: deal._id,
+  amount: deal.amount ?? null,
+  currency: deal.currency ?? null,
+  totals: summarizeLineItems(deal.lineItems),
+  items: deal.lineItems,
+});
+
+const findDeal = (ownerId: string, dealId: string) => Deal.findOne({ _id: dealId, ownerId, deletedAt: null });
+
+export const listDealLineItems = async (ownerId: string, dealId: string) => {
+  const deal = await findDeal(ownerId, dealId);
+  if (!deal) {
+    return { status: 'deal_not_found' as const };
+  }
+
+  return { status: 'ok' as const, lineItems: formatLineItems(deal) };
+};
+
+/**
+ * Adds a catalog product to a deal. Items are priced in the deal's currency, so a product priced in
+ * another currency is rejected rather than summed into a meaningless amount.
+ */
+export const addDealLineItem = async (payload: AddDealLineItemInput) => {
+  const deal = await findDeal(payload.ownerId, payload.dealId);
+  if (!deal) {
+    return { status: 'deal_not_found' as const };
+  }
+
+  const product = await findTeamProduct(payload.ownerId, payload.productId);
+  if (!product) {
+    return { status: 'product_not_found' as const };
+  }
+  if (!product.isActive) {
+    return { status: 'product_inactive' as const };
+  }
+  const dealCurrency = deal.currency ?? (await getOwnerTeamSettings(payload.ownerId)).baseCurrency;
+  if (product.currency !== dealCurrency) {
+    return { status: 'currency_mismatch' as const, currency: dealCurrency };
+  }
+
+  const pricing = {
+    quantity: payload.quantity,
+    unitPrice: product.unitPrice,
+    priceOverride: payload.priceOverride ?? null,
+    discount: payload.discount ?? 0,
+    taxRate: product.taxRate,
+  };
+
+  deal.lineItems.push({
+    ...pricing,
+    ...priceLineItem(pricing),
+    productId: product._id,
+    name: product.name,
+    sku: product.sku ?? null,
+    currency: product.currency,
+  } as IDealLineItem);
+  deal.currency = dealCurrency;
+  applyLineItemAmount(deal);
+  deal.updatedBy = payload.updatedBy as any;
+  await deal.save();
+
+  return { status: 'ok' as const, lineItems: formatLineItems(deal) };
+};
+
+export const updateDealLineItem = async (payload: UpdateDealLineItemInput) => {
+  const deal = await findDeal(payload.ownerId, payload.dealId);
+  if (!deal) {
+    return { status: 'deal_not_found' as const };
+  }
+
+  const item = deal.lineItems.find((lineItem) => String(lineItem._id) === payload.itemId);
+  if (!item) {
+    return { status: 'line_item_not_found' as const };
+  }
+
+  if (payload.quantity !== undefined) item.quantity = payload.quantity;
+  if (payload.discount !== undefined) item.discount = payload.discount;
+  if (payload.priceOverride !== undefined) item.priceOverride = payload.priceOverride;
+  Object.assign(item, priceLineItem(item));
+
+  applyLineItemAmount(deal);
+  deal.markModified('lineItems');
+  deal.updatedBy = payload.updatedBy as any;
+  await deal.save();
+
+  return { status: 'ok' as const, lineItems: formatLineItems(deal) };
+};
+
+export const removeDealLineItem = async (ownerId: string, dealId: string, itemId: string, updatedBy: string) => {
+  const deal = await findDeal(ownerId, dealId);
+  if (!deal) {
+    return { status: 'deal_not_found' as const };
+  }
+
+  const remaining = deal.lineItems.filter((lineItem) => String(lineItem._id) !== itemId);
+  if (remaining.length === deal.lineItems.length) {
+    return { status: 'line_item_not_found' as const };
+  }
+
+  deal.lineItems = remaining;
+  applyLineItemAmount(deal);
+  deal.updatedBy = updatedBy as any;
+  await deal.save();
+
+  return { status: 'ok' as const, lineItems: formatLineItems(deal) };
+};
@@ -0,0 +1,26 @@
+import { Schema, model } from 'mongoose';
+import { IDealStageHistory } from './deal.interface';
+
+const dealStageHistorySchema = new Schema<IDealStageHistory>(
+  {
+    dealId: { type: Schema.Types.ObjectId, ref: 'Deals', required: true },
+    ownerId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    pipelineId: { type: Schema.Types.ObjectId, ref: 'Pipelines', required: true },
+    stageId: { type: Schema.Types.ObjectId, required: true },
+    fromPipelineId: { type: Schema.Types.ObjectId, ref: 'Pipelines', default: null },
+    fromStageId: { type: Schema.Types.ObjectId, default: null },
+    reason: {
+      type: String,
+      enum: ['created', 'moved', 'stage_removed', 'pipeline_deleted'],
+      required: true,
+    },
+    changedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    changedAt: { type: Date, required: true, default: Date.now },
+  },
+  { versionKey: false }
+);
+
+dealStageHistorySchema.index({ dealId: 1, changedAt: 1 });
+dealStageHistorySchema.index({ pipelineId: 1, changedAt: 1 });
+
+export const DealStageHistory = model<IDealStageHistory>('DealStageHistory', dealStageHistorySchema);
@@ -0,0 +1,248 @@
+import { Types } from 'mongoose';
+import { DealStageChangeInput, StageAnalyticsQuery } from './deal.interface';
+import { Deal } from './deal.model';
+import { DealStageHistory } from './dealStageHistory.model';
+import { Pipeline } from './pipeline.model';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CHANGED_BY_POPULATE = {
+  path: 'changedBy',
+  select: '_id fullName email profilePhoto',
+};
+
+type HistoryEntry = {
+  _id: Types.ObjectId;
+  dealId: Types.ObjectId;
+  pipelineId: Types.ObjectId;
+  stageId: Types.ObjectId;
+  changedAt: Date;
+};
+
+type ClosableDeal = {
+  status: string;
+  wonAt?: Date | null;
+  lostAt?: Date | null;
+};
+
+export const recordStageChanges = async (changes: DealStageChangeInput[]) => {
+  if (!changes.length) return;
+
+  const changedAt = new Date();
+  await DealStageHistory.insertMany(changes.map((change) => ({ changedAt, ...change })));
+};
+
+// A stay ends when the deal moves on or, for its last stage, when the deal is closed.
+const resolveStayEnd = (deal: ClosableDeal, next?: { changedAt: Date }) => {
+  if (next) return next.changedAt;
+  if (deal.status === 'won') return deal.wonAt ?? null;
+  if (deal.status === 'lost') return deal.lostAt ?? null;
+  return null;
+};
+
+const buildStageNameIndex = async (pipelineIds: Types.ObjectId[]) => {
+  const pipelines = await Pipeline.find({ _id: { $in: pipelineIds } }).select('_id name stages').lean();
+
+  const pipelineNames = new Map(pipelines.map((pipeline) => [String(pipeline._id), pipeline.name]));
+  const stageNames = new Map(
+    pipelines.flatMap((pipeline) => pipeline.stages.map((stage) => [String(stage._id), stage.name] as const))
+  );
+  return { pipelineNames, stageNames };
+};
+
+/**
+ * Every stage the deal has been in, oldest first, with how long it stayed there. The last entry
+ * of an open deal is still running and measured up to now.
+ */
+export const getDealStageHistory = async (ownerId: string, dealId: string) => {
+  const deal = await Deal.findOne({ _id: dealId, ownerId, deletedAt: null })
+    .select('_id pipelineId stageId status wonAt lostAt')
+    .lean();
+  if (!deal) {
+    return { status: 'deal_not_found' as const };
+  }
+
+  const entries = await DealStageHistory.find({ dealId: deal._id })
+    .sort({ changedAt: 1, _id: 1 })
+    .populate(CHANGED_BY_POPULATE)
+    .lean();
+
+  const { pipelineNames, stageNames } = await buildStageNameIndex(Array.from(new Set(
+    entries.flatMap((entry) => [entry.pipelineId, entry.fromPipelineId]).filter(Boolean).map(String)
+  )).map((id) => new Types.ObjectId(id)));
+
+  const describe = (pipelineId?: Types.ObjectId | null, stageId?: Types.ObjectId | null) => ({
+    pipeline: pipelineId ? { _id: pipelineId, name: pipelineNames.get(String(pipelineId)) ?? null } : null,
+    stage: stageId ? { _id: stageId, name: stageNames.get(String(stageId)) ?? null } : null,
+  });
+
+  const now = Date.now();
+  const history = entries.map((entry, index) => {
+    const leftAt = resolveStayEnd(deal, entries[index + 1]);
+    const to = describe(entry.pipelineId, entry.stageId);
+    const from = describe(entry.fromPipelineId, entry.fromStageId);
+
+    return {
+      _id: entry._id,
+      reason: entry.reason,
+      pipeline: to.pipeline,
+      stage: to.stage,
+      fromPipeline: from.pipeline,
+      fromStage: from.stage,
+      changedBy: entry.changedBy,
+      changedAt: entry.changedAt,
+      leftAt,
+      current: !leftAt,
+      durationMs: (leftAt ? leftAt.getTime() : now) - entry.changedAt.getTime(),
+    };
+  });
+
+  return {
+    status: 'ok' as const,
+    history: {
+      dealId: deal._id,
+      status: deal.status,
+      ...describe(deal.pipelineId, deal.stageId),
+      entries: history,
+    },
+  };
+};
+
+type StageStats = {
+  entered: Set<string>;
+  converted: Set<string>;
+  won: Set<string>;
+  lost: Set<string>;
+  durations: number[];
+  current: number;
+};
+
+const toPercent = (part: number, total: number) => (total > 0 ? Number(((part / total) * 100).toFixed(2)) : null);
+
+/**
+ * Average time deals spend in each stage of a pipeline and how many of the deals entering a stage
+ * go on to a later one. A deal counts as converted from a stage when it later reaches a
+ * higher-ordered stage of the same pipeline or is won from there; `from`/`to` limit the
+ * analysis to stage entries made in that window.
+ */
+export const getPipelineStageAnalytics = async (ownerId: string, pipelineId: string, query: StageAnalyticsQuery) => {
+  const pipeline = await Pipeline.findOne({ _id: pipelineId, ownerId, deletedAt: null })
+    .select('_id name stages')
+    .lean();
+  if (!pipeline) {
+    return { status: 'pipeline_not_found' as const };
+  }
+
+  const range: { $gte?: Date; $lte?: Date } = {};
+  if (query.from) range.$gte = query.from;
+  if (query.to) range.$lte = query.to;
+  const inRange = (date: Date) => (!query.from || date >= query.from) && (!query.to || date <= query.to);
+
+  const dealIds = await DealStageHistory.distinct('dealId', {
+    pipelineId: pipeline._id,
+    ...(Object.keys(range).length ? { changedAt: range } : {}),
+  });
+  const [entries, deals] = await Promise.all([
+    DealStageHistory.find({ dealId: { $in: dealIds } })
+      .select('_id dealId pipelineId stageId changedAt')
+      .sort({ changedAt: 1, _id: 1 })
+      .lean<HistoryEntry[]>(),
+    Deal.find({ _id: { $in: dealIds }, deletedAt: null }).select('_id status wonAt lostAt').lean(),
+  ]);
+
+  const stages = [...pipeline.stages].sort((a, b) => a.order - b.order);
+  const stageOrder = new Map(stages.map((stage) => [String(stage._id), stage.order]));
+  const stats = new Map<string, StageStats>(stages.map((stage) => [String(stage._id), {
+    entered: new Set(),
+    converted: new Set(),
+    won: new Set(),
+    lost: new Set(),
+    durations: [],
+    current: 0,
+  }]));
+
+  const entriesByDeal = new Map<string, HistoryEntry[]>();
+  entries.forEach((entry) => {
+    const key = String(entry.dealId);
+    entriesByDeal.set(key, [...(entriesByDeal.get(key) ?? []), entry]);
+  });
+
+  const isInPipeline = (entry: HistoryEntry) => String(entry.pipelineId) === String(pipeline._id);
+
+  deals.forEach((deal) => {
+    const dealKey = String(deal._id);
+    const dealEntries = entriesByDeal.get(dealKey) ?? [];
+
+    dealEntries.forEach((entry, index) => {
+      const stageKey = String(entry.stageId);
+      const stageStats = stats.get(stageKey);
+      if (!isInPipeline(entry) || !stageStats || !inRange(entry.changedAt)) return;
+
+      const next = dealEntries[index + 1];
+      const leftAt = resolveStayEnd(deal, next);
+      stageStats.entered.add(dealKey);
+      if (leftAt) {
+        stageStats.durations.push(leftAt.getTime() - entry.changedAt.getTime());
+      } else {
+        stageStats.current += 1;
+      }
+
+      if (!next && deal.status === 'won') stageStats.won.add(dealKey);
+      if (!next && deal.status === 'lost') stageStats.lost.add(dealKey);
+
+      const order = stageOrder.get(stageKey) as number;
+      const reachedLaterStage = dealEntries.slice(index + 1).some((later) => (
+        isInPipeline(later) && (stageOrder.get(String(later.stageId)) ?? -1) > order
+      ));
+      const wonInPipeline = deal.status === 'won' && isInPipeline(dealEntries[dealEntries.length - 1]);
+      if (reachedLaterStage || wonInPipeline) stageStats.converted.add(dealKey);
+    });
+  });
+
+  const stageResults = stages.map((stage) => {
+    const stageStats = stats.get(String(stage._id)) as StageStats;
+    const averageMs = stageStats.durations.length
+      ? Math.round(stageStats.durations.reduce((sum, value) => sum + value, 0) / stageStats.durations.length)
+      : null;
+
+    return {
+      stageId: stage._id,
+      name: stage.name,
+      order: stage.order,
+      enteredDeals: stageStats.entered.size,
+      completedStays: stageStats.durations.length,
+      currentDeals: stageStats.current,
+      averageTimeInStageMs: averageMs,
+      averageTimeInStageDays: averageMs === null ? null : Number((averageMs / DAY_MS).toFixed(2)),
+      wonDeals: stageStats.won.size,
+      lostDeals: stageStats.lost.size,
+    };
+  });
+
+  const conversions = stages.slice(0, -1).map((stage, index) => {
+    const stageStats = stats.get(String(stage._id)) as StageStats;
+    const nextStage = stages[index + 1];
+
+    return {
+      fromStageId: stage._id,
+      fromStageName: stage.name,
+      toStageId: nextStage._id,
+      toStageName: nextStage.name,
+      enteredDeals: stageStats.entered.size,
+      convertedDeals: stageStats.converted.size,
+      conversionRate: toPercent(stageStats.converted.size, stageStats.entered.size),
+    };
+  });
+
+  return {
+    status: 'ok' as const,
+    analytics: {
+      pipeline: { _id: pipeline._id, name: pipeline.name },
+      from: query.from ?? null,
+      to: query.to ?? null,
+      dealsAnalyzed: deals.length,
+      stages: stageResults,
+      conversions,
+    },
+  };
+};
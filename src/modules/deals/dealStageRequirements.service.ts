@@ -0,0 +1,75 @@
+import { ErrorDetail } from '../../../Utils/middleware/error';
+import { CustomFieldValues } from '../custom-fields/customField.interface';
+import { getOwnerCustomFieldDefinitions } from '../custom-fields/customField.service';
+import { IPipelineStage, IStageRequirements, StageRequiredDealField } from './deal.interface';
+
+type RequirementCheckedDeal = {
+  amount?: number | null;
+  expectedCloseDate?: Date | null;
+  companyId?: unknown;
+  contactId?: unknown;
+  customFields?: CustomFieldValues;
+};
+
+const DEAL_FIELD_LABELS: Record<StageRequiredDealField, string> = {
+  amount: 'Amount',
+  expectedCloseDate: 'Expected close date',
+  companyId: 'Company',
+};
+
+const isBlank = (value: unknown) => value === undefined
+  || value === null
+  || (typeof value === 'string' && value.trim() === '')
+  || (Array.isArray(value) && value.length === 0);
+
+/** Fills in the defaults of a partially given requirements object. */
+export const resolveStageRequirements = (requirements?: Partial<IStageRequirements> | null): IStageRequirements => ({
+  fields: Array.from(new Set(requirements?.fields ?? [])),
+  contact: requirements?.contact ?? false,
+  customFields: Array.from(new Set(requirements?.customFields ?? [])),
+});
+
+/** Lists the required custom field keys that are not deal custom fields of the owner's team. */
+export const findUnknownRequiredCustomFields = async (
+  ownerId: string,
+  stages: Array<{ requirements?: Partial<IStageRequirements> | null }>
+) => {
+  const keys = new Set(stages.flatMap((stage) => stage.requirements?.customFields ?? []));
+  if (!keys.size) return [];
+
+  const definitions = await getOwnerCustomFieldDefinitions(ownerId, 'deal');
+  const knownKeys = new Set(definitions.map((definition) => definition.key));
+  return Array.from(keys).filter((key) => !knownKeys.has(key));
+};
+
+/**
+ * What the deal lacks to enter the stage, one entry per missing field. Required custom fields
+ * whose definition was deleted since are skipped, as no deal can fill them any more.
+ */
+export const findMissingStageRequirements = async (
+  ownerId: string,
+  stage: IPipelineStage,
+  deal: RequirementCheckedDeal
+): Promise<ErrorDetail[]> => {
+  const requirements = resolveStageRequirements(stage.requirements);
+  const missing: ErrorDetail[] = requirements.fields
+    .filter((field) => isBlank(deal[field]))
+    .map((field) => ({ path: field, message: `${DEAL_FIELD_LABELS[field]} is required in stage "${stage.name}"` }));
+
+  if (requirements.contact && !deal.contactId) {
+    missing.push({ path: 'contactId', message: `A linked contact is required in stage "${stage.name}"` });
+  }
+
+  if (requirements.customFields.length) {
+    const definitions = await getOwnerCustomFieldDefinitions(ownerId, 'deal');
+    const definitionByKey = new Map(definitions.map((definition) => [definition.key, definition]));
+    requirements.customFields.forEach((key) => {
+      const definition = definitionByKey.get(key);
+      if (definition && isBlank(deal.customFields?.[key])) {
+        missing.push({ path: `customFields.${key}`, message: `${definition.label} is required in stage "${stage.name}"` });
+      }
+    });
+  }
+
+  return missing;
+};
@@ -0,0 +1,172 @@
+import { FilterQuery, Types } from 'mongoose';
+import { BillingCurrency } from '../billing/package.interface';
+import { Contact } from '../contacts/contact.model';
+import { loadCurrencyConverter, resolveConversionDate } from '../exchange-rates/exchangeRate.service';
+import { User } from '../users/user.model';
+import { IDeal, WinLossQuery } from './deal.interface';
+import { Deal } from './deal.model';
+import { Pipeline } from './pipeline.model';
+
+type DecidedDeal = {
+  ownerId: Types.ObjectId;
+  pipelineId: Types.ObjectId;
+  contactId?: Types.ObjectId | null;
+  status: 'won' | 'lost';
+  amount?: number | null;
+  currency?: BillingCurrency | null;
+  wonAt?: Date | null;
+  lostAt?: Date | null;
+  lostReasonId?: Types.ObjectId | null;
+  lostReason?: string | null;
+};
+
+type WinLossTotals = {
+  won: number;
+  lost: number;
+  wonAmount: number;
+  lostAmount: number;
+};
+
+type LostReasonGroup = {
+  lostReasonId: Types.ObjectId | null;
+  label: string | null;
+  count: number;
+  amount: number;
+};
+
+const WIN_LOSS_DEAL_FIELDS = 'ownerId pipelineId contactId status amount currency wonAt lostAt lostReasonId lostReason';
+
+const emptyTotals = (): WinLossTotals => ({ won: 0, lost: 0, wonAmount: 0, lostAmount: 0 });
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const formatTotals = (totals: WinLossTotals) => {
+  const decided = totals.won + totals.lost;
+  return {
+    won: totals.won,
+    lost: totals.lost,
+    winRate: decided ? round((totals.won / decided) * 100) : null,
+    wonAmount: round(totals.wonAmount),
+    lostAmount: round(totals.lostAmount),
+  };
+};
+
+const sortByDecided = <T extends { totals: WinLossTotals }>(groups: T[]) => groups
+  .sort((a, b) => (b.totals.won + b.totals.lost) - (a.totals.won + a.totals.lost));
+
+/**
+ * Win/loss report for deals decided in a period: won deals by `wonAt` and lost deals by `lostAt`.
+ * Win rates (percent of decided deals) are grouped by pipeline, owner and the lead source of the
+ * deal's contact; deals without a contact or lead source fall under a `null` lead source. Lost
+ * deals are also grouped by lost reason: catalog reasons by id, free-text reasons by label
+ * (case-insensitive), and deals lost without a reason under a `null` label. Amounts are in the
+ * team's base currency; currencies without an exchange rate are listed in `missingRates`.
+ */
+export const getWinLossReport = async (ownerIds: string[], query: WinLossQuery, teamId?: number | null) => {
+  const scope: FilterQuery<IDeal> = { ownerId: { $in: ownerIds }, deletedAt: null };
+  if (query.pipelineId) scope.pipelineId = query.pipelineId;
+  if (query.ownerId) scope.ownerId = query.ownerId;
+
+  const period = { $gte: query.from, $lt: query.to };
+  const deals = await Deal.find({
+    ...scope,
+    $or: [{ status: 'won', wonAt: period }, { status: 'lost', lostAt: period }],
+  }).select(WIN_LOSS_DEAL_FIELDS).lean<DecidedDeal[]>();
+
+  const contactIds = Array.from(new Set(deals.filter((deal) => deal.contactId).map((deal) => String(deal.contactId))));
+  const [pipelines, owners, contacts, converter] = await Promise.all([
+    Pipeline.find({ _id: { $in: Array.from(new Set(deals.map((deal) => String(deal.pipelineId)))) } })
+      .select('_id name')
+      .lean(),
+    User.find({ _id: { $in: Array.from(new Set(deals.map((deal) => String(deal.ownerId)))) } })
+      .select('_id fullName email')
+      .lean(),
+    Contact.find({ _id: { $in: contactIds } }).select('_id leadSource').lean(),
+    loadCurrencyConverter(teamId),
+  ]);
+
+  const pipelineById = new Map(pipelines.map((pipeline) => [String(pipeline._id), pipeline]));
+  const ownerById = new Map(owners.map((owner) => [String(owner._id), owner]));
+  const leadSourceByContact = new Map(contacts.map((contact) => [String(contact._id), contact.leadSource ?? null]));
+
+  const overall = emptyTotals();
+  const byPipeline = new Map<string, { pipelineId: string; totals: WinLossTotals }>();
+  const byOwner = new Map<string, { ownerId: string; totals: WinLossTotals }>();
+  const byLeadSource = new Map<string | null, { leadSource: string | null; totals: WinLossTotals }>();
+  const byLostReason = new Map<string, LostReasonGroup>();
+
+  deals.forEach((deal) => {
+    const amount = converter.convert(deal.amount, deal.currency, resolveConversionDate(deal)) ?? 0;
+    const pipelineId = String(deal.pipelineId);
+    const ownerId = String(deal.ownerId);
+    const leadSource = deal.contactId ? leadSourceByContact.get(String(deal.contactId)) ?? null : null;
+
+    if (!byPipeline.has(pipelineId)) byPipeline.set(pipelineId, { pipelineId, totals: emptyTotals() });
+    if (!byOwner.has(ownerId)) byOwner.set(ownerId, { ownerId, totals: emptyTotals() });
+    if (!byLeadSource.has(leadSource)) byLeadSource.set(leadSource, { leadSource, totals: emptyTotals() });
+
+    const buckets = [
+      overall,
+      (byPipeline.get(pipelineId) as { totals: WinLossTotals }).totals,
+      (byOwner.get(ownerId) as { totals: WinLossTotals }).totals,
+      (byLeadSource.get(leadSource) as { totals: WinLossTotals }).totals,
+    ];
+    buckets.forEach((totals) => {
+      if (deal.status === 'won') {
+        totals.won += 1;
+        totals.wonAmount += amount;
+      } else {
+        totals.lost += 1;
+        totals.lostAmount += amount;
+      }
+    });
+
+    if (deal.status !== 'lost') return;
+    const label = deal.lostReason?.trim() || null;
+    const key = deal.lostReasonId ? `id:${deal.lostReasonId}` : `label:${label?.toLowerCase() ?? ''}`;
+    if (!byLostReason.has(key)) {
+      byLostReason.set(key, { lostReasonId: deal.lostReasonId ?? null, label, count: 0, amount: 0 });
+    }
+    const group = byLostReason.get(key) as LostReasonGroup;
+    group.count += 1;
+    group.amount += amount;
+  });
+
+  const lostReasons = Array.from(byLostReason.values())
+    .sort((a, b) => b.count - a.count || b.amount - a.amount)
+    .map((group) => ({
+      lostReasonId: group.lostReasonId,
+      label: group.label,
+      count: group.count,
+      amount: round(group.amount),
+      share: overall.lost ? round((group.count / overall.lost) * 100) : 0,
+    }));
+
+  return {
+    period: { from: query.from, to: query.to },
+    currency: converter.baseCurrency,
+    missingRates: converter.missingRates(),
+    totals: formatTotals(overall),
+    byPipeline: sortByDecided(Array.from(byPipeline.values())).map((group) => {
+      const pipeline = pipelineById.get(group.pipelineId);
+      return {
+        pipeline: pipeline ? { _id: pipeline._id, name: pipeline.name } : { _id: group.pipelineId, name: null },
+        ...formatTotals(group.totals),
+      };
+    }),
+    byOwner: sortByDecided(Array.from(byOwner.values())).map((group) => {
+      const owner = ownerById.get(group.ownerId);
+      return {
+        owner: owner
+          ? { _id: owner._id, name: owner.fullName, email: owner.email }
+          : { _id: group.ownerId, name: null, email: null },
+        ...formatTotals(group.totals),
+      };
+    }),
+    byLeadSource: sortByDecided(Array.from(byLeadSource.values())).map((group) => ({
+      leadSource: group.leadSource,
+      ...formatTotals(group.totals),
+    })),
+    lostReasons,
+  };
+};
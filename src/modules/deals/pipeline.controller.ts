@@ -3,6 +3,7 @@ import { z, ZodError } from 'zod';
 import { sendError, sendResponse } from '../../../Utils/response';
 import {
   addPipelineStage,
+  clonePipeline,
   createPipeline,
   deletePipeline,
   getPipelineById,
@@ -11,12 +12,23 @@ import {
   listPipelinesWithStages,
   updatePipeline,
 } from './pipeline.service';
+import {
+  createPipelineFromTemplate,
+  deletePipelineTemplate,
+  listPipelineTemplates,
+  savePipelineAsTemplate,
+} from './pipelineTemplate.service';
+import { getPipelineBoard } from './dealBoard.service';
+import { getPipelineStageAnalytics } from './dealStageHistory.service';
 
 const LENGTH = {
   pipelineName: 80,
   stageName: 50,
   stageColor: 20,
   stagesMax: 30,
+  templateDescription: 300,
+  customFieldKey: 40,
+  requiredCustomFieldsMax: 50,
 } as const;
 
 const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
@@ -32,9 +44,20 @@ const optionalNullableTrimmedString = (max: number) => z.preprocess(
   z.string().max(max).nullable().optional()
 );
 
+const stageProbabilitySchema = z.number().min(0).max(100).nullable().optional();
+const stageClosingTypeSchema = z.enum(['won', 'lost']).nullable().optional();
+const stageRequirementsSchema = z.object({
+  fields: z.array(z.enum(['amount', 'expectedCloseDate', 'companyId'])).optional(),
+  contact: z.boolean().optional(),
+  customFields: z.array(z.string().trim().min(1).max(LENGTH.customFieldKey)).max(LENGTH.requiredCustomFieldsMax).optional(),
+}).optional();
+
 const createPipelineStageSchema = z.object({
   name: z.string().trim().min(1).max(LENGTH.stageName),
   color: optionalNullableTrimmedString(LENGTH.stageColor),
+  probability: stageProbabilitySchema,
+  closingType: stageClosingTypeSchema,
+  requirements: stageRequirementsSchema,
 });
 
 const createStageSchema = z.object({
@@ -42,6 +65,9 @@ const createStageSchema = z.object({
   color: optionalNullableTrimmedString(LENGTH.stageColor),
   order: z.coerce.number().int().min(0).optional(),
   isDefault: z.boolean().optional(),
+  probability: stageProbabilitySchema,
+  closingType: stageClosingTypeSchema,
+  requirements: stageRequirementsSchema,
 });
 
 const createPipelineSchema = z.object({
@@ -70,6 +96,9 @@ const updateStageSchema = z.object({
   color: optionalNullableTrimmedString(LENGTH.stageColor),
   order: z.coerce.number().int().min(0).optional(),
   isDefault: z.boolean().optional(),
+  probability: stageProbabilitySchema,
+  closingType: stageClosingTypeSchema,
+  requirements: stageRequirementsSchema,
 });
 
 const updatePipelineSchema = z.object({
@@ -145,9 +174,60 @@ const listPipelinesQuerySchema = z.object({
   ),
 });
 
+const optionalQueryDate = z.preprocess(
+  (value) => {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    return new Date(value.trim());
+  },
+  z.date().optional()
+);
+
+const boardQuerySchema = z.object({
+  status: z.enum(['open', 'won', 'lost']).default('open'),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const stageAnalyticsQuerySchema = z.object({
+  from: optionalQueryDate,
+  to: optionalQueryDate,
+}).refine((query) => !query.from || !query.to || query.from <= query.to, {
+  path: ['to'],
+  message: 'Must be after from',
+});
+
+const createFromTemplateSchema = z.object({
+  templateId: z.string().trim().min(1).max(40),
+  name: z.string().trim().min(1).max(LENGTH.pipelineName).optional(),
+});
+
+const saveAsTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(LENGTH.pipelineName),
+  description: optionalNullableTrimmedString(LENGTH.templateDescription),
+});
+
+const clonePipelineSchema = z.object({
+  name: z.string().trim().min(1).max(LENGTH.pipelineName),
+  includeOpenDeals: z.boolean().default(false),
+});
+
 const getUserIdFromReq = (req: Request) => (req as any).user?.id as string | undefined;
+const getTeamIdFromReq = (req: Request) => (req as any).user?.teamId as number | null | undefined;
 const getQueryValue = (value: unknown) => (typeof value === 'string' ? value : undefined);
 
+const sendNoTeamError = (res: Response) => sendError(res, {
+  success: false,
+  statusCode: 403,
+  message: 'You are not part of a team',
+});
+
+const sendClosingStageError = (res: Response, status: 'duplicate_closing_stage' | 'invalid_closing_stage') => sendError(res, {
+  success: false,
+  statusCode: status === 'duplicate_closing_stage' ? 409 : 400,
+  message: status === 'duplicate_closing_stage'
+    ? 'A pipeline can have only one won and one lost closing stage'
+    : 'A closing stage cannot be the default stage, and a pipeline needs at least one open stage',
+});
+
 export const createPipelineHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
@@ -176,6 +256,17 @@ export const createPipelineHandler = async (req: Request, res: Response) => {
         message: 'Pipeline name already exists',
       });
     }
+    if (result.status === 'duplicate_closing_stage' || result.status === 'invalid_closing_stage') {
+      return sendClosingStageError(res, result.status);
+    }
+    if (result.status === 'unknown_required_custom_fields') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Stage requirements reference unknown deal custom fields',
+        details: result.unknownKeys.join(', '),
+      });
+    }
 
     return sendResponse(res, {
       success: true,
@@ -222,6 +313,9 @@ export const addPipelineStageHandler = async (req: Request, res: Response) => {
       color: parsed.color ?? null,
       order: parsed.order,
       isDefault: parsed.isDefault,
+      probability: parsed.probability,
+      closingType: parsed.closingType,
+      requirements: parsed.requirements,
       updatedBy: userId,
     });
 
@@ -246,6 +340,17 @@ export const addPipelineStageHandler = async (req: Request, res: Response) => {
         message: 'Stage order already exists in this pipeline',
       });
     }
+    if (result.status === 'duplicate_closing_stage' || result.status === 'invalid_closing_stage') {
+      return sendClosingStageError(res, result.status);
+    }
+    if (result.status === 'unknown_required_custom_fields') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Stage requirements reference unknown deal custom fields',
+        details: result.unknownKeys.join(', '),
+      });
+    }
 
     return sendResponse(res, {
       success: true,
@@ -447,6 +552,106 @@ export const getPipelineStagesHandler = async (req: Request, res: Response) => {
   }
 };
 
+export const getPipelineBoardHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const pipelineId = objectIdSchema.parse(req.params.pipelineId);
+    const query = boardQuerySchema.parse({
+      status: getQueryValue(req.query.status),
+      limit: getQueryValue(req.query.limit),
+    });
+    const result = await getPipelineBoard(userId, pipelineId, query);
+
+    if (result.status === 'pipeline_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Pipeline not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Pipeline board fetched successfully',
+      data: result.board,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch pipeline board',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const getPipelineStageAnalyticsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const pipelineId = objectIdSchema.parse(req.params.pipelineId);
+    const query = stageAnalyticsQuerySchema.parse({
+      from: getQueryValue(req.query.from),
+      to: getQueryValue(req.query.to),
+    });
+    const result = await getPipelineStageAnalytics(userId, pipelineId, query);
+
+    if (result.status === 'pipeline_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Pipeline not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Pipeline stage analytics fetched successfully',
+      data: result.analytics,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch pipeline stage analytics',
+      details: (error as Error).message,
+    });
+  }
+};
+
 export const updatePipelineHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
@@ -505,6 +710,24 @@ export const updatePipelineHandler = async (req: Request, res: Response) => {
         message: 'Invalid stages payload',
       });
     }
+    if (result.status === 'duplicate_closing_stage' || result.status === 'invalid_closing_stage') {
+      return sendClosingStageError(res, result.status);
+    }
+    if (result.status === 'stage_has_open_deals') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'A stage with open deals cannot become a closing stage; move or close its deals first',
+      });
+    }
+    if (result.status === 'unknown_required_custom_fields') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Stage requirements reference unknown deal custom fields',
+        details: result.unknownKeys.join(', '),
+      });
+    }
 
     return sendResponse(res, {
       success: true,
@@ -611,3 +834,290 @@ export const deletePipelineHandler = async (req: Request, res: Response) => {
     });
   }
 };
+
+export const listPipelineTemplatesHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const templates = await listPipelineTemplates(getTeamIdFromReq(req));
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Pipeline templates fetched successfully',
+      data: templates,
+    });
+  } catch (error) {
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch pipeline templates',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const createPipelineFromTemplateHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const parsed = createFromTemplateSchema.parse(req.body);
+    const result = await createPipelineFromTemplate({
+      ownerId: userId,
+      teamId: getTeamIdFromReq(req),
+      templateId: parsed.templateId,
+      name: parsed.name,
+      createdBy: userId,
+    });
+
+    if (result.status === 'template_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Pipeline template not found',
+      });
+    }
+    if (result.status === 'duplicate_pipeline_name') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'Pipeline name already exists',
+      });
+    }
+    if (result.status === 'duplicate_closing_stage' || result.status === 'invalid_closing_stage') {
+      return sendClosingStageError(res, result.status);
+    }
+    if (result.status === 'unknown_required_custom_fields') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Stage requirements reference unknown deal custom fields',
+        details: result.unknownKeys.join(', '),
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 201,
+      message: 'Pipeline created successfully',
+      data: result.pipeline,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to create pipeline from template',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const savePipelineAsTemplateHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const pipelineId = objectIdSchema.parse(req.params.pipelineId);
+    const parsed = saveAsTemplateSchema.parse(req.body);
+    const result = await savePipelineAsTemplate({
+      ownerId: userId,
+      teamId: Number(teamId),
+      pipelineId,
+      name: parsed.name,
+      description: parsed.description,
+      createdBy: userId,
+    });
+
+    if (result.status === 'pipeline_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Pipeline not found',
+      });
+    }
+    if (result.status === 'duplicate_template_name') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'A pipeline template with this name already exists',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 201,
+      message: 'Pipeline template saved successfully',
+      data: result.template,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to save pipeline template',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const deletePipelineTemplateHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const templateId = objectIdSchema.parse(req.params.templateId);
+    const result = await deletePipelineTemplate(Number(teamId), templateId);
+
+    if (result.status === 'template_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Pipeline template not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Pipeline template deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to delete pipeline template',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const clonePipelineHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const pipelineId = objectIdSchema.parse(req.params.pipelineId);
+    const parsed = clonePipelineSchema.parse(req.body);
+    const result = await clonePipeline({
+      ownerId: userId,
+      pipelineId,
+      name: parsed.name,
+      includeOpenDeals: parsed.includeOpenDeals,
+      createdBy: userId,
+    });
+
+    if (result.status === 'pipeline_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Pipeline not found',
+      });
+    }
+    if (result.status === 'duplicate_pipeline_name') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'Pipeline name already exists',
+      });
+    }
+    if (result.status === 'duplicate_closing_stage' || result.status === 'invalid_closing_stage') {
+      return sendClosingStageError(res, result.status);
+    }
+    if (result.status === 'unknown_required_custom_fields') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Stage requirements reference unknown deal custom fields',
+        details: result.unknownKeys.join(', '),
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 201,
+      message: 'Pipeline cloned successfully',
+      data: {
+        pipeline: result.pipeline,
+        clonedDealsCount: result.clonedDealsCount,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to clone pipeline',
+      details: (error as Error).message,
+    });
+  }
+};
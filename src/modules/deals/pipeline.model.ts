@@ -1,5 +1,16 @@
 import { Schema, model } from 'mongoose';
 import { IPipeline } from './deal.interface';
+import { auditPlugin } from '../audit/audit.plugin';
+
+// What a deal must have before it is moved into the stage.
+export const stageRequirementsSchema = new Schema(
+  {
+    fields: { type: [{ type: String, enum: ['amount', 'expectedCloseDate', 'companyId'] }], default: [] },
+    contact: { type: Boolean, default: false },
+    customFields: { type: [{ type: String, trim: true }], default: [] },
+  },
+  { _id: false, versionKey: false }
+);
 
 const stageSchema = new Schema(
   {
@@ -7,6 +18,11 @@ const stageSchema = new Schema(
     color: { type: String, default: null, maxlength: 20 },
     order: { type: Number, required: true, min: 0 },
     isDefault: { type: Boolean, default: false },
+    // Chance, in percent, that a deal in this stage is won; weights the sales forecast.
+    probability: { type: Number, default: null, min: 0, max: 100 },
+    // Moving an open deal into a closing stage marks it won or lost.
+    closingType: { type: String, enum: ['won', 'lost'], default: null },
+    requirements: { type: stageRequirementsSchema, default: () => ({}) },
   },
   { _id: true, versionKey: false }
 );
@@ -34,4 +50,6 @@ const pipelineSchema = new Schema<IPipeline>(
 pipelineSchema.index({ ownerId: 1, name: 1 }, { unique: true });
 pipelineSchema.index({ ownerId: 1, deletedAt: 1 });
 
+pipelineSchema.plugin(auditPlugin, { resourceType: 'pipeline' });
+
 export const Pipeline = model<IPipeline>('Pipelines', pipelineSchema);
@@ -2,17 +2,25 @@ import { Router } from 'express';
 import { authenticate, authorize } from '../../middleware/authMiddlewares';
 import {
   addPipelineStageHandler,
+  clonePipelineHandler,
+  createPipelineFromTemplateHandler,
   createPipelineHandler,
   deletePipelineHandler,
+  deletePipelineTemplateHandler,
   getPipelineByIdHandler,
+  getPipelineBoardHandler,
+  getPipelineStageAnalyticsHandler,
   getPipelineStagesHandler,
   listPipelinesHandler,
+  listPipelineTemplatesHandler,
   listPipelinesWithStagesHandler,
+  savePipelineAsTemplateHandler,
   updatePipelineHandler,
 } from './pipeline.controller';
 
 const router = Router();
 const PIPELINE_ACCESS_ROLES = ['SUPER_ADMIN','OWNER', 'ADMIN', 'MEMBER'];
+const TEMPLATE_MANAGE_ROLES = ['SUPER_ADMIN', 'OWNER', 'ADMIN'];
 
 /**
  * @swagger
@@ -47,9 +55,41 @@ const PIPELINE_ACCESS_ROLES = ['SUPER_ADMIN','OWNER', 'ADMIN', 'MEMBER'];
  *                     color:
  *                       type: string
  *                       nullable: true
+ *                     probability:
+ *                       type: number
+ *                       nullable: true
+ *                       minimum: 0
+ *                       maximum: 100
+ *                       description: Win probability in percent, used by the sales forecast
+ *                     closingType:
+ *                       type: string
+ *                       enum: [won, lost]
+ *                       nullable: true
+ *                       description: Moving an open deal into this stage marks it won or lost
+ *                     requirements:
+ *                       type: object
+ *                       description: What a deal must have before it is moved into this stage
+ *                       properties:
+ *                         fields:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                             enum: [amount, expectedCloseDate, companyId]
+ *                         contact:
+ *                           type: boolean
+ *                           description: Require a linked contact
+ *                         customFields:
+ *                           type: array
+ *                           description: Keys of deal custom fields that must have a value
+ *                           items:
+ *                             type: string
  *     responses:
  *       201:
  *         description: Pipeline created successfully
+ *       400:
+ *         description: Validation failed, invalid closing stages, or unknown required custom fields
+ *       409:
+ *         description: Pipeline name already exists, or more than one closing stage of a type
  */
 router.post('/', authenticate, authorize(PIPELINE_ACCESS_ROLES), createPipelineHandler);
 
@@ -115,6 +155,83 @@ router.get('/', authenticate, authorize(PIPELINE_ACCESS_ROLES), listPipelinesHan
  */
 router.get('/with-stages', authenticate, authorize(PIPELINE_ACCESS_ROLES), listPipelinesWithStagesHandler);
 
+/**
+ * @swagger
+ * /api/pipelines/templates:
+ *   get:
+ *     tags:
+ *       - Pipelines
+ *     summary: List pipeline templates
+ *     description: >
+ *       Built-in templates (`source: built_in`, addressed by key such as `b2b-sales`, `recruiting` or
+ *       `customer-onboarding`) followed by your team's saved templates (`source: team`).
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pipeline templates fetched successfully
+ */
+router.get('/templates', authenticate, authorize(PIPELINE_ACCESS_ROLES), listPipelineTemplatesHandler);
+
+/**
+ * @swagger
+ * /api/pipelines/templates/{templateId}:
+ *   delete:
+ *     tags:
+ *       - Pipelines
+ *     summary: Delete a team pipeline template
+ *     description: Pipelines created from the template are not affected. Built-in templates cannot be deleted.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pipeline template deleted successfully
+ *       403:
+ *         description: You are not part of a team
+ *       404:
+ *         description: Pipeline template not found
+ */
+router.delete('/templates/:templateId', authenticate, authorize(TEMPLATE_MANAGE_ROLES), deletePipelineTemplateHandler);
+
+/**
+ * @swagger
+ * /api/pipelines/from-template:
+ *   post:
+ *     tags:
+ *       - Pipelines
+ *     summary: Create a pipeline from a template
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [templateId]
+ *             properties:
+ *               templateId:
+ *                 type: string
+ *                 description: Key of a built-in template or id of a team template
+ *               name:
+ *                 type: string
+ *                 description: Defaults to the template's name
+ *     responses:
+ *       201:
+ *         description: Pipeline created successfully
+ *       404:
+ *         description: Pipeline template not found
+ *       409:
+ *         description: Pipeline name already exists
+ */
+router.post('/from-template', authenticate, authorize(PIPELINE_ACCESS_ROLES), createPipelineFromTemplateHandler);
+
 /**
  * @swagger
  * /api/pipelines/{pipelineId}/stages:
@@ -150,14 +267,127 @@ router.get('/with-stages', authenticate, authorize(PIPELINE_ACCESS_ROLES), listP
  *                 type: boolean
  *                 default: false
  *                 description: Defaults to false unless explicitly sent as true
+ *               probability:
+ *                 type: number
+ *                 nullable: true
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 description: Win probability in percent, used by the sales forecast
+ *               closingType:
+ *                 type: string
+ *                 enum: [won, lost]
+ *                 nullable: true
+ *                 description: Moving an open deal into this stage marks it won or lost
+ *               requirements:
+ *                 type: object
+ *                 description: What a deal must have before it is moved into this stage
+ *                 properties:
+ *                   fields:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                       enum: [amount, expectedCloseDate, companyId]
+ *                   contact:
+ *                     type: boolean
+ *                     description: Require a linked contact
+ *                   customFields:
+ *                     type: array
+ *                     description: Keys of deal custom fields that must have a value
+ *                     items:
+ *                       type: string
  *     responses:
  *       201:
  *         description: Stage added successfully
+ *       400:
+ *         description: A closing stage cannot be the default stage, or unknown required custom fields
  *       404:
  *         description: Pipeline not found
+ *       409:
+ *         description: Duplicate stage name or order, or the pipeline already has a closing stage of this type
  */
 router.post('/:pipelineId/stages', authenticate, authorize(PIPELINE_ACCESS_ROLES), addPipelineStageHandler);
 
+/**
+ * @swagger
+ * /api/pipelines/{pipelineId}/save-as-template:
+ *   post:
+ *     tags:
+ *       - Pipelines
+ *     summary: Save a pipeline's stages as a team template
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pipelineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: Pipeline template saved successfully
+ *       403:
+ *         description: You are not part of a team
+ *       404:
+ *         description: Pipeline not found
+ *       409:
+ *         description: A pipeline template with this name already exists
+ */
+router.post('/:pipelineId/save-as-template', authenticate, authorize(TEMPLATE_MANAGE_ROLES), savePipelineAsTemplateHandler);
+
+/**
+ * @swagger
+ * /api/pipelines/{pipelineId}/clone:
+ *   post:
+ *     tags:
+ *       - Pipelines
+ *     summary: Clone a pipeline
+ *     description: >
+ *       Creates a pipeline with the same stages. With `includeOpenDeals` the open deals are copied into the
+ *       matching stages of the new pipeline; the original deals are left unchanged.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pipelineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               includeOpenDeals:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Pipeline cloned successfully
+ *       404:
+ *         description: Pipeline not found
+ *       409:
+ *         description: Pipeline name already exists
+ */
+router.post('/:pipelineId/clone', authenticate, authorize(PIPELINE_ACCESS_ROLES), clonePipelineHandler);
+
 /**
  * @swagger
  * /api/pipelines/{pipelineId}/stages:
@@ -181,6 +411,87 @@ router.post('/:pipelineId/stages', authenticate, authorize(PIPELINE_ACCESS_ROLES
  */
 router.get('/:pipelineId/stages', authenticate, authorize(PIPELINE_ACCESS_ROLES), getPipelineStagesHandler);
 
+/**
+ * @swagger
+ * /api/pipelines/{pipelineId}/board:
+ *   get:
+ *     tags:
+ *       - Pipelines
+ *     summary: Get the pipeline as a board of stages and deals
+ *     description: >
+ *       Stages in order, each with its deals in board order (see `PATCH /api/deals/{dealId}/move`) and
+ *       `totals` (count and amount sum) over all matching deals of the stage. At most `limit` deals are
+ *       returned per stage; `hasMore` tells whether a stage has more. Amount sums are in the team's base
+ *       currency (`currency`); deals in a currency without an exchange rate (`missingRates`) add nothing.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pipelineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, won, lost]
+ *           default: open
+ *       - in: query
+ *         name: limit
+ *         description: Maximum deals returned per stage
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Pipeline board fetched successfully
+ *       404:
+ *         description: Pipeline not found
+ */
+router.get('/:pipelineId/board', authenticate, authorize(PIPELINE_ACCESS_ROLES), getPipelineBoardHandler);
+
+/**
+ * @swagger
+ * /api/pipelines/{pipelineId}/stage-analytics:
+ *   get:
+ *     tags:
+ *       - Pipelines
+ *     summary: Get time-in-stage and stage conversion analytics of a pipeline
+ *     description: >
+ *       Built from the recorded stage history of the pipeline's deals. For each stage: how many deals
+ *       entered it, the average time they spent there before moving on or closing, how many are in it
+ *       now, and how many were won or lost from it. `conversions` gives, for each stage, the share of
+ *       deals entering it that later reached a further stage or were won. Deleted deals are left out.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pipelineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         description: Only count stage entries made on or after this date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: Only count stage entries made on or before this date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Pipeline stage analytics fetched successfully
+ *       404:
+ *         description: Pipeline not found
+ */
+router.get('/:pipelineId/stage-analytics', authenticate, authorize(PIPELINE_ACCESS_ROLES), getPipelineStageAnalyticsHandler);
+
 /**
  * @swagger
  * /api/pipelines/{pipelineId}:
@@ -252,11 +563,47 @@ router.get('/:pipelineId', authenticate, authorize(PIPELINE_ACCESS_ROLES), getPi
  *                       type: integer
  *                     isDefault:
  *                       type: boolean
+ *                     probability:
+ *                       type: number
+ *                       nullable: true
+ *                       minimum: 0
+ *                       maximum: 100
+ *                       description: Omit to keep the stage's current probability
+ *                     closingType:
+ *                       type: string
+ *                       enum: [won, lost]
+ *                       nullable: true
+ *                       description: >
+ *                         Omit to keep the stage's current value. An existing stage can only become a
+ *                         closing stage while it holds no open deals.
+ *                     requirements:
+ *                       type: object
+ *                       description: Omit to keep the stage's current requirements
+ *                       properties:
+ *                         fields:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                             enum: [amount, expectedCloseDate, companyId]
+ *                         contact:
+ *                           type: boolean
+ *                           description: Require a linked contact
+ *                         customFields:
+ *                           type: array
+ *                           description: Keys of deal custom fields that must have a value
+ *                           items:
+ *                             type: string
  *     responses:
  *       200:
  *         description: Pipeline updated successfully
+ *       400:
+ *         description: Validation failed, invalid closing stages, or unknown required custom fields
  *       404:
  *         description: Pipeline not found
+ *       409:
+ *         description: >
+ *           Pipeline name or stage order already exists, more than one closing stage of a type, or a
+ *           stage with open deals made a closing stage
  */
 router.put('/:pipelineId', authenticate, authorize(PIPELINE_ACCESS_ROLES), updatePipelineHandler);
 
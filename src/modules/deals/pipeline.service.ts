@@ -1,5 +1,7 @@
-import { CreatePipelineInput, CreatePipelineStageInput } from './deal.interface';
+import { CreatePipelineInput, CreatePipelineStageInput, DealClosingType, IPipelineStage, IStageRequirements } from './deal.interface';
 import { Deal } from './deal.model';
+import { recordStageChanges } from './dealStageHistory.service';
+import { findUnknownRequiredCustomFields, resolveStageRequirements } from './dealStageRequirements.service';
 import { Pipeline } from './pipeline.model';
 import { Types } from 'mongoose';
 
@@ -16,6 +18,9 @@ const buildResolvedStages = (stages: CreatePipelineStageInput[]) => {
       color: stage.color ?? null,
       order: stage.order,
       isDefault: stage.isDefault ?? false,
+      probability: stage.probability ?? null,
+      closingType: stage.closingType ?? null,
+      requirements: resolveStageRequirements(stage.requirements),
     };
   });
 
@@ -34,6 +39,41 @@ const buildResolvedStages = (stages: CreatePipelineStageInput[]) => {
   return resolved.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
 };
 
+type ClosingStageCandidate = { closingType?: DealClosingType | null; isDefault?: boolean };
+
+// One won and one lost closing stage at most, and deals need an open stage to be created in.
+const checkClosingStages = (stages: ClosingStageCandidate[]) => {
+  const closingTypes = stages.map((stage) => stage.closingType).filter(Boolean);
+  if (new Set(closingTypes).size !== closingTypes.length) {
+    return { status: 'duplicate_closing_stage' as const };
+  }
+  if (stages.some((stage) => stage.closingType && stage.isDefault) || stages.every((stage) => stage.closingType)) {
+    return { status: 'invalid_closing_stage' as const };
+  }
+  return null;
+};
+
+/** Where deals go when they need an open stage of the pipeline: the default stage, else the first open one. */
+export const getOpenFallbackStage = <T extends { order: number; isDefault?: boolean; closingType?: DealClosingType | null }>(
+  stages: T[]
+) => {
+  const openStages = [...stages].filter((stage) => !stage.closingType).sort((a, b) => a.order - b.order);
+  return openStages.find((stage) => stage.isDefault) ?? openStages[0] ?? null;
+};
+
+/** The layout of existing stages, ready to create a pipeline or template from. */
+export const toStageLayout = (stages: IPipelineStage[]): CreatePipelineStageInput[] => [...stages]
+  .sort((a, b) => a.order - b.order)
+  .map((stage) => ({
+    name: stage.name,
+    color: stage.color ?? null,
+    order: stage.order,
+    isDefault: stage.isDefault ?? false,
+    probability: stage.probability ?? null,
+    closingType: stage.closingType ?? null,
+    requirements: resolveStageRequirements(stage.requirements),
+  }));
+
 export const createPipeline = async (payload: CreatePipelineInput) => {
   const normalizedName = payload.name.trim();
   const existingPipeline = await Pipeline.findOne({
@@ -47,6 +87,15 @@ export const createPipeline = async (payload: CreatePipelineInput) => {
   }
 
   const resolvedStages = buildResolvedStages(payload.stages);
+  const closingStageIssue = checkClosingStages(resolvedStages);
+  if (closingStageIssue) {
+    return closingStageIssue;
+  }
+
+  const unknownKeys = await findUnknownRequiredCustomFields(payload.ownerId, resolvedStages);
+  if (unknownKeys.length) {
+    return { status: 'unknown_required_custom_fields' as const, unknownKeys };
+  }
 
   const pipeline = await Pipeline.create({
     ownerId: payload.ownerId,
@@ -74,6 +123,9 @@ type AddStageInput = {
   color?: string | null;
   order?: number;
   isDefault?: boolean;
+  probability?: number | null;
+  closingType?: DealClosingType | null;
+  requirements?: Partial<IStageRequirements>;
   updatedBy: string;
 };
 
@@ -107,6 +159,19 @@ export const addPipelineStage = async (payload: AddStageInput) => {
   const stageOrder = payload.order ?? maxOrder + 1;
   const shouldBeDefault = payload.isDefault ?? false;
 
+  const closingStageIssue = checkClosingStages([
+    ...pipeline.stages,
+    { closingType: payload.closingType ?? null, isDefault: shouldBeDefault },
+  ]);
+  if (closingStageIssue) {
+    return closingStageIssue;
+  }
+
+  const unknownKeys = await findUnknownRequiredCustomFields(payload.ownerId, [payload]);
+  if (unknownKeys.length) {
+    return { status: 'unknown_required_custom_fields' as const, unknownKeys };
+  }
+
   if (shouldBeDefault) {
     pipeline.stages = pipeline.stages.map((stage) => ({ ...stage, isDefault: false })) as any;
   }
@@ -116,6 +181,9 @@ export const addPipelineStage = async (payload: AddStageInput) => {
     color: payload.color ?? null,
     order: stageOrder,
     isDefault: shouldBeDefault,
+    probability: payload.probability ?? null,
+    closingType: payload.closingType ?? null,
+    requirements: resolveStageRequirements(payload.requirements),
   } as any);
 
   pipeline.updatedBy = payload.updatedBy as any;
@@ -135,6 +203,9 @@ type UpdatePipelineInput = {
     color?: string | null;
     order?: number;
     isDefault?: boolean;
+    probability?: number | null;
+    closingType?: DealClosingType | null;
+    requirements?: Partial<IStageRequirements>;
   }>;
   updatedBy: string;
 };
@@ -186,6 +257,16 @@ export const updatePipeline = async (payload: UpdatePipelineInput) => {
       color: stage.color ?? null,
       order: stage.order ?? index,
       isDefault: stage.isDefault ?? false,
+      // Omitted probabilities keep the stage's current value.
+      probability: stage.probability !== undefined
+        ? stage.probability
+        : (stage._id ? existingStageMap.get(stage._id)?.probability ?? null : null),
+      closingType: stage.closingType !== undefined
+        ? stage.closingType
+        : (stage._id ? existingStageMap.get(stage._id)?.closingType ?? null : null),
+      requirements: stage.requirements !== undefined
+        ? resolveStageRequirements(stage.requirements)
+        : resolveStageRequirements(stage._id ? existingStageMap.get(stage._id)?.requirements : null),
     }));
 
     const orderSet = new Set<number>();
@@ -201,29 +282,69 @@ export const updatePipeline = async (payload: UpdatePipelineInput) => {
       .map((stage) => String(stage._id))
       .filter((stageId) => !nextStageIds.has(stageId));
 
+    const closingStageIssue = checkClosingStages(nextStages);
+    if (closingStageIssue) {
+      return closingStageIssue;
+    }
+
+    // Deals in a closing stage are closed, so a stage holding open deals cannot become one.
+    const newlyClosingStageIds = nextStages
+      .filter((stage) => {
+        const existingStage = existingStageMap.get(String(stage._id));
+        return stage.closingType && existingStage && existingStage.closingType !== stage.closingType;
+      })
+      .map((stage) => stage._id);
+    if (newlyClosingStageIds.length > 0) {
+      const hasOpenDeals = await Deal.exists({
+        pipelineId: payload.pipelineId,
+        stageId: { $in: newlyClosingStageIds },
+        status: 'open',
+        deletedAt: null,
+      });
+      if (hasOpenDeals) {
+        return { status: 'stage_has_open_deals' as const };
+      }
+    }
+
+    // Only requirements sent now are checked; keys of since-deleted fields may linger on the others.
+    const unknownKeys = await findUnknownRequiredCustomFields(payload.ownerId, payload.stages);
+    if (unknownKeys.length) {
+      return { status: 'unknown_required_custom_fields' as const, unknownKeys };
+    }
+
     const sortedStages = [...nextStages].sort((a, b) => a.order - b.order);
-    const fallbackStage = sortedStages.find((stage) => stage.isDefault) ?? sortedStages[0];
+    const fallbackStage = getOpenFallbackStage(sortedStages);
 
     if (!fallbackStage) {
       return { status: 'invalid_stages' as const };
     }
 
     if (removedStageIds.length > 0) {
-      const moveDealsResult = await Deal.updateMany(
-        {
-          ownerId: payload.ownerId,
-          pipelineId: payload.pipelineId,
-          stageId: { $in: removedStageIds.map((id) => new Types.ObjectId(id)) },
-          deletedAt: null,
+      const dealsFilter = {
+        ownerId: payload.ownerId,
+        pipelineId: payload.pipelineId,
+        stageId: { $in: removedStageIds.map((id) => new Types.ObjectId(id)) },
+        deletedAt: null,
+      };
+      const movedDeals = await Deal.find(dealsFilter).select('_id stageId').lean();
+      const moveDealsResult = await Deal.updateMany(dealsFilter, {
+        $set: {
+          stageId: fallbackStage._id,
+          updatedBy: payload.updatedBy,
         },
-        {
-          $set: {
-            stageId: fallbackStage._id,
-            updatedBy: payload.updatedBy,
-          },
-        }
-      );
+      });
       movedDealsCount = moveDealsResult.modifiedCount ?? 0;
+
+      await recordStageChanges(movedDeals.map((deal) => ({
+        dealId: String(deal._id),
+        ownerId: payload.ownerId,
+        pipelineId: payload.pipelineId,
+        stageId: fallbackStage._id,
+        fromPipelineId: payload.pipelineId,
+        fromStageId: deal.stageId,
+        reason: 'stage_removed',
+        changedBy: payload.updatedBy,
+      })));
     }
 
     pipeline.stages = sortedStages as any;
@@ -284,23 +405,32 @@ export const deletePipeline = async (payload: DeletePipelineInput) => {
       return { status: 'target_pipeline_not_found' as const };
     }
 
-    const sortedStages = [...targetPipeline.stages].sort((a, b) => a.order - b.order);
-    const targetStage = sortedStages.find((stage) => stage.isDefault) ?? sortedStages[0];
+    const targetStage = getOpenFallbackStage(targetPipeline.stages);
     if (!targetStage) {
       return { status: 'target_pipeline_has_no_stages' as const };
     }
 
-    const moveResult = await Deal.updateMany(
-      { ownerId: payload.ownerId, pipelineId: payload.pipelineId, deletedAt: null },
-      {
-        $set: {
-          pipelineId: payload.targetPipelineId,
-          stageId: targetStage._id,
-          updatedBy: payload.deletedBy,
-        },
-      }
-    );
+    const dealsFilter = { ownerId: payload.ownerId, pipelineId: payload.pipelineId, deletedAt: null };
+    const movedDeals = await Deal.find(dealsFilter).select('_id stageId').lean();
+    const moveResult = await Deal.updateMany(dealsFilter, {
+      $set: {
+        pipelineId: payload.targetPipelineId,
+        stageId: targetStage._id,
+        updatedBy: payload.deletedBy,
+      },
+    });
     dealsAffected = moveResult.modifiedCount ?? 0;
+
+    await recordStageChanges(movedDeals.map((deal) => ({
+      dealId: String(deal._id),
+      ownerId: payload.ownerId,
+      pipelineId: payload.targetPipelineId as string,
+      stageId: targetStage._id,
+      fromPipelineId: payload.pipelineId,
+      fromStageId: deal.stageId,
+      reason: 'pipeline_deleted',
+      changedBy: payload.deletedBy,
+    })));
   } else {
     const deleteDealsResult = await Deal.updateMany(
       { ownerId: payload.ownerId, pipelineId: payload.pipelineId, deletedAt: null },
@@ -330,6 +460,86 @@ export const deletePipeline = async (payload: DeletePipelineInput) => {
   };
 };
 
+type ClonePipelineInput = {
+  ownerId: string;
+  pipelineId: string;
+  name: string;
+  includeOpenDeals: boolean;
+  createdBy: string;
+};
+
+/**
+ * Copies a pipeline's stages into a new pipeline. With `includeOpenDeals` its open deals are
+ * copied too, into the matching stages; the original deals stay where they are.
+ */
+export const clonePipeline = async (payload: ClonePipelineInput) => {
+  const source = await Pipeline.findOne({
+    _id: payload.pipelineId,
+    ownerId: payload.ownerId,
+    deletedAt: null,
+  });
+
+  if (!source) {
+    return { status: 'pipeline_not_found' as const };
+  }
+
+  const deals = payload.includeOpenDeals
+    ? await Deal.find({
+      ownerId: payload.ownerId,
+      pipelineId: source._id,
+      status: 'open',
+      deletedAt: null,
+    }).lean()
+    : [];
+
+  const created = await createPipeline({
+    ownerId: payload.ownerId,
+    name: payload.name,
+    stages: toStageLayout(source.stages),
+    createdBy: payload.createdBy,
+  });
+  if (created.status !== 'ok') {
+    return created;
+  }
+
+  const { pipeline } = created;
+  let clonedDealsCount = 0;
+  if (payload.includeOpenDeals) {
+    const stageIdByOrder = new Map(pipeline.stages.map((stage) => [stage.order, stage._id]));
+    const stageIdMap = new Map(source.stages.map((stage) => [String(stage._id), stageIdByOrder.get(stage.order)]));
+
+    // Lean documents skip schema defaults, so deals saved before line items existed have none.
+    let copies;
+    try {
+      copies = await Deal.insertMany(deals.map(({ _id, createdAt, updatedAt, ...deal }: any) => ({
+        ...deal,
+        pipelineId: pipeline._id,
+        stageId: stageIdMap.get(String(deal.stageId)),
+        lineItems: (deal.lineItems ?? []).map(({ _id: _itemId, ...item }: any) => item),
+        createdBy: payload.createdBy,
+        updatedBy: payload.createdBy,
+      })));
+    } catch (error) {
+      // Don't leave a half-cloned pipeline behind.
+      await Deal.deleteMany({ pipelineId: pipeline._id });
+      await Pipeline.deleteOne({ _id: pipeline._id });
+      throw error;
+    }
+    clonedDealsCount = copies.length;
+
+    await recordStageChanges(copies.map((deal) => ({
+      dealId: String(deal._id),
+      ownerId: payload.ownerId,
+      pipelineId: String(pipeline._id),
+      stageId: deal.stageId,
+      reason: 'created',
+      changedBy: payload.createdBy,
+    })));
+  }
+
+  return { status: 'ok' as const, pipeline, clonedDealsCount };
+};
+
 type ListPipelinesQuery = {
   page: number;
   limit: number;
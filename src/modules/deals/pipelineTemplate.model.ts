@@ -0,0 +1,45 @@
+import { Schema, model } from 'mongoose';
+import { IPipelineTemplate } from './deal.interface';
+import { stageRequirementsSchema } from './pipeline.model';
+
+const LENGTH = {
+  name: 80,
+  description: 300,
+  stageName: 50,
+  stageColor: 20,
+} as const;
+
+const templateStageSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true, maxlength: LENGTH.stageName },
+    color: { type: String, default: null, maxlength: LENGTH.stageColor },
+    order: { type: Number, required: true, min: 0 },
+    isDefault: { type: Boolean, default: false },
+    probability: { type: Number, default: null, min: 0, max: 100 },
+    closingType: { type: String, enum: ['won', 'lost'], default: null },
+    requirements: { type: stageRequirementsSchema, default: () => ({}) },
+  },
+  { _id: false, versionKey: false }
+);
+
+const pipelineTemplateSchema = new Schema<IPipelineTemplate>(
+  {
+    teamId: { type: Number, required: true, index: true },
+    name: { type: String, required: true, trim: true, maxlength: LENGTH.name },
+    description: { type: String, default: null, trim: true, maxlength: LENGTH.description },
+    stages: {
+      type: [templateStageSchema],
+      validate: {
+        validator: (arr: unknown[]) => Array.isArray(arr) && arr.length > 0,
+        message: 'At least one stage is required',
+      },
+    },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true, versionKey: false }
+);
+
+pipelineTemplateSchema.index({ teamId: 1, name: 1 });
+
+export const PipelineTemplate = model<IPipelineTemplate>('PipelineTemplate', pipelineTemplateSchema);
@@ -0,0 +1,149 @@
+import { Types } from 'mongoose';
+import { CreatePipelineStageInput } from './deal.interface';
+import { Pipeline } from './pipeline.model';
+import { createPipeline, toStageLayout } from './pipeline.service';
+import { PipelineTemplate } from './pipelineTemplate.model';
+
+type BuiltInPipelineTemplate = {
+  _id: string;
+  name: string;
+  description: string;
+  stages: CreatePipelineStageInput[];
+};
+
+const BUILT_IN_PIPELINE_TEMPLATES: BuiltInPipelineTemplate[] = [
+  {
+    _id: 'b2b-sales',
+    name: 'B2B sales',
+    description: 'Qualify leads, demo, propose and negotiate business deals',
+    stages: [
+      { name: 'Lead', order: 0, isDefault: true, probability: 10 },
+      { name: 'Qualified', order: 1, probability: 25 },
+      { name: 'Demo', order: 2, probability: 40 },
+      { name: 'Proposal', order: 3, probability: 60 },
+      { name: 'Negotiation', order: 4, probability: 80 },
+      { name: 'Won', order: 5, probability: 100, closingType: 'won' },
+      { name: 'Lost', order: 6, probability: 0, closingType: 'lost' },
+    ],
+  },
+  {
+    _id: 'recruiting',
+    name: 'Recruiting',
+    description: 'Move candidates from application to hire',
+    stages: [
+      { name: 'Applied', order: 0, isDefault: true, probability: 5 },
+      { name: 'Screening', order: 1, probability: 15 },
+      { name: 'Interview', order: 2, probability: 35 },
+      { name: 'Offer', order: 3, probability: 75 },
+      { name: 'Hired', order: 4, probability: 100, closingType: 'won' },
+      { name: 'Rejected', order: 5, probability: 0, closingType: 'lost' },
+    ],
+  },
+  {
+    _id: 'customer-onboarding',
+    name: 'Customer onboarding',
+    description: 'Take new customers from kickoff to go-live',
+    stages: [
+      { name: 'Kickoff', order: 0, isDefault: true },
+      { name: 'Setup', order: 1 },
+      { name: 'Training', order: 2 },
+      { name: 'Go-live', order: 3 },
+      { name: 'Completed', order: 4, closingType: 'won' },
+      { name: 'Churned', order: 5, closingType: 'lost' },
+    ],
+  },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Built-in templates are addressed by their key, team templates by their id.
+const findPipelineTemplate = async (teamId: number | null | undefined, templateId: string) => {
+  const builtIn = BUILT_IN_PIPELINE_TEMPLATES.find((template) => template._id === templateId);
+  if (builtIn) return builtIn;
+  if (teamId === null || teamId === undefined || !Types.ObjectId.isValid(templateId)) return null;
+
+  return PipelineTemplate.findOne({ _id: templateId, teamId }).select('_id name stages').lean();
+};
+
+export const listPipelineTemplates = async (teamId?: number | null) => {
+  const teamTemplates = teamId === null || teamId === undefined
+    ? []
+    : await PipelineTemplate.find({ teamId }).sort({ name: 1 }).lean();
+
+  return [
+    ...BUILT_IN_PIPELINE_TEMPLATES.map((template) => ({ ...template, source: 'built_in' as const })),
+    ...teamTemplates.map((template) => ({ ...template, source: 'team' as const })),
+  ];
+};
+
+type CreatePipelineFromTemplateInput = {
+  ownerId: string;
+  teamId?: number | null;
+  templateId: string;
+  name?: string;
+  createdBy: string;
+};
+
+export const createPipelineFromTemplate = async (payload: CreatePipelineFromTemplateInput) => {
+  const template = await findPipelineTemplate(payload.teamId, payload.templateId);
+  if (!template) {
+    return { status: 'template_not_found' as const };
+  }
+
+  return createPipeline({
+    ownerId: payload.ownerId,
+    name: payload.name ?? template.name,
+    stages: template.stages,
+    createdBy: payload.createdBy,
+  });
+};
+
+type SavePipelineAsTemplateInput = {
+  ownerId: string;
+  teamId: number;
+  pipelineId: string;
+  name: string;
+  description?: string | null;
+  createdBy: string;
+};
+
+export const savePipelineAsTemplate = async (payload: SavePipelineAsTemplateInput) => {
+  const pipeline = await Pipeline.findOne({
+    _id: payload.pipelineId,
+    ownerId: payload.ownerId,
+    deletedAt: null,
+  }).select('_id stages');
+
+  if (!pipeline) {
+    return { status: 'pipeline_not_found' as const };
+  }
+
+  const name = payload.name.trim();
+  const nameTaken = await PipelineTemplate.exists({
+    teamId: payload.teamId,
+    name: new RegExp(`^${escapeRegExp(name)}$`, 'i'),
+  });
+  if (nameTaken || BUILT_IN_PIPELINE_TEMPLATES.some((template) => template.name.toLowerCase() === name.toLowerCase())) {
+    return { status: 'duplicate_template_name' as const };
+  }
+
+  const template = await PipelineTemplate.create({
+    teamId: payload.teamId,
+    name,
+    description: payload.description ?? null,
+    stages: toStageLayout(pipeline.stages),
+    createdBy: payload.createdBy,
+    updatedBy: payload.createdBy,
+  });
+
+  return { status: 'ok' as const, template };
+};
+
+export const deletePipelineTemplate = async (teamId: number, templateId: string) => {
+  const template = await PipelineTemplate.findOneAndDelete({ _id: templateId, teamId });
+  if (!template) {
+    return { status: 'template_not_found' as const };
+  }
+
+  return { status: 'ok' as const };
+};
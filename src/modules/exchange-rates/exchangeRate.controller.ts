@@ -0,0 +1,275 @@
+import { Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { sendError, sendResponse } from '../../../Utils/response';
+import {
+  createExchangeRate,
+  deleteExchangeRate,
+  listExchangeRates,
+  updateExchangeRate,
+} from './exchangeRate.service';
+
+const LENGTH = {
+  note: 300,
+} as const;
+
+const RATE_CURRENCIES = ['usd', 'eur', 'gbp', 'bdt'] as const;
+
+const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
+
+const optionalNullableNote = z.preprocess(
+  (value) => {
+    if (value === undefined) return undefined;
+    if (value === null) return null;
+    if (typeof value !== 'string') return value;
+    const trimmed = value.trim();
+    return trimmed.length === 0 ? null : trimmed;
+  },
+  z.string().max(LENGTH.note).nullable().optional()
+);
+
+const createExchangeRateSchema = z.object({
+  fromCurrency: z.enum(RATE_CURRENCIES),
+  toCurrency: z.enum(RATE_CURRENCIES),
+  rate: z.coerce.number().positive(),
+  effectiveDate: z.coerce.date(),
+  note: optionalNullableNote,
+}).refine((data) => data.fromCurrency !== data.toCurrency, {
+  path: ['toCurrency'],
+  message: 'Must differ from fromCurrency',
+});
+
+const updateExchangeRateSchema = z.object({
+  rate: z.coerce.number().positive().optional(),
+  effectiveDate: z.coerce.date().optional(),
+  note: optionalNullableNote,
+}).refine((data) => Object.keys(data).length > 0, {
+  message: 'At least one field is required',
+});
+
+const listExchangeRatesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  currency: z.enum(RATE_CURRENCIES).optional(),
+});
+
+const getUserIdFromReq = (req: Request) => (req as any).user?.id as string | undefined;
+const getTeamIdFromReq = (req: Request) => (req as any).user?.teamId as number | null | undefined;
+
+const getQueryValue = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const sendNoTeamError = (res: Response) => sendError(res, {
+  success: false,
+  statusCode: 403,
+  message: 'You are not part of a team',
+});
+
+export const createExchangeRateHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const parsed = createExchangeRateSchema.parse(req.body);
+    const result = await createExchangeRate({
+      ...parsed,
+      teamId: Number(teamId),
+      createdBy: userId,
+    });
+
+    if (result.status === 'duplicate_rate') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'A rate for this currency pair already exists on this date',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 201,
+      message: 'Exchange rate created successfully',
+      data: result.exchangeRate,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to create exchange rate',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const listExchangeRatesHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const query = listExchangeRatesQuerySchema.parse({
+      page: getQueryValue(req.query.page),
+      limit: getQueryValue(req.query.limit),
+      currency: getQueryValue(req.query.currency),
+    });
+    const data = await listExchangeRates(Number(teamId), query);
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Exchange rates fetched successfully',
+      data,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch exchange rates',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const updateExchangeRateHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const id = objectIdSchema.parse(req.params.id);
+    const parsed = updateExchangeRateSchema.parse(req.body);
+    const result = await updateExchangeRate(Number(teamId), id, { ...parsed, updatedBy: userId });
+
+    if (result.status === 'not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Exchange rate not found',
+      });
+    }
+    if (result.status === 'duplicate_rate') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'A rate for this currency pair already exists on this date',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Exchange rate updated successfully',
+      data: result.exchangeRate,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to update exchange rate',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const deleteExchangeRateHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const id = objectIdSchema.parse(req.params.id);
+    const result = await deleteExchangeRate(Number(teamId), id);
+
+    if (result.status === 'not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Exchange rate not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Exchange rate deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to delete exchange rate',
+      details: (error as Error).message,
+    });
+  }
+};
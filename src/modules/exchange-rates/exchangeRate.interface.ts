@@ -0,0 +1,37 @@
+import { Document, Types } from 'mongoose';
+import { BillingCurrency } from '../billing/package.interface';
+
+/** `1 fromCurrency = rate toCurrency`, from `effectiveDate` until the pair's next rate. */
+export interface IExchangeRate extends Document {
+  teamId: number;
+  fromCurrency: BillingCurrency;
+  toCurrency: BillingCurrency;
+  rate: number;
+  effectiveDate: Date;
+  note?: string | null;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId | null;
+}
+
+export type CreateExchangeRateInput = {
+  teamId: number;
+  fromCurrency: BillingCurrency;
+  toCurrency: BillingCurrency;
+  rate: number;
+  effectiveDate: Date;
+  note?: string | null;
+  createdBy: string;
+};
+
+export type UpdateExchangeRateInput = {
+  rate?: number;
+  effectiveDate?: Date;
+  note?: string | null;
+  updatedBy: string;
+};
+
+export type ListExchangeRatesQuery = {
+  page: number;
+  limit: number;
+  currency?: BillingCurrency;
+};
@@ -0,0 +1,20 @@
+import { Schema, model } from 'mongoose';
+import { IExchangeRate } from './exchangeRate.interface';
+
+const CURRENCIES = ['usd', 'eur', 'gbp', 'bdt'];
+
+const exchangeRateSchema = new Schema<IExchangeRate>({
+  teamId: { type: Number, required: true, index: true },
+  fromCurrency: { type: String, enum: CURRENCIES, required: true },
+  toCurrency: { type: String, enum: CURRENCIES, required: true },
+  rate: { type: Number, required: true, min: 0 },
+  // Start of a UTC day; the rate applies until the pair's next effective date.
+  effectiveDate: { type: Date, required: true },
+  note: { type: String, default: null, trim: true, maxlength: 300 },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+}, { timestamps: true, versionKey: false });
+
+exchangeRateSchema.index({ teamId: 1, fromCurrency: 1, toCurrency: 1, effectiveDate: 1 }, { unique: true });
+
+export const ExchangeRate = model<IExchangeRate>('ExchangeRate', exchangeRateSchema);
@@ -0,0 +1,147 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../../middleware/authMiddlewares';
+import {
+  createExchangeRateHandler,
+  deleteExchangeRateHandler,
+  listExchangeRatesHandler,
+  updateExchangeRateHandler,
+} from './exchangeRate.controller';
+
+const router = Router();
+const EXCHANGE_RATE_READ_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
+const EXCHANGE_RATE_MANAGE_ROLES = ['OWNER', 'ADMIN'];
+
+/**
+ * @swagger
+ * /api/exchange-rates:
+ *   post:
+ *     tags:
+ *       - Exchange Rates
+ *     summary: Add an exchange rate to your team's rate table
+ *     description: >
+ *       `1 fromCurrency = rate toCurrency` from the effective date (a UTC day) until the pair's next rate.
+ *       Reports convert deal amounts to the team's base currency with the rates from or to it; open deals use
+ *       today's rate and closed deals the rate of the day they were won or lost.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [fromCurrency, toCurrency, rate, effectiveDate]
+ *             properties:
+ *               fromCurrency:
+ *                 type: string
+ *                 enum: [usd, eur, gbp, bdt]
+ *               toCurrency:
+ *                 type: string
+ *                 enum: [usd, eur, gbp, bdt]
+ *               rate:
+ *                 type: number
+ *                 example: 1.08
+ *               effectiveDate:
+ *                 type: string
+ *                 format: date
+ *               note:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: Exchange rate created successfully
+ *       403:
+ *         description: You are not part of a team
+ *       409:
+ *         description: A rate for this currency pair already exists on this date
+ *   get:
+ *     tags:
+ *       - Exchange Rates
+ *     summary: List your team's exchange rates, newest first
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: currency
+ *         description: Rates from or to this currency
+ *         schema:
+ *           type: string
+ *           enum: [usd, eur, gbp, bdt]
+ *     responses:
+ *       200:
+ *         description: Exchange rates fetched successfully
+ *       403:
+ *         description: You are not part of a team
+ */
+router.post('/', authenticate, authorize(EXCHANGE_RATE_MANAGE_ROLES), createExchangeRateHandler);
+router.get('/', authenticate, authorize(EXCHANGE_RATE_READ_ROLES), listExchangeRatesHandler);
+
+/**
+ * @swagger
+ * /api/exchange-rates/{id}:
+ *   put:
+ *     tags:
+ *       - Exchange Rates
+ *     summary: Update an exchange rate
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rate:
+ *                 type: number
+ *               effectiveDate:
+ *                 type: string
+ *                 format: date
+ *               note:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Exchange rate updated successfully
+ *       404:
+ *         description: Exchange rate not found
+ *       409:
+ *         description: A rate for this currency pair already exists on this date
+ *   delete:
+ *     tags:
+ *       - Exchange Rates
+ *     summary: Delete an exchange rate
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Exchange rate deleted successfully
+ *       404:
+ *         description: Exchange rate not found
+ */
+router.put('/:id', authenticate, authorize(EXCHANGE_RATE_MANAGE_ROLES), updateExchangeRateHandler);
+router.delete('/:id', authenticate, authorize(EXCHANGE_RATE_MANAGE_ROLES), deleteExchangeRateHandler);
+
+export default router;
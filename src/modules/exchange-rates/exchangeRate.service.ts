@@ -0,0 +1,191 @@
+import { FilterQuery } from 'mongoose';
+import { BillingCurrency } from '../billing/package.interface';
+import { getTeamSettings } from '../team-settings/teamSettings.service';
+import { User } from '../users/user.model';
+import { ExchangeRate } from './exchangeRate.model';
+import {
+  CreateExchangeRateInput,
+  IExchangeRate,
+  ListExchangeRatesQuery,
+  UpdateExchangeRateInput,
+} from './exchangeRate.interface';
+
+type RateEntry = {
+  effectiveDate: Date;
+  rate: number;
+};
+
+type ConvertibleDeal = {
+  status: string;
+  wonAt?: Date | null;
+  lostAt?: Date | null;
+};
+
+const toUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const findRateConflict = async (
+  teamId: number,
+  rate: { fromCurrency: BillingCurrency; toCurrency: BillingCurrency; effectiveDate: Date },
+  excludeId?: string
+) => {
+  const conflict = await ExchangeRate.exists({
+    ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    teamId,
+    fromCurrency: rate.fromCurrency,
+    toCurrency: rate.toCurrency,
+    effectiveDate: rate.effectiveDate,
+  });
+  return Boolean(conflict);
+};
+
+export const createExchangeRate = async (payload: CreateExchangeRateInput) => {
+  const effectiveDate = toUtcDay(payload.effectiveDate);
+  if (await findRateConflict(payload.teamId, { ...payload, effectiveDate })) {
+    return { status: 'duplicate_rate' as const };
+  }
+
+  const exchangeRate = await ExchangeRate.create({
+    ...payload,
+    effectiveDate,
+    updatedBy: payload.createdBy,
+  });
+
+  return { status: 'ok' as const, exchangeRate };
+};
+
+export const listExchangeRates = async (teamId: number, query: ListExchangeRatesQuery) => {
+  const filter: FilterQuery<IExchangeRate> = { teamId };
+  if (query.currency) {
+    filter.$or = [{ fromCurrency: query.currency }, { toCurrency: query.currency }];
+  }
+  const skip = (query.page - 1) * query.limit;
+
+  const [exchangeRates, total, settings] = await Promise.all([
+    ExchangeRate.find(filter)
+      .sort({ effectiveDate: -1, fromCurrency: 1, toCurrency: 1 })
+      .skip(skip)
+      .limit(query.limit)
+      .lean(),
+    ExchangeRate.countDocuments(filter),
+    getTeamSettings(teamId),
+  ]);
+
+  const totalPages = Math.ceil(total / query.limit);
+
+  return {
+    baseCurrency: settings.baseCurrency,
+    exchangeRates,
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      totalPages,
+      hasNextPage: query.page < totalPages,
+      hasPrevPage: query.page > 1,
+    },
+  };
+};
+
+export const updateExchangeRate = async (teamId: number, id: string, updates: UpdateExchangeRateInput) => {
+  const exchangeRate = await ExchangeRate.findOne({ _id: id, teamId });
+  if (!exchangeRate) {
+    return { status: 'not_found' as const };
+  }
+
+  const { effectiveDate, ...fields } = updates;
+  if (effectiveDate !== undefined) {
+    const nextDate = toUtcDay(effectiveDate);
+    if (await findRateConflict(teamId, {
+      fromCurrency: exchangeRate.fromCurrency,
+      toCurrency: exchangeRate.toCurrency,
+      effectiveDate: nextDate,
+    }, id)) {
+      return { status: 'duplicate_rate' as const };
+    }
+    exchangeRate.effectiveDate = nextDate;
+  }
+
+  exchangeRate.set(fields);
+  await exchangeRate.save();
+
+  return { status: 'ok' as const, exchangeRate };
+};
+
+export const deleteExchangeRate = async (teamId: number, id: string) => {
+  const exchangeRate = await ExchangeRate.findOneAndDelete({ _id: id, teamId });
+  if (!exchangeRate) {
+    return { status: 'not_found' as const };
+  }
+
+  return { status: 'ok' as const };
+};
+
+/**
+ * Open deals are valued at today's rate, closed deals at the rate in effect on the day they were
+ * won or lost.
+ */
+export const resolveConversionDate = (deal: ConvertibleDeal) => {
+  if (deal.status === 'won' && deal.wonAt) return deal.wonAt;
+  if (deal.status === 'lost' && deal.lostAt) return deal.lostAt;
+  return new Date();
+};
+
+/**
+ * Converts amounts to the team's base currency with its exchange-rate table. A pair entered the
+ * other way round (base → currency) is used inverted. Dates before a currency's first rate use that
+ * first rate. Amounts in a currency without any rate cannot be converted: `convert` returns null
+ * and the currency is listed by `missingRates()` so totals can say what they leave out.
+ * Deals without a currency are in the base currency.
+ */
+export const loadCurrencyConverter = async (teamId: number | null | undefined) => {
+  const { baseCurrency } = await getTeamSettings(teamId);
+  const rates = teamId === null || teamId === undefined
+    ? []
+    : await ExchangeRate.find({ teamId, $or: [{ toCurrency: baseCurrency }, { fromCurrency: baseCurrency }] })
+      .select('fromCurrency toCurrency rate effectiveDate')
+      .sort({ effectiveDate: 1 })
+      .lean();
+
+  const ratesToBase = new Map<BillingCurrency, RateEntry[]>();
+  rates.forEach((entry) => {
+    if (entry.fromCurrency === entry.toCurrency || entry.rate <= 0) return;
+
+    const currency = entry.toCurrency === baseCurrency ? entry.fromCurrency : entry.toCurrency;
+    const rate = entry.toCurrency === baseCurrency ? entry.rate : 1 / entry.rate;
+    ratesToBase.set(currency, [...(ratesToBase.get(currency) ?? []), { effectiveDate: entry.effectiveDate, rate }]);
+  });
+
+  const missing = new Set<BillingCurrency>();
+
+  const rateOn = (currency: BillingCurrency, date: Date) => {
+    const history = ratesToBase.get(currency);
+    if (!history?.length) return null;
+    return history.filter((entry) => entry.effectiveDate <= date).pop()?.rate ?? history[0].rate;
+  };
+
+  const convert = (amount: number | null | undefined, currency: BillingCurrency | null | undefined, date = new Date()) => {
+    const value = amount ?? 0;
+    const from = currency ?? baseCurrency;
+    if (from === baseCurrency || value === 0) return value;
+
+    const rate = rateOn(from, date);
+    if (rate === null) {
+      missing.add(from);
+      return null;
+    }
+    return value * rate;
+  };
+
+  return {
+    baseCurrency,
+    convert,
+    missingRates: () => Array.from(missing),
+  };
+};
+
+export type CurrencyConverter = Awaited<ReturnType<typeof loadCurrencyConverter>>;
+
+export const loadOwnerCurrencyConverter = async (ownerId: string) => {
+  const owner = await User.findById(ownerId).select('teamId').lean();
+  return loadCurrencyConverter(owner?.teamId);
+};
@@ -0,0 +1,273 @@
+import { Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { sendError, sendResponse } from '../../../Utils/response';
+import { createLostReason, deleteLostReason, listLostReasons, updateLostReason } from './lostReason.service';
+
+const LENGTH = {
+  label: 80,
+  description: 300,
+} as const;
+
+const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
+
+const optionalNullableDescription = z.preprocess(
+  (value) => {
+    if (value === undefined) return undefined;
+    if (value === null) return null;
+    if (typeof value !== 'string') return value;
+    const trimmed = value.trim();
+    return trimmed.length === 0 ? null : trimmed;
+  },
+  z.string().max(LENGTH.description).nullable().optional()
+);
+
+const lostReasonBaseSchema = {
+  label: z.string().trim().min(1).max(LENGTH.label),
+  description: optionalNullableDescription,
+  order: z.coerce.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+};
+
+const createLostReasonSchema = z.object(lostReasonBaseSchema);
+
+const updateLostReasonSchema = z.object({
+  ...lostReasonBaseSchema,
+  label: lostReasonBaseSchema.label.optional(),
+}).refine((data) => Object.keys(data).length > 0, {
+  message: 'At least one field is required',
+});
+
+const listLostReasonsQuerySchema = z.object({
+  includeInactive: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toLowerCase() === 'true' : value),
+    z.boolean().default(false)
+  ),
+});
+
+const getUserIdFromReq = (req: Request) => (req as any).user?.id as string | undefined;
+const getTeamIdFromReq = (req: Request) => (req as any).user?.teamId as number | null | undefined;
+
+const getQueryValue = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const sendNoTeamError = (res: Response) => sendError(res, {
+  success: false,
+  statusCode: 403,
+  message: 'You are not part of a team',
+});
+
+export const listLostReasonsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const query = listLostReasonsQuerySchema.parse({
+      includeInactive: getQueryValue(req.query.includeInactive),
+    });
+    const lostReasons = await listLostReasons(Number(teamId), query.includeInactive);
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Lost reasons fetched successfully',
+      data: lostReasons,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch lost reasons',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const createLostReasonHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const parsed = createLostReasonSchema.parse(req.body);
+    const result = await createLostReason({
+      ...parsed,
+      teamId: Number(teamId),
+      createdBy: userId,
+    });
+
+    if (result.status === 'duplicate_label') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'A lost reason with this label already exists',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 201,
+      message: 'Lost reason created successfully',
+      data: result.lostReason,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to create lost reason',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const updateLostReasonHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const id = objectIdSchema.parse(req.params.id);
+    const parsed = updateLostReasonSchema.parse(req.body);
+    const result = await updateLostReason(Number(teamId), id, { ...parsed, updatedBy: userId });
+
+    if (result.status === 'not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Lost reason not found',
+      });
+    }
+    if (result.status === 'duplicate_label') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'A lost reason with this label already exists',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Lost reason updated successfully',
+      data: result.lostReason,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to update lost reason',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const deleteLostReasonHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const id = objectIdSchema.parse(req.params.id);
+    const result = await deleteLostReason(Number(teamId), id);
+
+    if (result.status === 'not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Lost reason not found',
+      });
+    }
+    if (result.status === 'in_use') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'This lost reason is used by deals; deactivate it instead',
+        details: `${result.usedBy} deal(s) use this reason`,
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Lost reason deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to delete lost reason',
+      details: (error as Error).message,
+    });
+  }
+};
@@ -0,0 +1,34 @@
+import { Document, Types } from 'mongoose';
+
+export interface ILostReason extends Document {
+  teamId: number;
+  label: string;
+  description?: string | null;
+  order: number;
+  isActive: boolean;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId | null;
+}
+
+export type CreateLostReasonInput = {
+  teamId: number;
+  label: string;
+  description?: string | null;
+  order?: number;
+  isActive?: boolean;
+  createdBy: string;
+};
+
+export type UpdateLostReasonInput = {
+  label?: string;
+  description?: string | null;
+  order?: number;
+  isActive?: boolean;
+  updatedBy: string;
+};
+
+/** What a rep sends when marking a deal lost: a catalog reason, or a legacy label matched to one. */
+export type LostReasonSelection = {
+  lostReasonId?: string | null;
+  lostReason?: string | null;
+};
@@ -0,0 +1,22 @@
+import { Schema, model } from 'mongoose';
+import { ILostReason } from './lostReason.interface';
+
+const LENGTH = {
+  label: 80,
+  description: 300,
+} as const;
+
+const lostReasonSchema = new Schema<ILostReason>({
+  teamId: { type: Number, required: true, index: true },
+  label: { type: String, required: true, trim: true, maxlength: LENGTH.label },
+  description: { type: String, default: null, trim: true, maxlength: LENGTH.description },
+  order: { type: Number, default: 0 },
+  // Inactive reasons stay on the deals that use them but cannot be picked any more.
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+}, { timestamps: true, versionKey: false });
+
+lostReasonSchema.index({ teamId: 1, order: 1 });
+
+export const LostReason = model<ILostReason>('LostReason', lostReasonSchema);
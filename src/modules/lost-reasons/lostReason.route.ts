@@ -0,0 +1,135 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../../middleware/authMiddlewares';
+import {
+  createLostReasonHandler,
+  deleteLostReasonHandler,
+  listLostReasonsHandler,
+  updateLostReasonHandler,
+} from './lostReason.controller';
+
+const router = Router();
+const LOST_REASON_READ_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
+const LOST_REASON_MANAGE_ROLES = ['OWNER', 'ADMIN'];
+
+/**
+ * @swagger
+ * /api/lost-reasons:
+ *   post:
+ *     tags:
+ *       - Lost Reasons
+ *     summary: Add a reason to your team's lost-reason catalog
+ *     description: >
+ *       Once a team has an active reason, deals can only be marked lost with one of the catalog's
+ *       active reasons.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [label]
+ *             properties:
+ *               label:
+ *                 type: string
+ *                 example: Price too high
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               order:
+ *                 type: integer
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Lost reason created successfully
+ *       403:
+ *         description: You are not part of a team
+ *       409:
+ *         description: A lost reason with this label already exists
+ *   get:
+ *     tags:
+ *       - Lost Reasons
+ *     summary: List your team's lost reasons
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Lost reasons fetched successfully
+ *       403:
+ *         description: You are not part of a team
+ */
+router.post('/', authenticate, authorize(LOST_REASON_MANAGE_ROLES), createLostReasonHandler);
+router.get('/', authenticate, authorize(LOST_REASON_READ_ROLES), listLostReasonsHandler);
+
+/**
+ * @swagger
+ * /api/lost-reasons/{id}:
+ *   put:
+ *     tags:
+ *       - Lost Reasons
+ *     summary: Update a lost reason
+ *     description: A new label is copied onto the deals lost with this reason.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               order:
+ *                 type: integer
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Lost reason updated successfully
+ *       404:
+ *         description: Lost reason not found
+ *       409:
+ *         description: A lost reason with this label already exists
+ *   delete:
+ *     tags:
+ *       - Lost Reasons
+ *     summary: Delete an unused lost reason
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Lost reason deleted successfully
+ *       404:
+ *         description: Lost reason not found
+ *       409:
+ *         description: The reason is used by deals; deactivate it instead
+ */
+router.put('/:id', authenticate, authorize(LOST_REASON_MANAGE_ROLES), updateLostReasonHandler);
+router.delete('/:id', authenticate, authorize(LOST_REASON_MANAGE_ROLES), deleteLostReasonHandler);
+
+export default router;
@@ -0,0 +1,102 @@
+import { Types } from 'mongoose';
+import { Deal } from '../deals/deal.model';
+import { User } from '../users/user.model';
+import { LostReason } from './lostReason.model';
+import { CreateLostReasonInput, LostReasonSelection, UpdateLostReasonInput } from './lostReason.interface';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const createExactRegex = (value: string) => new RegExp(`^${escapeRegExp(value.trim())}$`, 'i');
+
+const findLabelConflict = async (teamId: number, label: string, excludeId?: string) => {
+  const conflict = await LostReason.exists({
+    ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    teamId,
+    label: createExactRegex(label),
+  });
+  return Boolean(conflict);
+};
+
+export const listLostReasons = async (teamId: number, includeInactive = false) => {
+  const filter = includeInactive ? { teamId } : { teamId, isActive: true };
+  return LostReason.find(filter).sort({ order: 1, createdAt: 1 });
+};
+
+export const createLostReason = async (payload: CreateLostReasonInput) => {
+  if (await findLabelConflict(payload.teamId, payload.label)) {
+    return { status: 'duplicate_label' as const };
+  }
+
+  const lostReason = await LostReason.create({ ...payload, updatedBy: payload.createdBy });
+  return { status: 'ok' as const, lostReason };
+};
+
+// Deals keep the reason's label next to its id, so a rename is copied onto them.
+export const updateLostReason = async (teamId: number, id: string, updates: UpdateLostReasonInput) => {
+  const lostReason = await LostReason.findOne({ _id: id, teamId });
+  if (!lostReason) {
+    return { status: 'not_found' as const };
+  }
+
+  const renamed = updates.label !== undefined && updates.label !== lostReason.label;
+  if (renamed && await findLabelConflict(teamId, updates.label as string, id)) {
+    return { status: 'duplicate_label' as const };
+  }
+
+  lostReason.set(updates);
+  await lostReason.save();
+
+  if (renamed) {
+    await Deal.updateMany({ lostReasonId: lostReason._id }, { lostReason: lostReason.label });
+  }
+
+  return { status: 'ok' as const, lostReason };
+};
+
+// Reasons used by deals are part of the win/loss history; they can be deactivated but not deleted.
+export const deleteLostReason = async (teamId: number, id: string) => {
+  const lostReason = await LostReason.findOne({ _id: id, teamId });
+  if (!lostReason) {
+    return { status: 'not_found' as const };
+  }
+
+  const usedBy = await Deal.countDocuments({ lostReasonId: lostReason._id });
+  if (usedBy > 0) {
+    return { status: 'in_use' as const, usedBy };
+  }
+
+  await lostReason.deleteOne();
+  return { status: 'ok' as const };
+};
+
+/**
+ * Resolves the reason a deal is marked lost with. Teams with a catalog must pick one of its active
+ * reasons, by id or by its label; teams without one keep recording free text.
+ */
+export const resolveOwnerLostReason = async (ownerId: string, selection: LostReasonSelection) => {
+  const owner = await User.findById(ownerId).select('teamId').lean();
+  const teamId = owner?.teamId;
+  const hasCatalog = teamId !== null && teamId !== undefined
+    && Boolean(await LostReason.exists({ teamId, isActive: true }));
+
+  if (!hasCatalog) {
+    if (selection.lostReasonId) return { status: 'lost_reason_not_found' as const };
+    return { status: 'ok' as const, lostReasonId: null, lostReason: selection.lostReason ?? null };
+  }
+
+  if (!selection.lostReasonId && !selection.lostReason) {
+    return { status: 'lost_reason_required' as const };
+  }
+
+  const lostReason = await LostReason.findOne({
+    teamId,
+    isActive: true,
+    ...(selection.lostReasonId
+      ? { _id: selection.lostReasonId }
+      : { label: createExactRegex(selection.lostReason as string) }),
+  }).select('_id label');
+  if (!lostReason) {
+    return { status: 'lost_reason_not_found' as const };
+  }
+
+  return { status: 'ok' as const, lostReasonId: lostReason._id as Types.ObjectId, lostReason: lostReason.label };
+};
@@ -0,0 +1,331 @@
+import { Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { sendError, sendResponse } from '../../../Utils/response';
+import { User } from '../users/user.model';
+import { createProduct, deleteProduct, getProductDetails, listProducts, updateProduct } from './product.service';
+
+const LENGTH = {
+  name: 120,
+  sku: 64,
+  description: 2000,
+  listSearch: 100,
+} as const;
+
+const PRODUCT_CURRENCIES = ['usd', 'eur', 'gbp', 'bdt'] as const;
+
+const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
+
+const optionalNullableBoundedStringFromInput = (max: number) => z.preprocess(
+  (value) => {
+    if (value === undefined) return undefined;
+    if (value === null) return null;
+    if (typeof value !== 'string') return value;
+    const trimmed = value.trim();
+    return trimmed.length === 0 ? null : trimmed;
+  },
+  z.string().max(max).nullable().optional()
+);
+
+const optionalQueryString = (max: number) => z.preprocess(
+  (value) => {
+    if (typeof value !== 'string') return undefined;
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  },
+  z.string().max(max).optional()
+);
+
+const productBaseSchema = {
+  name: z.string().trim().min(1).max(LENGTH.name),
+  sku: optionalNullableBoundedStringFromInput(LENGTH.sku),
+  description: optionalNullableBoundedStringFromInput(LENGTH.description),
+  unitPrice: z.coerce.number().min(0),
+  currency: z.enum(PRODUCT_CURRENCIES).optional(),
+  taxRate: z.coerce.number().min(0).max(100).optional(),
+  isActive: z.boolean().optional(),
+};
+
+const createProductSchema = z.object(productBaseSchema);
+
+const updateProductSchema = z.object({
+  ...productBaseSchema,
+  name: productBaseSchema.name.optional(),
+  unitPrice: productBaseSchema.unitPrice.optional(),
+}).refine((data) => Object.keys(data).length > 0, {
+  message: 'At least one field is required',
+});
+
+const listProductsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(500).default(10),
+  search: optionalQueryString(LENGTH.listSearch),
+  currency: z.enum(PRODUCT_CURRENCIES).optional(),
+  isActive: z.preprocess(
+    (value) => (typeof value === 'string' && value.trim() ? value.trim().toLowerCase() === 'true' : undefined),
+    z.boolean().optional()
+  ),
+});
+
+const getUserIdFromReq = (req: Request) => (req as any).user?.id as string | undefined;
+const getTeamIdFromReq = (req: Request) => (req as any).user?.teamId as number | null | undefined;
+
+const getQueryValue = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const resolveTeamOwnerIds = async (req: Request, userId: string): Promise<string[]> => {
+  const teamId = getTeamIdFromReq(req);
+  if (teamId === null || teamId === undefined) return [userId];
+
+  const teamUsers = await User.find({ teamId: Number(teamId) }).select('_id').lean();
+  if (!teamUsers.length) return [userId];
+
+  return teamUsers.map((user) => String(user._id));
+};
+
+export const createProductHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const parsed = createProductSchema.parse(req.body);
+    const result = await createProduct({
+      ...parsed,
+      ownerId: userId,
+      createdBy: userId,
+    });
+
+    if (result.status === 'duplicate_sku') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'A product with this SKU already exists',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 201,
+      message: 'Product created successfully',
+      data: result.product,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to create product',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const listProductsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const query = listProductsQuerySchema.parse({
+      page: getQueryValue(req.query.page),
+      limit: getQueryValue(req.query.limit),
+      search: getQueryValue(req.query.search) ?? getQueryValue(req.query.q),
+      currency: getQueryValue(req.query.currency),
+      isActive: getQueryValue(req.query.isActive),
+    });
+
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    const data = await listProducts(ownerIds, query);
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Products fetched successfully',
+      data,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch products',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const getProductDetailsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const productId = objectIdSchema.parse(req.params.id);
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    const result = await getProductDetails(ownerIds, productId);
+
+    if (result.status === 'product_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Product not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Product fetched successfully',
+      data: result.product,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch product',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const updateProductHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const productId = objectIdSchema.parse(req.params.id);
+    const parsed = updateProductSchema.parse(req.body);
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    const result = await updateProduct(ownerIds, productId, { ...parsed, updatedBy: userId });
+
+    if (result.status === 'product_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Product not found',
+      });
+    }
+    if (result.status === 'duplicate_sku') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'A product with this SKU already exists',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Product updated successfully',
+      data: result.product,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to update product',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const deleteProductHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const productId = objectIdSchema.parse(req.params.id);
+    const ownerIds = await resolveTeamOwnerIds(req, userId);
+    const result = await deleteProduct(ownerIds, productId, userId);
+
+    if (result.status === 'product_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Product not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Product deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to delete product',
+      details: (error as Error).message,
+    });
+  }
+};
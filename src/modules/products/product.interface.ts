@@ -0,0 +1,41 @@
+import { Document, Types } from 'mongoose';
+import { BillingCurrency } from '../billing/package.interface';
+
+export interface IProduct extends Document {
+  ownerId: Types.ObjectId;
+  name: string;
+  sku?: string | null;
+  description?: string | null;
+  unitPrice: number;
+  currency: BillingCurrency;
+  taxRate: number;
+  isActive: boolean;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId | null;
+  deletedAt?: Date | null;
+  deletedBy?: Types.ObjectId | null;
+}
+
+export type CreateProductInput = {
+  ownerId: string;
+  name: string;
+  sku?: string | null;
+  description?: string | null;
+  unitPrice: number;
+  currency?: BillingCurrency;
+  taxRate?: number;
+  isActive?: boolean;
+  createdBy: string;
+};
+
+export type UpdateProductInput = Partial<Omit<CreateProductInput, 'ownerId' | 'createdBy'>> & {
+  updatedBy: string;
+};
+
+export type ListProductsQuery = {
+  page: number;
+  limit: number;
+  search?: string;
+  currency?: BillingCurrency;
+  isActive?: boolean;
+};
@@ -0,0 +1,33 @@
+import { Schema, model } from 'mongoose';
+import { IProduct } from './product.interface';
+import { auditPlugin } from '../audit/audit.plugin';
+
+const LENGTH = {
+  name: 120,
+  sku: 64,
+  description: 2000,
+} as const;
+
+const productSchema = new Schema<IProduct>({
+  ownerId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  name: { type: String, required: true, trim: true, maxlength: LENGTH.name },
+  // Stored upper-cased; unique across the team's catalog.
+  sku: { type: String, default: null, trim: true, uppercase: true, maxlength: LENGTH.sku },
+  description: { type: String, default: null, maxlength: LENGTH.description },
+  unitPrice: { type: Number, required: true, min: 0 },
+  currency: { type: String, enum: ['usd', 'eur', 'gbp', 'bdt'], default: 'usd' },
+  // Percentage applied on top of the discounted line amount.
+  taxRate: { type: Number, default: 0, min: 0, max: 100 },
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  deletedAt: { type: Date, default: null, index: true },
+  deletedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+}, { timestamps: true, versionKey: false });
+
+productSchema.index({ ownerId: 1, deletedAt: 1, name: 1 });
+productSchema.index({ ownerId: 1, sku: 1 });
+
+productSchema.plugin(auditPlugin, { resourceType: 'product' });
+
+export const Product = model<IProduct>('Products', productSchema);
@@ -0,0 +1,180 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../../middleware/authMiddlewares';
+import {
+  createProductHandler,
+  deleteProductHandler,
+  getProductDetailsHandler,
+  listProductsHandler,
+  updateProductHandler,
+} from './product.controller';
+
+const router = Router();
+const PRODUCT_READ_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
+const PRODUCT_MANAGE_ROLES = ['OWNER', 'ADMIN'];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ProductInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         sku:
+ *           type: string
+ *           nullable: true
+ *           description: Stored upper-cased; must be unique within the team's catalog
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         unitPrice:
+ *           type: number
+ *           minimum: 0
+ *         currency:
+ *           type: string
+ *           enum: [usd, eur, gbp, bdt]
+ *           default: usd
+ *         taxRate:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 100
+ *           default: 0
+ *           description: Tax percentage applied on top of the discounted line amount
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ *           description: Inactive products stay on existing deals but cannot be added to new line items
+ */
+
+/**
+ * @swagger
+ * /api/products:
+ *   post:
+ *     tags:
+ *       - Products
+ *     summary: Add a product to the team catalog
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ProductInput'
+ *               - type: object
+ *                 required: [name, unitPrice]
+ *     responses:
+ *       201:
+ *         description: Product created successfully
+ *       409:
+ *         description: A product with this SKU already exists
+ *   get:
+ *     tags:
+ *       - Products
+ *     summary: List your team's products
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: search
+ *         description: Partial match on name or SKU
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [usd, eur, gbp, bdt]
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Products fetched successfully
+ */
+router.post('/', authenticate, authorize(PRODUCT_MANAGE_ROLES), createProductHandler);
+router.get('/', authenticate, authorize(PRODUCT_READ_ROLES), listProductsHandler);
+
+/**
+ * @swagger
+ * /api/products/{id}:
+ *   get:
+ *     tags:
+ *       - Products
+ *     summary: Get a product
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Product fetched successfully
+ *       404:
+ *         description: Product not found
+ *   put:
+ *     tags:
+ *       - Products
+ *     summary: Update a product
+ *     description: Line items already on deals keep the price and tax rate they were added with.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProductInput'
+ *     responses:
+ *       200:
+ *         description: Product updated successfully
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: A product with this SKU already exists
+ *   delete:
+ *     tags:
+ *       - Products
+ *     summary: Delete a product
+ *     description: Moves the product to the trash; deals keep their line items for it.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Product deleted successfully
+ *       404:
+ *         description: Product not found
+ */
+router.get('/:id', authenticate, authorize(PRODUCT_READ_ROLES), getProductDetailsHandler);
+router.put('/:id', authenticate, authorize(PRODUCT_MANAGE_ROLES), updateProductHandler);
+router.delete('/:id', authenticate, authorize(PRODUCT_MANAGE_ROLES), deleteProductHandler);
+
+export default router;
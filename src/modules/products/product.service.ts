@@ -0,0 +1,139 @@
+import { FilterQuery } from 'mongoose';
+import { resolveOwnerTeamIds } from '../companies/company.service';
+import { Product } from './product.model';
+import { CreateProductInput, IProduct, ListProductsQuery, UpdateProductInput } from './product.interface';
+
+const PRODUCT_LIST_FIELDS = '_id ownerId name sku description unitPrice currency taxRate isActive createdAt updatedAt';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const createRegex = (value: string) => new RegExp(escapeRegExp(value.trim()), 'i');
+
+const normalizeSku = (value?: string | null) => {
+  if (!value || !value.trim()) return null;
+  return value.trim().toUpperCase();
+};
+
+/** A product of the acting user's team catalog, deleted ones excluded. */
+export const findTeamProduct = async (ownerId: string, productId: string) => {
+  const ownerIds = await resolveOwnerTeamIds(ownerId);
+  return Product.findOne({ _id: productId, ownerId: { $in: ownerIds }, deletedAt: null });
+};
+
+const findSkuConflict = async (ownerIds: string[], sku: string | null, excludeId?: string) => {
+  if (!sku) return false;
+
+  const conflict = await Product.exists({
+    ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    ownerId: { $in: ownerIds },
+    sku,
+    deletedAt: null,
+  });
+  return Boolean(conflict);
+};
+
+export const createProduct = async (payload: CreateProductInput) => {
+  const ownerIds = await resolveOwnerTeamIds(payload.ownerId);
+  const sku = normalizeSku(payload.sku);
+
+  if (await findSkuConflict(ownerIds, sku)) {
+    return { status: 'duplicate_sku' as const };
+  }
+
+  const product = await Product.create({
+    ...payload,
+    sku,
+    updatedBy: payload.createdBy,
+  });
+
+  return { status: 'ok' as const, product };
+};
+
+const buildProductListFilter = (ownerIds: string[], query: ListProductsQuery): FilterQuery<IProduct> => {
+  const conditions: FilterQuery<IProduct>[] = [{ ownerId: { $in: ownerIds }, deletedAt: null }];
+
+  if (query.search) {
+    const regex = createRegex(query.search);
+    conditions.push({ $or: [{ name: regex }, { sku: regex }] });
+  }
+  if (query.currency) {
+    conditions.push({ currency: query.currency });
+  }
+  if (query.isActive !== undefined) {
+    conditions.push({ isActive: query.isActive });
+  }
+
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+};
+
+export const listProducts = async (ownerIds: string[], query: ListProductsQuery) => {
+  const filter = buildProductListFilter(ownerIds, query);
+  const skip = (query.page - 1) * query.limit;
+
+  const [products, total] = await Promise.all([
+    Product.find(filter)
+      .select(PRODUCT_LIST_FIELDS)
+      .sort({ name: 1, _id: 1 })
+      .skip(skip)
+      .limit(query.limit)
+      .lean(),
+    Product.countDocuments(filter),
+  ]);
+
+  const totalPages = Math.ceil(total / query.limit);
+
+  return {
+    products,
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      totalPages,
+      hasNextPage: query.page < totalPages,
+      hasPrevPage: query.page > 1,
+    },
+  };
+};
+
+export const getProductDetails = async (ownerIds: string[], productId: string) => {
+  const product = await Product.findOne({ _id: productId, ownerId: { $in: ownerIds }, deletedAt: null })
+    .populate({ path: 'createdBy', select: '_id fullName email' })
+    .lean();
+  if (!product) {
+    return { status: 'product_not_found' as const };
+  }
+
+  return { status: 'ok' as const, product };
+};
+
+// Line items keep the price and tax rate they were added with, so catalog changes never rewrite existing deals.
+export const updateProduct = async (ownerIds: string[], productId: string, updates: UpdateProductInput) => {
+  const product = await Product.findOne({ _id: productId, ownerId: { $in: ownerIds }, deletedAt: null });
+  if (!product) {
+    return { status: 'product_not_found' as const };
+  }
+
+  const { sku, ...fields } = updates;
+  const nextSku = sku === undefined ? product.sku ?? null : normalizeSku(sku);
+  if (nextSku !== (product.sku ?? null) && await findSkuConflict(ownerIds, nextSku, productId)) {
+    return { status: 'duplicate_sku' as const };
+  }
+
+  product.set({ ...fields, sku: nextSku });
+  await product.save();
+
+  return { status: 'ok' as const, product };
+};
+
+export const deleteProduct = async (ownerIds: string[], productId: string, deletedBy: string) => {
+  const product = await Product.findOneAndUpdate(
+    { _id: productId, ownerId: { $in: ownerIds }, deletedAt: null },
+    { deletedAt: new Date(), deletedBy, updatedBy: deletedBy },
+    { new: true }
+  );
+
+  if (!product) {
+    return { status: 'product_not_found' as const };
+  }
+
+  return { status: 'ok' as const, product };
+};
@@ -6,6 +6,7 @@ import {
   deleteContactList,
   getContactListById,
   listContactLists,
+  previewContactListRules,
   updateContactList,
 } from './smartList.service';
 
@@ -14,8 +15,16 @@ const LENGTH = {
   description: 300,
   listSearch: 100,
   contactsMax: 5000,
+  tag: 40,
+  tagsMax: 20,
+  companyName: 80,
+  city: 50,
+  country: 25,
 } as const;
 
+const CONTACT_STATUSES = ['lead', 'qualified', 'customer', 'inactive'] as const;
+const CONTACT_LEAD_SOURCES = ['website', 'referral', 'social', 'ads', 'manual', 'other'] as const;
+
 const objectIdSchema = z
   .string()
   .trim()
@@ -33,10 +42,70 @@ const nullableTrimmedString = (max: number) =>
     z.string().max(max).nullable().optional()
   );
 
+const nullableDateSchema = z.preprocess(
+  (value) => {
+    if (value === undefined) return undefined;
+    if (value === null || value === '') return null;
+    return value instanceof Date ? value : new Date(value as string);
+  },
+  z.date().nullable().optional()
+);
+
+const contactListRulesSchema = z.object({
+  statuses: z.array(z.enum(CONTACT_STATUSES)).max(CONTACT_STATUSES.length).optional(),
+  leadSources: z.array(z.enum(CONTACT_LEAD_SOURCES)).max(CONTACT_LEAD_SOURCES.length).optional(),
+  tags: z.array(z.string().trim().min(1).max(LENGTH.tag)).max(LENGTH.tagsMax).optional(),
+  tagsMatch: z.enum(['any', 'all']).default('any'),
+  companyName: nullableTrimmedString(LENGTH.companyName),
+  city: nullableTrimmedString(LENGTH.city),
+  country: nullableTrimmedString(LENGTH.country),
+  createdFrom: nullableDateSchema,
+  createdTo: nullableDateSchema,
+  hasOpenDeals: z.boolean().nullable().optional(),
+  lastConversationFrom: nullableDateSchema,
+  lastConversationTo: nullableDateSchema,
+}).superRefine((rules, ctx) => {
+  const hasCriteria = Boolean(
+    rules.statuses?.length
+    || rules.leadSources?.length
+    || rules.tags?.length
+    || rules.companyName
+    || rules.city
+    || rules.country
+    || rules.createdFrom
+    || rules.createdTo
+    || (rules.hasOpenDeals !== null && rules.hasOpenDeals !== undefined)
+    || rules.lastConversationFrom
+    || rules.lastConversationTo
+  );
+  if (!hasCriteria) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'At least one rule is required' });
+  }
+  if (rules.createdFrom && rules.createdTo && rules.createdFrom > rules.createdTo) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['createdTo'], message: 'Must be after createdFrom' });
+  }
+  if (rules.lastConversationFrom && rules.lastConversationTo && rules.lastConversationFrom > rules.lastConversationTo) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['lastConversationTo'], message: 'Must be after lastConversationFrom' });
+  }
+});
+
 const createContactListSchema = z.object({
   name: z.string().trim().min(1).max(LENGTH.name),
   description: nullableTrimmedString(LENGTH.description),
-  contactIds: z.array(objectIdSchema).min(1).max(LENGTH.contactsMax),
+  type: z.enum(['static', 'dynamic']).default('static'),
+  contactIds: z.array(objectIdSchema).max(LENGTH.contactsMax).optional(),
+  rules: contactListRulesSchema.optional(),
+}).superRefine((data, ctx) => {
+  if (data.type === 'static' && !data.contactIds?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['contactIds'], message: 'Static lists need at least one contact' });
+  }
+  if (data.type === 'dynamic' && !data.rules) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules'], message: 'Dynamic lists need rules' });
+  }
+});
+
+const previewContactListSchema = z.object({
+  rules: contactListRulesSchema,
 });
 
 const updateContactListSchema = createContactListSchema;
@@ -77,7 +146,9 @@ export const createContactListHandler = async (req: Request, res: Response) => {
       ownerId: userId,
       name: parsed.name,
       description: parsed.description ?? null,
-      contactIds: parsed.contactIds,
+      type: parsed.type,
+      contactIds: parsed.contactIds ?? [],
+      rules: parsed.rules ?? null,
       createdBy: userId,
       updatedBy: userId,
     });
@@ -124,6 +195,45 @@ export const createContactListHandler = async (req: Request, res: Response) => {
   }
 };
 
+export const previewContactListHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const parsed = previewContactListSchema.parse(req.body);
+    const data = await previewContactListRules(userId, parsed.rules);
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Smart list preview fetched successfully',
+      data,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to preview smart list',
+      details: (error as Error).message,
+    });
+  }
+};
+
 export const listContactListsHandler = async (req: Request, res: Response) => {
   try {
     const userId = getUserIdFromReq(req);
@@ -1,10 +1,30 @@
 import { Document, Types } from 'mongoose';
+import { ContactLeadSource, ContactStatus } from '../contacts/contact.interface';
+
+export type ContactListType = 'static' | 'dynamic';
+
+export type ContactListRules = {
+  statuses?: ContactStatus[];
+  leadSources?: ContactLeadSource[];
+  tags?: string[];
+  tagsMatch?: 'any' | 'all';
+  companyName?: string | null;
+  city?: string | null;
+  country?: string | null;
+  createdFrom?: Date | null;
+  createdTo?: Date | null;
+  hasOpenDeals?: boolean | null;
+  lastConversationFrom?: Date | null;
+  lastConversationTo?: Date | null;
+};
 
 export interface IContactList extends Document {
   ownerId: Types.ObjectId;
   name: string;
   description?: string | null;
+  type: ContactListType;
   contactIds: Types.ObjectId[];
+  rules?: ContactListRules | null;
   createdBy: Types.ObjectId;
   updatedBy?: Types.ObjectId | null;
   deletedAt?: Date | null;
@@ -15,7 +35,9 @@ export type CreateContactListInput = {
   ownerId: string;
   name: string;
   description?: string | null;
+  type: ContactListType;
   contactIds: string[];
+  rules?: ContactListRules | null;
   createdBy: string;
   updatedBy?: string | null;
 };
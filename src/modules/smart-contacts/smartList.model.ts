@@ -5,12 +5,46 @@ const LENGTH = {
   name: 80,
   description: 300,
   contactsMax: 5000,
+  tag: 40,
+  tagsMax: 20,
+  companyName: 80,
+  city: 50,
+  country: 25,
 } as const;
 
+const contactListRulesSchema = new Schema({
+  statuses: {
+    type: [{ type: String, enum: ['lead', 'qualified', 'customer', 'inactive'] }],
+    default: undefined,
+  },
+  leadSources: {
+    type: [{ type: String, enum: ['website', 'referral', 'social', 'ads', 'manual', 'other'] }],
+    default: undefined,
+  },
+  tags: {
+    type: [{ type: String, trim: true, maxlength: LENGTH.tag }],
+    default: undefined,
+    validate: {
+      validator: (arr?: string[]) => !arr || arr.length <= LENGTH.tagsMax,
+      message: `Rule tags cannot exceed ${LENGTH.tagsMax} items`,
+    },
+  },
+  tagsMatch: { type: String, enum: ['any', 'all'], default: 'any' },
+  companyName: { type: String, default: null, trim: true, maxlength: LENGTH.companyName },
+  city: { type: String, default: null, trim: true, maxlength: LENGTH.city },
+  country: { type: String, default: null, trim: true, maxlength: LENGTH.country },
+  createdFrom: { type: Date, default: null },
+  createdTo: { type: Date, default: null },
+  hasOpenDeals: { type: Boolean, default: null },
+  lastConversationFrom: { type: Date, default: null },
+  lastConversationTo: { type: Date, default: null },
+}, { _id: false });
+
 const contactListSchema = new Schema<IContactList>({
   ownerId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
   name: { type: String, required: true, trim: true, maxlength: LENGTH.name },
   description: { type: String, default: null, trim: true, maxlength: LENGTH.description },
+  type: { type: String, enum: ['static', 'dynamic'], default: 'static', index: true },
   contactIds: {
     type: [{ type: Schema.Types.ObjectId, ref: 'Contacts' }],
     default: [],
@@ -19,6 +53,7 @@ const contactListSchema = new Schema<IContactList>({
       message: `Smart list cannot exceed ${LENGTH.contactsMax} contacts`,
     },
   },
+  rules: { type: contactListRulesSchema, default: null },
   createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
   deletedAt: { type: Date, default: null, index: true },
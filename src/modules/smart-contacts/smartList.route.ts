@@ -5,12 +5,62 @@ import {
   deleteContactListHandler,
   getContactListByIdHandler,
   listContactListsHandler,
+  previewContactListHandler,
   updateContactListHandler,
 } from './smartList.controller';
 
 const router = Router();
 const CONTACT_LIST_ACCESS_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SmartListRules:
+ *       type: object
+ *       description: Filter definition evaluated at read time for dynamic lists
+ *       properties:
+ *         statuses:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [lead, qualified, customer, inactive]
+ *         leadSources:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [website, referral, social, ads, manual, other]
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         tagsMatch:
+ *           type: string
+ *           enum: [any, all]
+ *           default: any
+ *         companyName:
+ *           type: string
+ *           description: Case-insensitive partial match
+ *         city:
+ *           type: string
+ *         country:
+ *           type: string
+ *         createdFrom:
+ *           type: string
+ *           format: date-time
+ *         createdTo:
+ *           type: string
+ *           format: date-time
+ *         hasOpenDeals:
+ *           type: boolean
+ *         lastConversationFrom:
+ *           type: string
+ *           format: date-time
+ *         lastConversationTo:
+ *           type: string
+ *           format: date-time
+ */
+
 /**
  * @swagger
  * /api/smart-lists:
@@ -28,23 +78,56 @@ const CONTACT_LIST_ACCESS_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
  *             type: object
  *             required:
  *               - name
- *               - contactIds
  *             properties:
  *               name:
  *                 type: string
  *               description:
  *                 type: string
  *                 nullable: true
+ *               type:
+ *                 type: string
+ *                 enum: [static, dynamic]
+ *                 default: static
  *               contactIds:
  *                 type: array
+ *                 description: Required for static lists, ignored for dynamic lists
  *                 items:
  *                   type: string
+ *               rules:
+ *                 $ref: '#/components/schemas/SmartListRules'
  *     responses:
  *       201:
- *         description: Smart list created successfully
+ *         description: Smart list created successfully; a dynamic list comes with its `contactCount` only
  */
 router.post('/', authenticate, authorize(CONTACT_LIST_ACCESS_ROLES), createContactListHandler);
 
+/**
+ * @swagger
+ * /api/smart-lists/preview:
+ *   post:
+ *     tags:
+ *       - Smart Lists
+ *     summary: Preview the contacts matching a set of smart list rules
+ *     description: Returns the match count and the first 20 matching contacts without saving anything.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rules
+ *             properties:
+ *               rules:
+ *                 $ref: '#/components/schemas/SmartListRules'
+ *     responses:
+ *       200:
+ *         description: Smart list preview fetched successfully
+ */
+router.post('/preview', authenticate, authorize(CONTACT_LIST_ACCESS_ROLES), previewContactListHandler);
+
 /**
  * @swagger
  * /api/smart-lists:
@@ -71,7 +154,9 @@ router.post('/', authenticate, authorize(CONTACT_LIST_ACCESS_ROLES), createConta
  *           type: string
  *     responses:
  *       200:
- *         description: Smart lists fetched successfully
+ *         description: >
+ *           Smart lists fetched successfully. Dynamic lists come with their `contactCount` only;
+ *           get a list by id for its matching contacts.
  */
 router.get('/', authenticate, authorize(CONTACT_LIST_ACCESS_ROLES), listContactListsHandler);
 
@@ -92,7 +177,9 @@ router.get('/', authenticate, authorize(CONTACT_LIST_ACCESS_ROLES), listContactL
  *           type: string
  *     responses:
  *       200:
- *         description: Smart list fetched successfully
+ *         description: >
+ *           Smart list fetched successfully; for a dynamic list `contactIds` holds the contacts
+ *           matching its rules now
  *       404:
  *         description: Smart list not found
  */
@@ -121,20 +208,26 @@ router.get('/:listId', authenticate, authorize(CONTACT_LIST_ACCESS_ROLES), getCo
  *             type: object
  *             required:
  *               - name
- *               - contactIds
  *             properties:
  *               name:
  *                 type: string
  *               description:
  *                 type: string
  *                 nullable: true
+ *               type:
+ *                 type: string
+ *                 enum: [static, dynamic]
+ *                 default: static
  *               contactIds:
  *                 type: array
+ *                 description: Required for static lists, ignored for dynamic lists
  *                 items:
  *                   type: string
+ *               rules:
+ *                 $ref: '#/components/schemas/SmartListRules'
  *     responses:
  *       200:
- *         description: Smart list updated successfully
+ *         description: Smart list updated successfully; a dynamic list comes with its `contactCount` only
  *       404:
  *         description: Smart list not found
  */
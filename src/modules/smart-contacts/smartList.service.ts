@@ -1,14 +1,23 @@
 import { FilterQuery } from 'mongoose';
 import { Contact } from '../contacts/contact.model';
 import { ContactList } from './smartList.model';
-import { IContactList, CreateContactListInput, ListContactListsQuery, UpdateContactListInput } from './smartList.interface';
+import { buildContactListRulesFilter } from './smartListRules.service';
+import {
+  ContactListRules,
+  CreateContactListInput,
+  IContactList,
+  ListContactListsQuery,
+  UpdateContactListInput,
+} from './smartList.interface';
 
 const CONTACT_LIST_FIELDS = [
   '_id',
   'ownerId',
   'name',
   'description',
+  'type',
   'contactIds',
+  'rules',
   'createdBy',
   'updatedBy',
   'createdAt',
@@ -20,6 +29,11 @@ const CONTACT_POPULATE = {
   select: '_id firstName lastName photoUrl emails phones companyName status',
 };
 
+const LENGTH = {
+  contactsMax: 5000,
+  previewContacts: 20,
+} as const;
+
 const normalizeContactIds = (contactIds: string[]) => Array.from(new Set(contactIds));
 
 const validateContactsOwnership = async (ownerId: string, contactIds: string[]) => {
@@ -48,8 +62,51 @@ const validateContactsOwnership = async (ownerId: string, contactIds: string[])
   return { status: 'ok' as const };
 };
 
+// Dynamic lists keep the same response shape as static ones: `contactIds` carries the matching
+// contacts, evaluated at read time, and `contactCount` the full match count. Matching contacts
+// are only loaded for the detail view; elsewhere dynamic lists are just counted.
+const resolveContactListContacts = async (contactList: IContactList | null, withContacts = false) => {
+  if (!contactList) return null;
+
+  const data = contactList.toObject();
+  if (data.type !== 'dynamic' || !data.rules) {
+    return { ...data, contactCount: data.contactIds.length };
+  }
+
+  const filter = await buildContactListRulesFilter(String(data.ownerId), data.rules);
+  if (!withContacts) {
+    return { ...data, contactIds: [], contactCount: await Contact.countDocuments(filter) };
+  }
+
+  const [contacts, contactCount] = await Promise.all([
+    Contact.find(filter)
+      .select(CONTACT_POPULATE.select)
+      .sort({ createdAt: -1 })
+      .limit(LENGTH.contactsMax)
+      .lean(),
+    Contact.countDocuments(filter),
+  ]);
+
+  return { ...data, contactIds: contacts, contactCount };
+};
+
+export const previewContactListRules = async (ownerId: string, rules: ContactListRules) => {
+  const filter = await buildContactListRulesFilter(ownerId, rules);
+  const [contacts, contactCount] = await Promise.all([
+    Contact.find(filter)
+      .select(CONTACT_POPULATE.select)
+      .sort({ createdAt: -1 })
+      .limit(LENGTH.previewContacts)
+      .lean(),
+    Contact.countDocuments(filter),
+  ]);
+
+  return { contactCount, contacts };
+};
+
 export const createContactList = async (payload: CreateContactListInput) => {
-  const normalizedContactIds = normalizeContactIds(payload.contactIds);
+  const isDynamic = payload.type === 'dynamic';
+  const normalizedContactIds = isDynamic ? [] : normalizeContactIds(payload.contactIds);
 
   const existing = await ContactList.findOne({
     ownerId: payload.ownerId,
@@ -69,6 +126,7 @@ export const createContactList = async (payload: CreateContactListInput) => {
   const contactList = await ContactList.create({
     ...payload,
     contactIds: normalizedContactIds,
+    rules: isDynamic ? payload.rules : null,
   });
 
   const populated = await ContactList.findById(contactList._id)
@@ -77,7 +135,7 @@ export const createContactList = async (payload: CreateContactListInput) => {
 
   return {
     status: 'ok' as const,
-    contactList: populated,
+    contactList: await resolveContactListContacts(populated),
   };
 };
 
@@ -113,7 +171,7 @@ export const listContactLists = async (ownerId: string, query: ListContactListsQ
   const totalPages = Math.ceil(total / query.limit);
 
   return {
-    contactLists,
+    contactLists: await Promise.all(contactLists.map((contactList) => resolveContactListContacts(contactList))),
     pagination: {
       page: query.page,
       limit: query.limit,
@@ -134,7 +192,7 @@ export const getContactListById = async (ownerId: string, contactListId: string)
     .select(CONTACT_LIST_FIELDS)
     .populate(CONTACT_POPULATE);
 
-  return contactList;
+  return resolveContactListContacts(contactList, true);
 };
 
 export const updateContactList = async (ownerId: string, contactListId: string, updates: UpdateContactListInput) => {
@@ -153,7 +211,13 @@ export const updateContactList = async (ownerId: string, contactListId: string,
     }
   }
 
-  if (updates.contactIds !== undefined) {
+  if (updates.type === 'dynamic') {
+    nextUpdates.contactIds = [];
+  } else if (updates.type === 'static') {
+    nextUpdates.rules = null;
+  }
+
+  if (updates.contactIds !== undefined && updates.type !== 'dynamic') {
     const normalizedContactIds = normalizeContactIds(updates.contactIds);
     const contactValidation = await validateContactsOwnership(ownerId, normalizedContactIds);
     if (contactValidation.status === 'contact_not_found') {
@@ -180,7 +244,7 @@ export const updateContactList = async (ownerId: string, contactListId: string,
 
   return {
     status: 'ok' as const,
-    contactList,
+    contactList: await resolveContactListContacts(contactList),
   };
 };
 
@@ -0,0 +1,100 @@
+import { FilterQuery, Types } from 'mongoose';
+import { Contact } from '../contacts/contact.model';
+import { IContact } from '../contacts/contact.interface';
+import { Conversation } from '../conversations/conversation.model';
+import { Deal } from '../deals/deal.model';
+import { ContactListRules } from './smartList.interface';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const createRegex = (value: string) => new RegExp(escapeRegExp(value.trim()), 'i');
+const createExactRegex = (value: string) => new RegExp(`^${escapeRegExp(value.trim())}$`, 'i');
+
+const buildDateRange = (from?: Date | null, to?: Date | null) => {
+  const range: { $gte?: Date; $lte?: Date } = {};
+  if (from) range.$gte = from;
+  if (to) range.$lte = to;
+  return Object.keys(range).length > 0 ? range : null;
+};
+
+const hasActivityRules = (rules: ContactListRules) => (
+  (rules.hasOpenDeals !== null && rules.hasOpenDeals !== undefined)
+  || Boolean(rules.lastConversationFrom || rules.lastConversationTo)
+);
+
+const buildContactFieldConditions = (rules: ContactListRules) => {
+  const conditions: FilterQuery<IContact>[] = [];
+
+  if (rules.statuses?.length) {
+    conditions.push({ status: { $in: rules.statuses } });
+  }
+  if (rules.leadSources?.length) {
+    conditions.push({ leadSource: { $in: rules.leadSources } });
+  }
+  if (rules.tags?.length) {
+    const tagRegexes = rules.tags.map(createExactRegex);
+    conditions.push({ tags: rules.tagsMatch === 'all' ? { $all: tagRegexes } : { $in: tagRegexes } });
+  }
+  if (rules.companyName) {
+    conditions.push({ companyName: createRegex(rules.companyName) });
+  }
+  if (rules.city) {
+    conditions.push({ 'address.city': createExactRegex(rules.city) });
+  }
+  if (rules.country) {
+    conditions.push({ 'address.country': createExactRegex(rules.country) });
+  }
+
+  const createdRange = buildDateRange(rules.createdFrom, rules.createdTo);
+  if (createdRange) {
+    conditions.push({ createdAt: createdRange } as FilterQuery<IContact>);
+  }
+
+  return conditions;
+};
+
+// Deal and conversation rules cannot be expressed on the contact document itself, so they are
+// resolved against the contacts that already pass the field rules and folded back in as an id list.
+const resolveActivityContactIds = async (baseFilter: FilterQuery<IContact>, rules: ContactListRules) => {
+  let candidateIds = (await Contact.distinct('_id', baseFilter)) as Types.ObjectId[];
+
+  if (rules.hasOpenDeals !== null && rules.hasOpenDeals !== undefined && candidateIds.length > 0) {
+    const withOpenDeals = (await Deal.distinct('contactId', {
+      contactId: { $in: candidateIds },
+      status: 'open',
+      deletedAt: null,
+    })) as Types.ObjectId[];
+    const openDealIds = new Set(withOpenDeals.map((id) => String(id)));
+    candidateIds = candidateIds.filter((id) => openDealIds.has(String(id)) === rules.hasOpenDeals);
+  }
+
+  const conversationRange = buildDateRange(rules.lastConversationFrom, rules.lastConversationTo);
+  if (conversationRange && candidateIds.length > 0) {
+    const lastConversations = await Conversation.aggregate<{ _id: Types.ObjectId; lastAt: Date }>([
+      { $match: { contactId: { $in: candidateIds }, deletedAt: null } },
+      { $group: { _id: '$contactId', lastAt: { $max: { $ifNull: ['$sentAt', '$createdAt'] } } } },
+      { $match: { lastAt: conversationRange } },
+    ]);
+    const matchingIds = new Set(lastConversations.map((entry) => String(entry._id)));
+    candidateIds = candidateIds.filter((id) => matchingIds.has(String(id)));
+  }
+
+  return candidateIds;
+};
+
+export const buildContactListRulesFilter = async (
+  ownerId: string,
+  rules: ContactListRules
+): Promise<FilterQuery<IContact>> => {
+  const conditions: FilterQuery<IContact>[] = [
+    { ownerId, deletedAt: null },
+    ...buildContactFieldConditions(rules),
+  ];
+  const baseFilter = conditions.length === 1 ? conditions[0] : { $and: conditions };
+
+  if (!hasActivityRules(rules)) {
+    return baseFilter;
+  }
+
+  const contactIds = await resolveActivityContactIds(baseFilter, rules);
+  return { ownerId, deletedAt: null, _id: { $in: contactIds } };
+};
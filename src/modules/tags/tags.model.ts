@@ -1,5 +1,6 @@
 import { Schema, model } from 'mongoose';
 import { ITag } from './tags.interface';
+import { auditPlugin } from '../audit/audit.plugin';
 
 const LENGTH = {
   name: 40,
@@ -20,4 +21,6 @@ const tagSchema = new Schema<ITag>({
 tagSchema.index({ ownerId: 1, name: 1 }, { unique: true });
 tagSchema.index({ ownerId: 1, deletedAt: 1, createdAt: -1 });
 
+tagSchema.plugin(auditPlugin, { resourceType: 'tag' });
+
 export const Tag = model<ITag>('Tag', tagSchema);
@@ -50,6 +50,7 @@ router.post('/', authenticate, authorize(TAG_ACCESS_ROLES), createTagHandler);
  *     tags:
  *       - Tags
  *     summary: List tags
+ *     description: Each tag includes `usageCount`, the number of your contacts carrying it.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -103,6 +104,7 @@ router.get('/:tagId', authenticate, authorize(TAG_ACCESS_ROLES), getTagByIdHandl
  *     tags:
  *       - Tags
  *     summary: Update tag
+ *     description: Renaming a tag renames it on every contact and dynamic smart list rule that uses it.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -142,6 +144,7 @@ router.put('/:tagId', authenticate, authorize(TAG_ACCESS_ROLES), updateTagHandle
  *     tags:
  *       - Tags
  *     summary: Delete tag
+ *     description: Also removes the tag from every contact and dynamic smart list rule that uses it.
  *     security:
  *       - bearerAuth: []
  *     parameters:
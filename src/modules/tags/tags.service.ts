@@ -1,4 +1,6 @@
-import { FilterQuery } from 'mongoose';
+import { FilterQuery, Types } from 'mongoose';
+import { Contact } from '../contacts/contact.model';
+import { ContactList } from '../smart-contacts/smartList.model';
 import { CreateTagInput, ITag, ListTagsQuery, UpdateTagInput } from './tags.interface';
 import { Tag } from './tags.model';
 
@@ -16,6 +18,117 @@ const TAG_FIELDS = [
 
 const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 const createRegex = (value: string) => new RegExp(escapeRegExp(value.trim()), 'i');
+const createExactRegex = (value: string) => new RegExp(`^${escapeRegExp(value.trim())}$`, 'i');
+
+const uniqueCaseInsensitive = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const countTagUsage = async (ownerId: string, names: string[]) => {
+  if (!names.length) return new Map<string, number>();
+
+  const usage = await Contact.aggregate<{ _id: string; count: number }>([
+    {
+      $match: {
+        ownerId: new Types.ObjectId(ownerId),
+        deletedAt: null,
+        tags: { $in: names.map(createExactRegex) },
+      },
+    },
+    { $unwind: '$tags' },
+    { $group: { _id: { $toLower: '$tags' }, count: { $sum: 1 } } },
+  ]);
+
+  return new Map(usage.map((entry) => [entry._id, entry.count]));
+};
+
+const withUsageCount = (tag: ITag, usage: Map<string, number>) => ({
+  ...tag.toObject(),
+  usageCount: usage.get(tag.name.toLowerCase()) ?? 0,
+});
+
+const propagateTagRename = async (ownerId: string, previousName: string, nextName: string) => {
+  const previousRegex = createExactRegex(previousName);
+
+  await Promise.all([
+    Contact.updateMany(
+      { ownerId, tags: previousRegex },
+      { $set: { 'tags.$[tag]': nextName } },
+      { arrayFilters: [{ tag: previousRegex }] }
+    ),
+    ContactList.updateMany(
+      { ownerId, 'rules.tags': previousRegex },
+      { $set: { 'rules.tags.$[tag]': nextName } },
+      { arrayFilters: [{ tag: previousRegex }] }
+    ),
+  ]);
+};
+
+const propagateTagDelete = async (ownerId: string, name: string) => {
+  const nameRegex = createExactRegex(name);
+
+  await Promise.all([
+    Contact.updateMany({ ownerId, tags: nameRegex }, { $pull: { tags: nameRegex } }),
+    ContactList.updateMany({ ownerId, 'rules.tags': nameRegex }, { $pull: { 'rules.tags': nameRegex } }),
+  ]);
+};
+
+/**
+ * Resolves free-text tag names from a contact payload to the owner's Tag documents.
+ * Known tags are returned with their canonical casing, deleted ones are restored and
+ * unknown ones are created, so `Contact.tags` only ever holds names of live tags.
+ */
+export const syncContactTags = async (ownerId: string, names: string[], userId: string) => {
+  const requested = uniqueCaseInsensitive(names.map((name) => name.trim()).filter((name) => name.length > 0));
+  if (!requested.length) return [];
+
+  const existing = await Tag.find({ ownerId, name: { $in: requested.map(createExactRegex) } })
+    .select('_id name deletedAt')
+    .sort({ deletedAt: 1 });
+
+  const byKey = new Map<string, ITag>();
+  existing.forEach((tag) => {
+    const key = tag.name.toLowerCase();
+    if (!byKey.has(key)) byKey.set(key, tag);
+  });
+
+  const restoreIds: unknown[] = [];
+  const missing: string[] = [];
+  const canonical = requested.map((name) => {
+    const tag = byKey.get(name.toLowerCase());
+    if (!tag) {
+      missing.push(name);
+      return name;
+    }
+    if (tag.deletedAt) restoreIds.push(tag._id);
+    return tag.name;
+  });
+
+  if (restoreIds.length > 0) {
+    await Tag.updateMany(
+      { _id: { $in: restoreIds } },
+      { deletedAt: null, deletedBy: null, updatedBy: userId }
+    );
+  }
+
+  if (missing.length > 0) {
+    // A concurrent save may have created the same tag; the unique index makes that a no-op.
+    await Tag.insertMany(
+      missing.map((name) => ({ ownerId, name, createdBy: userId })),
+      { ordered: false }
+    ).catch((error: { code?: number }) => {
+      if (error.code !== 11000) throw error;
+    });
+  }
+
+  return canonical;
+};
 
 const hasDuplicateName = async (ownerId: string, name: string, excludeId?: string) => {
   const exactNameRegex = new RegExp(`^${escapeRegExp(name.trim())}$`, 'i');
@@ -39,6 +152,23 @@ export const createTag = async (payload: CreateTagInput) => {
     return { status: 'duplicate_name' as const };
   }
 
+  // Tag names stay reserved by the unique index after a soft delete, so re-creating one revives it.
+  const deleted = await Tag.findOneAndUpdate(
+    { ownerId: payload.ownerId, name: createExactRegex(payload.name), deletedAt: { $ne: null } },
+    {
+      name: payload.name,
+      color: payload.color ?? null,
+      description: payload.description ?? null,
+      deletedAt: null,
+      deletedBy: null,
+      updatedBy: payload.createdBy,
+    },
+    { new: true }
+  );
+  if (deleted) {
+    return { status: 'ok' as const, tag: deleted };
+  }
+
   const tag = await Tag.create(payload);
   return { status: 'ok' as const, tag };
 };
@@ -69,9 +199,10 @@ export const listTags = async (ownerId: string, query: ListTagsQuery) => {
   ]);
 
   const totalPages = Math.ceil(total / query.limit);
+  const usage = await countTagUsage(ownerId, tags.map((tag) => tag.name));
 
   return {
-    tags,
+    tags: tags.map((tag) => withUsageCount(tag, usage)),
     pagination: {
       page: query.page,
       limit: query.limit,
@@ -90,10 +221,18 @@ export const getTagById = async (ownerId: string, tagId: string) => {
     deletedAt: null,
   }).select(TAG_FIELDS);
 
-  return tag;
+  if (!tag) return null;
+
+  const usage = await countTagUsage(ownerId, [tag.name]);
+  return withUsageCount(tag, usage);
 };
 
 export const updateTag = async (ownerId: string, tagId: string, updates: UpdateTagInput) => {
+  const current = await Tag.findOne({ _id: tagId, ownerId, deletedAt: null }).select('_id name');
+  if (!current) {
+    return { status: 'not_found' as const };
+  }
+
   if (updates.name !== undefined && await hasDuplicateName(ownerId, updates.name, tagId)) {
     return { status: 'duplicate_name' as const };
   }
@@ -112,6 +251,10 @@ export const updateTag = async (ownerId: string, tagId: string, updates: UpdateT
     return { status: 'not_found' as const };
   }
 
+  if (tag.name !== current.name) {
+    await propagateTagRename(ownerId, current.name, tag.name);
+  }
+
   return { status: 'ok' as const, tag };
 };
 
@@ -130,5 +273,9 @@ export const deleteTag = async (ownerId: string, tagId: string, deletedBy: strin
     { new: true }
   );
 
+  if (tag) {
+    await propagateTagDelete(ownerId, tag.name);
+  }
+
   return tag;
 };
@@ -2,10 +2,23 @@ import { Request, Response } from 'express';
 import { z, ZodError } from 'zod';
 import { sendError, sendResponse } from '../../../Utils/response';
 import { createTask, deleteTask, getTaskDetails, listTasks, updateTask } from './task.service';
+import {
+  addTaskChecklistItem,
+  listTaskChecklist,
+  removeTaskChecklistItem,
+  reorderTaskChecklist,
+  updateTaskChecklistItem,
+} from './taskChecklist.service';
+import { MAX_REMINDER_OFFSET_MINUTES } from './taskNotification.service';
 
 const LENGTH = {
   title: 150,
   description: 2000,
+  recurrenceIntervalMax: 99,
+  recurrenceCountMax: 500,
+  remindersMax: 5,
+  checklistItem: 300,
+  checklistMax: 100,
 } as const;
 
 const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
@@ -30,6 +43,31 @@ const optionalNullableStringSchema = z.preprocess(
   z.string().max(LENGTH.description).nullable()
 );
 
+const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  interval: z.number().int().min(1).max(LENGTH.recurrenceIntervalMax).optional(),
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(),
+  monthDay: z.number().int().min(1).max(31).nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  count: z.number().int().min(1).max(LENGTH.recurrenceCountMax).nullable().optional(),
+})
+  .refine((rule) => rule.frequency === 'weekly' || rule.weekdays === undefined, {
+    message: 'weekdays only apply to weekly recurrence',
+    path: ['weekdays'],
+  })
+  .refine((rule) => rule.frequency === 'monthly' || rule.frequency === 'yearly' || !rule.monthDay, {
+    message: 'monthDay only applies to monthly and yearly recurrence',
+    path: ['monthDay'],
+  })
+  .refine((rule) => !(rule.endDate && rule.count), {
+    message: 'Use either endDate or count, not both',
+    path: ['count'],
+  });
+
+const remindersSchema = z.array(z.number().int().min(0).max(MAX_REMINDER_OFFSET_MINUTES)).max(LENGTH.remindersMax);
+
+const checklistItemTextSchema = z.string().trim().min(1).max(LENGTH.checklistItem);
+
 const createTaskSchema = z.object({
   title: z.string().trim().min(1).max(LENGTH.title),
   description: optionalNullableStringSchema.optional(),
@@ -37,6 +75,15 @@ const createTaskSchema = z.object({
   priority: z.enum(['low', 'medium', 'high']).optional(),
   dueDate: z.coerce.date().nullable().optional(),
   assignedTo: optionalNullableObjectIdSchema.optional(),
+  contactId: optionalNullableObjectIdSchema.optional(),
+  dealId: optionalNullableObjectIdSchema.optional(),
+  recurrence: recurrenceSchema.nullable().optional(),
+  reminders: remindersSchema.optional(),
+  checklist: z.array(z.object({
+    text: checklistItemTextSchema,
+    done: z.boolean().optional(),
+  })).max(LENGTH.checklistMax).optional(),
+  parentTaskId: optionalNullableObjectIdSchema.optional(),
 });
 
 const updateTaskSchema = z.object({
@@ -46,10 +93,25 @@ const updateTaskSchema = z.object({
   priority: z.enum(['low', 'medium', 'high']).optional(),
   dueDate: z.coerce.date().nullable().optional(),
   assignedTo: optionalNullableObjectIdSchema.optional(),
+  contactId: optionalNullableObjectIdSchema.optional(),
+  dealId: optionalNullableObjectIdSchema.optional(),
+  recurrence: recurrenceSchema.nullable().optional(),
+  reminders: remindersSchema.optional(),
+  scope: z.enum(['occurrence', 'future']).optional(),
+  parentTaskId: optionalNullableObjectIdSchema.optional(),
 }).refine((data) => Object.keys(data).length > 0, {
   message: 'At least one field is required',
 });
 
+const optionalObjectIdQuerySchema = z.preprocess(
+  (value) => {
+    if (typeof value !== 'string') return undefined;
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  },
+  objectIdSchema.optional()
+);
+
 const listTasksQuerySchema = z.object({
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(500).default(10),
@@ -77,14 +139,30 @@ const listTasksQuerySchema = z.object({
     },
     z.enum(['low', 'medium', 'high']).optional()
   ),
-  assignedTo: z.preprocess(
-    (value) => {
-      if (typeof value !== 'string') return undefined;
-      const trimmed = value.trim();
-      return trimmed.length > 0 ? trimmed : undefined;
-    },
-    objectIdSchema.optional()
-  ),
+  assignedTo: optionalObjectIdQuerySchema,
+  contactId: optionalObjectIdQuerySchema,
+  dealId: optionalObjectIdQuerySchema,
+  parentTaskId: optionalObjectIdQuerySchema,
+});
+
+const deleteTaskQuerySchema = z.object({
+  scope: z.enum(['occurrence', 'future']).optional(),
+});
+
+const addChecklistItemSchema = z.object({
+  text: checklistItemTextSchema,
+  position: z.number().int().min(0).optional(),
+});
+
+const updateChecklistItemSchema = z.object({
+  text: checklistItemTextSchema.optional(),
+  done: z.boolean().optional(),
+}).refine((data) => Object.keys(data).length > 0, {
+  message: 'At least one field is required',
+});
+
+const reorderChecklistSchema = z.object({
+  itemIds: z.array(objectIdSchema).max(LENGTH.checklistMax),
 });
 
 const getUserIdFromReq = (req: Request) => (req as any).user?.id as string | undefined;
@@ -110,10 +188,24 @@ export const createTaskHandler = async (req: Request, res: Response) => {
       priority: parsed.priority,
       dueDate: parsed.dueDate ?? null,
       assignedTo: parsed.assignedTo ?? null,
+      contactId: parsed.contactId ?? null,
+      dealId: parsed.dealId ?? null,
+      recurrence: parsed.recurrence ?? null,
+      reminders: parsed.reminders,
+      checklist: parsed.checklist,
+      parentTaskId: parsed.parentTaskId ?? null,
       createdBy: userId,
       updatedBy: userId,
     });
 
+    if (result.status === 'due_date_required') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Recurring tasks need a due date',
+      });
+    }
+
     if (result.status === 'assignee_not_found') {
       return sendError(res, {
         success: false,
@@ -122,6 +214,38 @@ export const createTaskHandler = async (req: Request, res: Response) => {
       });
     }
 
+    if (result.status === 'contact_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Contact not found for this user',
+      });
+    }
+
+    if (result.status === 'deal_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deal not found for this user',
+      });
+    }
+
+    if (result.status === 'parent_task_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Parent task not found',
+      });
+    }
+
+    if (result.status === 'invalid_parent_task') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Subtasks cannot have subtasks of their own',
+      });
+    }
+
     return sendResponse(res, {
       success: true,
       statusCode: 201,
@@ -210,6 +334,9 @@ export const listTasksHandler = async (req: Request, res: Response) => {
       status: getQueryValue(req.query.status),
       priority: getQueryValue(req.query.priority),
       assignedTo: getQueryValue(req.query.assignedTo),
+      contactId: getQueryValue(req.query.contactId),
+      dealId: getQueryValue(req.query.dealId),
+      parentTaskId: getQueryValue(req.query.parentTaskId),
     });
 
     const result = await listTasks(userId, query);
@@ -261,6 +388,12 @@ export const updateTaskHandler = async (req: Request, res: Response) => {
       priority: parsed.priority,
       dueDate: parsed.dueDate,
       assignedTo: parsed.assignedTo,
+      contactId: parsed.contactId,
+      dealId: parsed.dealId,
+      recurrence: parsed.recurrence,
+      reminders: parsed.reminders,
+      scope: parsed.scope,
+      parentTaskId: parsed.parentTaskId,
       updatedBy: userId,
     });
 
@@ -272,6 +405,14 @@ export const updateTaskHandler = async (req: Request, res: Response) => {
       });
     }
 
+    if (result.status === 'due_date_required') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Recurring tasks need a due date',
+      });
+    }
+
     if (result.status === 'assignee_not_found') {
       return sendError(res, {
         success: false,
@@ -280,6 +421,38 @@ export const updateTaskHandler = async (req: Request, res: Response) => {
       });
     }
 
+    if (result.status === 'contact_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Contact not found for this user',
+      });
+    }
+
+    if (result.status === 'deal_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deal not found for this user',
+      });
+    }
+
+    if (result.status === 'parent_task_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Parent task not found',
+      });
+    }
+
+    if (result.status === 'invalid_parent_task') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Subtasks cannot have subtasks of their own',
+      });
+    }
+
     return sendResponse(res, {
       success: true,
       statusCode: 200,
@@ -316,7 +489,8 @@ export const deleteTaskHandler = async (req: Request, res: Response) => {
     }
 
     const taskId = objectIdSchema.parse(req.params.taskId);
-    const result = await deleteTask(userId, taskId, userId);
+    const { scope } = deleteTaskQuerySchema.parse({ scope: getQueryValue(req.query.scope) });
+    const result = await deleteTask(userId, taskId, userId, scope);
 
     if (result.status === 'task_not_found') {
       return sendError(res, {
@@ -349,3 +523,271 @@ export const deleteTaskHandler = async (req: Request, res: Response) => {
     });
   }
 };
+
+export const listTaskChecklistHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const taskId = objectIdSchema.parse(req.params.taskId);
+    const result = await listTaskChecklist(userId, taskId);
+
+    if (result.status === 'task_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Task not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Task checklist fetched successfully',
+      data: result.checklist,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch task checklist',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const addTaskChecklistItemHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const taskId = objectIdSchema.parse(req.params.taskId);
+    const parsed = addChecklistItemSchema.parse(req.body);
+    const result = await addTaskChecklistItem({
+      ownerId: userId,
+      taskId,
+      text: parsed.text,
+      position: parsed.position,
+      updatedBy: userId,
+    });
+
+    if (result.status === 'task_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Task not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 201,
+      message: 'Checklist item added successfully',
+      data: result.checklist,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to add checklist item',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const updateTaskChecklistItemHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const taskId = objectIdSchema.parse(req.params.taskId);
+    const itemId = objectIdSchema.parse(req.params.itemId);
+    const parsed = updateChecklistItemSchema.parse(req.body);
+    const result = await updateTaskChecklistItem({
+      ownerId: userId,
+      taskId,
+      itemId,
+      ...parsed,
+      updatedBy: userId,
+    });
+
+    if (result.status === 'task_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Task not found',
+      });
+    }
+    if (result.status === 'checklist_item_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Checklist item not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Checklist item updated successfully',
+      data: result.checklist,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to update checklist item',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const removeTaskChecklistItemHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const taskId = objectIdSchema.parse(req.params.taskId);
+    const itemId = objectIdSchema.parse(req.params.itemId);
+    const result = await removeTaskChecklistItem(userId, taskId, itemId, userId);
+
+    if (result.status === 'task_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Task not found',
+      });
+    }
+    if (result.status === 'checklist_item_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Checklist item not found',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Checklist item removed successfully',
+      data: result.checklist,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to remove checklist item',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const reorderTaskChecklistHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const taskId = objectIdSchema.parse(req.params.taskId);
+    const parsed = reorderChecklistSchema.parse(req.body);
+    const result = await reorderTaskChecklist(userId, taskId, parsed.itemIds, userId);
+
+    if (result.status === 'task_not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Task not found',
+      });
+    }
+    if (result.status === 'invalid_order') {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'itemIds must list every checklist item exactly once',
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Task checklist reordered successfully',
+      data: result.checklist,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to reorder task checklist',
+      details: (error as Error).message,
+    });
+  }
+};
@@ -2,6 +2,40 @@ import { Document, Types } from 'mongoose';
 
 export type TaskStatus = 'todo' | 'in_progress' | 'done';
 export type TaskPriority = 'low' | 'medium' | 'high';
+export type TaskRecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type TaskEditScope = 'occurrence' | 'future';
+
+/**
+ * When a recurring task repeats. `interval` counts days, weeks, months or years; weekdays are
+ * 0 (Sunday) to 6. Monthly and yearly series fall on `monthDay`, clamped to shorter months, and
+ * yearly ones in `month` (1-12). A series ends after `endDate` or `count` occurrences.
+ */
+export interface ITaskRecurrence {
+  frequency: TaskRecurrenceFrequency;
+  interval: number;
+  weekdays: number[];
+  monthDay?: number | null;
+  month?: number | null;
+  endDate?: Date | null;
+  count?: number | null;
+}
+
+export type TaskRecurrenceInput = {
+  frequency: TaskRecurrenceFrequency;
+  interval?: number;
+  weekdays?: number[];
+  monthDay?: number | null;
+  endDate?: Date | null;
+  count?: number | null;
+};
+
+export interface ITaskChecklistItem {
+  _id: Types.ObjectId;
+  text: string;
+  done: boolean;
+  doneBy?: Types.ObjectId | null;
+  doneAt?: Date | null;
+}
 
 export interface ITask extends Document {
   ownerId: Types.ObjectId;
@@ -11,12 +45,60 @@ export interface ITask extends Document {
   priority: TaskPriority;
   dueDate?: Date | null;
   assignedTo?: Types.ObjectId | null;
+  contactId?: Types.ObjectId | null;
+  dealId?: Types.ObjectId | null;
+  seriesId?: Types.ObjectId | null;
+  occurrenceIndex?: number | null;
+  reminders: number[];
+  checklist: ITaskChecklistItem[];
+  parentTaskId?: Types.ObjectId | null;
   createdBy: Types.ObjectId;
   updatedBy?: Types.ObjectId | null;
   deletedAt?: Date | null;
   deletedBy?: Types.ObjectId | null;
 }
 
+/**
+ * The rule and template of a recurring task. Each occurrence is a task of its own; `lastDueDate`
+ * is the due date of the latest one and `startDate` anchors the time of day and weekly intervals.
+ */
+export interface ITaskSeries extends Document {
+  ownerId: Types.ObjectId;
+  title: string;
+  description?: string | null;
+  priority: TaskPriority;
+  assignedTo?: Types.ObjectId | null;
+  contactId?: Types.ObjectId | null;
+  dealId?: Types.ObjectId | null;
+  reminders: number[];
+  checklist: string[];
+  recurrence: ITaskRecurrence;
+  startDate: Date;
+  lastDueDate: Date;
+  occurrenceCount: number;
+  isActive: boolean;
+  endedAt?: Date | null;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId | null;
+}
+
+/** A reminder sent for a task, keyed by the due date it was sent for so a rescheduled task is reminded again. */
+export interface ITaskReminderDelivery extends Document {
+  taskId: Types.ObjectId;
+  offsetMinutes: number;
+  dueDate: Date;
+  recipientId: Types.ObjectId;
+  sentAt: Date;
+}
+
+/** The daily digest sent to a user, one per local calendar day (`YYYY-MM-DD`). */
+export interface ITaskDigestDelivery extends Document {
+  userId: Types.ObjectId;
+  date: string;
+  taskCount: number;
+  sentAt: Date;
+}
+
 export type CreateTaskInput = {
   ownerId: string;
   title: string;
@@ -25,6 +107,12 @@ export type CreateTaskInput = {
   priority?: TaskPriority;
   dueDate?: Date | null;
   assignedTo?: string | null;
+  contactId?: string | null;
+  dealId?: string | null;
+  recurrence?: TaskRecurrenceInput | null;
+  reminders?: number[];
+  checklist?: Array<{ text: string; done?: boolean }>;
+  parentTaskId?: string | null;
   createdBy: string;
   updatedBy?: string | null;
 };
@@ -38,6 +126,12 @@ export type UpdateTaskInput = {
   priority?: TaskPriority;
   dueDate?: Date | null;
   assignedTo?: string | null;
+  contactId?: string | null;
+  dealId?: string | null;
+  recurrence?: TaskRecurrenceInput | null;
+  reminders?: number[];
+  parentTaskId?: string | null;
+  scope?: TaskEditScope;
   updatedBy: string;
 };
 
@@ -48,4 +142,29 @@ export type ListTasksQuery = {
   status?: TaskStatus;
   priority?: TaskPriority;
   assignedTo?: string;
+  contactId?: string;
+  dealId?: string;
+  parentTaskId?: string;
+};
+
+export type AddTaskChecklistItemInput = {
+  ownerId: string;
+  taskId: string;
+  text: string;
+  position?: number;
+  updatedBy: string;
+};
+
+export type UpdateTaskChecklistItemInput = {
+  ownerId: string;
+  taskId: string;
+  itemId: string;
+  text?: string;
+  done?: boolean;
+  updatedBy: string;
+};
+
+export type LinkedTasksFilter = {
+  contactId?: string;
+  dealId?: string;
 };
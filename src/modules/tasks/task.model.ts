@@ -1,5 +1,16 @@
 import { Schema, model } from 'mongoose';
-import { ITask } from './task.interface';
+import { ITask, ITaskChecklistItem } from './task.interface';
+import { auditPlugin } from '../audit/audit.plugin';
+
+const checklistItemSchema = new Schema<ITaskChecklistItem>(
+  {
+    text: { type: String, required: true, trim: true, maxlength: 300 },
+    done: { type: Boolean, default: false },
+    doneBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    doneAt: { type: Date, default: null },
+  },
+  { _id: true, versionKey: false }
+);
 
 const taskSchema = new Schema<ITask>(
   {
@@ -10,6 +21,14 @@ const taskSchema = new Schema<ITask>(
     priority: { type: String, enum: ['low', 'medium', 'high'], default: 'medium', index: true },
     dueDate: { type: Date, default: null, index: true },
     assignedTo: { type: Schema.Types.ObjectId, ref: 'User', default: null, index: true },
+    contactId: { type: Schema.Types.ObjectId, ref: 'Contacts', default: null, index: true },
+    dealId: { type: Schema.Types.ObjectId, ref: 'Deals', default: null, index: true },
+    seriesId: { type: Schema.Types.ObjectId, ref: 'TaskSeries', default: null },
+    occurrenceIndex: { type: Number, default: null, min: 1 },
+    reminders: { type: [Number], default: [] },
+    // Ordered; items are moved by rewriting the array.
+    checklist: { type: [checklistItemSchema], default: [] },
+    parentTaskId: { type: Schema.Types.ObjectId, ref: 'Tasks', default: null, index: true },
     createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
     updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
     deletedAt: { type: Date, default: null, index: true },
@@ -21,5 +40,13 @@ const taskSchema = new Schema<ITask>(
 taskSchema.index({ ownerId: 1, status: 1, deletedAt: 1 });
 taskSchema.index({ ownerId: 1, priority: 1, deletedAt: 1 });
 taskSchema.index({ ownerId: 1, assignedTo: 1, deletedAt: 1 });
+taskSchema.index({ ownerId: 1, contactId: 1, deletedAt: 1 });
+taskSchema.index({ ownerId: 1, dealId: 1, deletedAt: 1 });
+taskSchema.index(
+  { seriesId: 1, occurrenceIndex: 1 },
+  { unique: true, partialFilterExpression: { seriesId: { $type: 'objectId' } } }
+);
+
+taskSchema.plugin(auditPlugin, { resourceType: 'task' });
 
 export const Task = model<ITask>('Tasks', taskSchema);
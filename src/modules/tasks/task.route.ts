@@ -1,16 +1,91 @@
 import { Router } from 'express';
 import { authenticate, authorize } from '../../middleware/authMiddlewares';
 import {
+  addTaskChecklistItemHandler,
   createTaskHandler,
   deleteTaskHandler,
   getTaskDetailsHandler,
+  listTaskChecklistHandler,
   listTasksHandler,
+  removeTaskChecklistItemHandler,
+  reorderTaskChecklistHandler,
+  updateTaskChecklistItemHandler,
   updateTaskHandler,
 } from './task.controller';
 
 const router = Router();
 const TASK_ACCESS_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TaskRecurrence:
+ *       type: object
+ *       description: >
+ *         Completing an occurrence, or its due date passing, creates the next one. Occurrences are due
+ *         at the first due date's time of day in the assignee's time zone (the owner's when unassigned).
+ *         Each starts with the latest occurrence's checklist items, unchecked.
+ *       required: [frequency]
+ *       properties:
+ *         frequency:
+ *           type: string
+ *           enum: [daily, weekly, monthly, yearly]
+ *         interval:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 99
+ *           default: 1
+ *           description: Repeat every N days, weeks, months or years
+ *         weekdays:
+ *           type: array
+ *           description: Weekly only; 0 is Sunday. Defaults to the due date's weekday.
+ *           items:
+ *             type: integer
+ *             minimum: 0
+ *             maximum: 6
+ *         monthDay:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 31
+ *           nullable: true
+ *           description: Monthly and yearly only; shorter months use their last day. Defaults to the due date's day.
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         count:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           nullable: true
+ *           description: Total number of occurrences; use either this or endDate
+ *     TaskProgress:
+ *       type: object
+ *       description: >
+ *         Checklist items and subtasks count alike towards `percent`. A task with neither is at 0%,
+ *         or 100% once done.
+ *       properties:
+ *         percent:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *         checklist:
+ *           type: object
+ *           properties:
+ *             done:
+ *               type: integer
+ *             total:
+ *               type: integer
+ *         subtasks:
+ *           type: object
+ *           properties:
+ *             done:
+ *               type: integer
+ *             total:
+ *               type: integer
+ */
+
 /**
  * @swagger
  * /api/tasks:
@@ -47,9 +122,57 @@ const TASK_ACCESS_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
  *               assignedTo:
  *                 type: string
  *                 nullable: true
+ *               contactId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: >
+ *                   Contact the task follows up on; must be one of your contacts. While the contact is
+ *                   deleted the task shows no contact, and recurring tasks create later occurrences
+ *                   without it; restoring the contact shows the link again.
+ *               dealId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: >
+ *                   Deal the task follows up on; must be one of your deals. Links to a deleted deal are
+ *                   hidden the same way as contact links.
+ *               reminders:
+ *                 type: array
+ *                 maxItems: 5
+ *                 description: >
+ *                   Minutes before the due date to email a reminder to the assignee (the owner when
+ *                   unassigned), e.g. [15, 1440]. Moving the due date re-arms them.
+ *                 items:
+ *                   type: integer
+ *                   minimum: 0
+ *                   maximum: 43200
+ *               recurrence:
+ *                 nullable: true
+ *                 description: Makes the task recurring; requires a due date
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/TaskRecurrence'
+ *               checklist:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   type: object
+ *                   required: [text]
+ *                   properties:
+ *                     text:
+ *                       type: string
+ *                       maxLength: 300
+ *                     done:
+ *                       type: boolean
+ *               parentTaskId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Makes the task a subtask; the parent cannot itself be a subtask
  *     responses:
  *       201:
  *         description: Task created successfully
+ *       400:
+ *         description: Validation failed, a recurring task without a due date, or a parent that is a subtask
+ *       404:
+ *         description: Assigned user, contact, deal or parent task not found
  */
 router.post('/', authenticate, authorize(TASK_ACCESS_ROLES), createTaskHandler);
 
@@ -91,9 +214,24 @@ router.post('/', authenticate, authorize(TASK_ACCESS_ROLES), createTaskHandler);
  *         name: assignedTo
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: contactId
+ *         description: Tasks linked to this contact; none while the contact is deleted
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: dealId
+ *         description: Tasks linked to this deal; none while the deal is deleted
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: parentTaskId
+ *         description: Only the subtasks of this task
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
- *         description: Tasks fetched successfully
+ *         description: Tasks fetched successfully; each task includes its `progress` (see TaskProgress)
  */
 router.get('/', authenticate, authorize(TASK_ACCESS_ROLES), listTasksHandler);
 
@@ -114,7 +252,9 @@ router.get('/', authenticate, authorize(TASK_ACCESS_ROLES), listTasksHandler);
  *           type: string
  *     responses:
  *       200:
- *         description: Task fetched successfully
+ *         description: >
+ *           Task fetched successfully, with its checklist, `progress` (see TaskProgress) and
+ *           `subtasks`, each with its own progress
  *       404:
  *         description: Task not found
  */
@@ -160,14 +300,224 @@ router.get('/:taskId', authenticate, authorize(TASK_ACCESS_ROLES), getTaskDetail
  *               assignedTo:
  *                 type: string
  *                 nullable: true
+ *               contactId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: >
+ *                   Contact the task follows up on; must be one of your contacts. While the contact is
+ *                   deleted the task shows no contact, and recurring tasks create later occurrences
+ *                   without it; restoring the contact shows the link again.
+ *               dealId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: >
+ *                   Deal the task follows up on; must be one of your deals. Links to a deleted deal are
+ *                   hidden the same way as contact links.
+ *               reminders:
+ *                 type: array
+ *                 maxItems: 5
+ *                 description: >
+ *                   Minutes before the due date to email a reminder to the assignee (the owner when
+ *                   unassigned), e.g. [15, 1440]. Moving the due date re-arms them.
+ *                 items:
+ *                   type: integer
+ *                   minimum: 0
+ *                   maximum: 43200
+ *               recurrence:
+ *                 nullable: true
+ *                 description: >
+ *                   A new rule for this and future occurrences; null stops the series after this task.
+ *                   Makes a one-off task recurring.
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/TaskRecurrence'
+ *               scope:
+ *                 type: string
+ *                 enum: [occurrence, future]
+ *                 default: occurrence
+ *                 description: >
+ *                   For recurring tasks, `future` also applies title, description, priority, assignee,
+ *                   links and reminders to the later open occurrences and the ones still to be created, and makes a new
+ *                   due date the series' time of day.
+ *               parentTaskId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: >
+ *                   Moves the task under another task, or out of it with null. A task with subtasks
+ *                   cannot become a subtask.
  *     responses:
  *       200:
- *         description: Task updated successfully
+ *         description: >
+ *           Task updated successfully. When the team enables `autoCompleteParentTasks`, completing
+ *           the last open subtask, or moving it to another parent, also completes its parent.
+ *       400:
+ *         description: Validation failed, a recurring task without a due date, or an invalid parent task
  *       404:
- *         description: Task not found
+ *         description: Task, assigned user, contact, deal or parent task not found
  */
 router.put('/:taskId', authenticate, authorize(TASK_ACCESS_ROLES), updateTaskHandler);
 
+/**
+ * @swagger
+ * /api/tasks/{taskId}/checklist:
+ *   get:
+ *     tags:
+ *       - Tasks
+ *     summary: Get a task's checklist
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The ordered checklist items and the task's progress
+ *       404:
+ *         description: Task not found
+ *   post:
+ *     tags:
+ *       - Tasks
+ *     summary: Add a checklist item
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [text]
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 maxLength: 300
+ *               position:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: Zero-based index to insert at; defaults to the end
+ *     responses:
+ *       201:
+ *         description: Checklist item added successfully
+ *       400:
+ *         description: Validation failed
+ *       404:
+ *         description: Task not found
+ */
+router.get('/:taskId/checklist', authenticate, authorize(TASK_ACCESS_ROLES), listTaskChecklistHandler);
+router.post('/:taskId/checklist', authenticate, authorize(TASK_ACCESS_ROLES), addTaskChecklistItemHandler);
+
+/**
+ * @swagger
+ * /api/tasks/{taskId}/checklist/order:
+ *   put:
+ *     tags:
+ *       - Tasks
+ *     summary: Reorder a task's checklist
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [itemIds]
+ *             properties:
+ *               itemIds:
+ *                 type: array
+ *                 description: Every checklist item id, once, in the new order
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Task checklist reordered successfully
+ *       400:
+ *         description: Validation failed, or itemIds do not match the checklist
+ *       404:
+ *         description: Task not found
+ */
+router.put('/:taskId/checklist/order', authenticate, authorize(TASK_ACCESS_ROLES), reorderTaskChecklistHandler);
+
+/**
+ * @swagger
+ * /api/tasks/{taskId}/checklist/{itemId}:
+ *   put:
+ *     tags:
+ *       - Tasks
+ *     summary: Update a checklist item
+ *     description: Checking an item records who checked it and when; unchecking clears both.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 maxLength: 300
+ *               done:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Checklist item updated successfully
+ *       400:
+ *         description: Validation failed
+ *       404:
+ *         description: Task or checklist item not found
+ *   delete:
+ *     tags:
+ *       - Tasks
+ *     summary: Remove a checklist item
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Checklist item removed successfully
+ *       404:
+ *         description: Task or checklist item not found
+ */
+router.put('/:taskId/checklist/:itemId', authenticate, authorize(TASK_ACCESS_ROLES), updateTaskChecklistItemHandler);
+router.delete('/:taskId/checklist/:itemId', authenticate, authorize(TASK_ACCESS_ROLES), removeTaskChecklistItemHandler);
+
 /**
  * @swagger
  * /api/tasks/{taskId}:
@@ -183,9 +533,20 @@ router.put('/:taskId', authenticate, authorize(TASK_ACCESS_ROLES), updateTaskHan
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: scope
+ *         description: >
+ *           For recurring tasks, `future` (the default) also ends the series and deletes its later
+ *           open occurrences; `occurrence` deletes only this task and keeps the series going.
+ *         schema:
+ *           type: string
+ *           enum: [occurrence, future]
+ *           default: future
  *     responses:
  *       200:
- *         description: Task deleted successfully
+ *         description: >
+ *           Task deleted successfully. When the team enables `autoCompleteParentTasks`, deleting the
+ *           last open subtask completes its parent if its other subtasks are done.
  *       404:
  *         description: Task not found
  */
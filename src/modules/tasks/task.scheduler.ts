@@ -0,0 +1,66 @@
+import { dispatchDueReminders, sendDueDigests } from './taskNotification.service';
+import { generateDueOccurrences } from './taskRecurrence.service';
+
+// Reminders run every minute so short offsets (e.g. 15 minutes before) go out on time.
+const REMINDER_INTERVAL_MS = 60 * 1000;
+const RECURRENCE_INTERVAL_MS = 15 * 60 * 1000;
+
+let reminderTimer: NodeJS.Timeout | null = null;
+let recurrenceTimer: NodeJS.Timeout | null = null;
+let reminderRunning = false;
+let recurrenceRunning = false;
+
+const runTaskReminders = async () => {
+  if (reminderRunning) return;
+  reminderRunning = true;
+
+  try {
+    const sent = await dispatchDueReminders();
+    if (sent > 0) {
+      console.log(`====> Task reminders sent ${sent} emails`);
+    }
+  } catch (error) {
+    console.error(`====> Task reminders failed: ${(error as Error).message}`);
+  } finally {
+    reminderRunning = false;
+  }
+};
+
+// Digests go out from the same run as recurrence, so a digest lists the occurrences due that day.
+const runTaskRecurrence = async () => {
+  if (recurrenceRunning) return;
+  recurrenceRunning = true;
+
+  try {
+    const generated = await generateDueOccurrences();
+    if (generated > 0) {
+      console.log(`====> Task recurrence generated ${generated} occurrences`);
+    }
+  } catch (error) {
+    console.error(`====> Task recurrence failed: ${(error as Error).message}`);
+  }
+
+  try {
+    const digests = await sendDueDigests();
+    if (digests > 0) {
+      console.log(`====> Task digests sent ${digests} emails`);
+    }
+  } catch (error) {
+    console.error(`====> Task digests failed: ${(error as Error).message}`);
+  } finally {
+    recurrenceRunning = false;
+  }
+};
+
+export const startTaskScheduler = () => {
+  if (reminderTimer || recurrenceTimer) return;
+
+  void runTaskRecurrence();
+  void runTaskReminders();
+  recurrenceTimer = setInterval(() => {
+    void runTaskRecurrence();
+  }, RECURRENCE_INTERVAL_MS);
+  reminderTimer = setInterval(() => {
+    void runTaskReminders();
+  }, REMINDER_INTERVAL_MS);
+};
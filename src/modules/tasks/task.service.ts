@@ -1,19 +1,62 @@
 import { FilterQuery } from 'mongoose';
+import { Contact } from '../contacts/contact.model';
+import { Deal } from '../deals/deal.model';
 import { User } from '../users/user.model';
-import { CreateTaskInput, ITask, ListTasksQuery, UpdateTaskInput } from './task.interface';
+import {
+  CreateTaskInput,
+  ITask,
+  LinkedTasksFilter,
+  ListTasksQuery,
+  TaskEditScope,
+  UpdateTaskInput,
+} from './task.interface';
 import { Task } from './task.model';
+import { normalizeReminderOffsets } from './taskNotification.service';
+import { attachTaskProgress, completeParentWhenSubtasksDone } from './taskProgress.service';
+import {
+  applyFutureOccurrenceChanges,
+  deleteFutureOccurrences,
+  handleOccurrenceCompleted,
+  startTaskSeries,
+  stopTaskSeries,
+  syncLatestOccurrenceDueDate,
+  updateTaskSeriesRule,
+} from './taskRecurrence.service';
 
 const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 const createRegex = (value: string) => new RegExp(escapeRegExp(value.trim()), 'i');
 
+const LINKED_TASKS_LIMIT = 50;
+
+const TASK_POPULATE = [
+  { path: 'ownerId', select: '_id fullName email' },
+  { path: 'assignedTo', select: '_id fullName email role' },
+  // Links to a deleted contact or deal read as empty until it is restored (or purged, which clears them).
+  { path: 'contactId', select: '_id firstName lastName emails', match: { deletedAt: null } },
+  { path: 'dealId', select: '_id title status amount currency', match: { deletedAt: null } },
+  { path: 'seriesId', select: '_id recurrence isActive occurrenceCount' },
+];
+
 const formatTaskResponse = (task: any) => {
   const taskObj = typeof task?.toObject === 'function' ? task.toObject() : task;
   const owner = taskObj?.ownerId && typeof taskObj.ownerId === 'object' ? taskObj.ownerId : null;
   const assignee = taskObj?.assignedTo && typeof taskObj.assignedTo === 'object' ? taskObj.assignedTo : null;
+  const contact = taskObj?.contactId && typeof taskObj.contactId === 'object' && 'firstName' in taskObj.contactId
+    ? taskObj.contactId
+    : null;
+  const deal = taskObj?.dealId && typeof taskObj.dealId === 'object' && 'title' in taskObj.dealId
+    ? taskObj.dealId
+    : null;
+  const series = taskObj?.seriesId && typeof taskObj.seriesId === 'object' && 'recurrence' in taskObj.seriesId
+    ? taskObj.seriesId
+    : null;
 
   const {
     ownerId: _ownerId,
     assignedTo: _assignedTo,
+    contactId: _contactId,
+    dealId: _dealId,
+    seriesId: _seriesId,
     ...rest
   } = taskObj;
 
@@ -38,6 +81,21 @@ const formatTaskResponse = (task: any) => {
       : taskObj.assignedTo
         ? { _id: taskObj.assignedTo, name: null, email: null, role: null }
         : null,
+    contact: contact
+      ? contact
+      : taskObj.contactId
+        ? { _id: taskObj.contactId }
+        : null,
+    deal: deal
+      ? deal
+      : taskObj.dealId
+        ? { _id: taskObj.dealId }
+        : null,
+    series: series
+      ? series
+      : taskObj.seriesId
+        ? { _id: taskObj.seriesId }
+        : null,
   };
 };
 
@@ -54,12 +112,85 @@ const validateAssignee = async (assigneeId?: string | null) => {
   return { status: 'ok' as const };
 };
 
+const validateContactOwnership = async (ownerId: string, contactId?: string | null) => {
+  if (!contactId) return true;
+  const contact = await Contact.findOne({ _id: contactId, ownerId, deletedAt: null }).select('_id');
+  return Boolean(contact);
+};
+
+const validateDealOwnership = async (ownerId: string, dealId?: string | null) => {
+  if (!dealId) return true;
+  const deal = await Deal.findOne({ _id: dealId, ownerId, deletedAt: null }).select('_id');
+  return Boolean(deal);
+};
+
+// Only the links given are checked, so an update leaves a link to a since-deleted record alone.
+const validateTaskLinks = async (ownerId: string, links: LinkedTasksFilter) => {
+  if (!(await validateContactOwnership(ownerId, links.contactId))) {
+    return { status: 'contact_not_found' as const };
+  }
+
+  if (!(await validateDealOwnership(ownerId, links.dealId))) {
+    return { status: 'deal_not_found' as const };
+  }
+
+  return { status: 'ok' as const };
+};
+
+// Subtasks are one level deep: a parent cannot itself be a subtask, nor a task with subtasks become one.
+const validateParentTask = async (ownerId: string, parentTaskId?: string | null, taskId?: string) => {
+  if (!parentTaskId) {
+    return { status: 'ok' as const };
+  }
+  if (parentTaskId === taskId) {
+    return { status: 'invalid_parent_task' as const };
+  }
+
+  const parent = await Task.findOne({ _id: parentTaskId, ownerId, deletedAt: null }).select('_id parentTaskId');
+  if (!parent) {
+    return { status: 'parent_task_not_found' as const };
+  }
+  if (parent.parentTaskId || (taskId && await Task.exists({ parentTaskId: taskId, deletedAt: null }))) {
+    return { status: 'invalid_parent_task' as const };
+  }
+
+  return { status: 'ok' as const };
+};
+
+const completeParentTask = async (ownerId: unknown, parentTaskId: unknown, updatedBy: string) => {
+  const parent = await completeParentWhenSubtasksDone(ownerId, parentTaskId, updatedBy);
+  if (parent?.seriesId) await handleOccurrenceCompleted(parent);
+};
+
+const handleTaskCompleted = async (task: ITask, updatedBy: string) => {
+  if (task.seriesId) await handleOccurrenceCompleted(task);
+  await completeParentTask(task.ownerId, task.parentTaskId, updatedBy);
+};
+
 export const createTask = async (payload: CreateTaskInput) => {
+  if (payload.recurrence && !payload.dueDate) {
+    return { status: 'due_date_required' as const };
+  }
+
   const assigneeCheck = await validateAssignee(payload.assignedTo);
   if (assigneeCheck.status !== 'ok') {
     return assigneeCheck;
   }
 
+  const linkCheck = await validateTaskLinks(payload.ownerId, {
+    contactId: payload.contactId ?? undefined,
+    dealId: payload.dealId ?? undefined,
+  });
+  if (linkCheck.status !== 'ok') {
+    return linkCheck;
+  }
+
+  const parentCheck = await validateParentTask(payload.ownerId, payload.parentTaskId);
+  if (parentCheck.status !== 'ok') {
+    return parentCheck;
+  }
+
+  const now = new Date();
   const task = await Task.create({
     ownerId: payload.ownerId,
     title: payload.title.trim(),
@@ -68,10 +199,28 @@ export const createTask = async (payload: CreateTaskInput) => {
     priority: payload.priority ?? 'medium',
     dueDate: payload.dueDate ?? null,
     assignedTo: payload.assignedTo ?? null,
+    contactId: payload.contactId ?? null,
+    dealId: payload.dealId ?? null,
+    reminders: normalizeReminderOffsets(payload.reminders ?? []),
+    checklist: (payload.checklist ?? []).map((item) => ({
+      text: item.text,
+      done: item.done ?? false,
+      doneBy: item.done ? payload.createdBy : null,
+      doneAt: item.done ? now : null,
+    })),
+    parentTaskId: payload.parentTaskId ?? null,
     createdBy: payload.createdBy,
     updatedBy: payload.updatedBy ?? payload.createdBy,
   });
 
+  if (payload.recurrence) {
+    await startTaskSeries(task, payload.recurrence, payload.createdBy);
+  }
+
+  if (task.status === 'done') {
+    await handleTaskCompleted(task, payload.createdBy);
+  }
+
   return { status: 'ok' as const, task };
 };
 
@@ -80,15 +229,24 @@ export const getTaskDetails = async (ownerId: string, taskId: string) => {
     _id: taskId,
     ownerId,
     deletedAt: null,
-  })
-    .populate({ path: 'ownerId', select: '_id fullName email' })
-    .populate({ path: 'assignedTo', select: '_id fullName email role' });
+  }).populate(TASK_POPULATE);
 
   if (!task) {
     return { status: 'task_not_found' as const };
   }
 
-  return { status: 'ok' as const, task: formatTaskResponse(task) };
+  const subtasks = await Task.find({ parentTaskId: task._id, deletedAt: null })
+    .sort({ createdAt: 1 })
+    .populate(TASK_POPULATE);
+  const [details] = await attachTaskProgress([formatTaskResponse(task)]);
+
+  return {
+    status: 'ok' as const,
+    task: {
+      ...details,
+      subtasks: await attachTaskProgress(subtasks.map((subtask) => formatTaskResponse(subtask))),
+    },
+  };
 };
 
 export const listTasks = async (ownerId: string, query: ListTasksQuery) => {
@@ -113,23 +271,38 @@ export const listTasks = async (ownerId: string, query: ListTasksQuery) => {
     conditions.push({ assignedTo: query.assignedTo });
   }
 
+  if (query.contactId) {
+    conditions.push({ contactId: query.contactId });
+  }
+
+  if (query.dealId) {
+    conditions.push({ dealId: query.dealId });
+  }
+
+  if (query.parentTaskId) {
+    conditions.push({ parentTaskId: query.parentTaskId });
+  }
+
   const filter = conditions.length === 1 ? conditions[0] : { $and: conditions };
   const skip = (query.page - 1) * query.limit;
 
-  const [tasks, total] = await Promise.all([
-    Task.find(filter)
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(query.limit)
-      .populate({ path: 'ownerId', select: '_id fullName email' })
-      .populate({ path: 'assignedTo', select: '_id fullName email role' }),
-    Task.countDocuments(filter),
-  ]);
+  // Filtering by a deleted contact or deal finds nothing, as its links are hidden.
+  const linkCheck = await validateTaskLinks(ownerId, { contactId: query.contactId, dealId: query.dealId });
+  const [tasks, total] = linkCheck.status !== 'ok'
+    ? [[], 0]
+    : await Promise.all([
+      Task.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(query.limit)
+        .populate(TASK_POPULATE),
+      Task.countDocuments(filter),
+    ]);
 
   const totalPages = Math.ceil(total / query.limit);
 
   return {
-    tasks: tasks.map((task) => formatTaskResponse(task)),
+    tasks: await attachTaskProgress(tasks.map((task) => formatTaskResponse(task))),
     pagination: {
       page: query.page,
       limit: query.limit,
@@ -157,20 +330,126 @@ export const updateTask = async (payload: UpdateTaskInput) => {
     return assigneeCheck;
   }
 
+  const linkCheck = await validateTaskLinks(payload.ownerId, {
+    contactId: payload.contactId ?? undefined,
+    dealId: payload.dealId ?? undefined,
+  });
+  if (linkCheck.status !== 'ok') {
+    return linkCheck;
+  }
+
+  const parentCheck = await validateParentTask(payload.ownerId, payload.parentTaskId, String(task._id));
+  if (parentCheck.status !== 'ok') {
+    return parentCheck;
+  }
+
+  const dueDate = payload.dueDate !== undefined ? payload.dueDate : task.dueDate;
+  if ((payload.recurrence || (task.seriesId && payload.recurrence !== null)) && !dueDate) {
+    return { status: 'due_date_required' as const };
+  }
+
+  const completed = payload.status === 'done' && task.status !== 'done';
+  const previousParentId = task.parentTaskId ? String(task.parentTaskId) : null;
+  const reparented = payload.parentTaskId !== undefined && (payload.parentTaskId ?? null) !== previousParentId;
+  const rescheduled = payload.dueDate !== undefined
+    && (payload.dueDate?.getTime() ?? null) !== (task.dueDate?.getTime() ?? null);
+
   if (payload.title !== undefined) task.title = payload.title.trim();
   if (payload.description !== undefined) task.description = payload.description;
   if (payload.status !== undefined) task.status = payload.status;
   if (payload.priority !== undefined) task.priority = payload.priority;
   if (payload.dueDate !== undefined) task.dueDate = payload.dueDate;
   if (payload.assignedTo !== undefined) task.assignedTo = payload.assignedTo as any;
+  if (payload.contactId !== undefined) task.contactId = payload.contactId as any;
+  if (payload.dealId !== undefined) task.dealId = payload.dealId as any;
+  if (payload.reminders !== undefined) task.reminders = normalizeReminderOffsets(payload.reminders);
+  if (payload.parentTaskId !== undefined) task.parentTaskId = payload.parentTaskId as any;
 
   task.updatedBy = payload.updatedBy as any;
   await task.save();
 
+  if (payload.recurrence === null && task.seriesId) {
+    await stopTaskSeries(task.seriesId, payload.updatedBy);
+  } else if (payload.recurrence && task.seriesId) {
+    await updateTaskSeriesRule(task, payload.recurrence, payload.updatedBy);
+  } else if (payload.recurrence) {
+    await startTaskSeries(task, payload.recurrence, payload.updatedBy);
+  }
+
+  if (task.seriesId) {
+    if (payload.scope === 'future') {
+      await applyFutureOccurrenceChanges(task, {
+        title: payload.title !== undefined ? task.title : undefined,
+        description: payload.description,
+        priority: payload.priority,
+        assignedTo: payload.assignedTo as any,
+        contactId: payload.contactId as any,
+        dealId: payload.dealId as any,
+        reminders: payload.reminders !== undefined ? task.reminders : undefined,
+      }, rescheduled, payload.updatedBy);
+    }
+    if (rescheduled) await syncLatestOccurrenceDueDate(task);
+  }
+
+  if (completed) {
+    await handleTaskCompleted(task, payload.updatedBy);
+  } else if (reparented && task.status === 'done') {
+    await completeParentTask(task.ownerId, task.parentTaskId, payload.updatedBy);
+  }
+  if (reparented) {
+    await completeParentTask(task.ownerId, previousParentId, payload.updatedBy);
+  }
+
   return { status: 'ok' as const, task };
 };
 
-export const deleteTask = async (ownerId: string, taskId: string, deletedBy: string) => {
+/**
+ * The owner's tasks linked to a contact or deal, for embedding in its detail response: open tasks
+ * by due date (undated ones last), then the most recently completed ones.
+ */
+export const listLinkedTasks = async (ownerId: string, filter: LinkedTasksFilter) => {
+  const scope = { ownerId, ...filter, deletedAt: null };
+  // Dated and undated open tasks are fetched apart, as MongoDB sorts missing due dates first.
+  const [datedTasks, undatedTasks, doneTasks] = await Promise.all([
+    Task.find({ ...scope, status: { $ne: 'done' }, dueDate: { $ne: null } })
+      .sort({ dueDate: 1, createdAt: -1 })
+      .limit(LINKED_TASKS_LIMIT)
+      .populate(TASK_POPULATE),
+    Task.find({ ...scope, status: { $ne: 'done' }, dueDate: null })
+      .sort({ createdAt: -1 })
+      .limit(LINKED_TASKS_LIMIT)
+      .populate(TASK_POPULATE),
+    Task.find({ ...scope, status: 'done' })
+      .sort({ updatedAt: -1 })
+      .limit(LINKED_TASKS_LIMIT)
+      .populate(TASK_POPULATE),
+  ]);
+
+  return [...datedTasks, ...undatedTasks, ...doneTasks]
+    .slice(0, LINKED_TASKS_LIMIT)
+    .map((task) => formatTaskResponse(task));
+};
+
+/**
+ * Deleting a recurring task ends its series and deletes its later open occurrences. With the
+ * `occurrence` scope only this task goes; when it was the latest occurrence, the next one is
+ * created right away so the series carries on.
+ */
+export const deleteTask = async (
+  ownerId: string,
+  taskId: string,
+  deletedBy: string,
+  scope: TaskEditScope = 'future'
+) => {
+  const existing = await Task.findOne({ _id: taskId, ownerId, deletedAt: null });
+  if (!existing) {
+    return { status: 'task_not_found' as const };
+  }
+
+  if (existing.seriesId && scope === 'occurrence') {
+    await handleOccurrenceCompleted(existing);
+  }
+
   const task = await Task.findOneAndUpdate(
     { _id: taskId, ownerId, deletedAt: null },
     {
@@ -185,5 +464,10 @@ export const deleteTask = async (ownerId: string, taskId: string, deletedBy: str
     return { status: 'task_not_found' as const };
   }
 
+  if (task.seriesId && scope === 'future') {
+    await deleteFutureOccurrences(task, deletedBy);
+  }
+  await completeParentTask(task.ownerId, task.parentTaskId, deletedBy);
+
   return { status: 'ok' as const, task };
 };
@@ -0,0 +1,106 @@
+import { AddTaskChecklistItemInput, ITask, ITaskChecklistItem, UpdateTaskChecklistItemInput } from './task.interface';
+import { Task } from './task.model';
+import { computeTaskProgress, getSubtaskCounts } from './taskProgress.service';
+import { syncLatestOccurrenceChecklist } from './taskRecurrence.service';
+
+const findTask = (ownerId: string, taskId: string) => Task.findOne({ _id: taskId, ownerId, deletedAt: null });
+
+const formatChecklist = async (task: ITask) => {
+  const subtaskCounts = await getSubtaskCounts([task._id]);
+  return {
+    taskId: task._id,
+    progress: computeTaskProgress(task, subtaskCounts.get(String(task._id))),
+    items: task.checklist,
+  };
+};
+
+export const listTaskChecklist = async (ownerId: string, taskId: string) => {
+  const task = await findTask(ownerId, taskId);
+  if (!task) {
+    return { status: 'task_not_found' as const };
+  }
+
+  return { status: 'ok' as const, checklist: await formatChecklist(task) };
+};
+
+/** Adds an item at the given position, or at the end of the checklist when none is given. */
+export const addTaskChecklistItem = async (payload: AddTaskChecklistItemInput) => {
+  const task = await findTask(payload.ownerId, payload.taskId);
+  if (!task) {
+    return { status: 'task_not_found' as const };
+  }
+
+  const position = Math.min(payload.position ?? task.checklist.length, task.checklist.length);
+  task.checklist.splice(position, 0, { text: payload.text, done: false } as ITaskChecklistItem);
+  task.updatedBy = payload.updatedBy as any;
+  await task.save();
+  await syncLatestOccurrenceChecklist(task);
+
+  return { status: 'ok' as const, checklist: await formatChecklist(task) };
+};
+
+export const updateTaskChecklistItem = async (payload: UpdateTaskChecklistItemInput) => {
+  const task = await findTask(payload.ownerId, payload.taskId);
+  if (!task) {
+    return { status: 'task_not_found' as const };
+  }
+
+  const item = task.checklist.find((checklistItem) => String(checklistItem._id) === payload.itemId);
+  if (!item) {
+    return { status: 'checklist_item_not_found' as const };
+  }
+
+  if (payload.text !== undefined) item.text = payload.text;
+  if (payload.done !== undefined && payload.done !== item.done) {
+    item.done = payload.done;
+    item.doneBy = payload.done ? (payload.updatedBy as any) : null;
+    item.doneAt = payload.done ? new Date() : null;
+  }
+
+  task.markModified('checklist');
+  task.updatedBy = payload.updatedBy as any;
+  await task.save();
+  if (payload.text !== undefined) await syncLatestOccurrenceChecklist(task);
+
+  return { status: 'ok' as const, checklist: await formatChecklist(task) };
+};
+
+export const removeTaskChecklistItem = async (ownerId: string, taskId: string, itemId: string, updatedBy: string) => {
+  const task = await findTask(ownerId, taskId);
+  if (!task) {
+    return { status: 'task_not_found' as const };
+  }
+
+  const remaining = task.checklist.filter((checklistItem) => String(checklistItem._id) !== itemId);
+  if (remaining.length === task.checklist.length) {
+    return { status: 'checklist_item_not_found' as const };
+  }
+
+  task.checklist = remaining;
+  task.updatedBy = updatedBy as any;
+  await task.save();
+  await syncLatestOccurrenceChecklist(task);
+
+  return { status: 'ok' as const, checklist: await formatChecklist(task) };
+};
+
+/** Reorders the checklist; `itemIds` must list every item exactly once. */
+export const reorderTaskChecklist = async (ownerId: string, taskId: string, itemIds: string[], updatedBy: string) => {
+  const task = await findTask(ownerId, taskId);
+  if (!task) {
+    return { status: 'task_not_found' as const };
+  }
+
+  const itemById = new Map(task.checklist.map((checklistItem) => [String(checklistItem._id), checklistItem]));
+  if (itemIds.length !== itemById.size || new Set(itemIds).size !== itemIds.length || itemIds.some((id) => !itemById.has(id))) {
+    return { status: 'invalid_order' as const };
+  }
+
+  task.checklist = itemIds.map((id) => itemById.get(id) as ITaskChecklistItem);
+  task.markModified('checklist');
+  task.updatedBy = updatedBy as any;
+  await task.save();
+  await syncLatestOccurrenceChecklist(task);
+
+  return { status: 'ok' as const, checklist: await formatChecklist(task) };
+};
@@ -0,0 +1,16 @@
+import { Schema, model } from 'mongoose';
+import { ITaskDigestDelivery } from './task.interface';
+
+const taskDigestDeliverySchema = new Schema<ITaskDigestDelivery>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    date: { type: String, required: true },
+    taskCount: { type: Number, default: 0 },
+    sentAt: { type: Date, required: true },
+  },
+  { versionKey: false }
+);
+
+taskDigestDeliverySchema.index({ userId: 1, date: 1 }, { unique: true });
+
+export const TaskDigestDelivery = model<ITaskDigestDelivery>('TaskDigestDelivery', taskDigestDeliverySchema);
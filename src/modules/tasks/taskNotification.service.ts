@@ -0,0 +1,174 @@
+import { Types } from 'mongoose';
+import { canSendEmail, sendTaskDigestEmail, sendTaskReminderEmail } from '../../config/email';
+import { User } from '../users/user.model';
+import { Task } from './task.model';
+import { TaskDigestDelivery } from './taskDigestDelivery.model';
+import { TaskReminderDelivery } from './taskReminderDelivery.model';
+import { getLocalDay, resolveUserTimeZone } from './taskTimeZone.service';
+
+export const MAX_REMINDER_OFFSET_MINUTES = 30 * 24 * 60;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_DIGEST_HOUR = 8;
+const DIGEST_TASK_LIMIT = 50;
+
+type NotifiedTask = {
+  _id: Types.ObjectId;
+  ownerId: Types.ObjectId;
+  assignedTo?: Types.ObjectId | null;
+  title: string;
+  priority: string;
+  dueDate: Date;
+  reminders: number[];
+};
+
+type Recipient = {
+  _id: Types.ObjectId;
+  fullName: string;
+  email: string;
+  timeZone?: string | null;
+};
+
+const isDuplicateKeyError = (error: unknown) => (error as { code?: number })?.code === 11000;
+
+/** Reminder offsets in minutes before the due date, without duplicates and furthest first. */
+export const normalizeReminderOffsets = (offsets: number[]) => Array.from(new Set(offsets)).sort((a, b) => b - a);
+
+export const getTaskDigestHour = () => {
+  const hour = Number(process.env.TASK_DIGEST_HOUR);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : DEFAULT_DIGEST_HOUR;
+};
+
+// Unassigned tasks notify their owner.
+const getRecipientId = (task: { ownerId: unknown; assignedTo?: unknown }) => String(task.assignedTo ?? task.ownerId);
+
+const loadRecipients = async (userIds: string[]) => {
+  const users = await User.find({ _id: { $in: userIds } }).select('_id fullName email timeZone').lean<Recipient[]>();
+  return new Map(users.map((user) => [String(user._id), user]));
+};
+
+/**
+ * Sends the reminders that have come due for open tasks. Reminders that came due together (a task
+ * created or moved close to its due date) go out as one email. A delivery record is written before
+ * sending, so neither a restart nor a second server instance sends the same reminder twice; it is
+ * removed again when sending fails, so the reminder is retried on the next run.
+ */
+export const dispatchDueReminders = async (now = new Date()) => {
+  if (!canSendEmail()) return 0;
+
+  const tasks = await Task.find({
+    deletedAt: null,
+    status: { $ne: 'done' },
+    'reminders.0': { $exists: true },
+    dueDate: { $gt: now, $lte: new Date(now.getTime() + MAX_REMINDER_OFFSET_MINUTES * MINUTE_MS) },
+    $expr: { $lte: ['$dueDate', { $add: [now, { $multiply: [{ $max: '$reminders' }, MINUTE_MS] }] }] },
+  })
+    .select('_id ownerId assignedTo title priority dueDate reminders')
+    .sort({ dueDate: 1 })
+    .lean<NotifiedTask[]>();
+  if (!tasks.length) return 0;
+
+  const deliveries = await TaskReminderDelivery.find({ taskId: { $in: tasks.map((task) => task._id) } })
+    .select('taskId offsetMinutes dueDate')
+    .lean();
+  const delivered = new Set(deliveries.map((delivery) => (
+    `${delivery.taskId}:${delivery.offsetMinutes}:${delivery.dueDate.getTime()}`
+  )));
+  const recipients = await loadRecipients(Array.from(new Set(tasks.map(getRecipientId))));
+
+  let sent = 0;
+  for (const task of tasks) {
+    const dueOffsets = task.reminders.filter((offset) => (
+      task.dueDate.getTime() - offset * MINUTE_MS <= now.getTime()
+      && !delivered.has(`${task._id}:${offset}:${task.dueDate.getTime()}`)
+    ));
+    const recipient = recipients.get(getRecipientId(task));
+    if (!dueOffsets.length || !recipient) continue;
+
+    const claims = dueOffsets.map((offsetMinutes) => ({
+      taskId: task._id,
+      offsetMinutes,
+      dueDate: task.dueDate,
+      recipientId: recipient._id,
+      sentAt: now,
+    }));
+    try {
+      await TaskReminderDelivery.insertMany(claims, { ordered: true });
+    } catch (error) {
+      if (isDuplicateKeyError(error)) continue;
+      throw error;
+    }
+
+    try {
+      await sendTaskReminderEmail(recipient.email, recipient.fullName, task, resolveUserTimeZone(recipient.timeZone));
+      sent += 1;
+    } catch (error) {
+      await TaskReminderDelivery.deleteMany({
+        taskId: task._id,
+        offsetMinutes: { $in: dueOffsets },
+        dueDate: task.dueDate,
+      });
+      console.error(`====> Task reminder for ${task._id} failed: ${(error as Error).message}`);
+    }
+  }
+
+  return sent;
+};
+
+/**
+ * Sends each user with open tasks that are overdue or due today a digest once a day, after
+ * `TASK_DIGEST_HOUR` (default 8) in their own time zone. Like reminders, the day's delivery is
+ * recorded before sending and cleared when sending fails.
+ */
+export const sendDueDigests = async (now = new Date()) => {
+  if (!canSendEmail()) return 0;
+
+  // Today ends less than two days from now in every time zone.
+  const recipientGroups = await Task.aggregate<{ _id: Types.ObjectId }>([
+    { $match: { deletedAt: null, status: { $ne: 'done' }, dueDate: { $ne: null, $lt: new Date(now.getTime() + 2 * DAY_MS) } } },
+    { $group: { _id: { $ifNull: ['$assignedTo', '$ownerId'] } } },
+  ]);
+  const recipients = await loadRecipients(recipientGroups.map((group) => String(group._id)));
+  const digestHour = getTaskDigestHour();
+
+  let sent = 0;
+  for (const recipient of recipients.values()) {
+    const timeZone = resolveUserTimeZone(recipient.timeZone);
+    const today = getLocalDay(now, timeZone);
+    if (today.hour < digestHour) continue;
+    if (await TaskDigestDelivery.exists({ userId: recipient._id, date: today.key })) continue;
+
+    const tasks = await Task.find({
+      deletedAt: null,
+      status: { $ne: 'done' },
+      dueDate: { $ne: null, $lt: today.end },
+      $or: [{ assignedTo: recipient._id }, { assignedTo: null, ownerId: recipient._id }],
+    })
+      .select('_id title priority dueDate')
+      .sort({ dueDate: 1 })
+      .limit(DIGEST_TASK_LIMIT)
+      .lean<Array<Pick<NotifiedTask, '_id' | 'title' | 'priority' | 'dueDate'>>>();
+    if (!tasks.length) continue;
+
+    try {
+      await TaskDigestDelivery.create({ userId: recipient._id, date: today.key, taskCount: tasks.length, sentAt: now });
+    } catch (error) {
+      if (isDuplicateKeyError(error)) continue;
+      throw error;
+    }
+
+    try {
+      await sendTaskDigestEmail(recipient.email, recipient.fullName, {
+        overdue: tasks.filter((task) => task.dueDate < now),
+        today: tasks.filter((task) => task.dueDate >= now),
+      }, timeZone);
+      sent += 1;
+    } catch (error) {
+      await TaskDigestDelivery.deleteOne({ userId: recipient._id, date: today.key });
+      console.error(`====> Task digest for ${recipient._id} failed: ${(error as Error).message}`);
+    }
+  }
+
+  return sent;
+};
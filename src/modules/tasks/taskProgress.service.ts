@@ -0,0 +1,91 @@
+import { Types } from 'mongoose';
+import { getOwnerTeamSettings } from '../team-settings/teamSettings.service';
+import { ITaskChecklistItem, TaskStatus } from './task.interface';
+import { Task } from './task.model';
+
+type SubtaskCounts = {
+  done: number;
+  total: number;
+};
+
+type ProgressSource = {
+  _id: unknown;
+  status: TaskStatus;
+  checklist?: ITaskChecklistItem[] | null;
+};
+
+const NO_SUBTASKS: SubtaskCounts = { done: 0, total: 0 };
+
+export const getSubtaskCounts = async (parentIds: unknown[]) => {
+  if (!parentIds.length) return new Map<string, SubtaskCounts>();
+
+  const groups = await Task.aggregate<{ _id: Types.ObjectId; done: number; total: number }>([
+    {
+      $match: {
+        parentTaskId: { $in: parentIds.map((id) => new Types.ObjectId(String(id))) },
+        deletedAt: null,
+      },
+    },
+    {
+      $group: {
+        _id: '$parentTaskId',
+        total: { $sum: 1 },
+        done: { $sum: { $cond: [{ $eq: ['$status', 'done'] }, 1, 0] } },
+      },
+    },
+  ]);
+
+  return new Map(groups.map((group) => [String(group._id), { done: group.done, total: group.total }]));
+};
+
+/**
+ * Checklist items and subtasks count alike towards a task's progress. A task with neither is at
+ * 0%, or 100% once done.
+ */
+export const computeTaskProgress = (task: ProgressSource, subtasks: SubtaskCounts = NO_SUBTASKS) => {
+  const checklist = task.checklist ?? [];
+  const checklistDone = checklist.filter((item) => item.done).length;
+  const total = checklist.length + subtasks.total;
+
+  return {
+    percent: total
+      ? Math.round(((checklistDone + subtasks.done) / total) * 100)
+      : task.status === 'done' ? 100 : 0,
+    checklist: { done: checklistDone, total: checklist.length },
+    subtasks,
+  };
+};
+
+export const attachTaskProgress = async <T extends ProgressSource>(tasks: T[]) => {
+  const subtaskCounts = await getSubtaskCounts(tasks.map((task) => task._id));
+  return tasks.map((task) => ({
+    ...task,
+    progress: computeTaskProgress(task, subtaskCounts.get(String(task._id))),
+  }));
+};
+
+/**
+ * Marks a parent task done once it has live subtasks and none of them are open, when the owner's
+ * team has `autoCompleteParentTasks` on. Checked whenever a subtask is completed, deleted or moved
+ * away. Returns the completed parent.
+ */
+export const completeParentWhenSubtasksDone = async (ownerId: unknown, parentTaskId: unknown, updatedBy: string) => {
+  if (!parentTaskId) return null;
+
+  const settings = await getOwnerTeamSettings(String(ownerId));
+  if (!settings.autoCompleteParentTasks) return null;
+
+  const [openSubtask, doneSubtask] = await Promise.all([
+    Task.exists({ parentTaskId, deletedAt: null, status: { $ne: 'done' } }),
+    Task.exists({ parentTaskId, deletedAt: null, status: 'done' }),
+  ]);
+  if (openSubtask || !doneSubtask) return null;
+
+  const parent = await Task.findOne({ _id: parentTaskId, deletedAt: null, status: { $ne: 'done' } });
+  if (!parent) return null;
+
+  parent.status = 'done';
+  parent.updatedBy = updatedBy as any;
+  await parent.save();
+  return parent;
+};
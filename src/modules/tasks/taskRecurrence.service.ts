@@ -0,0 +1,331 @@
+import { Types } from 'mongoose';
+import { Contact } from '../contacts/contact.model';
+import { Deal } from '../deals/deal.model';
+import { ITask, ITaskRecurrence, ITaskSeries, TaskRecurrenceInput } from './task.interface';
+import { Task } from './task.model';
+import { TaskSeries } from './taskSeries.model';
+import { fromLocalDateTime, LocalDate, resolveTaskTimeZone, toLocalDateTime } from './taskTimeZone.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GENERATION_BATCH_SIZE = 200;
+// Upper bound on occurrences skipped over while catching up with a long-overdue series.
+const MAX_SKIPPED_OCCURRENCES = 5000;
+
+// Template fields copied from a series onto the occurrences it generates.
+const SERIES_TEMPLATE_FIELDS = ['title', 'description', 'priority', 'assignedTo', 'contactId', 'dealId', 'reminders'] as const;
+
+const toDayNumber = (date: LocalDate) => Date.UTC(date.year, date.month - 1, date.day) / DAY_MS;
+
+const fromDayNumber = (dayNumber: number): LocalDate => {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const getDaysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// 1970-01-01 was a Thursday; weeks are counted from Monday.
+const getWeekday = (dayNumber: number) => (((dayNumber + 4) % 7) + 7) % 7;
+const getWeekIndex = (dayNumber: number) => Math.floor((dayNumber + 3) / 7);
+
+const addMonths = (date: LocalDate, months: number, monthDay: number): LocalDate => {
+  const total = date.year * 12 + (date.month - 1) + months;
+  const year = Math.floor(total / 12);
+  const month = (total % 12) + 1;
+  return { year, month, day: Math.min(monthDay, getDaysInMonth(year, month)) };
+};
+
+const getNextLocalDate = (recurrence: ITaskRecurrence, previous: LocalDate, anchor: LocalDate): LocalDate => {
+  const interval = recurrence.interval || 1;
+
+  if (recurrence.frequency === 'daily') {
+    return fromDayNumber(toDayNumber(previous) + interval);
+  }
+
+  if (recurrence.frequency === 'weekly') {
+    const previousDay = toDayNumber(previous);
+    const anchorWeek = getWeekIndex(toDayNumber(anchor));
+    for (let offset = 1; offset <= 7 * (interval + 1); offset += 1) {
+      const dayNumber = previousDay + offset;
+      if (
+        recurrence.weekdays.includes(getWeekday(dayNumber))
+        && (getWeekIndex(dayNumber) - anchorWeek) % interval === 0
+      ) {
+        return fromDayNumber(dayNumber);
+      }
+    }
+    return fromDayNumber(previousDay + 7 * interval);
+  }
+
+  if (recurrence.frequency === 'monthly') {
+    return addMonths(previous, interval, recurrence.monthDay ?? anchor.day);
+  }
+
+  const year = previous.year + interval;
+  const month = recurrence.month ?? anchor.month;
+  return { year, month, day: Math.min(recurrence.monthDay ?? anchor.day, getDaysInMonth(year, month)) };
+};
+
+/** Fills in the parts of a rule that default to the first occurrence's date in the given time zone. */
+export const resolveRecurrence = (input: TaskRecurrenceInput, startDate: Date, timeZone: string): ITaskRecurrence => {
+  const start = toLocalDateTime(startDate, timeZone);
+  const weekly = input.frequency === 'weekly';
+  const dated = input.frequency === 'monthly' || input.frequency === 'yearly';
+
+  return {
+    frequency: input.frequency,
+    interval: input.interval ?? 1,
+    weekdays: weekly
+      ? Array.from(new Set(input.weekdays?.length ? input.weekdays : [getWeekday(toDayNumber(start))])).sort((a, b) => a - b)
+      : [],
+    monthDay: dated ? input.monthDay ?? start.day : null,
+    month: input.frequency === 'yearly' ? start.month : null,
+    endDate: input.endDate ?? null,
+    count: input.count ?? null,
+  };
+};
+
+/**
+ * The due date of the occurrence after the series' latest one, at the start date's time of day.
+ * Occurrences already in the past are skipped rather than created overdue. Returns null once the
+ * series has ended.
+ */
+export const computeNextDueDate = (
+  series: Pick<ITaskSeries, 'recurrence' | 'startDate' | 'lastDueDate' | 'occurrenceCount'>,
+  timeZone: string,
+  now = new Date()
+) => {
+  const { recurrence } = series;
+  if (recurrence.count && series.occurrenceCount >= recurrence.count) return null;
+
+  const anchor = toLocalDateTime(series.startDate, timeZone);
+  let previous: LocalDate = toLocalDateTime(series.lastDueDate, timeZone);
+
+  for (let skipped = 0; skipped < MAX_SKIPPED_OCCURRENCES; skipped += 1) {
+    previous = getNextLocalDate(recurrence, previous, anchor);
+    const dueDate = fromLocalDateTime({ ...previous, hour: anchor.hour, minute: anchor.minute, second: anchor.second }, timeZone);
+
+    if (recurrence.endDate && dueDate > recurrence.endDate) return null;
+    if (dueDate > now) return dueDate;
+  }
+
+  return null;
+};
+
+const getChecklistTexts = (task: ITask) => (task.checklist ?? []).map((item) => item.text);
+
+const endSeries = async (seriesId: unknown) => {
+  await TaskSeries.updateOne({ _id: seriesId, isActive: true }, { isActive: false, endedAt: new Date() });
+};
+
+/** Turns a task into the first occurrence of a new series. */
+export const startTaskSeries = async (task: ITask, input: TaskRecurrenceInput, createdBy: string) => {
+  const startDate = task.dueDate as Date;
+  const timeZone = await resolveTaskTimeZone(task);
+
+  const series = await TaskSeries.create({
+    ownerId: task.ownerId,
+    title: task.title,
+    description: task.description ?? null,
+    priority: task.priority,
+    assignedTo: task.assignedTo ?? null,
+    contactId: task.contactId ?? null,
+    dealId: task.dealId ?? null,
+    reminders: task.reminders ?? [],
+    checklist: getChecklistTexts(task),
+    recurrence: resolveRecurrence(input, startDate, timeZone),
+    startDate,
+    lastDueDate: startDate,
+    occurrenceCount: 1,
+    createdBy,
+    updatedBy: createdBy,
+  });
+
+  task.seriesId = series._id as Types.ObjectId;
+  task.occurrenceIndex = 1;
+  await task.save();
+
+  return series;
+};
+
+/**
+ * Replaces the rule of a task's series from that task on: the task becomes the new anchor and,
+ * when it is not the latest occurrence, the occurrences generated after it keep their dates.
+ */
+export const updateTaskSeriesRule = async (task: ITask, input: TaskRecurrenceInput, updatedBy: string) => {
+  const series = await TaskSeries.findById(task.seriesId);
+  if (!series) {
+    return startTaskSeries(task, input, updatedBy);
+  }
+
+  const startDate = task.dueDate as Date;
+  const timeZone = await resolveTaskTimeZone(task);
+  series.recurrence = resolveRecurrence(input, startDate, timeZone);
+  series.startDate = startDate;
+  if (task.occurrenceIndex === series.occurrenceCount) {
+    series.lastDueDate = startDate;
+    series.checklist = getChecklistTexts(task);
+  }
+  series.isActive = true;
+  series.endedAt = null;
+  series.updatedBy = updatedBy as any;
+  await series.save();
+
+  return series;
+};
+
+export const stopTaskSeries = async (seriesId: unknown, updatedBy: string) => {
+  await TaskSeries.updateOne(
+    { _id: seriesId, isActive: true },
+    { isActive: false, endedAt: new Date(), updatedBy }
+  );
+};
+
+/** Ends the series at a deleted task: its later open occurrences are deleted along with it. */
+export const deleteFutureOccurrences = async (task: ITask, deletedBy: string) => {
+  await stopTaskSeries(task.seriesId, deletedBy);
+  await Task.updateMany(
+    {
+      seriesId: task.seriesId,
+      occurrenceIndex: { $gt: task.occurrenceIndex },
+      status: { $ne: 'done' },
+      deletedAt: null,
+    },
+    { deletedAt: new Date(), deletedBy, updatedBy: deletedBy }
+  );
+};
+
+/**
+ * Applies an "all future occurrences" edit: the changed template fields are saved on the series
+ * and copied onto the not yet completed occurrences after the edited one.
+ */
+export const applyFutureOccurrenceChanges = async (
+  task: ITask,
+  changes: Partial<Pick<ITask, (typeof SERIES_TEMPLATE_FIELDS)[number]>>,
+  rescheduled: boolean,
+  updatedBy: string
+) => {
+  const templateChanges = Object.fromEntries(
+    SERIES_TEMPLATE_FIELDS.filter((field) => changes[field] !== undefined).map((field) => [field, changes[field]])
+  );
+
+  await TaskSeries.updateOne(
+    { _id: task.seriesId },
+    {
+      ...templateChanges,
+      ...(rescheduled && task.dueDate ? { startDate: task.dueDate } : {}),
+      updatedBy,
+    }
+  );
+
+  if (!Object.keys(templateChanges).length) return;
+  await Task.updateMany(
+    {
+      seriesId: task.seriesId,
+      occurrenceIndex: { $gt: task.occurrenceIndex },
+      status: { $ne: 'done' },
+      deletedAt: null,
+    },
+    { ...templateChanges, updatedBy }
+  );
+};
+
+/** Carries checklist edits on the series' latest occurrence over to the occurrences still to be created. */
+export const syncLatestOccurrenceChecklist = async (task: ITask) => {
+  if (!task.seriesId) return;
+  await TaskSeries.updateOne(
+    { _id: task.seriesId, occurrenceCount: task.occurrenceIndex },
+    { checklist: getChecklistTexts(task) }
+  );
+};
+
+/** Keeps the series in step when its latest occurrence is moved to another date. */
+export const syncLatestOccurrenceDueDate = async (task: ITask) => {
+  if (!task.dueDate) return;
+  await TaskSeries.updateOne(
+    { _id: task.seriesId, occurrenceCount: task.occurrenceIndex },
+    { lastDueDate: task.dueDate }
+  );
+};
+
+/**
+ * Creates the series' next occurrence, or ends the series when there is none. The series is
+ * advanced with a compare-and-set on `occurrenceCount`, so the scheduler and a completed task
+ * racing for the same occurrence create it only once. A series whose latest occurrence was
+ * deleted is ended rather than continued.
+ */
+export const generateNextOccurrence = async (series: ITaskSeries) => {
+  if (!series.isActive) return null;
+
+  const latestDeleted = await Task.exists({
+    seriesId: series._id,
+    occurrenceIndex: series.occurrenceCount,
+    deletedAt: { $ne: null },
+  });
+  if (latestDeleted) {
+    await endSeries(series._id);
+    return null;
+  }
+
+  const timeZone = await resolveTaskTimeZone(series);
+  const dueDate = computeNextDueDate(series, timeZone);
+  if (!dueDate) {
+    await endSeries(series._id);
+    return null;
+  }
+
+  const claimed = await TaskSeries.findOneAndUpdate(
+    { _id: series._id, isActive: true, occurrenceCount: series.occurrenceCount },
+    { $inc: { occurrenceCount: 1 }, lastDueDate: dueDate },
+    { new: true }
+  );
+  if (!claimed) return null;
+
+  // New occurrences are not linked to a contact or deal that has been deleted since.
+  const [contactLive, dealLive] = await Promise.all([
+    claimed.contactId ? Contact.exists({ _id: claimed.contactId, deletedAt: null }) : null,
+    claimed.dealId ? Deal.exists({ _id: claimed.dealId, deletedAt: null }) : null,
+  ]);
+
+  const createdBy = claimed.updatedBy ?? claimed.createdBy;
+  return Task.create({
+    ownerId: claimed.ownerId,
+    title: claimed.title,
+    description: claimed.description ?? null,
+    status: 'todo',
+    priority: claimed.priority,
+    dueDate,
+    assignedTo: claimed.assignedTo ?? null,
+    contactId: contactLive ? claimed.contactId : null,
+    dealId: dealLive ? claimed.dealId : null,
+    reminders: claimed.reminders ?? [],
+    checklist: (claimed.checklist ?? []).map((text) => ({ text, done: false })),
+    seriesId: claimed._id,
+    occurrenceIndex: claimed.occurrenceCount,
+    createdBy,
+    updatedBy: createdBy,
+  });
+};
+
+/** Completing the latest occurrence of a series brings its next one forward. */
+export const handleOccurrenceCompleted = async (task: ITask) => {
+  const series = await TaskSeries.findOne({
+    _id: task.seriesId,
+    isActive: true,
+    occurrenceCount: task.occurrenceIndex,
+  });
+  if (!series) return null;
+  return generateNextOccurrence(series);
+};
+
+/** Generates the next occurrence of every active series whose latest occurrence is past due. */
+export const generateDueOccurrences = async () => {
+  const dueSeries = await TaskSeries.find({ isActive: true, lastDueDate: { $lte: new Date() } })
+    .sort({ lastDueDate: 1 })
+    .limit(GENERATION_BATCH_SIZE);
+
+  let generated = 0;
+  for (const series of dueSeries) {
+    if (await generateNextOccurrence(series)) generated += 1;
+  }
+  return generated;
+};
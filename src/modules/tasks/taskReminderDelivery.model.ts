@@ -0,0 +1,17 @@
+import { Schema, model } from 'mongoose';
+import { ITaskReminderDelivery } from './task.interface';
+
+const taskReminderDeliverySchema = new Schema<ITaskReminderDelivery>(
+  {
+    taskId: { type: Schema.Types.ObjectId, ref: 'Tasks', required: true },
+    offsetMinutes: { type: Number, required: true },
+    dueDate: { type: Date, required: true },
+    recipientId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    sentAt: { type: Date, required: true },
+  },
+  { versionKey: false }
+);
+
+taskReminderDeliverySchema.index({ taskId: 1, offsetMinutes: 1, dueDate: 1 }, { unique: true });
+
+export const TaskReminderDelivery = model<ITaskReminderDelivery>('TaskReminderDelivery', taskReminderDeliverySchema);
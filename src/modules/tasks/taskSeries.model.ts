@@ -0,0 +1,43 @@
+import { Schema, model } from 'mongoose';
+import { ITaskRecurrence, ITaskSeries } from './task.interface';
+
+const recurrenceSchema = new Schema<ITaskRecurrence>(
+  {
+    frequency: { type: String, enum: ['daily', 'weekly', 'monthly', 'yearly'], required: true },
+    interval: { type: Number, default: 1, min: 1 },
+    weekdays: { type: [Number], default: [] },
+    monthDay: { type: Number, default: null, min: 1, max: 31 },
+    month: { type: Number, default: null, min: 1, max: 12 },
+    endDate: { type: Date, default: null },
+    count: { type: Number, default: null, min: 1 },
+  },
+  { _id: false }
+);
+
+const taskSeriesSchema = new Schema<ITaskSeries>(
+  {
+    ownerId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    title: { type: String, required: true, trim: true, maxlength: 150 },
+    description: { type: String, default: null, maxlength: 2000 },
+    priority: { type: String, enum: ['low', 'medium', 'high'], default: 'medium' },
+    assignedTo: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    contactId: { type: Schema.Types.ObjectId, ref: 'Contacts', default: null, index: true },
+    dealId: { type: Schema.Types.ObjectId, ref: 'Deals', default: null, index: true },
+    reminders: { type: [Number], default: [] },
+    // Item texts; every occurrence starts with them unchecked.
+    checklist: { type: [String], default: [] },
+    recurrence: { type: recurrenceSchema, required: true },
+    startDate: { type: Date, required: true },
+    lastDueDate: { type: Date, required: true },
+    occurrenceCount: { type: Number, default: 1, min: 1 },
+    isActive: { type: Boolean, default: true },
+    endedAt: { type: Date, default: null },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true, versionKey: false }
+);
+
+taskSeriesSchema.index({ isActive: 1, lastDueDate: 1 });
+
+export const TaskSeries = model<ITaskSeries>('TaskSeries', taskSeriesSchema);
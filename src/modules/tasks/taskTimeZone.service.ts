@@ -0,0 +1,111 @@
+import { User } from '../users/user.model';
+
+const DEFAULT_TIME_ZONE = 'UTC';
+
+export type LocalDate = {
+  year: number;
+  month: number;
+  day: number;
+};
+
+export type LocalDateTime = LocalDate & {
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export const isValidTimeZone = (timeZone?: string | null): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const toLocalDateTime = (date: Date, timeZone: string): LocalDateTime => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date).map((part) => [part.type, Number(part.value)])
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+const getZoneOffset = (date: Date, timeZone: string) => {
+  const local = toLocalDateTime(date, timeZone);
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return localAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+export const fromLocalDateTime = (local: LocalDateTime, timeZone: string) => {
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  const guess = localAsUtc - getZoneOffset(new Date(localAsUtc), timeZone);
+  // Near a DST change the offset at the guess can differ from the one at the wall-clock time.
+  return new Date(localAsUtc - getZoneOffset(new Date(guess), timeZone));
+};
+
+export const resolveUserTimeZone = (timeZone?: string | null) => (
+  isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE
+);
+
+/** The local calendar day containing `date`: its `YYYY-MM-DD` key and its start and end instants. */
+export const getLocalDay = (date: Date, timeZone: string) => {
+  const local = toLocalDateTime(date, timeZone);
+  const next = new Date(Date.UTC(local.year, local.month - 1, local.day) + DAY_MS);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return {
+    key: `${local.year}-${pad(local.month)}-${pad(local.day)}`,
+    hour: local.hour,
+    start: fromLocalDateTime({ ...local, hour: 0, minute: 0, second: 0 }, timeZone),
+    end: fromLocalDateTime({
+      year: next.getUTCFullYear(),
+      month: next.getUTCMonth() + 1,
+      day: next.getUTCDate(),
+      hour: 0,
+      minute: 0,
+      second: 0,
+    }, timeZone),
+  };
+};
+
+/**
+ * Tasks are scheduled and notified in the time zone of the assignee, or of the owner for unassigned
+ * tasks, so a "9:00 every Monday" task stays at 9:00 local time across DST changes.
+ */
+export const resolveTaskTimeZone = async (task: { ownerId: unknown; assignedTo?: unknown }) => {
+  const userIds = [task.assignedTo, task.ownerId].filter(Boolean).map(String);
+  const users = await User.find({ _id: { $in: userIds } }).select('_id timeZone').lean();
+  const timeZoneByUser = new Map(users.map((user) => [String(user._id), user.timeZone]));
+
+  return resolveUserTimeZone(userIds.map((userId) => timeZoneByUser.get(userId)).find(isValidTimeZone));
+};
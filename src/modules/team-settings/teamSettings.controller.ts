@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { sendError, sendResponse } from '../../../Utils/response';
+import { getTeamSettings, updateTeamSettings } from './teamSettings.service';
+
+const TEAM_CURRENCIES = ['usd', 'eur', 'gbp', 'bdt'] as const;
+
+const updateTeamSettingsSchema = z.object({
+  baseCurrency: z.enum(TEAM_CURRENCIES).optional(),
+  autoCompleteParentTasks: z.boolean().optional(),
+}).refine((data) => Object.keys(data).length > 0, {
+  message: 'At least one field is required',
+});
+
+const getUserIdFromReq = (req: Request) => (req as any).user?.id as string | undefined;
+const getTeamIdFromReq = (req: Request) => (req as any).user?.teamId as number | null | undefined;
+
+const sendNoTeamError = (res: Response) => sendError(res, {
+  success: false,
+  statusCode: 403,
+  message: 'You are not part of a team',
+});
+
+export const getTeamSettingsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const teamId = getTeamIdFromReq(req);
+    const settings = await getTeamSettings(teamId === null || teamId === undefined ? null : Number(teamId));
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Team settings fetched successfully',
+      data: settings,
+    });
+  } catch (error) {
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch team settings',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const updateTeamSettingsHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    const teamId = getTeamIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+    if (teamId === null || teamId === undefined) {
+      return sendNoTeamError(res);
+    }
+
+    const parsed = updateTeamSettingsSchema.parse(req.body);
+    const settings = await updateTeamSettings(Number(teamId), { ...parsed, updatedBy: userId });
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Team settings updated successfully',
+      data: settings,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to update team settings',
+      details: (error as Error).message,
+    });
+  }
+};
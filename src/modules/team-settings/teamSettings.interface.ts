@@ -0,0 +1,16 @@
+import { Document, Types } from 'mongoose';
+import { BillingCurrency } from '../billing/package.interface';
+
+export interface ITeamSettings extends Document {
+  teamId: number;
+  baseCurrency: BillingCurrency;
+  autoCompleteParentTasks: boolean;
+  updatedBy?: Types.ObjectId | null;
+  updatedAt?: Date;
+}
+
+export type UpdateTeamSettingsInput = {
+  baseCurrency?: BillingCurrency;
+  autoCompleteParentTasks?: boolean;
+  updatedBy: string;
+};
@@ -0,0 +1,13 @@
+import { Schema, model } from 'mongoose';
+import { ITeamSettings } from './teamSettings.interface';
+
+const teamSettingsSchema = new Schema<ITeamSettings>({
+  teamId: { type: Number, required: true, unique: true },
+  // Currency every deal amount is converted to in reports; see exchangeRate.service.
+  baseCurrency: { type: String, enum: ['usd', 'eur', 'gbp', 'bdt'], default: 'usd' },
+  // Completes a task once all of its subtasks are done; see taskProgress.service.
+  autoCompleteParentTasks: { type: Boolean, default: false },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+}, { timestamps: true, versionKey: false });
+
+export const TeamSettings = model<ITeamSettings>('TeamSettings', teamSettingsSchema);
@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../../middleware/authMiddlewares';
+import { getTeamSettingsHandler, updateTeamSettingsHandler } from './teamSettings.controller';
+
+const router = Router();
+const TEAM_SETTINGS_READ_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
+const TEAM_SETTINGS_MANAGE_ROLES = ['OWNER', 'ADMIN'];
+
+/**
+ * @swagger
+ * /api/team-settings:
+ *   get:
+ *     tags:
+ *       - Team Settings
+ *     summary: Get your team's settings
+ *     description: Teams that never changed their settings, and users without a team, get the defaults.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Team settings fetched successfully
+ *   put:
+ *     tags:
+ *       - Team Settings
+ *     summary: Update your team's settings
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               baseCurrency:
+ *                 type: string
+ *                 enum: [usd, eur, gbp, bdt]
+ *                 description: >
+ *                   Currency deal amounts are converted to in the dashboard, forecast and other totals,
+ *                   and the default currency of new deals
+ *               autoCompleteParentTasks:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Mark a task done once all of its subtasks are done
+ *     responses:
+ *       200:
+ *         description: Team settings updated successfully
+ *       403:
+ *         description: You are not part of a team
+ */
+router.get('/', authenticate, authorize(TEAM_SETTINGS_READ_ROLES), getTeamSettingsHandler);
+router.put('/', authenticate, authorize(TEAM_SETTINGS_MANAGE_ROLES), updateTeamSettingsHandler);
+
+export default router;
@@ -0,0 +1,38 @@
+import { BillingCurrency } from '../billing/package.interface';
+import { User } from '../users/user.model';
+import { TeamSettings } from './teamSettings.model';
+import { UpdateTeamSettingsInput } from './teamSettings.interface';
+
+const DEFAULT_TEAM_SETTINGS = {
+  baseCurrency: 'usd' as BillingCurrency,
+  autoCompleteParentTasks: false,
+};
+
+// Teams that never saved their settings, and users without a team, get the defaults.
+export const getTeamSettings = async (teamId: number | null | undefined) => {
+  const settings = teamId === null || teamId === undefined
+    ? null
+    : await TeamSettings.findOne({ teamId }).lean();
+
+  return {
+    teamId: teamId ?? null,
+    baseCurrency: settings?.baseCurrency ?? DEFAULT_TEAM_SETTINGS.baseCurrency,
+    autoCompleteParentTasks: settings?.autoCompleteParentTasks ?? DEFAULT_TEAM_SETTINGS.autoCompleteParentTasks,
+    updatedBy: settings?.updatedBy ?? null,
+    updatedAt: settings?.updatedAt ?? null,
+  };
+};
+
+export const getOwnerTeamSettings = async (ownerId: string) => {
+  const owner = await User.findById(ownerId).select('teamId').lean();
+  return getTeamSettings(owner?.teamId);
+};
+
+export const updateTeamSettings = async (teamId: number, updates: UpdateTeamSettingsInput) => {
+  await TeamSettings.findOneAndUpdate(
+    { teamId },
+    { $set: updates },
+    { upsert: true, setDefaultsOnInsert: true }
+  );
+  return getTeamSettings(teamId);
+};
@@ -0,0 +1,194 @@
+import { Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { sendError, sendResponse } from '../../../Utils/response';
+import { User } from '../users/user.model';
+import { getTrashSummary, listTrash, restoreTrashItem } from './trash.service';
+import { TrashScope } from './trash.interface';
+
+const LENGTH = {
+  listSearch: 100,
+} as const;
+
+const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
+
+const trashResourceSchema = z.enum([
+  'companies',
+  'contacts',
+  'contact-notes',
+  'conversations',
+  'deals',
+  'pipelines',
+  'products',
+  'smart-lists',
+  'tags',
+  'tasks',
+]);
+
+const listTrashQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  search: z.preprocess(
+    (value) => {
+      if (typeof value !== 'string') return undefined;
+      const trimmed = value.trim();
+      return trimmed.length > 0 ? trimmed : undefined;
+    },
+    z.string().max(LENGTH.listSearch).optional()
+  ),
+});
+
+const getUserIdFromReq = (req: Request) => (req as any).user?.id as string | undefined;
+const getTeamIdFromReq = (req: Request) => (req as any).user?.teamId as number | null | undefined;
+const getUserRoleFromReq = (req: Request) => (req as any).user?.role as string | undefined;
+
+const getQueryValue = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const resolveDeleteOwnerIds = async (req: Request, userId: string): Promise<string[]> => {
+  const role = (getUserRoleFromReq(req) || '').toUpperCase();
+  if (role === 'MEMBER') return [userId];
+
+  const teamId = getTeamIdFromReq(req);
+  if (teamId === null || teamId === undefined) return [userId];
+
+  const teamUsers = await User.find({ teamId: Number(teamId) }).select('_id').lean();
+  if (!teamUsers.length) return [userId];
+
+  return teamUsers.map((user) => String(user._id));
+};
+
+const resolveTrashScope = async (req: Request, userId: string): Promise<TrashScope> => ({
+  userId,
+  deleteOwnerIds: await resolveDeleteOwnerIds(req, userId),
+});
+
+export const getTrashSummaryHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const data = await getTrashSummary(await resolveTrashScope(req, userId));
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Trash summary fetched successfully',
+      data,
+    });
+  } catch (error) {
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch trash summary',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const listTrashHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const resource = trashResourceSchema.parse(req.params.resource);
+    const query = listTrashQuerySchema.parse({
+      page: getQueryValue(req.query.page),
+      limit: getQueryValue(req.query.limit),
+      search: getQueryValue(req.query.search) ?? getQueryValue(req.query.q),
+    });
+
+    const data = await listTrash(resource, await resolveTrashScope(req, userId), query);
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Trash fetched successfully',
+      data,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to fetch trash',
+      details: (error as Error).message,
+    });
+  }
+};
+
+export const restoreTrashItemHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      return sendError(res, {
+        success: false,
+        statusCode: 401,
+        message: 'You have no access to this route',
+      });
+    }
+
+    const resource = trashResourceSchema.parse(req.params.resource);
+    const id = objectIdSchema.parse(req.params.id);
+
+    const result = await restoreTrashItem(resource, await resolveTrashScope(req, userId), id, userId);
+
+    if (result.status === 'not_found') {
+      return sendError(res, {
+        success: false,
+        statusCode: 404,
+        message: 'Deleted item not found',
+      });
+    }
+
+    if (result.status === 'conflict') {
+      return sendError(res, {
+        success: false,
+        statusCode: 409,
+        message: 'Item cannot be restored',
+        details: result.message,
+      });
+    }
+
+    return sendResponse(res, {
+      success: true,
+      statusCode: 200,
+      message: 'Item restored successfully',
+      data: result.item,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return sendError(res, {
+        success: false,
+        statusCode: 400,
+        message: 'Validation failed',
+        details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+      });
+    }
+
+    return sendError(res, {
+      success: false,
+      statusCode: 500,
+      message: 'Failed to restore item',
+      details: (error as Error).message,
+    });
+  }
+};
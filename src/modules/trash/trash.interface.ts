@@ -0,0 +1,28 @@
+export type TrashResourceType =
+  | 'companies'
+  | 'contacts'
+  | 'contact-notes'
+  | 'conversations'
+  | 'deals'
+  | 'pipelines'
+  | 'products'
+  | 'smart-lists'
+  | 'tags'
+  | 'tasks';
+
+/**
+ * `deleteOwnerIds` mirrors the scope of the company, contact and deal delete endpoints (the whole team for
+ * owners and admins, only themselves for members); every other resource stays scoped to `userId`.
+ */
+export type TrashScope = {
+  userId: string;
+  deleteOwnerIds: string[];
+};
+
+export type ListTrashQuery = {
+  page: number;
+  limit: number;
+  search?: string;
+};
+
+export type TrashPurgeResult = Record<TrashResourceType, number>;
@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../../middleware/authMiddlewares';
+import { getTrashSummaryHandler, listTrashHandler, restoreTrashItemHandler } from './trash.controller';
+
+const router = Router();
+const TRASH_ACCESS_ROLES = ['OWNER', 'ADMIN', 'MEMBER'];
+
+/**
+ * @swagger
+ * /api/trash:
+ *   get:
+ *     tags:
+ *       - Trash
+ *     summary: Count deleted items per resource type
+ *     description: Also returns the retention window after which deleted items are purged for good.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Trash summary fetched successfully
+ */
+router.get('/', authenticate, authorize(TRASH_ACCESS_ROLES), getTrashSummaryHandler);
+
+/**
+ * @swagger
+ * /api/trash/{resource}:
+ *   get:
+ *     tags:
+ *       - Trash
+ *     summary: List deleted items of one resource type
+ *     description: Newest deletions first, with who deleted each item and when it will be purged.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: resource
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [companies, contacts, contact-notes, conversations, deals, pipelines, products, smart-lists, tags, tasks]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Trash fetched successfully
+ */
+router.get('/:resource', authenticate, authorize(TRASH_ACCESS_ROLES), listTrashHandler);
+
+/**
+ * @swagger
+ * /api/trash/{resource}/{id}/restore:
+ *   post:
+ *     tags:
+ *       - Trash
+ *     summary: Restore a deleted item
+ *     description: >
+ *       Fails with 409 when restoring would break a uniqueness rule (e.g. a live tag or pipeline with the same name)
+ *       or when the item depends on something that is still deleted. Restoring a pipeline also restores the deals
+ *       that were deleted with it.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: resource
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [companies, contacts, contact-notes, conversations, deals, pipelines, products, smart-lists, tags, tasks]
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Item restored successfully
+ *       404:
+ *         description: Deleted item not found
+ *       409:
+ *         description: Item cannot be restored
+ */
+router.post('/:resource/:id/restore', authenticate, authorize(TRASH_ACCESS_ROLES), restoreTrashItemHandler);
+
+export default router;
@@ -0,0 +1,32 @@
+import { purgeExpiredTrash } from './trash.service';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | null = null;
+let purgeRunning = false;
+
+const runTrashPurge = async () => {
+  if (purgeRunning) return;
+  purgeRunning = true;
+
+  try {
+    const result = await purgeExpiredTrash();
+    const purged = Object.values(result).reduce((sum, count) => sum + count, 0);
+    if (purged > 0) {
+      console.log(`====> Trash purge removed ${purged} expired records`, result);
+    }
+  } catch (error) {
+    console.error(`====> Trash purge failed: ${(error as Error).message}`);
+  } finally {
+    purgeRunning = false;
+  }
+};
+
+export const startTrashPurgeScheduler = () => {
+  if (purgeTimer) return;
+
+  void runTrashPurge();
+  purgeTimer = setInterval(() => {
+    void runTrashPurge();
+  }, PURGE_INTERVAL_MS);
+};
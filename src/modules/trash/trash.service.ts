@@ -0,0 +1,413 @@
+import { Model, Types } from 'mongoose';
+import { Company } from '../companies/company.model';
+import { resolveOwnerTeamIds } from '../companies/company.service';
+import { Contact } from '../contacts/contact.model';
+import { ContactNote } from '../contacts/contactNote.model';
+import { Conversation } from '../conversations/conversation.model';
+import { Deal } from '../deals/deal.model';
+import { DealStageHistory } from '../deals/dealStageHistory.model';
+import { Pipeline } from '../deals/pipeline.model';
+import { Product } from '../products/product.model';
+import { ContactList } from '../smart-contacts/smartList.model';
+import { Tag } from '../tags/tags.model';
+import { Task } from '../tasks/task.model';
+import { TaskReminderDelivery } from '../tasks/taskReminderDelivery.model';
+import { TaskSeries } from '../tasks/taskSeries.model';
+import { ListTrashQuery, TrashPurgeResult, TrashResourceType, TrashScope } from './trash.interface';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_BATCH_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DELETED_BY_POPULATE = {
+  path: 'deletedBy',
+  select: '_id fullName email profilePhoto',
+};
+
+type RestoreCheckResult = { status: 'ok' } | { status: 'conflict'; message: string };
+
+type TrashResourceConfig = {
+  model: Model<any>;
+  teamScoped: boolean;
+  select: string;
+  searchFields: string[];
+  checkRestore?: (doc: any) => Promise<RestoreCheckResult>;
+  afterRestore?: (doc: any, restoredBy: string) => Promise<void>;
+  beforePurge?: (ids: Types.ObjectId[]) => Promise<void>;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const createRegex = (value: string) => new RegExp(escapeRegExp(value.trim()), 'i');
+const createExactRegex = (value: string) => new RegExp(`^${escapeRegExp(value.trim())}$`, 'i');
+
+const RESTORE_OK: RestoreCheckResult = { status: 'ok' };
+
+const requireLiveContact = async (contactId: unknown, label: string): Promise<RestoreCheckResult> => {
+  if (!contactId) return RESTORE_OK;
+
+  const contact = await Contact.exists({ _id: contactId, deletedAt: null });
+  return contact
+    ? RESTORE_OK
+    : { status: 'conflict', message: `The contact this ${label} belongs to is deleted; restore it first` };
+};
+
+const TRASH_RESOURCES: Record<TrashResourceType, TrashResourceConfig> = {
+  companies: {
+    model: Company,
+    teamScoped: true,
+    select: '_id ownerId name domain industry size deletedAt deletedBy',
+    searchFields: ['name', 'domain', 'industry'],
+    checkRestore: async (doc) => {
+      if (!doc.domain) return RESTORE_OK;
+
+      const duplicate = await Company.exists({
+        _id: { $ne: doc._id },
+        ownerId: { $in: await resolveOwnerTeamIds(String(doc.ownerId)) },
+        domain: doc.domain,
+        deletedAt: null,
+      });
+
+      return duplicate
+        ? { status: 'conflict', message: 'Another company already uses this domain' }
+        : RESTORE_OK;
+    },
+    beforePurge: async (ids) => {
+      await Promise.all([
+        Contact.updateMany({ companyId: { $in: ids } }, { companyId: null }),
+        Deal.updateMany({ companyId: { $in: ids } }, { companyId: null }),
+      ]);
+    },
+  },
+  contacts: {
+    model: Contact,
+    teamScoped: true,
+    select: '_id ownerId firstName lastName emails phones companyName deletedAt deletedBy',
+    searchFields: ['firstName', 'lastName', 'emails', 'phones', 'companyName'],
+    checkRestore: async (doc) => {
+      if (!doc.emails?.length) return RESTORE_OK;
+
+      const duplicate = await Contact.findOne({
+        _id: { $ne: doc._id },
+        ownerId: doc.ownerId,
+        deletedAt: null,
+        emails: { $in: doc.emails },
+      }).select('_id');
+
+      return duplicate
+        ? { status: 'conflict', message: 'Another contact already uses one of these emails' }
+        : RESTORE_OK;
+    },
+    // Purged contacts leave no dangling references: their notes go with them and
+    // deals, conversations, tasks and smart lists simply lose the link.
+    beforePurge: async (ids) => {
+      await Promise.all([
+        ContactNote.deleteMany({ contactId: { $in: ids } }),
+        Deal.updateMany({ contactId: { $in: ids } }, { contactId: null }),
+        Conversation.updateMany({ contactId: { $in: ids } }, { contactId: null }),
+        Task.updateMany({ contactId: { $in: ids } }, { contactId: null }),
+        TaskSeries.updateMany({ contactId: { $in: ids } }, { contactId: null }),
+        ContactList.updateMany({ contactIds: { $in: ids } }, { $pull: { contactIds: { $in: ids } } }),
+      ]);
+    },
+  },
+  'contact-notes': {
+    model: ContactNote,
+    teamScoped: false,
+    select: '_id ownerId contactId body deletedAt deletedBy',
+    searchFields: ['body'],
+    checkRestore: (doc) => requireLiveContact(doc.contactId, 'note'),
+  },
+  conversations: {
+    model: Conversation,
+    teamScoped: false,
+    select: '_id ownerId contactId method direction subject from to sentAt deletedAt deletedBy',
+    searchFields: ['subject', 'from', 'to'],
+    checkRestore: async (doc) => {
+      const contactCheck = await requireLiveContact(doc.contactId, 'conversation');
+      if (contactCheck.status !== 'ok' || !doc.externalMessageId) return contactCheck;
+
+      // Synced messages are unique per mailbox message id while live; a re-sync may have re-created it.
+      const duplicate = await Conversation.exists({
+        _id: { $ne: doc._id },
+        ownerId: doc.ownerId,
+        method: doc.method,
+        externalMessageId: doc.externalMessageId,
+        deletedAt: null,
+      });
+
+      return duplicate
+        ? { status: 'conflict', message: 'This message has already been synced again' }
+        : RESTORE_OK;
+    },
+  },
+  deals: {
+    model: Deal,
+    teamScoped: true,
+    select: '_id ownerId pipelineId stageId title amount status contactId deletedAt deletedBy',
+    searchFields: ['title'],
+    checkRestore: async (doc) => {
+      const pipeline = await Pipeline.findOne({ _id: doc.pipelineId, deletedAt: null }).select('_id stages');
+      if (!pipeline) {
+        return { status: 'conflict', message: 'The pipeline of this deal is deleted; restore it first' };
+      }
+      if (!pipeline.stages.some((stage) => String(stage._id) === String(doc.stageId))) {
+        return { status: 'conflict', message: 'The stage of this deal no longer exists' };
+      }
+      return RESTORE_OK;
+    },
+    beforePurge: async (ids) => {
+      await Promise.all([
+        DealStageHistory.deleteMany({ dealId: { $in: ids } }),
+        Task.updateMany({ dealId: { $in: ids } }, { dealId: null }),
+        TaskSeries.updateMany({ dealId: { $in: ids } }, { dealId: null }),
+      ]);
+    },
+  },
+  pipelines: {
+    model: Pipeline,
+    teamScoped: false,
+    select: '_id ownerId name stages deletedAt deletedBy',
+    searchFields: ['name'],
+    checkRestore: async (doc) => {
+      const duplicate = await Pipeline.exists({
+        _id: { $ne: doc._id },
+        ownerId: doc.ownerId,
+        name: createExactRegex(doc.name),
+        deletedAt: null,
+      });
+
+      return duplicate
+        ? { status: 'conflict', message: 'A pipeline with this name already exists' }
+        : RESTORE_OK;
+    },
+    // Deals removed together with the pipeline share its deletedAt timestamp.
+    afterRestore: async (doc, restoredBy) => {
+      await Deal.updateMany(
+        { pipelineId: doc._id, deletedAt: doc.deletedAt },
+        { deletedAt: null, deletedBy: null, updatedBy: restoredBy }
+      );
+    },
+  },
+  products: {
+    model: Product,
+    teamScoped: true,
+    select: '_id ownerId name sku unitPrice currency isActive deletedAt deletedBy',
+    searchFields: ['name', 'sku'],
+    checkRestore: async (doc) => {
+      if (!doc.sku) return RESTORE_OK;
+
+      const duplicate = await Product.exists({
+        _id: { $ne: doc._id },
+        ownerId: { $in: await resolveOwnerTeamIds(String(doc.ownerId)) },
+        sku: doc.sku,
+        deletedAt: null,
+      });
+
+      return duplicate
+        ? { status: 'conflict', message: 'Another product already uses this SKU' }
+        : RESTORE_OK;
+    },
+    // Line items keep their name, SKU and prices; they only lose the link to the catalog.
+    beforePurge: async (ids) => {
+      await Deal.updateMany(
+        { 'lineItems.productId': { $in: ids } },
+        { $set: { 'lineItems.$[item].productId': null } },
+        { arrayFilters: [{ 'item.productId': { $in: ids } }] }
+      );
+    },
+  },
+  'smart-lists': {
+    model: ContactList,
+    teamScoped: false,
+    select: '_id ownerId name description type deletedAt deletedBy',
+    searchFields: ['name', 'description'],
+    checkRestore: async (doc) => {
+      const duplicate = await ContactList.exists({
+        _id: { $ne: doc._id },
+        ownerId: doc.ownerId,
+        name: doc.name,
+        deletedAt: null,
+      });
+
+      return duplicate
+        ? { status: 'conflict', message: 'A smart list with this name already exists' }
+        : RESTORE_OK;
+    },
+  },
+  tags: {
+    model: Tag,
+    teamScoped: false,
+    select: '_id ownerId name color description deletedAt deletedBy',
+    searchFields: ['name', 'description'],
+    checkRestore: async (doc) => {
+      const duplicate = await Tag.exists({
+        _id: { $ne: doc._id },
+        ownerId: doc.ownerId,
+        name: createExactRegex(doc.name),
+        deletedAt: null,
+      });
+
+      return duplicate
+        ? { status: 'conflict', message: 'A tag with this name already exists' }
+        : RESTORE_OK;
+    },
+  },
+  tasks: {
+    model: Task,
+    teamScoped: false,
+    select: '_id ownerId title status priority dueDate assignedTo contactId dealId parentTaskId deletedAt deletedBy',
+    searchFields: ['title', 'description'],
+    beforePurge: async (ids) => {
+      // Subtasks of a purged task become standalone tasks.
+      await Promise.all([
+        TaskReminderDelivery.deleteMany({ taskId: { $in: ids } }),
+        Task.updateMany({ parentTaskId: { $in: ids } }, { parentTaskId: null }),
+      ]);
+    },
+  },
+};
+
+export const getTrashRetentionDays = () => {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+const resolveOwnerIds = (config: TrashResourceConfig, scope: TrashScope) => (
+  config.teamScoped ? scope.deleteOwnerIds : [scope.userId]
+);
+
+const withPurgeAt = (item: any, retentionDays: number) => ({
+  ...item,
+  purgeAt: item.deletedAt ? new Date(new Date(item.deletedAt).getTime() + retentionDays * DAY_MS) : null,
+});
+
+export const getTrashSummary = async (scope: TrashScope) => {
+  const entries = await Promise.all(
+    (Object.keys(TRASH_RESOURCES) as TrashResourceType[]).map(async (resource) => {
+      const config = TRASH_RESOURCES[resource];
+      const count = await config.model.countDocuments({
+        ownerId: { $in: resolveOwnerIds(config, scope) },
+        deletedAt: { $ne: null },
+      });
+      return [resource, count] as const;
+    })
+  );
+
+  return {
+    retentionDays: getTrashRetentionDays(),
+    counts: Object.fromEntries(entries) as Record<TrashResourceType, number>,
+  };
+};
+
+export const listTrash = async (resource: TrashResourceType, scope: TrashScope, query: ListTrashQuery) => {
+  const config = TRASH_RESOURCES[resource];
+  const conditions: Record<string, unknown>[] = [{
+    ownerId: { $in: resolveOwnerIds(config, scope) },
+    deletedAt: { $ne: null },
+  }];
+
+  if (query.search) {
+    const regex = createRegex(query.search);
+    conditions.push({ $or: config.searchFields.map((field) => ({ [field]: regex })) });
+  }
+
+  const filter = conditions.length === 1 ? conditions[0] : { $and: conditions };
+  const skip = (query.page - 1) * query.limit;
+  const retentionDays = getTrashRetentionDays();
+
+  const [items, total] = await Promise.all([
+    config.model.find(filter)
+      .select(config.select)
+      .sort({ deletedAt: -1 })
+      .skip(skip)
+      .limit(query.limit)
+      .populate(DELETED_BY_POPULATE)
+      .lean(),
+    config.model.countDocuments(filter),
+  ]);
+
+  const totalPages = Math.ceil(total / query.limit);
+
+  return {
+    items: items.map((item) => withPurgeAt(item, retentionDays)),
+    retentionDays,
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      totalPages,
+      hasNextPage: query.page < totalPages,
+      hasPrevPage: query.page > 1,
+    },
+  };
+};
+
+export const restoreTrashItem = async (
+  resource: TrashResourceType,
+  scope: TrashScope,
+  id: string,
+  restoredBy: string
+) => {
+  const config = TRASH_RESOURCES[resource];
+  const doc = await config.model.findOne({
+    _id: id,
+    ownerId: { $in: resolveOwnerIds(config, scope) },
+    deletedAt: { $ne: null },
+  }).lean();
+
+  if (!doc) {
+    return { status: 'not_found' as const };
+  }
+
+  if (config.checkRestore) {
+    const check = await config.checkRestore(doc);
+    if (check.status === 'conflict') {
+      return { status: 'conflict' as const, message: check.message };
+    }
+  }
+
+  const restored = await config.model.findOneAndUpdate(
+    { _id: id, deletedAt: { $ne: null } },
+    { deletedAt: null, deletedBy: null, updatedBy: restoredBy },
+    { new: true }
+  );
+
+  if (!restored) {
+    return { status: 'not_found' as const };
+  }
+
+  if (config.afterRestore) {
+    await config.afterRestore(doc, restoredBy);
+  }
+
+  return { status: 'ok' as const, item: restored };
+};
+
+export const purgeExpiredTrash = async (): Promise<TrashPurgeResult> => {
+  const cutoff = new Date(Date.now() - getTrashRetentionDays() * DAY_MS);
+  const result = {} as TrashPurgeResult;
+
+  for (const resource of Object.keys(TRASH_RESOURCES) as TrashResourceType[]) {
+    const config = TRASH_RESOURCES[resource];
+    result[resource] = 0;
+
+    for (;;) {
+      const expired = await config.model.find({ deletedAt: { $ne: null, $lt: cutoff } })
+        .select('_id')
+        .limit(PURGE_BATCH_SIZE)
+        .lean();
+      if (!expired.length) break;
+
+      const ids = expired.map((doc: any) => doc._id as Types.ObjectId);
+      if (config.beforePurge) {
+        await config.beforePurge(ids);
+      }
+      const deleted = await config.model.deleteMany({ _id: { $in: ids } });
+      result[resource] += deleted.deletedCount ?? 0;
+
+      if (expired.length < PURGE_BATCH_SIZE) break;
+    }
+  }
+
+  return result;
+};
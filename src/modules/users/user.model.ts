@@ -1,6 +1,7 @@
 import { Schema, model } from 'mongoose';
 import bcrypt from 'bcryptjs';
 import { IUser } from './user.interface';
+import { auditPlugin } from '../audit/audit.plugin';
 
 
 
@@ -49,4 +50,6 @@ userSchema.methods.comparePassword = function(candidatePassword: string): Promis
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+userSchema.plugin(auditPlugin, { resourceType: 'user', redactFields: ['password'] });
+
 export const User = model<IUser>('User', userSchema);